@@ -4,8 +4,10 @@ pragma solidity ^0.8.19;
 import "@openzeppelin/contracts/security/ReentrancyGuard.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
 import "@openzeppelin/contracts/security/Pausable.sol";
+import "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
 
-contract DonationPlatform is ReentrancyGuard, Ownable, Pausable {
+contract DonationPlatform is ReentrancyGuard, Ownable, Pausable, EIP712 {
     struct Request {
         uint256 id;
         address requester;
@@ -16,6 +18,29 @@ contract DonationPlatform is ReentrancyGuard, Ownable, Pausable {
         bool isActive;
         bool isApproved;
         uint256 createdAt;
+        uint256 deadline; // 0 = open-ended
+    }
+
+    // A tranche of a request, released only after verifiers approve its proof
+    struct Milestone {
+        uint256 amount;
+        string description;
+        bytes32 proofHash;
+        uint256 round;
+        uint256 approvalVotes;
+        uint256 rejectionVotes;
+        uint256 voteCount;
+        bool approved;
+        bool released;
+    }
+
+    // A verifier's EIP-712 signed vote, submitted on their behalf by a relayer
+    struct SignedVote {
+        uint256 requestId;
+        bool approve;
+        address verifier;
+        uint256 deadline;
+        bytes signature;
     }
 
     struct Donation {
@@ -33,9 +58,28 @@ contract DonationPlatform is ReentrancyGuard, Ownable, Pausable {
     mapping(uint256 => mapping(address => bool)) public hasVoted;
     mapping(uint256 => uint256) public approvalVotes;
     mapping(uint256 => uint256) public rejectionVotes;
+    mapping(uint256 => uint256) public voteCount;
+    mapping(address => uint256) public verifierWeights;
+    mapping(uint256 => Milestone[]) public requestMilestones;
+    mapping(uint256 => uint256) public releasedAmount;
+    // keccak256(requestId, milestoneIndex, round, verifier) => voted
+    mapping(bytes32 => bool) private milestoneVoted;
+    // Per-donor net contributions, the basis for refunds
+    mapping(uint256 => mapping(address => uint256)) public contributions;
+    mapping(uint256 => uint256) public totalDonated;
+    mapping(uint256 => bool) public cancelled;
+    // Escrow left for a request when its first refund is claimed
+    mapping(uint256 => uint256) public refundPool;
+    mapping(uint256 => bool) public refundPoolSet;
+
+    bytes32 public constant VOTE_TYPEHASH =
+        keccak256("Vote(uint256 requestId,bool approve,address verifier,uint256 deadline)");
 
     uint256 public nextRequestId = 1;
-    uint256 public constant MINIMUM_VOTES = 3;
+    // Quorum policy; the indexer mirrors it into the governance_settings table
+    uint256 public minimumVotes = 3;
+    uint256 public approvalThresholdBps = 5000; // approve when approvals > 50% of voting weight
+    bool public useVerifierWeights = false;
     uint256 public platformFee = 250; // 2.5% in basis points
     uint256 public constant MAX_PLATFORM_FEE = 1000; // 10% max fee
 
@@ -52,11 +96,59 @@ contract DonationPlatform is ReentrancyGuard, Ownable, Pausable {
         uint256 amount
     );
 
+    event VoteCast(
+        uint256 indexed requestId,
+        address indexed verifier,
+        bool approve
+    );
+
+    event SignedVoteSkipped(
+        uint256 indexed requestId,
+        address indexed verifier,
+        string reason
+    );
+
     event RequestApproved(uint256 indexed requestId);
     event RequestRejected(uint256 indexed requestId);
+    event RequestCancelled(uint256 indexed requestId);
+    event RefundClaimed(
+        uint256 indexed requestId,
+        address indexed donor,
+        uint256 amount
+    );
     event FundsWithdrawn(uint256 indexed requestId, uint256 amount);
     event VerifierAdded(address indexed verifier);
     event VerifierRemoved(address indexed verifier);
+    event QuorumPolicyUpdated(
+        uint256 minimumVotes,
+        uint256 approvalThresholdBps,
+        bool useVerifierWeights
+    );
+    event VerifierWeightUpdated(address indexed verifier, uint256 weight);
+    event MilestoneAdded(
+        uint256 indexed requestId,
+        uint256 indexed milestoneIndex,
+        uint256 amount,
+        string description
+    );
+    event MilestoneProofSubmitted(
+        uint256 indexed requestId,
+        uint256 indexed milestoneIndex,
+        bytes32 proofHash
+    );
+    event MilestoneVoteCast(
+        uint256 indexed requestId,
+        uint256 indexed milestoneIndex,
+        address indexed verifier,
+        bool approve
+    );
+    event MilestoneApproved(uint256 indexed requestId, uint256 indexed milestoneIndex);
+    event MilestoneRejected(uint256 indexed requestId, uint256 indexed milestoneIndex);
+    event MilestoneReleased(
+        uint256 indexed requestId,
+        uint256 indexed milestoneIndex,
+        uint256 amount
+    );
 
     modifier onlyVerifier() {
         require(verifiers[msg.sender] || msg.sender == owner(), "Not a verifier");
@@ -73,7 +165,12 @@ contract DonationPlatform is ReentrancyGuard, Ownable, Pausable {
         _;
     }
 
-    constructor() {
+    modifier milestoneExists(uint256 _requestId, uint256 _index) {
+        require(_index < requestMilestones[_requestId].length, "Milestone does not exist");
+        _;
+    }
+
+    constructor() EIP712("DonationPlatform", "1") {
         // Add contract deployer as first verifier
         verifiers[msg.sender] = true;
     }
@@ -81,11 +178,51 @@ contract DonationPlatform is ReentrancyGuard, Ownable, Pausable {
     function createRequest(
         string memory _title,
         string memory _description,
-        uint256 _amountNeeded
+        uint256 _amountNeeded,
+        uint256 _deadline
+    ) external whenNotPaused {
+        _createRequest(_title, _description, _amountNeeded, _deadline);
+    }
+
+    // amountNeeded is the sum of the milestone amounts
+    function createRequestWithMilestones(
+        string memory _title,
+        string memory _description,
+        uint256[] memory _amounts,
+        string[] memory _descriptions,
+        uint256 _deadline
     ) external whenNotPaused {
+        require(_amounts.length > 0, "At least one milestone required");
+        require(_amounts.length == _descriptions.length, "Milestone length mismatch");
+
+        uint256 total = 0;
+        for (uint256 i = 0; i < _amounts.length; i++) {
+            require(_amounts[i] > 0, "Milestone amount must be greater than 0");
+            require(bytes(_descriptions[i]).length > 0, "Milestone description cannot be empty");
+            total += _amounts[i];
+        }
+
+        uint256 requestId = _createRequest(_title, _description, total, _deadline);
+
+        for (uint256 i = 0; i < _amounts.length; i++) {
+            Milestone storage milestone = requestMilestones[requestId].push();
+            milestone.amount = _amounts[i];
+            milestone.description = _descriptions[i];
+
+            emit MilestoneAdded(requestId, i, _amounts[i], _descriptions[i]);
+        }
+    }
+
+    function _createRequest(
+        string memory _title,
+        string memory _description,
+        uint256 _amountNeeded,
+        uint256 _deadline
+    ) internal returns (uint256) {
         require(bytes(_title).length > 0, "Title cannot be empty");
         require(bytes(_description).length > 0, "Description cannot be empty");
         require(_amountNeeded > 0, "Amount needed must be greater than 0");
+        require(_deadline == 0 || _deadline > block.timestamp, "Deadline must be in the future");
 
         uint256 requestId = nextRequestId++;
         
@@ -98,12 +235,14 @@ contract DonationPlatform is ReentrancyGuard, Ownable, Pausable {
             amountRaised: 0,
             isActive: true,
             isApproved: false,
-            createdAt: block.timestamp
+            createdAt: block.timestamp,
+            deadline: _deadline
         });
 
         userRequests[msg.sender].push(requestId);
 
         emit RequestCreated(requestId, msg.sender, _title, _amountNeeded);
+        return requestId;
     }
 
     function voteOnRequest(uint256 _requestId, bool _approve) 
@@ -116,19 +255,67 @@ contract DonationPlatform is ReentrancyGuard, Ownable, Pausable {
         require(requests[_requestId].isActive, "Request is not active");
         require(!requests[_requestId].isApproved, "Request already approved");
 
-        hasVoted[_requestId][msg.sender] = true;
+        _castVote(_requestId, msg.sender, _approve);
+    }
+
+    // Relays a batch of signed votes so verifiers don't pay gas. Invalid entries
+    // (expired, bad signature, already voted, request decided earlier in the
+    // batch) are skipped with SignedVoteSkipped rather than reverting the batch.
+    function voteBySig(SignedVote[] calldata _votes) external whenNotPaused {
+        for (uint256 i = 0; i < _votes.length; i++) {
+            SignedVote calldata vote = _votes[i];
+            string memory reason = _signedVoteError(vote);
+
+            if (bytes(reason).length > 0) {
+                emit SignedVoteSkipped(vote.requestId, vote.verifier, reason);
+                continue;
+            }
+
+            _castVote(vote.requestId, vote.verifier, vote.approve);
+        }
+    }
 
+    function hashVote(uint256 _requestId, bool _approve, address _verifier, uint256 _deadline)
+        public
+        view
+        returns (bytes32)
+    {
+        return _hashTypedDataV4(
+            keccak256(abi.encode(VOTE_TYPEHASH, _requestId, _approve, _verifier, _deadline))
+        );
+    }
+
+    function _signedVoteError(SignedVote calldata _vote) internal view returns (string memory) {
+        if (block.timestamp > _vote.deadline) return "Signature expired";
+        if (!verifiers[_vote.verifier]) return "Not a verifier";
+        if (_vote.requestId == 0 || _vote.requestId >= nextRequestId) return "Request does not exist";
+        if (!requests[_vote.requestId].isActive) return "Request is not active";
+        if (requests[_vote.requestId].isApproved) return "Request already approved";
+        if (hasVoted[_vote.requestId][_vote.verifier]) return "Already voted on this request";
+
+        bytes32 digest = hashVote(_vote.requestId, _vote.approve, _vote.verifier, _vote.deadline);
+        (address signer, ECDSA.RecoverError err) = ECDSA.tryRecover(digest, _vote.signature);
+        if (err != ECDSA.RecoverError.NoError || signer != _vote.verifier) return "Invalid signature";
+
+        return "";
+    }
+
+    function _castVote(uint256 _requestId, address _verifier, bool _approve) internal {
+        hasVoted[_requestId][_verifier] = true;
+        voteCount[_requestId]++;
+
+        uint256 weight = voteWeight(_verifier);
         if (_approve) {
-            approvalVotes[_requestId]++;
+            approvalVotes[_requestId] += weight;
         } else {
-            rejectionVotes[_requestId]++;
+            rejectionVotes[_requestId] += weight;
         }
 
+        emit VoteCast(_requestId, _verifier, _approve);
+
         // Check if we have enough votes to make a decision
-        uint256 totalVotes = approvalVotes[_requestId] + rejectionVotes[_requestId];
-        
-        if (totalVotes >= MINIMUM_VOTES) {
-            if (approvalVotes[_requestId] > rejectionVotes[_requestId]) {
+        if (voteCount[_requestId] >= minimumVotes) {
+            if (_meetsThreshold(approvalVotes[_requestId], rejectionVotes[_requestId])) {
                 requests[_requestId].isApproved = true;
                 emit RequestApproved(_requestId);
             } else {
@@ -138,6 +325,108 @@ contract DonationPlatform is ReentrancyGuard, Ownable, Pausable {
         }
     }
 
+    function _meetsThreshold(uint256 _approvals, uint256 _rejections) internal view returns (bool) {
+        return _approvals * 10000 > (_approvals + _rejections) * approvalThresholdBps;
+    }
+
+    // Submitting (or resubmitting after a rejection) starts a new voting round
+    function submitMilestoneProof(uint256 _requestId, uint256 _index, bytes32 _proofHash)
+        external
+        onlyRequester(_requestId)
+        requestExists(_requestId)
+        milestoneExists(_requestId, _index)
+        whenNotPaused
+    {
+        require(requests[_requestId].isApproved, "Request not approved");
+        require(_proofHash != bytes32(0), "Proof hash cannot be empty");
+
+        Milestone storage milestone = requestMilestones[_requestId][_index];
+        require(!milestone.approved, "Milestone already approved");
+
+        milestone.proofHash = _proofHash;
+        milestone.round++;
+        milestone.approvalVotes = 0;
+        milestone.rejectionVotes = 0;
+        milestone.voteCount = 0;
+
+        emit MilestoneProofSubmitted(_requestId, _index, _proofHash);
+    }
+
+    function voteOnMilestone(uint256 _requestId, uint256 _index, bool _approve)
+        external
+        onlyVerifier
+        requestExists(_requestId)
+        milestoneExists(_requestId, _index)
+        whenNotPaused
+    {
+        Milestone storage milestone = requestMilestones[_requestId][_index];
+        require(milestone.proofHash != bytes32(0), "No proof submitted");
+        require(!milestone.approved, "Milestone already approved");
+
+        bytes32 voteKey = keccak256(abi.encode(_requestId, _index, milestone.round, msg.sender));
+        require(!milestoneVoted[voteKey], "Already voted on this milestone");
+
+        milestoneVoted[voteKey] = true;
+        milestone.voteCount++;
+
+        uint256 weight = voteWeight(msg.sender);
+        if (_approve) {
+            milestone.approvalVotes += weight;
+        } else {
+            milestone.rejectionVotes += weight;
+        }
+
+        emit MilestoneVoteCast(_requestId, _index, msg.sender, _approve);
+
+        // Same quorum policy as request approval
+        if (milestone.voteCount >= minimumVotes) {
+            if (_meetsThreshold(milestone.approvalVotes, milestone.rejectionVotes)) {
+                milestone.approved = true;
+                emit MilestoneApproved(_requestId, _index);
+            } else {
+                // The requester has to submit new proof
+                milestone.proofHash = bytes32(0);
+                emit MilestoneRejected(_requestId, _index);
+            }
+        }
+    }
+
+    // Milestones are released in order; a partially funded request releases what it has
+    function releaseMilestone(uint256 _requestId, uint256 _index)
+        external
+        onlyRequester(_requestId)
+        requestExists(_requestId)
+        milestoneExists(_requestId, _index)
+        nonReentrant
+        whenNotPaused
+    {
+        require(!isRefundable(_requestId), "Request is refundable");
+
+        Milestone storage milestone = requestMilestones[_requestId][_index];
+        require(milestone.approved, "Milestone not approved");
+        require(!milestone.released, "Milestone already released");
+        require(_index == 0 || requestMilestones[_requestId][_index - 1].released, "Previous milestone not released");
+
+        uint256 available = requests[_requestId].amountRaised - releasedAmount[_requestId];
+        uint256 amount = milestone.amount < available ? milestone.amount : available;
+        require(amount > 0, "No funds to release");
+
+        milestone.released = true;
+        releasedAmount[_requestId] += amount;
+
+        payable(msg.sender).transfer(amount);
+
+        emit MilestoneReleased(_requestId, _index, amount);
+        emit FundsWithdrawn(_requestId, amount);
+    }
+
+    function voteWeight(address _verifier) public view returns (uint256) {
+        if (!useVerifierWeights || verifierWeights[_verifier] == 0) {
+            return 1;
+        }
+        return verifierWeights[_verifier];
+    }
+
     function donate(uint256 _requestId) 
         external 
         payable 
@@ -148,6 +437,10 @@ contract DonationPlatform is ReentrancyGuard, Ownable, Pausable {
         require(msg.value > 0, "Donation amount must be greater than 0");
         require(requests[_requestId].isActive, "Request is not active");
         require(requests[_requestId].isApproved, "Request not approved");
+        require(
+            requests[_requestId].deadline == 0 || block.timestamp <= requests[_requestId].deadline,
+            "Request deadline has passed"
+        );
         require(
             requests[_requestId].amountRaised < requests[_requestId].amountNeeded,
             "Request already fully funded"
@@ -158,6 +451,8 @@ contract DonationPlatform is ReentrancyGuard, Ownable, Pausable {
         uint256 netDonation = donationAmount - fee;
 
         requests[_requestId].amountRaised += netDonation;
+        contributions[_requestId][msg.sender] += netDonation;
+        totalDonated[_requestId] += netDonation;
 
         requestDonations[_requestId].push(Donation({
             requestId: _requestId,
@@ -189,6 +484,8 @@ contract DonationPlatform is ReentrancyGuard, Ownable, Pausable {
         whenNotPaused 
     {
         require(requests[_requestId].isApproved, "Request not approved");
+        require(requestMilestones[_requestId].length == 0, "Use releaseMilestone");
+        require(!isRefundable(_requestId), "Request is refundable");
         require(requests[_requestId].amountRaised > 0, "No funds to withdraw");
 
         uint256 amount = requests[_requestId].amountRaised;
@@ -199,6 +496,61 @@ contract DonationPlatform is ReentrancyGuard, Ownable, Pausable {
         emit FundsWithdrawn(_requestId, amount);
     }
 
+    // Admin rejection of a request that may already hold donations
+    function cancelRequest(uint256 _requestId) external onlyOwner requestExists(_requestId) {
+        require(!cancelled[_requestId], "Request already cancelled");
+
+        cancelled[_requestId] = true;
+        requests[_requestId].isActive = false;
+        requests[_requestId].isApproved = false;
+
+        emit RequestCancelled(_requestId);
+    }
+
+    // Cancelled, or past its deadline without reaching the goal
+    function isRefundable(uint256 _requestId) public view returns (bool) {
+        Request storage request = requests[_requestId];
+        if (cancelled[_requestId]) return true;
+        return request.deadline != 0
+            && block.timestamp > request.deadline
+            && totalDonated[_requestId] < request.amountNeeded;
+    }
+
+    // Donors get back their share of whatever is still in escrow (net of platform fees)
+    function claimRefund(uint256 _requestId)
+        external
+        requestExists(_requestId)
+        nonReentrant
+    {
+        require(isRefundable(_requestId), "Request is not refundable");
+
+        uint256 contribution = contributions[_requestId][msg.sender];
+        require(contribution > 0, "Nothing to refund");
+
+        if (!refundPoolSet[_requestId]) {
+            refundPoolSet[_requestId] = true;
+            refundPool[_requestId] = requests[_requestId].amountRaised - releasedAmount[_requestId];
+            requests[_requestId].isActive = false;
+        }
+
+        uint256 amount = (contribution * refundPool[_requestId]) / totalDonated[_requestId];
+        contributions[_requestId][msg.sender] = 0;
+        require(amount > 0, "Nothing to refund");
+
+        payable(msg.sender).transfer(amount);
+
+        emit RefundClaimed(_requestId, msg.sender, amount);
+    }
+
+    function getRefundableAmount(uint256 _requestId, address _donor) external view returns (uint256) {
+        if (!isRefundable(_requestId) || totalDonated[_requestId] == 0) return 0;
+
+        uint256 pool = refundPoolSet[_requestId]
+            ? refundPool[_requestId]
+            : requests[_requestId].amountRaised - releasedAmount[_requestId];
+        return (contributions[_requestId][_donor] * pool) / totalDonated[_requestId];
+    }
+
     function addVerifier(address _verifier) external onlyOwner {
         require(_verifier != address(0), "Invalid verifier address");
         require(!verifiers[_verifier], "Already a verifier");
@@ -215,6 +567,29 @@ contract DonationPlatform is ReentrancyGuard, Ownable, Pausable {
         emit VerifierRemoved(_verifier);
     }
 
+    function setQuorumPolicy(
+        uint256 _minimumVotes,
+        uint256 _approvalThresholdBps,
+        bool _useVerifierWeights
+    ) external onlyOwner {
+        require(_minimumVotes > 0, "Minimum votes must be greater than 0");
+        require(_approvalThresholdBps < 10000, "Threshold must be below 100%");
+
+        minimumVotes = _minimumVotes;
+        approvalThresholdBps = _approvalThresholdBps;
+        useVerifierWeights = _useVerifierWeights;
+
+        emit QuorumPolicyUpdated(_minimumVotes, _approvalThresholdBps, _useVerifierWeights);
+    }
+
+    function setVerifierWeight(address _verifier, uint256 _weight) external onlyOwner {
+        require(verifiers[_verifier], "Not a verifier");
+        require(_weight > 0, "Weight must be greater than 0");
+
+        verifierWeights[_verifier] = _weight;
+        emit VerifierWeightUpdated(_verifier, _weight);
+    }
+
     function setPlatformFee(uint256 _fee) external onlyOwner {
         require(_fee <= MAX_PLATFORM_FEE, "Fee exceeds maximum");
         platformFee = _fee;
@@ -263,6 +638,21 @@ contract DonationPlatform is ReentrancyGuard, Ownable, Pausable {
         return (approvalVotes[_requestId], rejectionVotes[_requestId]);
     }
 
+    function getMilestones(uint256 _requestId)
+        external
+        view
+        requestExists(_requestId)
+        returns (Milestone[] memory)
+    {
+        return requestMilestones[_requestId];
+    }
+
+    function hasVotedOnMilestone(uint256 _requestId, uint256 _index, address _user) external view returns (bool) {
+        if (_index >= requestMilestones[_requestId].length) return false;
+        uint256 round = requestMilestones[_requestId][_index].round;
+        return milestoneVoted[keccak256(abi.encode(_requestId, _index, round, _user))];
+    }
+
     function isVerifier(address _address) external view returns (bool) {
         return verifiers[_address];
     }
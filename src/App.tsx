@@ -13,6 +13,7 @@ import { RequestDetailsPage } from './pages/RequestDetailsPage';
 import { DonorDashboard } from './components/dashboard/DonorDashboard';
 import { RequesterDashboard } from './components/dashboard/RequesterDashboard';
 import { VerifierDashboard } from './components/dashboard/VerifierDashboard';
+import { VerifierApplicationDashboard } from './components/dashboard/VerifierApplicationDashboard';
 import { AdminDashboard } from './components/dashboard/AdminDashboard';
 import { ProtectedRoute } from './components/ProtectedRoute';
 
@@ -79,6 +80,8 @@ function App() {
         return <RequesterDashboard />;
       case 'verifier':
         return <VerifierDashboard />;
+      case 'verifier_pending':
+        return <VerifierApplicationDashboard />;
       case 'admin':
         return <AdminDashboard />;
       default:
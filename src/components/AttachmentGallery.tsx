@@ -0,0 +1,226 @@
+import React, { useEffect, useState } from 'react';
+import { FileText, Paperclip, ShieldCheck, ShieldAlert, ExternalLink, Trash2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { RequestAttachment } from '../types';
+import {
+  deleteRequestAttachment,
+  fetchRequestAttachments,
+  getAttachmentUrl,
+  isImageAttachment,
+  verifyAttachmentIntegrity,
+} from '../lib/attachments';
+import { formatFileSize } from '../lib/files';
+
+interface AttachmentGalleryProps {
+  requestId: string;
+  title?: string;
+  compact?: boolean;
+  canDelete?: boolean;
+}
+
+type IntegrityState = 'checking' | 'ok' | 'mismatch';
+
+export const AttachmentGallery: React.FC<AttachmentGalleryProps> = ({
+  requestId,
+  title = 'Evidence & Documents',
+  compact = false,
+  canDelete = false,
+}) => {
+  const [attachments, setAttachments] = useState<RequestAttachment[]>([]);
+  const [urls, setUrls] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [previewId, setPreviewId] = useState<string | null>(null);
+  const [integrity, setIntegrity] = useState<Record<string, IntegrityState>>({});
+
+  useEffect(() => {
+    loadAttachments();
+  }, [requestId]);
+
+  const loadAttachments = async () => {
+    try {
+      const data = await fetchRequestAttachments(requestId);
+      setAttachments(data);
+
+      const signed = await Promise.all(
+        data.map(async (attachment) => [attachment.id, await getAttachmentUrl(attachment.storage_path)] as const)
+      );
+      setUrls(Object.fromEntries(signed.filter(([, url]) => url !== null)) as Record<string, string>);
+    } catch (error) {
+      console.error('Error fetching attachments:', error);
+      toast.error('Failed to load attachments');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleVerify = async (attachment: RequestAttachment) => {
+    setIntegrity((prev) => ({ ...prev, [attachment.id]: 'checking' }));
+    try {
+      const matches = await verifyAttachmentIntegrity(attachment);
+      setIntegrity((prev) => ({ ...prev, [attachment.id]: matches ? 'ok' : 'mismatch' }));
+      if (!matches) toast.error(`${attachment.file_name} does not match its recorded hash`);
+    } catch (error) {
+      console.error('Error verifying attachment:', error);
+      toast.error('Failed to verify attachment');
+      setIntegrity((prev) => {
+        const next = { ...prev };
+        delete next[attachment.id];
+        return next;
+      });
+    }
+  };
+
+  const handleDelete = async (attachment: RequestAttachment) => {
+    if (!window.confirm(`Remove ${attachment.file_name}?`)) return;
+
+    try {
+      await deleteRequestAttachment(attachment);
+      setAttachments((prev) => prev.filter((a) => a.id !== attachment.id));
+      toast.success('Attachment removed');
+    } catch (error) {
+      console.error('Error deleting attachment:', error);
+      toast.error('Failed to remove attachment');
+    }
+  };
+
+  if (loading) {
+    return <div className="text-sm text-gray-500">Loading attachments...</div>;
+  }
+
+  if (attachments.length === 0) {
+    return compact ? (
+      <p className="text-xs text-gray-500 italic">No supporting documents attached</p>
+    ) : null;
+  }
+
+  const images = attachments.filter(isImageAttachment);
+  const documents = attachments.filter((attachment) => !isImageAttachment(attachment));
+
+  const renderIntegrity = (attachment: RequestAttachment) => {
+    const state = integrity[attachment.id];
+    if (state === 'ok') {
+      return (
+        <span className="inline-flex items-center text-xs text-green-700">
+          <ShieldCheck className="h-3 w-3 mr-1" />
+          Hash verified
+        </span>
+      );
+    }
+    if (state === 'mismatch') {
+      return (
+        <span className="inline-flex items-center text-xs text-red-700">
+          <ShieldAlert className="h-3 w-3 mr-1" />
+          Hash mismatch
+        </span>
+      );
+    }
+    return (
+      <button
+        onClick={() => handleVerify(attachment)}
+        disabled={state === 'checking'}
+        className="text-xs text-blue-600 hover:text-blue-800 disabled:opacity-50"
+        title={attachment.sha256}
+      >
+        {state === 'checking' ? 'Checking...' : `Verify ${attachment.sha256.slice(0, 10)}…`}
+      </button>
+    );
+  };
+
+  const renderDelete = (attachment: RequestAttachment) => canDelete && (
+    <button
+      onClick={() => handleDelete(attachment)}
+      className="text-gray-400 hover:text-red-600"
+      title="Remove attachment"
+    >
+      <Trash2 className="h-4 w-4" />
+    </button>
+  );
+
+  return (
+    <div className={compact ? 'mb-4' : 'mb-6'}>
+      <h3 className={`flex items-center font-semibold text-gray-900 ${compact ? 'text-sm mb-2' : 'text-lg mb-3'}`}>
+        <Paperclip className={compact ? 'h-4 w-4 mr-1' : 'h-5 w-5 mr-2'} />
+        {title} ({attachments.length})
+      </h3>
+
+      {images.length > 0 && (
+        <div className={`grid gap-3 mb-3 ${compact ? 'grid-cols-3' : 'grid-cols-2 md:grid-cols-3'}`}>
+          {images.map((attachment) => (
+            <div key={attachment.id} className="border border-gray-200 rounded-lg overflow-hidden">
+              {urls[attachment.id] ? (
+                <a href={urls[attachment.id]} target="_blank" rel="noopener noreferrer">
+                  <img
+                    src={urls[attachment.id]}
+                    alt={attachment.file_name}
+                    className={`w-full object-cover ${compact ? 'h-20' : 'h-40'}`}
+                  />
+                </a>
+              ) : (
+                <div className={`flex items-center justify-center bg-gray-100 text-xs text-gray-500 ${compact ? 'h-20' : 'h-40'}`}>
+                  Unavailable
+                </div>
+              )}
+              <div className="p-2 space-y-1">
+                <div className="flex items-center justify-between">
+                  <p className="text-xs text-gray-700 truncate" title={attachment.file_name}>
+                    {attachment.file_name}
+                  </p>
+                  {renderDelete(attachment)}
+                </div>
+                {renderIntegrity(attachment)}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {documents.length > 0 && (
+        <div className="space-y-2">
+          {documents.map((attachment) => (
+            <div key={attachment.id} className="border border-gray-200 rounded-lg">
+              <div className="flex items-center justify-between p-3">
+                <div className="flex items-center min-w-0">
+                  <FileText className="h-5 w-5 text-red-500 mr-2 flex-shrink-0" />
+                  <div className="min-w-0">
+                    <p className="text-sm text-gray-900 truncate">{attachment.file_name}</p>
+                    <p className="text-xs text-gray-500">{formatFileSize(attachment.size_bytes)}</p>
+                  </div>
+                </div>
+                <div className="flex items-center space-x-3 flex-shrink-0 ml-2">
+                  {renderIntegrity(attachment)}
+                  {urls[attachment.id] && (
+                    <>
+                      <button
+                        onClick={() => setPreviewId(previewId === attachment.id ? null : attachment.id)}
+                        className="text-xs text-blue-600 hover:text-blue-800"
+                      >
+                        {previewId === attachment.id ? 'Hide' : 'Preview'}
+                      </button>
+                      <a
+                        href={urls[attachment.id]}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-gray-500 hover:text-gray-700"
+                        title="Open in new tab"
+                      >
+                        <ExternalLink className="h-4 w-4" />
+                      </a>
+                    </>
+                  )}
+                  {renderDelete(attachment)}
+                </div>
+              </div>
+              {previewId === attachment.id && urls[attachment.id] && (
+                <iframe
+                  src={urls[attachment.id]}
+                  title={attachment.file_name}
+                  className={`w-full border-t border-gray-200 ${compact ? 'h-64' : 'h-96'}`}
+                />
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
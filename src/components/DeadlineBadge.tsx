@@ -0,0 +1,37 @@
+import React, { useEffect, useState } from 'react';
+import { Clock } from 'lucide-react';
+import { ENDING_SOON_MS, formatTimeLeft } from '../lib/deadlines';
+
+interface DeadlineBadgeProps {
+  deadline?: string | null;
+  className?: string;
+}
+
+export const DeadlineBadge: React.FC<DeadlineBadgeProps> = ({ deadline, className = '' }) => {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (!deadline) return;
+    const timer = setInterval(() => setNow(Date.now()), 60 * 1000);
+    return () => clearInterval(timer);
+  }, [deadline]);
+
+  if (!deadline) return null;
+
+  const remaining = new Date(deadline).getTime() - now;
+  const color = remaining <= 0
+    ? 'bg-gray-100 text-gray-700'
+    : remaining <= ENDING_SOON_MS
+      ? 'bg-red-100 text-red-700'
+      : 'bg-blue-100 text-blue-700';
+
+  return (
+    <span
+      className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${color} ${className}`}
+      title={`Deadline: ${new Date(deadline).toLocaleString()}`}
+    >
+      <Clock className="w-3 h-3 mr-1" />
+      {formatTimeLeft(remaining)}
+    </span>
+  );
+};
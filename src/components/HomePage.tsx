@@ -14,6 +14,7 @@ import {
 } from 'lucide-react';
 import { Request } from '../types';
 import { supabase } from '../lib/supabase';
+import { fetchPlatformStats } from '../lib/platformStats';
 import { useAuthStore } from '../stores/authStore';
 
 export const HomePage: React.FC = () => {
@@ -51,37 +52,15 @@ export const HomePage: React.FC = () => {
   };
 
   const fetchStats = async () => {
-    try {
-      // Get total donations
-      const { data: donations } = await supabase
-        .from('donations')
-        .select('amount')
-        .eq('status', 'completed');
-
-      // Get total requests
-      const { data: requests } = await supabase
-        .from('requests')
-        .select('id, status');
-
-      // Get total users
-      const { data: users } = await supabase
-        .from('users')
-        .select('id');
+    const platformStats = await fetchPlatformStats();
+    if (!platformStats) return;
 
-      const totalDonations = donations?.reduce((sum, d) => sum + d.amount, 0) || 0;
-      const totalRequests = requests?.length || 0;
-      const approvedRequests = requests?.filter(r => r.status === 'approved').length || 0;
-      const successRate = totalRequests > 0 ? (approvedRequests / totalRequests) * 100 : 0;
-
-      setStats({
-        totalDonations,
-        totalRequests,
-        totalUsers: users?.length || 0,
-        successRate
-      });
-    } catch (error) {
-      console.error('Error fetching stats:', error);
-    }
+    setStats({
+      totalDonations: platformStats.total_donated,
+      totalRequests: platformStats.total_requests,
+      totalUsers: platformStats.total_users,
+      successRate: platformStats.success_rate
+    });
   };
 
   return (
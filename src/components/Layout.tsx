@@ -18,6 +18,7 @@ import {
   MessageCircle
 } from 'lucide-react';
 import { Auth } from './Auth';
+import { NotificationBell } from './NotificationBell';
 
 interface LayoutProps {
   children: React.ReactNode;
@@ -45,6 +46,8 @@ export const Layout: React.FC<LayoutProps> = ({ children }) => {
         return 'bg-red-100 text-red-800';
       case 'verifier':
         return 'bg-blue-100 text-blue-800';
+      case 'verifier_pending':
+        return 'bg-yellow-100 text-yellow-800';
       case 'requester':
         return 'bg-green-100 text-green-800';
       case 'donor':
@@ -93,7 +96,7 @@ export const Layout: React.FC<LayoutProps> = ({ children }) => {
             </motion.div>
 
             {/* Desktop Menu */}
-            <div className="hidden md:flex items-center space-x-6">
+            <div className="hidden md:flex md:ml-auto items-center space-x-6">
               {/* Navigation Links */}
               <div className="flex items-center space-x-6">
                 {navigationLinks.map((link) => (
@@ -126,7 +129,7 @@ export const Layout: React.FC<LayoutProps> = ({ children }) => {
                       Welcome, {user.username}
                     </p>
                     <span className={`inline-block px-2 py-1 rounded-full text-xs font-medium ${getRoleColor(user.role)}`}>
-                      {user.role}
+                      {user.role.replace('_', ' ')}
                     </span>
                   </div>
 
@@ -181,11 +184,12 @@ export const Layout: React.FC<LayoutProps> = ({ children }) => {
               )}
             </div>
 
-            {/* Mobile Menu Button */}
-            <div className="md:hidden">
+            {/* Notifications + Mobile Menu Button */}
+            <div className="flex items-center space-x-2 md:ml-4">
+              {isAuthenticated && user && <NotificationBell user={user} />}
               <button
                 onClick={() => setMobileMenuOpen(!mobileMenuOpen)}
-                className="p-2 text-gray-600 hover:text-gray-800 transition-colors"
+                className="md:hidden p-2 text-gray-600 hover:text-gray-800 transition-colors"
               >
                 {mobileMenuOpen ? <X className="w-6 h-6" /> : <Menu className="w-6 h-6" />}
               </button>
@@ -236,7 +240,7 @@ export const Layout: React.FC<LayoutProps> = ({ children }) => {
                           Welcome, {user.username}
                         </p>
                         <span className={`inline-block px-2 py-1 rounded-full text-xs font-medium ${getRoleColor(user.role)}`}>
-                          {user.role}
+                          {user.role.replace('_', ' ')}
                         </span>
                       </div>
 
@@ -0,0 +1,24 @@
+import React from 'react';
+import { useRealtimeStore } from '../stores/realtimeStore';
+
+const STATUS_STYLES = {
+  idle: { dot: 'bg-gray-400', label: 'Offline' },
+  connecting: { dot: 'bg-yellow-400 animate-pulse', label: 'Connecting' },
+  live: { dot: 'bg-green-500', label: 'Live' },
+  reconnecting: { dot: 'bg-yellow-400 animate-pulse', label: 'Reconnecting' },
+};
+
+export const LiveIndicator: React.FC = () => {
+  const status = useRealtimeStore((state) => state.status);
+  const style = STATUS_STYLES[status];
+
+  return (
+    <span
+      className="inline-flex items-center space-x-1 text-xs text-gray-600"
+      title={status === 'live' ? 'Updates from other users appear automatically' : undefined}
+    >
+      <span className={`w-2 h-2 rounded-full ${style.dot}`} />
+      <span>{style.label}</span>
+    </span>
+  );
+};
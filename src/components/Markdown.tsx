@@ -0,0 +1,119 @@
+import React from 'react';
+
+interface MarkdownProps {
+  source: string;
+  className?: string;
+}
+
+// Inline syntax: `code`, **bold**, *italic* / _italic_, [text](https://...)
+// and bare https:// links. Order matters: code spans are matched first so
+// their contents are left alone.
+const INLINE_SYNTAX = /(`[^`\n]+`)|(\*\*[^*\n]+\*\*)|(\*[^*\n]+\*|_[^_\n]+_)|(\[[^\]\n]+\]\(https?:\/\/[^\s)]+\))|(https?:\/\/[^\s<]+[^\s<.,;:!?)])/;
+
+const linkClass = 'text-blue-600 hover:text-blue-800 underline break-words';
+
+const renderInline = (text: string, keyPrefix: string): React.ReactNode[] => {
+  const nodes: React.ReactNode[] = [];
+  let last = 0;
+  // A fresh regex per call: bold and italic recurse, which would otherwise
+  // reset the shared lastIndex mid-scan
+  const pattern = new RegExp(INLINE_SYNTAX.source, 'g');
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text)) !== null) {
+    if (match.index > last) nodes.push(text.slice(last, match.index));
+    const [token] = match;
+    const key = `${keyPrefix}-${match.index}`;
+
+    if (match[1]) {
+      nodes.push(<code key={key} className="px-1 py-0.5 bg-gray-100 rounded text-sm font-mono">{token.slice(1, -1)}</code>);
+    } else if (match[2]) {
+      nodes.push(<strong key={key}>{renderInline(token.slice(2, -2), key)}</strong>);
+    } else if (match[3]) {
+      nodes.push(<em key={key}>{renderInline(token.slice(1, -1), key)}</em>);
+    } else if (match[4]) {
+      const split = token.indexOf('](');
+      nodes.push(
+        <a key={key} href={token.slice(split + 2, -1)} target="_blank" rel="noopener noreferrer nofollow" className={linkClass}>
+          {token.slice(1, split)}
+        </a>
+      );
+    } else {
+      nodes.push(
+        <a key={key} href={token} target="_blank" rel="noopener noreferrer nofollow" className={linkClass}>
+          {token}
+        </a>
+      );
+    }
+    last = match.index + token.length;
+  }
+
+  if (last < text.length) nodes.push(text.slice(last));
+  return nodes;
+};
+
+const withLineBreaks = (lines: string[], keyPrefix: string) =>
+  lines.flatMap((line, i) => [
+    ...(i > 0 ? [<br key={`${keyPrefix}-br-${i}`} />] : []),
+    ...renderInline(line, `${keyPrefix}-${i}`),
+  ]);
+
+// Renders the small markdown subset used in comments straight to React
+// elements, so user text is never injected as HTML
+export const Markdown: React.FC<MarkdownProps> = ({ source, className = '' }) => {
+  const lines = source.replace(/\r\n/g, '\n').split('\n');
+  const blocks: React.ReactNode[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    const key = `b${i}`;
+
+    if (line.trim() === '') {
+      i++;
+    } else if (line.startsWith('```')) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].startsWith('```')) code.push(lines[i++]);
+      i++;
+      blocks.push(
+        <pre key={key} className="p-3 bg-gray-100 rounded-lg text-sm font-mono overflow-x-auto">
+          {code.join('\n')}
+        </pre>
+      );
+    } else if (/^\s*[-*]\s+/.test(line) || /^\s*\d+\.\s+/.test(line)) {
+      const ordered = /^\s*\d+\./.test(line);
+      const itemPattern = ordered ? /^\s*\d+\.\s+/ : /^\s*[-*]\s+/;
+      const items: string[] = [];
+      while (i < lines.length && itemPattern.test(lines[i])) items.push(lines[i++].replace(itemPattern, ''));
+      const List = ordered ? 'ol' : 'ul';
+      blocks.push(
+        <List key={key} className={`pl-5 space-y-1 ${ordered ? 'list-decimal' : 'list-disc'}`}>
+          {items.map((item, j) => <li key={j}>{renderInline(item, `${key}-${j}`)}</li>)}
+        </List>
+      );
+    } else if (line.startsWith('>')) {
+      const quoted: string[] = [];
+      while (i < lines.length && lines[i].startsWith('>')) quoted.push(lines[i++].replace(/^>\s?/, ''));
+      blocks.push(
+        <blockquote key={key} className="pl-3 border-l-4 border-gray-300 text-gray-600">
+          {withLineBreaks(quoted, key)}
+        </blockquote>
+      );
+    } else {
+      const paragraph: string[] = [];
+      while (
+        i < lines.length &&
+        lines[i].trim() !== '' &&
+        !lines[i].startsWith('```') &&
+        !lines[i].startsWith('>') &&
+        !/^\s*([-*]|\d+\.)\s+/.test(lines[i])
+      ) {
+        paragraph.push(lines[i++]);
+      }
+      blocks.push(<p key={key}>{withLineBreaks(paragraph, key)}</p>);
+    }
+  }
+
+  return <div className={`space-y-2 text-sm text-gray-800 break-words ${className}`}>{blocks}</div>;
+};
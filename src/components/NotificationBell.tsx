@@ -0,0 +1,292 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { motion, AnimatePresence } from 'framer-motion';
+import { useNavigate } from 'react-router-dom';
+import { Bell, Settings, X, Loader2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { Notification, NotificationPreference, User } from '../types';
+import { useRealtime } from '../stores/realtimeStore';
+import {
+  NOTIFICATION_LIMIT,
+  NOTIFICATION_TYPES,
+  fetchNotificationPreferences,
+  fetchNotifications,
+  fetchUnreadCount,
+  markNotificationsRead,
+  saveNotificationPreference,
+} from '../lib/notifications';
+
+interface NotificationBellProps {
+  user: User;
+}
+
+const timeAgo = (date: string) => {
+  const minutes = Math.floor((Date.now() - new Date(date).getTime()) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  if (minutes < 24 * 60) return `${Math.floor(minutes / 60)}h ago`;
+  return new Date(date).toLocaleDateString();
+};
+
+export const NotificationBell: React.FC<NotificationBellProps> = ({ user }) => {
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [unread, setUnread] = useState(0);
+  const [open, setOpen] = useState(false);
+  const [showPreferences, setShowPreferences] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    loadNotifications();
+  }, [user.id]);
+
+  useEffect(() => {
+    if (!open) return;
+
+    const handleClick = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  const loadNotifications = async () => {
+    try {
+      const [latest, count] = await Promise.all([fetchNotifications(user.id), fetchUnreadCount(user.id)]);
+      setNotifications(latest);
+      setUnread(count);
+    } catch (error) {
+      console.error('Error fetching notifications:', error);
+    }
+  };
+
+  useRealtime(['notifications'], (change) => {
+    if (change.eventType === 'INSERT') {
+      const notification = change.new as unknown as Notification;
+      if (notification.user_id !== user.id || !notification.in_app) return;
+
+      setNotifications((prev) => [notification, ...prev].slice(0, NOTIFICATION_LIMIT));
+      setUnread((prev) => prev + 1);
+      toast(notification.title, { icon: '🔔' });
+    } else {
+      // Reads from another tab or device
+      loadNotifications();
+    }
+  }, loadNotifications);
+
+  const handleOpen = (notification: Notification) => {
+    if (!notification.read_at) {
+      setNotifications((prev) => prev.map((n) => (n.id === notification.id ? { ...n, read_at: new Date().toISOString() } : n)));
+      setUnread((prev) => Math.max(prev - 1, 0));
+      markNotificationsRead(user.id, [notification.id]).catch((error) => {
+        console.error('Error marking notification read:', error);
+      });
+    }
+
+    setOpen(false);
+    if (notification.request_id) navigate(`/request/${notification.request_id}`);
+  };
+
+  const handleMarkAllRead = async () => {
+    try {
+      await markNotificationsRead(user.id);
+      const now = new Date().toISOString();
+      setNotifications((prev) => prev.map((n) => ({ ...n, read_at: n.read_at || now })));
+      setUnread(0);
+    } catch (error) {
+      console.error('Error marking notifications read:', error);
+      toast.error('Failed to mark notifications as read');
+    }
+  };
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setOpen(!open)}
+        className="relative p-2 text-gray-600 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+        title="Notifications"
+      >
+        <Bell className="w-6 h-6" />
+        {unread > 0 && (
+          <span className="absolute -top-1 -right-1 min-w-[1.25rem] h-5 px-1 bg-red-500 text-white text-xs font-bold rounded-full flex items-center justify-center">
+            {unread > 99 ? '99+' : unread}
+          </span>
+        )}
+      </button>
+
+      <AnimatePresence>
+        {open && (
+          <motion.div
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: 10 }}
+            className="absolute right-0 mt-2 w-80 bg-white rounded-xl shadow-xl border border-gray-200 z-50"
+          >
+            <div className="flex justify-between items-center px-4 py-3 border-b border-gray-100">
+              <h3 className="font-semibold text-gray-800">Notifications</h3>
+              <div className="flex items-center space-x-3">
+                {unread > 0 && (
+                  <button onClick={handleMarkAllRead} className="text-xs text-blue-600 hover:text-blue-800">
+                    Mark all read
+                  </button>
+                )}
+                <button
+                  onClick={() => {
+                    setShowPreferences(true);
+                    setOpen(false);
+                  }}
+                  className="text-gray-400 hover:text-gray-600"
+                  title="Notification settings"
+                >
+                  <Settings className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+
+            <div className="max-h-96 overflow-y-auto">
+              {notifications.length === 0 ? (
+                <p className="text-sm text-gray-500 text-center py-8">You're all caught up</p>
+              ) : (
+                notifications.map((notification) => (
+                  <button
+                    key={notification.id}
+                    onClick={() => handleOpen(notification)}
+                    className={`w-full text-left px-4 py-3 border-b border-gray-50 hover:bg-gray-50 transition-colors ${
+                      notification.read_at ? '' : 'bg-blue-50/60'
+                    }`}
+                  >
+                    <div className="flex justify-between items-start">
+                      <p className={`text-sm text-gray-800 ${notification.read_at ? '' : 'font-semibold'}`}>
+                        {notification.title}
+                      </p>
+                      {!notification.read_at && <span className="w-2 h-2 mt-1.5 ml-2 bg-blue-500 rounded-full flex-shrink-0" />}
+                    </div>
+                    {notification.body && <p className="text-xs text-gray-600 mt-1">{notification.body}</p>}
+                    <p className="text-xs text-gray-400 mt-1">{timeAgo(notification.created_at)}</p>
+                  </button>
+                ))
+              )}
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {/* Portaled out of the nav, whose backdrop blur would otherwise contain the overlay */}
+      {createPortal(
+        <AnimatePresence>
+          {showPreferences && (
+            <NotificationPreferencesModal user={user} onClose={() => setShowPreferences(false)} />
+          )}
+        </AnimatePresence>,
+        document.body
+      )}
+    </div>
+  );
+};
+
+interface NotificationPreferencesModalProps {
+  user: User;
+  onClose: () => void;
+}
+
+const NotificationPreferencesModal: React.FC<NotificationPreferencesModalProps> = ({ user, onClose }) => {
+  const [preferences, setPreferences] = useState<NotificationPreference[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchNotificationPreferences(user.id)
+      .then(setPreferences)
+      .catch((error) => {
+        console.error('Error fetching notification preferences:', error);
+        toast.error('Failed to load notification settings');
+      })
+      .finally(() => setLoading(false));
+  }, [user.id]);
+
+  const handleToggle = async (preference: NotificationPreference, channel: 'in_app' | 'email') => {
+    const updated = { ...preference, [channel]: !preference[channel] };
+    setPreferences((prev) => prev.map((p) => (p.type === updated.type ? updated : p)));
+
+    try {
+      await saveNotificationPreference(updated);
+    } catch (error) {
+      console.error('Error saving notification preference:', error);
+      toast.error('Failed to save notification settings');
+      setPreferences((prev) => prev.map((p) => (p.type === preference.type ? preference : p)));
+    }
+  };
+
+  const relevant = NOTIFICATION_TYPES.filter((t) => t.roles.includes(user.role) || user.role === 'admin');
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ scale: 0.9, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.9, opacity: 0 }}
+        onClick={(e) => e.stopPropagation()}
+        className="bg-white rounded-2xl p-6 w-full max-w-lg shadow-2xl"
+      >
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-bold text-gray-800">Notification Settings</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+        <p className="text-sm text-gray-600 mb-4">
+          Emails are sent to {user.email}.
+        </p>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-blue-600" />
+          </div>
+        ) : (
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-gray-200 text-sm">
+                <th className="text-left py-2 font-semibold text-gray-700">Notify me when</th>
+                <th className="py-2 px-3 font-semibold text-gray-700">In-app</th>
+                <th className="py-2 px-3 font-semibold text-gray-700">Email</th>
+              </tr>
+            </thead>
+            <tbody>
+              {relevant.map(({ type, label }) => {
+                const preference = preferences.find((p) => p.type === type);
+                if (!preference) return null;
+
+                return (
+                  <tr key={type} className="border-b border-gray-100">
+                    <td className="py-2 text-sm text-gray-700">{label}</td>
+                    <td className="py-2 px-3 text-center">
+                      <input
+                        type="checkbox"
+                        checked={preference.in_app}
+                        onChange={() => handleToggle(preference, 'in_app')}
+                        className="w-4 h-4 text-blue-600 rounded"
+                      />
+                    </td>
+                    <td className="py-2 px-3 text-center">
+                      <input
+                        type="checkbox"
+                        checked={preference.email}
+                        onChange={() => handleToggle(preference, 'email')}
+                        className="w-4 h-4 text-blue-600 rounded"
+                      />
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </motion.div>
+    </motion.div>
+  );
+};
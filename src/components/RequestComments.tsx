@@ -0,0 +1,321 @@
+import React, { useEffect, useState } from 'react';
+import { EyeOff, Eye, Loader2, MessageSquare, Pencil, Reply, Send, Trash2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { RequestComment, User } from '../types';
+import { useAuthStore } from '../stores/authStore';
+import { useRealtime } from '../stores/realtimeStore';
+import {
+  CommentNode,
+  MAX_COMMENT_LENGTH,
+  MAX_THREAD_DEPTH,
+  buildCommentTree,
+  deleteComment,
+  editComment,
+  fetchRequestComments,
+  postComment,
+  setCommentHidden,
+} from '../lib/comments';
+import { Markdown } from './Markdown';
+
+interface RequestCommentsProps {
+  requestId: string;
+}
+
+export const RequestComments: React.FC<RequestCommentsProps> = ({ requestId }) => {
+  const { user, isAuthenticated } = useAuthStore();
+  const [comments, setComments] = useState<RequestComment[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (isAuthenticated) {
+      loadComments();
+    } else {
+      setLoading(false);
+    }
+  }, [requestId, isAuthenticated]);
+
+  const loadComments = async () => {
+    try {
+      setComments(await fetchRequestComments(requestId));
+    } catch (error) {
+      console.error('Error fetching comments:', error);
+      toast.error('Failed to load comments');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useRealtime(['request_comments'], (change) => {
+    // Comments are listed with their author's profile, so reload the thread
+    const row = change.eventType === 'DELETE' ? change.old : change.new;
+    if (row.request_id === requestId || comments.some((c) => c.id === row.id)) loadComments();
+  }, loadComments);
+
+  const tree = buildCommentTree(comments);
+  const visibleCount = comments.filter((c) => !c.hidden_at).length;
+
+  return (
+    <div className="bg-white/80 backdrop-blur-lg rounded-2xl p-8 shadow-lg">
+      <h2 className="text-2xl font-bold text-gray-800 mb-6 flex items-center">
+        <MessageSquare className="w-6 h-6 mr-2 text-blue-600" />
+        Questions & Discussion
+        {visibleCount > 0 && <span className="ml-2 text-lg font-normal text-gray-500">({visibleCount})</span>}
+      </h2>
+
+      {!isAuthenticated || !user ? (
+        <p className="text-gray-600">
+          <button
+            onClick={() => window.dispatchEvent(new CustomEvent('openAuth'))}
+            className="text-blue-600 hover:text-blue-800 font-medium"
+          >
+            Sign in
+          </button>{' '}
+          to read the
+          discussion and ask the requester a question.
+        </p>
+      ) : loading ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="w-6 h-6 animate-spin text-blue-600" />
+        </div>
+      ) : (
+        <div className="space-y-6">
+          <CommentForm
+            placeholder="Ask the requester a question or share something useful..."
+            submitLabel="Post"
+            onSubmit={async (body) => {
+              await postComment(requestId, user.id, body);
+              await loadComments();
+            }}
+          />
+
+          {tree.length === 0 ? (
+            <p className="text-center text-gray-500 py-6">No questions yet. Be the first to ask.</p>
+          ) : (
+            <div className="space-y-4">
+              {tree.map((node) => (
+                <CommentThread key={node.id} node={node} depth={0} user={user} requestId={requestId} onChanged={loadComments} />
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+interface CommentFormProps {
+  initialBody?: string;
+  placeholder: string;
+  submitLabel: string;
+  onSubmit: (body: string) => Promise<void>;
+  onCancel?: () => void;
+}
+
+const CommentForm: React.FC<CommentFormProps> = ({ initialBody = '', placeholder, submitLabel, onSubmit, onCancel }) => {
+  const [body, setBody] = useState(initialBody);
+  const [saving, setSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!body.trim()) return;
+
+    setSaving(true);
+    try {
+      await onSubmit(body.trim());
+      setBody('');
+      onCancel?.();
+    } catch (error) {
+      console.error('Error saving comment:', error);
+      toast.error('Failed to save comment');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <textarea
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        rows={3}
+        maxLength={MAX_COMMENT_LENGTH}
+        className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+        placeholder={placeholder}
+      />
+      <div className="flex justify-between items-center">
+        <span className="text-xs text-gray-400">Supports **bold**, *italic*, `code`, [links](https://...) and lists</span>
+        <div className="flex space-x-2">
+          {onCancel && (
+            <button type="button" onClick={onCancel} className="px-3 py-1.5 text-sm text-gray-600 hover:text-gray-800">
+              Cancel
+            </button>
+          )}
+          <button
+            type="submit"
+            disabled={saving || !body.trim()}
+            className="flex items-center space-x-1 px-4 py-1.5 text-sm bg-gradient-to-r from-blue-500 to-purple-600 text-white rounded-lg hover:from-blue-600 hover:to-purple-700 transition-all disabled:opacity-50"
+          >
+            {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+            <span>{submitLabel}</span>
+          </button>
+        </div>
+      </div>
+    </form>
+  );
+};
+
+export const RoleBadge: React.FC<{ comment: RequestComment }> = ({ comment }) => {
+  if (comment.author_is_requester) {
+    return <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-purple-100 text-purple-800">Requester</span>;
+  }
+  if (comment.author_role === 'verifier') {
+    return <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">Verifier</span>;
+  }
+  if (comment.author_role === 'admin') {
+    return <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">Admin</span>;
+  }
+  return null;
+};
+
+interface CommentThreadProps {
+  node: CommentNode;
+  depth: number;
+  user: User;
+  requestId: string;
+  onChanged: () => Promise<void>;
+}
+
+const CommentThread: React.FC<CommentThreadProps> = ({ node, depth, user, requestId, onChanged }) => {
+  const [replying, setReplying] = useState(false);
+  const [editing, setEditing] = useState(false);
+  const { comment } = node;
+  const isAdmin = user.role === 'admin';
+
+  const handleModerate = async (action: 'hide' | 'restore' | 'delete') => {
+    if (!comment) return;
+    if (action === 'delete' && !confirm('Delete this comment and all replies to it?')) return;
+
+    try {
+      if (action === 'delete') {
+        await deleteComment(comment.id);
+      } else {
+        const reason = action === 'hide' ? prompt('Reason for hiding (optional)') : undefined;
+        if (reason === null) return;
+        await setCommentHidden(comment.id, action === 'hide', reason);
+      }
+      await onChanged();
+    } catch (error) {
+      console.error('Error moderating comment:', error);
+      toast.error('Failed to update comment');
+    }
+  };
+
+  const replies = node.replies.length > 0 && (
+    <div className={`space-y-4 mt-4 ${depth < MAX_THREAD_DEPTH ? 'pl-4 border-l-2 border-gray-100' : ''}`}>
+      {node.replies.map((reply) => (
+        <CommentThread
+          key={reply.id}
+          node={reply}
+          depth={Math.min(depth + 1, MAX_THREAD_DEPTH)}
+          user={user}
+          requestId={requestId}
+          onChanged={onChanged}
+        />
+      ))}
+    </div>
+  );
+
+  if (!comment) {
+    return (
+      <div>
+        <p className="text-sm italic text-gray-400">This comment was removed by a moderator.</p>
+        {replies}
+      </div>
+    );
+  }
+
+  const isAuthor = comment.author_id === user.id;
+
+  return (
+    <div>
+      <div className={`rounded-lg p-4 ${comment.hidden_at ? 'bg-red-50 border border-red-100' : 'bg-gray-50'}`}>
+        <div className="flex flex-wrap items-center gap-2 text-xs text-gray-500 mb-2">
+          <span className="font-medium text-gray-800 text-sm">{comment.author_username || 'Deleted user'}</span>
+          <RoleBadge comment={comment} />
+          <span>{new Date(comment.created_at).toLocaleString()}</span>
+          {comment.edited_at && <span title={new Date(comment.edited_at).toLocaleString()}>(edited)</span>}
+        </div>
+
+        {comment.hidden_at && (
+          <p className="text-xs text-red-700 mb-2 flex items-center">
+            <EyeOff className="w-3 h-3 mr-1" />
+            Hidden by a moderator{comment.hidden_reason ? `: ${comment.hidden_reason}` : ''}. Only its author and admins can see it.
+          </p>
+        )}
+
+        {editing ? (
+          <CommentForm
+            initialBody={comment.body}
+            placeholder="Edit your comment..."
+            submitLabel="Save"
+            onSubmit={async (body) => {
+              await editComment(comment.id, body);
+              await onChanged();
+            }}
+            onCancel={() => setEditing(false)}
+          />
+        ) : (
+          <Markdown source={comment.body} />
+        )}
+
+        {!editing && (
+          <div className="flex flex-wrap items-center gap-4 mt-3 text-xs">
+            {!comment.hidden_at && (
+              <button onClick={() => setReplying(!replying)} className="flex items-center text-gray-500 hover:text-blue-600">
+                <Reply className="w-3 h-3 mr-1" />
+                Reply
+              </button>
+            )}
+            {isAuthor && !comment.hidden_at && (
+              <button onClick={() => setEditing(true)} className="flex items-center text-gray-500 hover:text-blue-600">
+                <Pencil className="w-3 h-3 mr-1" />
+                Edit
+              </button>
+            )}
+            {isAdmin && (
+              <>
+                <button
+                  onClick={() => handleModerate(comment.hidden_at ? 'restore' : 'hide')}
+                  className="flex items-center text-gray-500 hover:text-orange-600"
+                >
+                  {comment.hidden_at ? <Eye className="w-3 h-3 mr-1" /> : <EyeOff className="w-3 h-3 mr-1" />}
+                  {comment.hidden_at ? 'Restore' : 'Hide'}
+                </button>
+                <button onClick={() => handleModerate('delete')} className="flex items-center text-gray-500 hover:text-red-600">
+                  <Trash2 className="w-3 h-3 mr-1" />
+                  Delete
+                </button>
+              </>
+            )}
+          </div>
+        )}
+      </div>
+
+      {replying && (
+        <div className="mt-3 pl-4">
+          <CommentForm
+            placeholder={`Reply to ${comment.author_username || 'this comment'}...`}
+            submitLabel="Reply"
+            onSubmit={async (body) => {
+              await postComment(requestId, user.id, body, comment.id);
+              await onChanged();
+            }}
+            onCancel={() => setReplying(false)}
+          />
+        </div>
+      )}
+
+      {replies}
+    </div>
+  );
+};
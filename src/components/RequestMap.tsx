@@ -0,0 +1,151 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { MapPin } from 'lucide-react';
+import { RequestMapPoint } from '../types';
+import { supabase } from '../lib/supabase';
+import { LAND_PATHS, MAP_HEIGHT, MAP_WIDTH, project } from '../lib/worldMap';
+import { COUNTRY_CENTROIDS, countryName } from '../lib/countries';
+import { REQUEST_CATEGORIES, getCategory } from '../lib/categories';
+
+interface RequestMapProps {
+  category?: string;
+  onSelectCountry: (countryCode: string) => void;
+}
+
+// Spreads requests that share a country centroid so they don't stack exactly
+const jitter = (id: string) => {
+  let hash = 0;
+  for (const char of id) hash = (hash * 31 + char.charCodeAt(0)) | 0;
+  return [((hash & 0xff) / 255 - 0.5) * 3, (((hash >> 8) & 0xff) / 255 - 0.5) * 3];
+};
+
+export const RequestMap: React.FC<RequestMapProps> = ({ category, onSelectCountry }) => {
+  const [points, setPoints] = useState<RequestMapPoint[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [hovered, setHovered] = useState<RequestMapPoint | null>(null);
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    fetchPoints();
+  }, []);
+
+  const fetchPoints = async () => {
+    try {
+      const { data, error } = await supabase.rpc('request_map_points', { p_statuses: ['approved'] });
+
+      if (error) throw error;
+      setPoints(data || []);
+    } catch (error) {
+      console.error('Error fetching map points:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const visible = useMemo(
+    () => points.filter((point) => !category || point.category === category),
+    [points, category]
+  );
+
+  const placed = useMemo(() => visible.flatMap((point) => {
+    if (point.latitude != null && point.longitude != null) {
+      return [{ point, xy: project(point.latitude, point.longitude) }];
+    }
+    const centroid = COUNTRY_CENTROIDS[point.country_code];
+    if (!centroid) return [];
+
+    const [dx, dy] = jitter(point.id);
+    const [x, y] = project(centroid[0], centroid[1]);
+    return [{ point, xy: [x + dx, y + dy] as [number, number] }];
+  }), [visible]);
+
+  const byCountry = useMemo(() => {
+    const counts = new Map<string, number>();
+    visible.forEach((point) => counts.set(point.country_code, (counts.get(point.country_code) || 0) + 1));
+    return Array.from(counts.entries()).sort((a, b) => b[1] - a[1]);
+  }, [visible]);
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-20">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid lg:grid-cols-4 gap-8">
+      <div className="lg:col-span-3 bg-white/80 backdrop-blur-lg rounded-2xl shadow-lg p-4">
+        <svg viewBox={`0 0 ${MAP_WIDTH} ${MAP_HEIGHT}`} className="w-full h-auto rounded-lg bg-blue-50">
+          {LAND_PATHS.map((path, i) => (
+            <path key={i} d={path} className="fill-gray-200 stroke-gray-300" strokeWidth={0.3} />
+          ))}
+          {placed.map(({ point, xy: [x, y] }) => (
+            <circle
+              key={point.id}
+              cx={x}
+              cy={y}
+              r={hovered?.id === point.id ? 2.6 : 1.8}
+              fill={getCategory(point.category).fill}
+              fillOpacity={0.8}
+              stroke="white"
+              strokeWidth={0.4}
+              className="cursor-pointer"
+              onMouseEnter={() => setHovered(point)}
+              onMouseLeave={() => setHovered(null)}
+              onClick={() => navigate(`/request/${point.id}`)}
+            >
+              <title>{point.title}</title>
+            </circle>
+          ))}
+        </svg>
+
+        <div className="flex flex-wrap justify-between items-center mt-3 gap-2">
+          <div className="flex flex-wrap gap-3">
+            {REQUEST_CATEGORIES.map((c) => (
+              <span key={c.value} className="flex items-center text-xs text-gray-600">
+                <span className="w-3 h-3 rounded-full mr-1" style={{ backgroundColor: c.fill }} />
+                {c.label}
+              </span>
+            ))}
+          </div>
+          <div className="text-sm text-gray-700 h-5">
+            {hovered && (
+              <span>
+                <strong>{hovered.title}</strong>
+                {' · '}
+                {[hovered.region, countryName(hovered.country_code)].filter(Boolean).join(', ')}
+                {' · '}
+                {Number(hovered.amount_raised).toFixed(2)} / {Number(hovered.amount_needed).toFixed(2)} ETH
+              </span>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-white/80 backdrop-blur-lg rounded-2xl shadow-lg p-6">
+        <h3 className="text-lg font-bold text-gray-800 mb-4">Browse by Region</h3>
+        {byCountry.length === 0 ? (
+          <p className="text-sm text-gray-500">No active requests with a location yet.</p>
+        ) : (
+          <ul className="space-y-2 max-h-96 overflow-y-auto">
+            {byCountry.map(([code, count]) => (
+              <li key={code}>
+                <button
+                  onClick={() => onSelectCountry(code)}
+                  className="w-full flex justify-between items-center px-3 py-2 rounded-lg hover:bg-blue-50 text-left"
+                >
+                  <span className="flex items-center text-gray-700">
+                    <MapPin className="w-4 h-4 mr-2 text-red-500" />
+                    {countryName(code)}
+                  </span>
+                  <span className="text-sm font-medium text-gray-800">{count}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,81 @@
+import React from 'react';
+import { CheckSquare, Square } from 'lucide-react';
+import { ReviewChecklistItem, Vote } from '../types';
+import { MAX_RATIONALE_LENGTH, MIN_RATIONALE_LENGTH, VoteReview } from '../lib/reviewChecklist';
+
+interface VoteReviewFormProps {
+  items: ReviewChecklistItem[];
+  review: VoteReview;
+  onChange: (review: VoteReview) => void;
+  disabled?: boolean;
+}
+
+export const VoteReviewForm: React.FC<VoteReviewFormProps> = ({ items, review, onChange, disabled = false }) => (
+  <div className="space-y-3 mb-4">
+    {items.length > 0 && (
+      <div className="space-y-2">
+        <p className="text-sm font-medium text-gray-700">Review checklist</p>
+        {items.map((item) => (
+          <label key={item.key} className="flex items-start space-x-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={!!review.checked[item.key]}
+              onChange={(e) => onChange({ ...review, checked: { ...review.checked, [item.key]: e.target.checked } })}
+              disabled={disabled}
+              className="w-4 h-4 mt-0.5 text-blue-600 rounded"
+            />
+            <span>
+              {item.label}
+              {item.required && <span className="text-red-500 ml-0.5" title="Required to approve">*</span>}
+            </span>
+          </label>
+        ))}
+      </div>
+    )}
+    <div>
+      <textarea
+        value={review.rationale}
+        onChange={(e) => onChange({ ...review, rationale: e.target.value })}
+        disabled={disabled}
+        rows={3}
+        maxLength={MAX_RATIONALE_LENGTH}
+        className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+        placeholder="Explain your decision. The requester will see this, especially if you reject."
+      />
+      <p className="text-xs text-gray-500 mt-1">
+        At least {MIN_RATIONALE_LENGTH} characters. Items marked * must be checked to approve.
+      </p>
+    </div>
+  </div>
+);
+
+interface VoteReviewDetailsProps {
+  vote: Pick<Vote, 'rationale' | 'checklist'>;
+}
+
+// Votes cast before reviews were recorded have neither, and render nothing
+export const VoteReviewDetails: React.FC<VoteReviewDetailsProps> = ({ vote }) => {
+  const checklist = vote.checklist || [];
+  if (!vote.rationale && checklist.length === 0) return null;
+
+  return (
+    <div className="mt-2 space-y-2">
+      {vote.rationale && (
+        <p className="text-sm text-gray-700 whitespace-pre-wrap border-l-4 border-gray-200 pl-3">{vote.rationale}</p>
+      )}
+      {checklist.length > 0 && (
+        <ul className="flex flex-wrap gap-x-4 gap-y-1">
+          {checklist.map((entry) => (
+            <li
+              key={entry.key}
+              className={`flex items-center text-xs ${entry.checked ? 'text-green-700' : 'text-gray-500'}`}
+            >
+              {entry.checked ? <CheckSquare className="w-3 h-3 mr-1" /> : <Square className="w-3 h-3 mr-1" />}
+              {entry.label}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
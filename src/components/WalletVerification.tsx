@@ -0,0 +1,56 @@
+import React, { useState } from 'react';
+import { Loader2, ShieldAlert, ShieldCheck } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useAuthStore } from '../stores/authStore';
+import { isWalletVerified, verifyConnectedWallet } from '../lib/siwe';
+
+// Changing the profile wallet is the same flow: sign with the new account
+export const WalletVerification: React.FC = () => {
+  const { user, setUser } = useAuthStore();
+  const [verifying, setVerifying] = useState(false);
+
+  if (!user) return null;
+
+  const verified = isWalletVerified(user);
+
+  const handleVerify = async () => {
+    setVerifying(true);
+    try {
+      const profile = await verifyConnectedWallet(user.id);
+      setUser(profile);
+      toast.success('Wallet verified');
+    } catch (error) {
+      console.error('Error verifying wallet:', error);
+      const { code, message } = error as { code?: string; message?: string };
+      toast.error(code === 'ACTION_REJECTED' ? 'Signature request rejected' : message || 'Failed to verify wallet');
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center justify-between gap-3 mt-2">
+      {verified ? (
+        <span className="flex items-center text-sm text-green-700">
+          <ShieldCheck className="w-4 h-4 mr-1" />
+          Verified {new Date(user.wallet_verified_at!).toLocaleDateString()}
+        </span>
+      ) : (
+        <span className="flex items-center text-sm text-yellow-700">
+          <ShieldAlert className="w-4 h-4 mr-1" />
+          Not verified. Sign a message with this wallet to prove it is yours.
+        </span>
+      )}
+      <button
+        type="button"
+        onClick={handleVerify}
+        disabled={verifying}
+        className="flex items-center space-x-1 px-3 py-1.5 text-sm border border-blue-600 text-blue-600 rounded-lg hover:bg-blue-50 transition-colors disabled:opacity-50"
+        title="Signs in with the wallet currently connected in MetaMask"
+      >
+        {verifying && <Loader2 className="w-4 h-4 animate-spin" />}
+        <span>{verified ? 'Change wallet' : 'Verify wallet'}</span>
+      </button>
+    </div>
+  );
+};
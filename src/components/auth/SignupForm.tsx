@@ -1,5 +1,6 @@
 import React, { useState } from 'react';
 import { useAuthStore } from '../../stores/authStore';
+import { verifyConnectedWallet } from '../../lib/siwe';
 import { Eye, EyeOff, User, Mail, Lock, UserCheck, Wallet } from 'lucide-react';
 import toast from 'react-hot-toast';
 
@@ -94,6 +95,7 @@ export default function SignupForm({ onToggleForm, onSuccess }: SignupFormProps)
       );
 
       if (result.success) {
+        await verifyWalletAfterSignup(formData.walletAddress.trim());
         setFormData({
           username: '',
           email: '',
@@ -123,6 +125,29 @@ export default function SignupForm({ onToggleForm, onSuccess }: SignupFormProps)
     }
   };
 
+  // Signing now saves a trip to the profile before the first request or
+  // donation. Skipped when MetaMask has a different account selected, since
+  // verifying would replace the address that was just entered
+  const verifyWalletAfterSignup = async (walletAddress: string) => {
+    const { user, setUser } = useAuthStore.getState();
+    if (!user || typeof window.ethereum === 'undefined') return;
+
+    try {
+      const accounts: string[] = await window.ethereum.request({ method: 'eth_accounts' });
+      if (!accounts?.some((account) => account.toLowerCase() === walletAddress.toLowerCase())) {
+        toast('Verify your wallet from your profile before creating requests or donating');
+        return;
+      }
+
+      toast('Sign the message in MetaMask to verify your wallet');
+      setUser(await verifyConnectedWallet(user.id));
+      toast.success('Wallet verified');
+    } catch (error) {
+      console.error('Wallet verification error:', error);
+      toast.error('Wallet not verified. You can verify it later from your profile.');
+    }
+  };
+
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
     setFormData(prev => ({ ...prev, [name]: value }));
@@ -262,7 +287,7 @@ export default function SignupForm({ onToggleForm, onSuccess }: SignupFormProps)
             >
               <option value="donor">Donor - Make donations to help others</option>
               <option value="requester">Requester - Request financial assistance</option>
-              <option value="verifier">Verifier - Verify donation requests</option>
+              <option value="verifier_pending">Verifier - Apply to verify donation requests</option>
             </select>
             {errors.role && (
               <p className="mt-1 text-sm text-red-600">{errors.role}</p>
@@ -14,17 +14,37 @@ import {
   Clock,
   BarChart3,
   PieChart,
-  Globe
+  Globe,
+  LifeBuoy,
+  MessageSquare,
+  UserCheck,
+  History,
+  Archive
 } from 'lucide-react';
-import { User, Request, Donation } from '../../types';
+import { User, Request, Donation, PlatformStats } from '../../types';
 import { supabase } from '../../lib/supabase';
+import { donationPlatform } from '../../lib/donationPlatform';
+import { fetchPlatformStats } from '../../lib/platformStats';
+import { AnalyticsPanel } from './AnalyticsPanel';
+import { SupportInbox } from './SupportInbox';
+import { CommentModeration } from './CommentModeration';
+import { VerifierApplications } from './VerifierApplications';
+import { AuditLog } from './AuditLog';
+import { ArchivedRecords } from './ArchivedRecords';
+import { ReviewChecklistSettings } from './ReviewChecklistSettings';
+import { QuorumSettings } from './QuorumSettings';
+import { LiveIndicator } from '../LiveIndicator';
+import { useRealtime } from '../../stores/realtimeStore';
+import { applyChange, applyVoteChange } from '../../lib/realtime';
+import { archiveRequest, archiveUser } from '../../lib/archive';
 import toast from 'react-hot-toast';
 
 export const AdminDashboard: React.FC = () => {
   const [users, setUsers] = useState<User[]>([]);
   const [requests, setRequests] = useState<Request[]>([]);
   const [donations, setDonations] = useState<Donation[]>([]);
-  const [activeTab, setActiveTab] = useState<'overview' | 'users' | 'requests' | 'transactions' | 'analytics'>('overview');
+  const [platformStats, setPlatformStats] = useState<PlatformStats | null>(null);
+  const [activeTab, setActiveTab] = useState<'overview' | 'users' | 'requests' | 'transactions' | 'analytics' | 'support' | 'comments' | 'applications' | 'audit' | 'archive'>('overview');
   const [editingUser, setEditingUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
 
@@ -32,12 +52,35 @@ export const AdminDashboard: React.FC = () => {
     fetchAllData();
   }, []);
 
+  useRealtime(['requests', 'donations', 'votes'], (change) => {
+    switch (change.table) {
+      case 'requests':
+        // New rows need the requester join, so reload instead of merging
+        if (change.eventType === 'INSERT') fetchRequests();
+        else if (change.eventType === 'UPDATE' && change.new.deleted_at) {
+          setRequests((prev) => prev.filter(r => r.id !== change.new.id));
+        } else setRequests((prev) => applyChange(prev, change));
+        break;
+      case 'donations':
+        if (change.eventType === 'INSERT') fetchDonations();
+        else setDonations((prev) => applyChange(prev, change));
+        break;
+      case 'votes':
+        setRequests((prev) => applyVoteChange(prev, change));
+        break;
+    }
+  }, () => {
+    fetchRequests();
+    fetchDonations();
+  });
+
   const fetchAllData = async () => {
     setLoading(true);
     await Promise.all([
       fetchUsers(),
       fetchRequests(),
-      fetchDonations()
+      fetchDonations(),
+      fetchPlatformStats().then(setPlatformStats)
     ]);
     setLoading(false);
   };
@@ -47,6 +90,7 @@ export const AdminDashboard: React.FC = () => {
       const { data, error } = await supabase
         .from('users')
         .select('*')
+        .is('deleted_at', null)
         .order('created_at', { ascending: false });
 
       if (error) throw error;
@@ -66,6 +110,7 @@ export const AdminDashboard: React.FC = () => {
           requester:users!requester_id(username, email),
           votes(*)
         `)
+        .is('deleted_at', null)
         .order('created_at', { ascending: false });
 
       if (error) throw error;
@@ -95,26 +140,62 @@ export const AdminDashboard: React.FC = () => {
     }
   };
 
+  // Pending and approved requests are live on the contract, so they are
+  // cancelled there (and marked rejected) before they can be archived
+  const isLiveOnChain = (request: Request): request is Request & { chain_request_id: number } =>
+    request.chain_request_id != null && ['pending', 'approved'].includes(request.status);
+
+  const cancelLiveRequest = async (request: Request): Promise<boolean> => {
+    if (!isLiveOnChain(request)) return true;
+
+    const txHash = await donationPlatform.cancelRequest(request.chain_request_id);
+    if (!txHash) return false;
+
+    const { error } = await supabase
+      .from('requests')
+      .update({ status: 'rejected' })
+      .eq('id', request.id);
+
+    if (error) throw error;
+    return true;
+  };
+
   const handleDeleteUser = async (userId: string) => {
-    if (!confirm('Are you sure you want to delete this user? This action cannot be undone.')) return;
+    const openRequests = requests.filter(r => r.requester_id === userId && isLiveOnChain(r));
+    const reason = prompt(
+      'Delete this user? Their personal details are anonymised and they can no longer sign in. ' +
+      'Donations and votes are kept, and the account can be restored from the Archive tab.' +
+      (openRequests.length > 0
+        ? `\n\nTheir ${openRequests.length} open request${openRequests.length === 1 ? ' is' : 's are'} cancelled on-chain first, so donors can claim refunds.`
+        : '') +
+      '\n\nReason (optional):'
+    );
+    if (reason === null) return;
 
     try {
-      const { error } = await supabase
-        .from('users')
-        .delete()
-        .eq('id', userId);
+      for (const request of openRequests) {
+        if (!(await cancelLiveRequest(request))) return;
+      }
 
-      if (error) throw error;
+      await archiveUser(userId, reason);
 
       toast.success('User deleted successfully');
       fetchUsers();
+      fetchRequests();
     } catch (error) {
       console.error('Error deleting user:', error);
-      toast.error('Failed to delete user');
+      toast.error((error as { message?: string }).message || 'Failed to delete user');
     }
   };
 
   const handleUpdateUser = async (userId: string, updates: Partial<User>) => {
+    // Promotion also registers the wallet on-chain, so it goes through an application review
+    const current = users.find(u => u.id === userId);
+    if (updates.role === 'verifier' && current?.role !== 'verifier') {
+      toast.error('Approve verifiers from the Verifier Applications tab');
+      return;
+    }
+
     try {
       const { error } = await supabase
         .from('users')
@@ -133,26 +214,40 @@ export const AdminDashboard: React.FC = () => {
   };
 
   const handleDeleteRequest = async (requestId: string) => {
-    if (!confirm('Are you sure you want to delete this request? This action cannot be undone.')) return;
+    const request = requests.find(r => r.id === requestId);
+    if (!request) return;
+
+    if (!confirm(
+      'Are you sure you want to delete this request? It can be restored from the Archive tab.' +
+      (isLiveOnChain(request) ? ' It is cancelled on-chain first, so donors can claim refunds.' : '')
+    )) return;
 
     try {
-      const { error } = await supabase
-        .from('requests')
-        .delete()
-        .eq('id', requestId);
+      if (!(await cancelLiveRequest(request))) return;
 
-      if (error) throw error;
+      setRequests((prev) => prev.filter(r => r.id !== requestId));
+      await archiveRequest(requestId);
 
       toast.success('Request deleted successfully');
-      fetchRequests();
     } catch (error) {
       console.error('Error deleting request:', error);
-      toast.error('Failed to delete request');
+      toast.error((error as { message?: string }).message || 'Failed to delete request');
+      // The on-chain cancel may have gone through, so reload rather than roll back
+      fetchRequests();
     }
   };
 
   const handleUpdateRequestStatus = async (requestId: string, status: string) => {
     try {
+      // Rejecting an on-chain request cancels it there too so donors can claim refunds
+      const request = requests.find(r => r.id === requestId);
+      if (status === 'rejected' && request?.chain_request_id != null) {
+        const txHash = await donationPlatform.cancelRequest(request.chain_request_id);
+        if (!txHash) return;
+      }
+
+      setRequests((prev) => prev.map(r => (r.id === requestId ? { ...r, status: status as Request['status'] } : r)));
+
       const { error } = await supabase
         .from('requests')
         .update({ status })
@@ -161,10 +256,26 @@ export const AdminDashboard: React.FC = () => {
       if (error) throw error;
 
       toast.success(`Request ${status} successfully`);
-      fetchRequests();
     } catch (error) {
       console.error('Error updating request:', error);
       toast.error('Failed to update request');
+      // Roll the optimistic status back to whatever the database holds
+      fetchRequests();
+    }
+  };
+
+  const handleReconcileTotals = async () => {
+    try {
+      const { data, error } = await supabase.rpc('reconcile_request_totals');
+
+      if (error) throw error;
+
+      const fixed = data?.length || 0;
+      toast.success(fixed ? `Reconciled ${fixed} request total${fixed === 1 ? '' : 's'}` : 'All request totals are consistent');
+      fetchRequests();
+    } catch (error) {
+      console.error('Error reconciling totals:', error);
+      toast.error('Failed to reconcile request totals');
     }
   };
 
@@ -214,6 +325,9 @@ export const AdminDashboard: React.FC = () => {
         <p className="text-xl text-gray-600">
           Comprehensive platform management and analytics
         </p>
+        <div className="mt-2">
+          <LiveIndicator />
+        </div>
       </motion.div>
 
       {/* Quick Stats Grid */}
@@ -375,6 +489,11 @@ export const AdminDashboard: React.FC = () => {
           { id: 'requests', label: 'Requests', icon: TrendingUp },
           { id: 'transactions', label: 'Transactions', icon: DollarSign },
           { id: 'analytics', label: 'Analytics', icon: Globe },
+          { id: 'support', label: 'Support', icon: LifeBuoy },
+          { id: 'comments', label: 'Comments', icon: MessageSquare },
+          { id: 'applications', label: 'Verifier Applications', icon: UserCheck },
+          { id: 'audit', label: 'Audit', icon: History },
+          { id: 'archive', label: 'Archive', icon: Archive },
         ].map((tab) => (
           <button
             key={tab.id}
@@ -492,6 +611,7 @@ export const AdminDashboard: React.FC = () => {
                         <span className={`px-3 py-1 rounded-full text-xs font-medium ${
                           user.role === 'admin' ? 'bg-red-100 text-red-800' :
                           user.role === 'verifier' ? 'bg-blue-100 text-blue-800' :
+                          user.role === 'verifier_pending' ? 'bg-yellow-100 text-yellow-800' :
                           user.role === 'requester' ? 'bg-green-100 text-green-800' :
                           'bg-purple-100 text-purple-800'
                         }`}>
@@ -534,12 +654,21 @@ export const AdminDashboard: React.FC = () => {
           <div className="bg-white/80 backdrop-blur-lg rounded-2xl shadow-xl p-8">
             <div className="flex justify-between items-center mb-6">
               <h3 className="text-2xl font-bold text-gray-800">Request Management</h3>
-              <button
-                onClick={fetchRequests}
-                className="bg-gradient-to-r from-blue-500 to-purple-600 text-white px-4 py-2 rounded-lg hover:from-blue-600 hover:to-purple-700 transition-all duration-200"
-              >
-                Refresh
-              </button>
+              <div className="flex space-x-2">
+                <button
+                  onClick={handleReconcileTotals}
+                  className="bg-white text-blue-600 border border-blue-200 px-4 py-2 rounded-lg hover:bg-blue-50 transition-all duration-200"
+                  title="Recompute amount raised from completed donations"
+                >
+                  Reconcile Totals
+                </button>
+                <button
+                  onClick={fetchRequests}
+                  className="bg-gradient-to-r from-blue-500 to-purple-600 text-white px-4 py-2 rounded-lg hover:from-blue-600 hover:to-purple-700 transition-all duration-200"
+                >
+                  Refresh
+                </button>
+              </div>
             </div>
             <div className="space-y-4">
               {requests.map((request) => (
@@ -583,6 +712,19 @@ export const AdminDashboard: React.FC = () => {
                             </button>
                           </>
                         )}
+                        {request.status === 'approved' && (
+                          <button
+                            onClick={() => {
+                              if (confirm('Reject this request and let donors claim refunds?')) {
+                                handleUpdateRequestStatus(request.id, 'rejected');
+                              }
+                            }}
+                            className="text-orange-600 hover:text-orange-800 p-2 hover:bg-orange-50 rounded-lg transition-colors"
+                            title="Reject & Refund Donors"
+                          >
+                            <AlertTriangle className="w-4 h-4" />
+                          </button>
+                        )}
                         <button
                           onClick={() => handleDeleteRequest(request.id)}
                           className="text-red-600 hover:text-red-800 p-2 hover:bg-red-50 rounded-lg transition-colors"
@@ -605,6 +747,10 @@ export const AdminDashboard: React.FC = () => {
           </div>
         )}
 
+        {activeTab === 'requests' && <QuorumSettings users={users} />}
+
+        {activeTab === 'requests' && <ReviewChecklistSettings />}
+
         {activeTab === 'transactions' && (
           <div className="bg-white/80 backdrop-blur-lg rounded-2xl shadow-xl p-8">
             <div className="flex justify-between items-center mb-6">
@@ -644,6 +790,7 @@ export const AdminDashboard: React.FC = () => {
                         <span className={`px-3 py-1 rounded-full text-xs font-medium ${
                           donation.status === 'completed' ? 'bg-green-100 text-green-800' :
                           donation.status === 'pending' ? 'bg-yellow-100 text-yellow-800' :
+                          donation.status === 'refunded' ? 'bg-gray-100 text-gray-800' :
                           'bg-red-100 text-red-800'
                         }`}>
                           {donation.status}
@@ -670,49 +817,90 @@ export const AdminDashboard: React.FC = () => {
           </div>
         )}
 
+        {activeTab === 'support' && (
+          <SupportInbox admins={users.filter(u => u.role === 'admin')} />
+        )}
+
+        {activeTab === 'comments' && <CommentModeration />}
+
+        {activeTab === 'applications' && <VerifierApplications />}
+
+        {activeTab === 'audit' && <AuditLog users={users} />}
+
+        {activeTab === 'archive' && (
+          <ArchivedRecords
+            onRestored={() => {
+              fetchUsers();
+              fetchRequests();
+            }}
+          />
+        )}
+
         {activeTab === 'analytics' && (
-          <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
-            <div className="bg-white/80 backdrop-blur-lg rounded-2xl shadow-xl p-8">
-              <h3 className="text-xl font-bold text-gray-800 mb-6">Platform Growth</h3>
-              <div className="space-y-4">
-                <div className="flex justify-between items-center">
-                  <span className="text-gray-600">User Growth Rate</span>
-                  <span className="text-green-600 font-bold">+12.5%</span>
-                </div>
-                <div className="flex justify-between items-center">
-                  <span className="text-gray-600">Request Success Rate</span>
-                  <span className="text-blue-600 font-bold">
-                    {((stats.approvedRequests / stats.totalRequests) * 100).toFixed(1)}%
-                  </span>
-                </div>
-                <div className="flex justify-between items-center">
-                  <span className="text-gray-600">Average Donation</span>
-                  <span className="text-purple-600 font-bold">
-                    {(stats.totalDonations / donations.length || 0).toFixed(4)} ETH
-                  </span>
+          <div className="space-y-8">
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+              <div className="bg-white/80 backdrop-blur-lg rounded-2xl shadow-xl p-8">
+                <h3 className="text-xl font-bold text-gray-800 mb-6">Platform Growth</h3>
+                <div className="space-y-4">
+                  <div className="flex justify-between items-center">
+                    <span className="text-gray-600">User Growth Rate (30 days)</span>
+                    <span className={`font-bold ${
+                      (platformStats?.user_growth_rate ?? 0) < 0 ? 'text-red-600' : 'text-green-600'
+                    }`}>
+                      {platformStats?.user_growth_rate == null
+                        ? 'N/A'
+                        : `${platformStats.user_growth_rate > 0 ? '+' : ''}${platformStats.user_growth_rate}%`}
+                    </span>
+                  </div>
+                  <div className="flex justify-between items-center">
+                    <span className="text-gray-600">Request Success Rate</span>
+                    <span className="text-blue-600 font-bold">
+                      {platformStats ? `${platformStats.success_rate}%` : 'N/A'}
+                    </span>
+                  </div>
+                  <div className="flex justify-between items-center">
+                    <span className="text-gray-600">Average Donation</span>
+                    <span className="text-purple-600 font-bold">
+                      {(platformStats?.average_donation ?? 0).toFixed(4)} ETH
+                    </span>
+                  </div>
+                  <div className="flex justify-between items-center">
+                    <span className="text-gray-600">Active Donors (30 days)</span>
+                    <span className="text-green-600 font-bold">
+                      {platformStats?.active_donors ?? 0}
+                    </span>
+                  </div>
                 </div>
               </div>
-            </div>
 
-            <div className="bg-white/80 backdrop-blur-lg rounded-2xl shadow-xl p-8">
-              <h3 className="text-xl font-bold text-gray-800 mb-6">Security Metrics</h3>
-              <div className="space-y-4">
-                <div className="flex justify-between items-center">
-                  <span className="text-gray-600">Failed Transactions</span>
-                  <span className="text-red-600 font-bold">
-                    {donations.filter(d => d.status === 'failed').length}
-                  </span>
-                </div>
-                <div className="flex justify-between items-center">
-                  <span className="text-gray-600">Verification Rate</span>
-                  <span className="text-green-600 font-bold">98.2%</span>
-                </div>
-                <div className="flex justify-between items-center">
-                  <span className="text-gray-600">System Uptime</span>
-                  <span className="text-blue-600 font-bold">99.9%</span>
+              <div className="bg-white/80 backdrop-blur-lg rounded-2xl shadow-xl p-8">
+                <h3 className="text-xl font-bold text-gray-800 mb-6">Security Metrics</h3>
+                <div className="space-y-4">
+                  <div className="flex justify-between items-center">
+                    <span className="text-gray-600">Failed Transactions</span>
+                    <span className="text-red-600 font-bold">
+                      {platformStats?.failed_donations ?? 0}
+                    </span>
+                  </div>
+                  <div className="flex justify-between items-center">
+                    <span className="text-gray-600">Donation Verification Rate</span>
+                    <span className="text-green-600 font-bold">
+                      {platformStats ? `${platformStats.verification_rate}%` : 'N/A'}
+                    </span>
+                  </div>
+                  <div className="flex justify-between items-center">
+                    <span className="text-gray-600">Chain Indexer Last Sync</span>
+                    <span className="text-blue-600 font-bold">
+                      {platformStats?.indexer_synced_at
+                        ? new Date(platformStats.indexer_synced_at).toLocaleString()
+                        : 'Never'}
+                    </span>
+                  </div>
                 </div>
               </div>
             </div>
+
+            <AnalyticsPanel />
           </div>
         )}
       </div>
@@ -771,10 +959,16 @@ export const AdminDashboard: React.FC = () => {
                   className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
                 >
                   <option value="donor">Donor</option>
-                  <option value="verifier">Verifier</option>
+                  {editingUser.role === 'verifier' && <option value="verifier">Verifier</option>}
+                  <option value="verifier_pending">Verifier (pending)</option>
                   <option value="requester">Requester</option>
                   <option value="admin">Admin</option>
                 </select>
+                {editingUser.role !== 'verifier' && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    Verifiers are approved from the Verifier Applications tab, which also registers their wallet on-chain.
+                  </p>
+                )}
               </div>
               <div className="flex space-x-3 pt-4">
                 <button
@@ -0,0 +1,308 @@
+import React, { useEffect, useState } from 'react';
+import { Download, Loader2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { AnalyticsData, DateRange, fetchAnalytics, lastNDays } from '../../lib/analytics';
+import { downloadCsv } from '../../lib/csv';
+
+const PRESETS = [7, 30, 90];
+
+export const AnalyticsPanel: React.FC = () => {
+  const [range, setRange] = useState<DateRange>(lastNDays(30));
+  const [data, setData] = useState<AnalyticsData | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadAnalytics();
+  }, [range]);
+
+  const loadAnalytics = async () => {
+    if (range.from > range.to) {
+      toast.error('Start date must be before end date');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      setData(await fetchAnalytics(range));
+    } catch (error) {
+      console.error('Error fetching analytics:', error);
+      toast.error('Failed to load analytics');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const csvName = (name: string) => `${name}_${range.from}_${range.to}.csv`;
+
+  const totals = data && {
+    volume: data.donations.reduce((sum, d) => sum + d.total_amount, 0),
+    donations: data.donations.reduce((sum, d) => sum + d.donation_count, 0),
+    users: data.newUsers.reduce((sum, d) => sum + d.donors + d.requesters + d.verifiers + d.admins, 0),
+    votes: data.verifiers.reduce((sum, v) => sum + v.votes_cast, 0),
+  };
+
+  return (
+    <div className="space-y-8">
+      <div className="bg-white/80 backdrop-blur-lg rounded-2xl shadow-xl p-6 flex flex-wrap items-end gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">From</label>
+          <input
+            type="date"
+            value={range.from}
+            max={range.to}
+            onChange={(e) => e.target.value && setRange({ ...range, from: e.target.value })}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">To</label>
+          <input
+            type="date"
+            value={range.to}
+            min={range.from}
+            onChange={(e) => e.target.value && setRange({ ...range, to: e.target.value })}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+        <div className="flex space-x-2">
+          {PRESETS.map((days) => (
+            <button
+              key={days}
+              onClick={() => setRange(lastNDays(days))}
+              className="px-3 py-2 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+            >
+              Last {days} days
+            </button>
+          ))}
+        </div>
+        {loading && <Loader2 className="w-5 h-5 animate-spin text-blue-600" />}
+      </div>
+
+      {data && totals && (
+        <>
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+            <ChartCard
+              title="Daily Donation Volume"
+              subtitle={`${totals.volume.toFixed(4)} ETH across ${totals.donations} donations`}
+              onExport={() => downloadCsv(csvName('daily_donations'), data.donations)}
+            >
+              <BarChart
+                labels={data.donations.map((d) => d.day)}
+                series={[{ name: 'ETH', color: 'bg-green-500', values: data.donations.map((d) => d.total_amount) }]}
+                format={(value) => `${value.toFixed(4)} ETH`}
+              />
+            </ChartCard>
+
+            <ChartCard
+              title="New Users by Role"
+              subtitle={`${totals.users} sign-ups`}
+              onExport={() => downloadCsv(csvName('new_users'), data.newUsers)}
+            >
+              <BarChart
+                labels={data.newUsers.map((d) => d.day)}
+                series={[
+                  { name: 'Donors', color: 'bg-green-500', values: data.newUsers.map((d) => d.donors) },
+                  { name: 'Requesters', color: 'bg-blue-500', values: data.newUsers.map((d) => d.requesters) },
+                  { name: 'Verifiers', color: 'bg-purple-500', values: data.newUsers.map((d) => d.verifiers) },
+                  { name: 'Admins', color: 'bg-red-500', values: data.newUsers.map((d) => d.admins) },
+                ]}
+              />
+            </ChartCard>
+
+            <ChartCard
+              title="Request Funnel"
+              subtitle="Requests created in this period and how far they got"
+              onExport={() => data.funnel && downloadCsv(csvName('request_funnel'), [data.funnel])}
+            >
+              {data.funnel && <Funnel funnel={data.funnel} />}
+            </ChartCard>
+
+            <ChartCard
+              title="Time to Approval"
+              subtitle={data.funnel?.median_hours_to_approval != null
+                ? `Median ${data.funnel.median_hours_to_approval} hours from submission to quorum`
+                : 'No approvals in this period'}
+              onExport={() => downloadCsv(csvName('time_to_approval'), data.approvalTimes)}
+            >
+              <BarChart
+                labels={data.approvalTimes.map((d) => d.day)}
+                series={[{
+                  name: 'Median hours',
+                  color: 'bg-yellow-500',
+                  values: data.approvalTimes.map((d) => d.median_hours ?? 0),
+                }]}
+                format={(value) => `${value} h`}
+              />
+            </ChartCard>
+          </div>
+
+          <ChartCard
+            title="Verifier Throughput"
+            subtitle={`${totals.votes} votes cast`}
+            onExport={() => downloadCsv(csvName('verifier_throughput'), data.verifiers)}
+          >
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-gray-200">
+                    <th className="text-left py-3 px-4 font-semibold text-gray-700">Verifier</th>
+                    <th className="text-left py-3 px-4 font-semibold text-gray-700">Votes</th>
+                    <th className="text-left py-3 px-4 font-semibold text-gray-700">Approve / Reject</th>
+                    <th className="text-left py-3 px-4 font-semibold text-gray-700">Median Response</th>
+                    <th className="text-left py-3 px-4 font-semibold text-gray-700">Last Vote</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {data.verifiers.map((verifier) => (
+                    <tr key={verifier.verifier_id} className="border-b border-gray-100">
+                      <td className="py-3 px-4 font-medium text-gray-800">{verifier.username}</td>
+                      <td className="py-3 px-4">
+                        <div className="flex items-center space-x-2">
+                          <div className="w-24 bg-gray-200 rounded-full h-2">
+                            <div
+                              className="bg-purple-500 h-2 rounded-full"
+                              style={{ width: `${totals.votes ? (verifier.votes_cast / totals.votes) * 100 : 0}%` }}
+                            />
+                          </div>
+                          <span>{verifier.votes_cast}</span>
+                        </div>
+                      </td>
+                      <td className="py-3 px-4">
+                        <span className="text-green-600">{verifier.approvals}</span>
+                        {' / '}
+                        <span className="text-red-600">{verifier.rejections}</span>
+                      </td>
+                      <td className="py-3 px-4 text-gray-600">
+                        {verifier.median_response_hours != null ? `${verifier.median_response_hours} h` : '-'}
+                      </td>
+                      <td className="py-3 px-4 text-gray-600">
+                        {verifier.last_vote_at ? new Date(verifier.last_vote_at).toLocaleDateString() : '-'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </ChartCard>
+        </>
+      )}
+    </div>
+  );
+};
+
+interface ChartCardProps {
+  title: string;
+  subtitle?: string;
+  onExport: () => void;
+  children: React.ReactNode;
+}
+
+const ChartCard: React.FC<ChartCardProps> = ({ title, subtitle, onExport, children }) => (
+  <div className="bg-white/80 backdrop-blur-lg rounded-2xl shadow-xl p-8">
+    <div className="flex justify-between items-start mb-6">
+      <div>
+        <h3 className="text-xl font-bold text-gray-800">{title}</h3>
+        {subtitle && <p className="text-sm text-gray-500 mt-1">{subtitle}</p>}
+      </div>
+      <button
+        onClick={onExport}
+        className="flex items-center space-x-1 text-sm text-blue-600 hover:text-blue-800"
+        title="Export CSV"
+      >
+        <Download className="w-4 h-4" />
+        <span>CSV</span>
+      </button>
+    </div>
+    {children}
+  </div>
+);
+
+interface BarChartProps {
+  labels: string[];
+  series: { name: string; color: string; values: number[] }[];
+  format?: (value: number) => string;
+}
+
+// Stacked daily bars; each column's tooltip lists the values behind it
+const BarChart: React.FC<BarChartProps> = ({ labels, series, format = String }) => {
+  const totals = labels.map((_, i) => series.reduce((sum, s) => sum + s.values[i], 0));
+  const max = Math.max(...totals, 0);
+
+  if (max === 0) {
+    return <p className="text-center text-gray-500 py-16">No data in this period</p>;
+  }
+
+  return (
+    <div>
+      <div className="flex items-end h-48 space-x-px">
+        {labels.map((label, i) => (
+          <div
+            key={label}
+            className="flex-1 h-full flex flex-col-reverse hover:opacity-80"
+            title={[label, ...series.map((s) => `${s.name}: ${format(s.values[i])}`)].join('\n')}
+          >
+            {series.map((s) => (
+              <div
+                key={s.name}
+                className={s.color}
+                style={{ height: `${(s.values[i] / max) * 100}%` }}
+              />
+            ))}
+          </div>
+        ))}
+      </div>
+      <div className="flex justify-between text-xs text-gray-500 mt-2">
+        <span>{labels[0]}</span>
+        <span>Peak {format(max)}</span>
+        <span>{labels[labels.length - 1]}</span>
+      </div>
+      {series.length > 1 && (
+        <div className="flex flex-wrap gap-4 mt-3">
+          {series.map((s) => (
+            <span key={s.name} className="flex items-center text-xs text-gray-600">
+              <span className={`w-3 h-3 rounded-sm mr-1 ${s.color}`} />
+              {s.name}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const Funnel: React.FC<{ funnel: NonNullable<AnalyticsData['funnel']> }> = ({ funnel }) => {
+  const stages = [
+    { label: 'Submitted', value: funnel.created, color: 'bg-blue-500' },
+    { label: 'Approved', value: funnel.approved, color: 'bg-green-500' },
+    { label: 'Completed', value: funnel.completed, color: 'bg-purple-500' },
+  ];
+
+  return (
+    <div className="space-y-4">
+      {stages.map((stage) => (
+        <div key={stage.label}>
+          <div className="flex justify-between text-sm mb-1">
+            <span className="text-gray-700">{stage.label}</span>
+            <span className="font-medium text-gray-800">
+              {stage.value}
+              {funnel.created > 0 && (
+                <span className="text-gray-500 ml-1">({((stage.value / funnel.created) * 100).toFixed(1)}%)</span>
+              )}
+            </span>
+          </div>
+          <div className="w-full bg-gray-200 rounded-full h-3">
+            <div
+              className={`${stage.color} h-3 rounded-full`}
+              style={{ width: `${funnel.created > 0 ? (stage.value / funnel.created) * 100 : 0}%` }}
+            />
+          </div>
+        </div>
+      ))}
+      <div className="flex justify-between text-sm text-gray-600 pt-2 border-t border-gray-100">
+        <span>Still pending: {funnel.still_pending}</span>
+        <span>Rejected: {funnel.rejected}</span>
+        <span>Expired: {funnel.expired}</span>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,199 @@
+import React, { useEffect, useState } from 'react';
+import { Archive, FileText, Loader2, RotateCcw, Users } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { ArchivedRequest, ArchivedUser } from '../../types';
+import { fetchArchivedRequests, fetchArchivedUsers, restoreRequest, restoreUser } from '../../lib/archive';
+
+interface ArchivedRecordsProps {
+  // Called after a restore so the live user and request lists can reload
+  onRestored: () => void;
+}
+
+export const ArchivedRecords: React.FC<ArchivedRecordsProps> = ({ onRestored }) => {
+  const [view, setView] = useState<'users' | 'requests'>('users');
+  const [users, setUsers] = useState<ArchivedUser[]>([]);
+  const [requests, setRequests] = useState<ArchivedRequest[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadArchive();
+  }, []);
+
+  const loadArchive = async () => {
+    setLoading(true);
+    try {
+      const [archivedUsers, archivedRequests] = await Promise.all([fetchArchivedUsers(), fetchArchivedRequests()]);
+      setUsers(archivedUsers);
+      setRequests(archivedRequests);
+    } catch (error) {
+      console.error('Error fetching archive:', error);
+      toast.error('Failed to load archived records');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRestoreUser = async (user: ArchivedUser) => {
+    if (!confirm(`Restore ${user.username}? They will be able to sign in again and must re-verify their wallet.`)) return;
+
+    setRestoringId(user.id);
+    try {
+      await restoreUser(user.id);
+      toast.success(`${user.username} restored`);
+      loadArchive();
+      onRestored();
+    } catch (error) {
+      console.error('Error restoring user:', error);
+      toast.error((error as { message?: string }).message || 'Failed to restore user');
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  const handleRestoreRequest = async (request: ArchivedRequest) => {
+    setRestoringId(request.id);
+    try {
+      await restoreRequest(request.id);
+      toast.success('Request restored');
+      loadArchive();
+      onRestored();
+    } catch (error) {
+      console.error('Error restoring request:', error);
+      toast.error((error as { message?: string }).message || 'Failed to restore request');
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  const restoreButton = (id: string, onClick: () => void, disabled = false, title?: string) => (
+    <button
+      onClick={onClick}
+      disabled={disabled || restoringId !== null}
+      title={title}
+      className="flex items-center space-x-1 px-3 py-1 text-sm border border-blue-600 text-blue-600 rounded-lg hover:bg-blue-50 transition-colors disabled:opacity-50"
+    >
+      {restoringId === id ? <Loader2 className="w-4 h-4 animate-spin" /> : <RotateCcw className="w-4 h-4" />}
+      <span>Restore</span>
+    </button>
+  );
+
+  return (
+    <div className="bg-white/80 backdrop-blur-lg rounded-2xl shadow-xl p-6">
+      <div className="flex flex-wrap justify-between items-center gap-4 mb-6">
+        <h3 className="text-xl font-bold text-gray-800 flex items-center">
+          <Archive className="w-5 h-5 mr-2 text-blue-600" />
+          Archive
+        </h3>
+        <div className="flex space-x-2">
+          {[
+            { id: 'users' as const, label: `Users (${users.length})`, icon: Users },
+            { id: 'requests' as const, label: `Requests (${requests.length})`, icon: FileText },
+          ].map(({ id, label, icon: Icon }) => (
+            <button
+              key={id}
+              onClick={() => setView(id)}
+              className={`flex items-center space-x-1 px-4 py-2 text-sm rounded-lg transition-colors ${
+                view === id ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              <Icon className="w-4 h-4" />
+              <span>{label}</span>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <p className="text-sm text-gray-600 mb-4">
+        Deleted users are anonymised everywhere else; their donations, votes and requests are kept against the tombstone shown here.
+      </p>
+
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="w-8 h-8 animate-spin text-blue-600" />
+        </div>
+      ) : view === 'users' ? (
+        users.length === 0 ? (
+          <p className="text-center text-gray-500 py-12">No deleted users</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-200 text-left text-gray-700">
+                  <th className="py-2 px-2">User</th>
+                  <th className="py-2 px-2">Role</th>
+                  <th className="py-2 px-2">Shown as</th>
+                  <th className="py-2 px-2">History kept</th>
+                  <th className="py-2 px-2">Deleted</th>
+                  <th className="py-2 px-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {users.map((user) => (
+                  <tr key={user.id} className="border-b border-gray-100">
+                    <td className="py-2 px-2">
+                      <span className="font-medium text-gray-800">{user.username}</span>
+                      <span className="block text-xs text-gray-500">{user.email}</span>
+                    </td>
+                    <td className="py-2 px-2 text-gray-600">{user.role.replace('_', ' ')}</td>
+                    <td className="py-2 px-2 font-mono text-xs text-gray-500">{user.tombstone}</td>
+                    <td className="py-2 px-2 text-gray-600">
+                      {user.donation_count} donations, {user.vote_count} votes, {user.request_count} requests
+                    </td>
+                    <td className="py-2 px-2 text-gray-600">
+                      {new Date(user.deleted_at).toLocaleDateString()}
+                      {user.reason && <span className="block text-xs text-gray-500">{user.reason}</span>}
+                    </td>
+                    <td className="py-2 px-2 text-right">{restoreButton(user.id, () => handleRestoreUser(user))}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )
+      ) : requests.length === 0 ? (
+        <p className="text-center text-gray-500 py-12">No deleted requests</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-gray-200 text-left text-gray-700">
+                <th className="py-2 px-2">Request</th>
+                <th className="py-2 px-2">Requester</th>
+                <th className="py-2 px-2">Status</th>
+                <th className="py-2 px-2">Raised</th>
+                <th className="py-2 px-2">Deleted</th>
+                <th className="py-2 px-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {requests.map((request) => (
+                <tr key={request.id} className="border-b border-gray-100">
+                  <td className="py-2 px-2 font-medium text-gray-800">{request.title}</td>
+                  <td className="py-2 px-2 text-gray-600">
+                    {request.requester_username}
+                    {request.requester_deleted && <span className="ml-1 text-xs text-red-600">(deleted)</span>}
+                  </td>
+                  <td className="py-2 px-2 text-gray-600">{request.status}</td>
+                  <td className="py-2 px-2 text-gray-600">
+                    {request.amount_raised} / {request.amount_needed} ETH
+                    <span className="block text-xs text-gray-500">{request.donation_count} donations</span>
+                  </td>
+                  <td className="py-2 px-2 text-gray-600">{new Date(request.deleted_at).toLocaleDateString()}</td>
+                  <td className="py-2 px-2 text-right">
+                    {restoreButton(
+                      request.id,
+                      () => handleRestoreRequest(request),
+                      request.requester_deleted,
+                      request.requester_deleted ? 'Restore the requester first' : undefined
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,273 @@
+import React, { useEffect, useState } from 'react';
+import { ChevronDown, ChevronRight, Download, History, Loader2, ShieldAlert, ShieldCheck } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { AuditAction, AuditLogEntry, User } from '../../types';
+import {
+  AUDITED_TABLES,
+  AUDIT_LIMIT,
+  AuditChainStatus,
+  AuditFilters,
+  EMPTY_AUDIT_FILTERS,
+  auditExportRows,
+  changedKeys,
+  fetchAllAuditLog,
+  fetchAuditLog,
+  verifyAuditLog,
+} from '../../lib/audit';
+import { downloadCsv } from '../../lib/csv';
+
+const ACTION_STYLES: Record<AuditAction, string> = {
+  insert: 'bg-green-100 text-green-800',
+  update: 'bg-blue-100 text-blue-800',
+  delete: 'bg-red-100 text-red-800',
+};
+
+const formatValue = (value: unknown) =>
+  value === undefined ? '' : typeof value === 'string' ? value : JSON.stringify(value);
+
+interface AuditLogProps {
+  users: User[];
+}
+
+export const AuditLog: React.FC<AuditLogProps> = ({ users }) => {
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [filters, setFilters] = useState<AuditFilters>(EMPTY_AUDIT_FILTERS);
+  const [loading, setLoading] = useState(true);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  const [chainStatus, setChainStatus] = useState<AuditChainStatus | null>(null);
+  const [verifying, setVerifying] = useState(false);
+  const [exporting, setExporting] = useState(false);
+
+  const usernames = Object.fromEntries(users.map((u) => [u.id, u.username]));
+  const admins = users.filter((u) => u.role === 'admin');
+
+  useEffect(() => {
+    loadEntries();
+  }, [filters]);
+
+  const loadEntries = async () => {
+    setLoading(true);
+    try {
+      setEntries(await fetchAuditLog(filters));
+    } catch (error) {
+      console.error('Error fetching audit log:', error);
+      toast.error('Failed to load audit log');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleVerify = async () => {
+    setVerifying(true);
+    try {
+      setChainStatus(await verifyAuditLog());
+    } catch (error) {
+      console.error('Error verifying audit log:', error);
+      toast.error('Failed to verify audit log');
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  // Exports every entry matching the filters, not just the loaded page
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      const stamp = new Date().toISOString().slice(0, 10);
+      downloadCsv(`audit_log_${stamp}.csv`, auditExportRows(await fetchAllAuditLog(filters), usernames));
+    } catch (error) {
+      console.error('Error exporting audit log:', error);
+      toast.error('Failed to export audit log');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const actorName = (entry: AuditLogEntry) =>
+    entry.actor_id ? usernames[entry.actor_id] || `${entry.actor_id.slice(0, 8)}...` : entry.actor_role || 'system';
+
+  return (
+    <div className="bg-white/80 backdrop-blur-lg rounded-2xl shadow-xl p-6">
+      <div className="flex flex-wrap justify-between items-center gap-4 mb-6">
+        <h3 className="text-xl font-bold text-gray-800 flex items-center">
+          <History className="w-5 h-5 mr-2 text-blue-600" />
+          Audit Log
+        </h3>
+        <div className="flex flex-wrap items-center gap-3">
+          <button
+            onClick={handleVerify}
+            disabled={verifying}
+            className="flex items-center space-x-1 px-4 py-2 text-sm border border-blue-600 text-blue-600 rounded-lg hover:bg-blue-50 transition-colors disabled:opacity-50"
+          >
+            {verifying ? <Loader2 className="w-4 h-4 animate-spin" /> : <ShieldCheck className="w-4 h-4" />}
+            <span>Verify chain</span>
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={entries.length === 0 || exporting}
+            className="flex items-center space-x-1 px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            {exporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+            <span>Export CSV</span>
+          </button>
+        </div>
+      </div>
+
+      {chainStatus && (
+        chainStatus.first_broken_id === null ? (
+          <div className="mb-4 p-3 rounded-lg bg-green-50 border border-green-200 text-sm text-green-800 flex items-center">
+            <ShieldCheck className="w-4 h-4 mr-2" />
+            All {chainStatus.checked} entries match their hashes.
+          </div>
+        ) : (
+          <div className="mb-4 p-3 rounded-lg bg-red-50 border border-red-200 text-sm text-red-800 flex items-center">
+            <ShieldAlert className="w-4 h-4 mr-2" />
+            Entry #{chainStatus.first_broken_id} does not match its hash. It or an earlier entry was altered or removed.
+          </div>
+        )
+      )}
+
+      <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-3 mb-6">
+        <select
+          value={filters.table}
+          onChange={(e) => setFilters({ ...filters, table: e.target.value })}
+          className="px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option value="">All tables</option>
+          {AUDITED_TABLES.map((table) => (
+            <option key={table.value} value={table.value}>{table.label}</option>
+          ))}
+        </select>
+        <select
+          value={filters.action}
+          onChange={(e) => setFilters({ ...filters, action: e.target.value as AuditAction | '' })}
+          className="px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option value="">All actions</option>
+          <option value="insert">Created</option>
+          <option value="update">Updated</option>
+          <option value="delete">Deleted</option>
+        </select>
+        <select
+          value={filters.actor}
+          onChange={(e) => setFilters({ ...filters, actor: e.target.value })}
+          className="px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option value="">Everyone</option>
+          {admins.map((admin) => (
+            <option key={admin.id} value={admin.id}>{admin.username}</option>
+          ))}
+          <option value="service_role">Workers (service role)</option>
+        </select>
+        <input
+          type="text"
+          value={filters.recordId}
+          onChange={(e) => setFilters({ ...filters, recordId: e.target.value })}
+          placeholder="Record ID"
+          className="px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <input
+          type="date"
+          value={filters.from}
+          max={filters.to || undefined}
+          onChange={(e) => setFilters({ ...filters, from: e.target.value })}
+          className="px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <input
+          type="date"
+          value={filters.to}
+          min={filters.from || undefined}
+          onChange={(e) => setFilters({ ...filters, to: e.target.value })}
+          className="px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="w-8 h-8 animate-spin text-blue-600" />
+        </div>
+      ) : entries.length === 0 ? (
+        <p className="text-center text-gray-500 py-12">No audit entries match these filters</p>
+      ) : (
+        <>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-200 text-left text-gray-700">
+                  <th className="py-2 px-2"></th>
+                  <th className="py-2 px-2">#</th>
+                  <th className="py-2 px-2">When</th>
+                  <th className="py-2 px-2">Actor</th>
+                  <th className="py-2 px-2">Action</th>
+                  <th className="py-2 px-2">Record</th>
+                  <th className="py-2 px-2">Changes</th>
+                </tr>
+              </thead>
+              <tbody>
+                {entries.map((entry) => {
+                  const expanded = expandedId === entry.id;
+                  const keys = entry.action === 'update' ? changedKeys(entry) : [];
+
+                  return (
+                    <React.Fragment key={entry.id}>
+                      <tr
+                        onClick={() => setExpandedId(expanded ? null : entry.id)}
+                        className="border-b border-gray-100 hover:bg-gray-50 cursor-pointer"
+                      >
+                        <td className="py-2 px-2 text-gray-400">
+                          {expanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                        </td>
+                        <td className="py-2 px-2 text-gray-500">{entry.id}</td>
+                        <td className="py-2 px-2 text-gray-600 whitespace-nowrap">{new Date(entry.occurred_at).toLocaleString()}</td>
+                        <td className="py-2 px-2 text-gray-800">{actorName(entry)}</td>
+                        <td className="py-2 px-2">
+                          <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${ACTION_STYLES[entry.action]}`}>
+                            {entry.action}
+                          </span>
+                        </td>
+                        <td className="py-2 px-2">
+                          <span className="text-gray-800">{entry.table_name}</span>
+                          <span className="block font-mono text-xs text-gray-500">{entry.record_id}</span>
+                        </td>
+                        <td className="py-2 px-2 text-gray-600">{keys.join(', ')}</td>
+                      </tr>
+                      {expanded && (
+                        <tr className="border-b border-gray-100 bg-gray-50">
+                          <td colSpan={7} className="p-4">
+                            {entry.action === 'update' ? (
+                              <table className="w-full text-xs mb-3">
+                                <tbody>
+                                  {keys.map((key) => (
+                                    <tr key={key}>
+                                      <td className="py-1 pr-4 font-medium text-gray-700 align-top">{key}</td>
+                                      <td className="py-1 pr-4 text-red-700 line-through break-all align-top">{formatValue(entry.before?.[key])}</td>
+                                      <td className="py-1 text-green-700 break-all align-top">{formatValue(entry.after?.[key])}</td>
+                                    </tr>
+                                  ))}
+                                </tbody>
+                              </table>
+                            ) : (
+                              <pre className="text-xs text-gray-700 whitespace-pre-wrap break-all mb-3">
+                                {JSON.stringify(entry.after || entry.before, null, 2)}
+                              </pre>
+                            )}
+                            <p className="font-mono text-xs text-gray-400 break-all">hash {entry.hash}</p>
+                          </td>
+                        </tr>
+                      )}
+                    </React.Fragment>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+          {entries.length === AUDIT_LIMIT && (
+            <p className="text-xs text-gray-500 mt-3">
+              Showing the latest {AUDIT_LIMIT} entries. Narrow the filters to see older ones; the export includes every matching entry.
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
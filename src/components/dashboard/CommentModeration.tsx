@@ -0,0 +1,171 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Eye, EyeOff, Loader2, MessageSquare, Search, Trash2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { RequestComment } from '../../types';
+import { useRealtime } from '../../stores/realtimeStore';
+import { deleteComment, fetchRecentComments, setCommentHidden } from '../../lib/comments';
+import { Markdown } from '../Markdown';
+import { RoleBadge } from '../RequestComments';
+
+type ModerationComment = RequestComment & { request?: { title: string } | null };
+
+type VisibilityFilter = 'all' | 'visible' | 'hidden';
+
+export const CommentModeration: React.FC = () => {
+  const [comments, setComments] = useState<ModerationComment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [filter, setFilter] = useState<VisibilityFilter>('all');
+  const [search, setSearch] = useState('');
+
+  useEffect(() => {
+    loadComments();
+  }, []);
+
+  const loadComments = async () => {
+    try {
+      setComments(await fetchRecentComments());
+    } catch (error) {
+      console.error('Error fetching comments:', error);
+      toast.error('Failed to load comments');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useRealtime(['request_comments'], () => {
+    loadComments();
+  }, loadComments);
+
+  const handleHide = async (comment: ModerationComment, hidden: boolean) => {
+    const reason = hidden ? prompt('Reason for hiding (optional)') : undefined;
+    if (reason === null) return;
+
+    const hiddenAt = hidden ? new Date().toISOString() : null;
+    setComments((prev) => prev.map((c) => (c.id === comment.id ? { ...c, hidden_at: hiddenAt, hidden_reason: reason || null } : c)));
+
+    try {
+      await setCommentHidden(comment.id, hidden, reason);
+      toast.success(hidden ? 'Comment hidden' : 'Comment restored');
+    } catch (error) {
+      console.error('Error moderating comment:', error);
+      toast.error('Failed to update comment');
+      setComments((prev) => prev.map((c) => (c.id === comment.id ? comment : c)));
+    }
+  };
+
+  const handleDelete = async (comment: ModerationComment) => {
+    if (!confirm('Delete this comment and all replies to it?')) return;
+
+    try {
+      await deleteComment(comment.id);
+      toast.success('Comment deleted');
+      loadComments();
+    } catch (error) {
+      console.error('Error deleting comment:', error);
+      toast.error('Failed to delete comment');
+    }
+  };
+
+  const query = search.trim().toLowerCase();
+  const visible = comments.filter((comment) => {
+    if (filter === 'visible' && comment.hidden_at) return false;
+    if (filter === 'hidden' && !comment.hidden_at) return false;
+    if (
+      query &&
+      !comment.body.toLowerCase().includes(query) &&
+      !(comment.author_username || '').toLowerCase().includes(query) &&
+      !(comment.request?.title || '').toLowerCase().includes(query)
+    ) {
+      return false;
+    }
+    return true;
+  });
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-20">
+        <Loader2 className="w-8 h-8 animate-spin text-blue-600" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white/80 backdrop-blur-lg rounded-2xl shadow-xl p-6">
+      <div className="flex flex-wrap justify-between items-center gap-4 mb-6">
+        <h3 className="text-xl font-bold text-gray-800 flex items-center">
+          <MessageSquare className="w-5 h-5 mr-2 text-blue-600" />
+          Recent Comments
+        </h3>
+        <div className="flex flex-wrap items-center gap-3">
+          <div className="relative">
+            <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+            <input
+              type="text"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search comments, authors, requests"
+              className="pl-9 pr-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <select
+            value={filter}
+            onChange={(e) => setFilter(e.target.value as VisibilityFilter)}
+            className="px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="all">All comments</option>
+            <option value="visible">Visible</option>
+            <option value="hidden">Hidden</option>
+          </select>
+        </div>
+      </div>
+
+      {visible.length === 0 ? (
+        <p className="text-center text-gray-500 py-12">No comments to show</p>
+      ) : (
+        <ul className="space-y-3">
+          {visible.map((comment) => (
+            <li
+              key={comment.id}
+              className={`p-4 rounded-lg border ${comment.hidden_at ? 'border-red-100 bg-red-50' : 'border-gray-100 bg-gray-50'}`}
+            >
+              <div className="flex flex-wrap justify-between items-start gap-2 mb-2">
+                <div className="flex flex-wrap items-center gap-2 text-xs text-gray-500">
+                  <span className="font-medium text-gray-800 text-sm">{comment.author_username || 'Deleted user'}</span>
+                  <RoleBadge comment={comment} />
+                  <span>on</span>
+                  <Link to={`/request/${comment.request_id}`} className="text-blue-600 hover:text-blue-800">
+                    {comment.request?.title || 'a request'}
+                  </Link>
+                  <span>{new Date(comment.created_at).toLocaleString()}</span>
+                  {comment.parent_id && <span>(reply)</span>}
+                  {comment.edited_at && <span>(edited)</span>}
+                </div>
+                <div className="flex items-center space-x-3 text-xs">
+                  <button
+                    onClick={() => handleHide(comment, !comment.hidden_at)}
+                    className="flex items-center text-gray-600 hover:text-orange-600"
+                  >
+                    {comment.hidden_at ? <Eye className="w-4 h-4 mr-1" /> : <EyeOff className="w-4 h-4 mr-1" />}
+                    {comment.hidden_at ? 'Restore' : 'Hide'}
+                  </button>
+                  <button onClick={() => handleDelete(comment)} className="flex items-center text-gray-600 hover:text-red-600">
+                    <Trash2 className="w-4 h-4 mr-1" />
+                    Delete
+                  </button>
+                </div>
+              </div>
+              {comment.hidden_at && (
+                <p className="text-xs text-red-700 mb-2">
+                  Hidden {new Date(comment.hidden_at).toLocaleString()}
+                  {comment.hidden_reason ? `: ${comment.hidden_reason}` : ''}
+                </p>
+              )}
+              <Markdown source={comment.body} />
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -17,12 +17,15 @@ import {
   Eye,
   ThumbsUp,
   ThumbsDown,
-  Loader2
+  Loader2,
+  RotateCcw
 } from 'lucide-react';
-import { Request, Donation, Vote as VoteType } from '../../types';
+import { Request, Donation, Vote as VoteType, RefundableDonation } from '../../types';
 import { supabase } from '../../lib/supabase';
 import { useAuthStore } from '../../stores/authStore';
-import { walletService } from '../../lib/wallet';
+import { donationPlatform } from '../../lib/donationPlatform';
+import { WALLET_NOT_VERIFIED_MESSAGE, isWalletVerified } from '../../lib/siwe';
+import { WalletVerification } from '../WalletVerification';
 import toast from 'react-hot-toast';
 
 export const DonorDashboard: React.FC = () => {
@@ -30,6 +33,8 @@ export const DonorDashboard: React.FC = () => {
   const [requests, setRequests] = useState<Request[]>([]);
   const [donations, setDonations] = useState<Donation[]>([]);
   const [votes, setVotes] = useState<VoteType[]>([]);
+  const [refundables, setRefundables] = useState<RefundableDonation[]>([]);
+  const [claiming, setClaiming] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [filter, setFilter] = useState('all');
   const [loading, setLoading] = useState(false);
@@ -39,6 +44,7 @@ export const DonorDashboard: React.FC = () => {
     fetchRequests();
     fetchDonations();
     fetchVotes();
+    fetchRefundables();
   }, []);
 
   const fetchRequests = async () => {
@@ -86,6 +92,46 @@ export const DonorDashboard: React.FC = () => {
     }
   };
 
+  const fetchRefundables = async () => {
+    if (!user) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('refundable_donations')
+        .select('*')
+        .eq('donor_id', user.id);
+
+      if (error) throw error;
+      setRefundables(data || []);
+    } catch (error) {
+      console.error('Error fetching refundable donations:', error);
+    }
+  };
+
+  const handleClaimRefund = async (refundable: RefundableDonation) => {
+    setClaiming(refundable.request_id);
+    try {
+      const receipt = await donationPlatform.claimRefund(refundable.chain_request_id);
+      if (!receipt) return;
+
+      // The indexer marks the donations refunded once RefundClaimed is confirmed
+      const { error } = await supabase.rpc('record_refund_claim', {
+        p_request_id: refundable.request_id,
+        p_transaction_hash: receipt.transactionHash,
+      });
+
+      if (error) throw error;
+
+      toast.success(`Refunded ${receipt.amount} ETH to your wallet!`);
+      await Promise.all([fetchRefundables(), fetchDonations()]);
+    } catch (error) {
+      console.error('Error recording refund claim:', error);
+      toast.error('Refund sent but could not be recorded; it will appear once indexed');
+    } finally {
+      setClaiming(null);
+    }
+  };
+
   const fetchVotes = async () => {
     if (!user) return;
     
@@ -113,6 +159,11 @@ export const DonorDashboard: React.FC = () => {
       return;
     }
 
+    if (!isWalletVerified(user)) {
+      toast.error(WALLET_NOT_VERIFIED_MESSAGE);
+      return;
+    }
+
     const request = requests.find(r => r.id === requestId);
     console.log('Found request:', request); // Debug log
     
@@ -121,46 +172,44 @@ export const DonorDashboard: React.FC = () => {
       return;
     }
 
-    if (!request.requester) {
-      toast.error('Requester information not found');
+    if (!request.chain_request_id) {
+      toast.error('This request has not been registered on-chain yet');
       return;
     }
 
-    if (!request.requester.wallet_address) {
-      toast.error('Requester wallet address not set. Please contact the requester to update their wallet address.');
+    if (request.amount_raised >= request.amount_needed) {
+      toast.error('This request is already fully funded');
       return;
     }
 
-    console.log('Requester wallet address:', request.requester.wallet_address); // Debug log
-
     setLoading(true);
     try {
-      // Send transaction via MetaMask
-      const txHash = await walletService.sendTransaction(
-        request.requester.wallet_address,
-        amount
-      );
+      // Donate through the DonationPlatform contract (fee + escrow)
+      const receipt = await donationPlatform.donate(request.chain_request_id, amount);
 
-      if (!txHash) {
+      if (!receipt) {
         throw new Error('Transaction failed');
       }
 
-      // Save donation to database
+      // Save donation to database; the verification worker completes it once confirmed
       const { error } = await supabase
         .from('donations')
         .insert([
           {
             request_id: requestId,
             donor_id: user.id,
-            amount: parseFloat(amount),
-            transaction_hash: txHash,
-            status: 'completed',
+            amount: parseFloat(receipt.grossAmount),
+            net_amount: parseFloat(receipt.netAmount),
+            chain_request_id: receipt.chainRequestId,
+            transaction_hash: receipt.transactionHash,
+            status: 'pending',
           },
         ]);
 
-      if (error) throw error;
+      // 23505: the indexer already recorded this transaction from DonationMade
+      if (error && error.code !== '23505') throw error;
 
-      toast.success('Donation sent successfully!');
+      toast.success('Donation sent! It will appear once verified on-chain.');
       fetchRequests();
       fetchDonations();
     } catch (error) {
@@ -390,6 +439,55 @@ export const DonorDashboard: React.FC = () => {
         </motion.div>
       </div>
 
+      {/* Refundable Donations */}
+      {refundables.length > 0 && (
+        <div className="bg-white/80 backdrop-blur-lg rounded-2xl p-6 shadow-lg border border-orange-200">
+          <h3 className="text-xl font-bold text-gray-800 mb-2 flex items-center">
+            <RotateCcw className="w-6 h-6 mr-2 text-orange-600" />
+            Refundable Donations
+          </h3>
+          <p className="text-sm text-gray-600 mb-6">
+            These requests were rejected or missed their funding goal. Claim back your share of what is still held in
+            escrow (platform fees are not refunded).
+          </p>
+
+          <div className="space-y-4">
+            {refundables.map((refundable) => (
+              <div key={refundable.request_id} className="border border-gray-200 rounded-xl p-4 flex justify-between items-center">
+                <div>
+                  <h4 className="font-semibold text-gray-800">{refundable.title}</h4>
+                  <p className="text-sm text-gray-600">
+                    {refundable.reason === 'rejected'
+                      ? 'Rejected'
+                      : `Deadline passed ${refundable.deadline ? new Date(refundable.deadline).toLocaleDateString() : ''}`}
+                    {' · '}
+                    {refundable.donation_count} donation{refundable.donation_count === 1 ? '' : 's'} · {Number(refundable.net_total).toFixed(4)} ETH
+                  </p>
+                </div>
+                {refundable.refund_tx_hash ? (
+                  <span className="px-3 py-1 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">
+                    Refund confirming
+                  </span>
+                ) : (
+                  <button
+                    onClick={() => handleClaimRefund(refundable)}
+                    disabled={claiming === refundable.request_id}
+                    className="bg-orange-600 text-white px-4 py-2 rounded-lg hover:bg-orange-700 transition-colors flex items-center space-x-2 disabled:opacity-50"
+                  >
+                    {claiming === refundable.request_id ? (
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                    ) : (
+                      <RotateCcw className="w-4 h-4" />
+                    )}
+                    <span>Claim Refund</span>
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Donation History */}
       <div className="bg-white/80 backdrop-blur-lg rounded-2xl p-6 shadow-lg">
         <h3 className="text-xl font-bold text-gray-800 mb-6 flex items-center">
@@ -415,6 +513,7 @@ export const DonorDashboard: React.FC = () => {
                 <span className={`px-2 py-1 rounded-full text-xs font-medium ${
                   donation.status === 'completed' ? 'bg-green-100 text-green-800' :
                   donation.status === 'pending' ? 'bg-yellow-100 text-yellow-800' :
+                  donation.status === 'refunded' ? 'bg-gray-100 text-gray-800' :
                   'bg-red-100 text-red-800'
                 }`}>
                   {donation.status}
@@ -482,6 +581,7 @@ export const DonorDashboard: React.FC = () => {
               className="w-full px-4 py-3 border border-gray-300 rounded-lg bg-gray-50 font-mono text-sm"
               readOnly
             />
+            <WalletVerification />
           </div>
           
           <div>
@@ -560,6 +660,7 @@ const RequestCard: React.FC<RequestCardProps> = ({ request, onDonate, loading, i
   const [showDonationForm, setShowDonationForm] = useState(false);
 
   const progress = (request.amount_raised / request.amount_needed) * 100;
+  const isFullyFunded = request.amount_raised >= request.amount_needed;
 
   const handleDonateClick = () => {
     if (!donationAmount || parseFloat(donationAmount) <= 0) {
@@ -614,18 +715,20 @@ const RequestCard: React.FC<RequestCardProps> = ({ request, onDonate, loading, i
       {/* Debug info - remove in production */}
       {process.env.NODE_ENV === 'development' && (
         <div className="text-xs text-gray-400 mb-2">
-          Wallet: {request.requester?.wallet_address ? 'Set' : 'Not set'}
+          On-chain ID: {request.chain_request_id ?? 'Not set'}
         </div>
       )}
 
       {!showDonationForm ? (
         <button
           onClick={() => setShowDonationForm(true)}
-          disabled={loading || !request.requester?.wallet_address}
+          disabled={loading || !request.chain_request_id || isFullyFunded}
           className="w-full bg-gradient-to-r from-green-500 to-blue-600 text-white py-2 rounded-lg hover:from-green-600 hover:to-blue-700 transition-all duration-200 flex items-center justify-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
         >
           <Heart className="w-4 h-4" />
-          <span>{!request.requester?.wallet_address ? 'Wallet Not Set' : 'Donate Now'}</span>
+          <span>
+            {!request.chain_request_id ? 'Not On-Chain Yet' : isFullyFunded ? 'Fully Funded' : 'Donate Now'}
+          </span>
         </button>
       ) : (
         <div className="space-y-3">
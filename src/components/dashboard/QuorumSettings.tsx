@@ -0,0 +1,179 @@
+import React, { useEffect, useState } from 'react';
+import { Loader2, Scale } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { GovernanceSettings, User } from '../../types';
+import { DEFAULT_GOVERNANCE, VerifierWeights, describeThreshold, fetchGovernance } from '../../lib/governance';
+import { donationPlatform } from '../../lib/donationPlatform';
+
+const INDEXER_NOTE = 'Confirmed on-chain. The indexer will update the quorum here once the block is final.';
+
+interface QuorumSettingsProps {
+  users: User[];
+}
+
+// The contract is the source of truth: changes are sent to DonationPlatform
+// and the indexer mirrors them into governance_settings / verifier_weights
+export const QuorumSettings: React.FC<QuorumSettingsProps> = ({ users }) => {
+  const [settings, setSettings] = useState<GovernanceSettings>(DEFAULT_GOVERNANCE);
+  const [draft, setDraft] = useState<GovernanceSettings>(DEFAULT_GOVERNANCE);
+  const [weights, setWeights] = useState<VerifierWeights>({});
+  const [weightDrafts, setWeightDrafts] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [sending, setSending] = useState<string | null>(null);
+
+  const verifiers = users.filter((u) => u.role === 'verifier' && u.wallet_address);
+
+  useEffect(() => {
+    loadGovernance();
+  }, []);
+
+  const loadGovernance = async () => {
+    try {
+      const governance = await fetchGovernance();
+      setSettings(governance.settings);
+      setDraft(governance.settings);
+      setWeights(governance.weights);
+    } catch (error) {
+      console.error('Error fetching governance settings:', error);
+      toast.error('Failed to load quorum policy');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSavePolicy = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSending('policy');
+    try {
+      const txHash = await donationPlatform.setQuorumPolicy(
+        draft.minimum_votes,
+        draft.approval_threshold_bps,
+        draft.use_verifier_weights
+      );
+      if (txHash) toast.success(INDEXER_NOTE);
+    } finally {
+      setSending(null);
+    }
+  };
+
+  const handleSaveWeight = async (verifier: User) => {
+    const weight = Number(weightDrafts[verifier.id]);
+    if (!Number.isInteger(weight) || weight < 1 || !verifier.wallet_address) return;
+
+    setSending(verifier.id);
+    try {
+      const txHash = await donationPlatform.setVerifierWeight(verifier.wallet_address, weight);
+      if (txHash) {
+        toast.success(INDEXER_NOTE);
+        setWeightDrafts((prev) => {
+          const next = { ...prev };
+          delete next[verifier.id];
+          return next;
+        });
+      }
+    } finally {
+      setSending(null);
+    }
+  };
+
+  const policyChanged =
+    draft.minimum_votes !== settings.minimum_votes ||
+    draft.approval_threshold_bps !== settings.approval_threshold_bps ||
+    draft.use_verifier_weights !== settings.use_verifier_weights;
+
+  return (
+    <div className="bg-white/80 backdrop-blur-lg rounded-2xl shadow-xl p-6">
+      <h3 className="text-xl font-bold text-gray-800 mb-1 flex items-center">
+        <Scale className="w-5 h-5 mr-2 text-blue-600" />
+        Approval Quorum
+      </h3>
+      <p className="text-sm text-gray-600 mb-4">
+        Currently: {describeThreshold(settings)}. Changes are sent to the DonationPlatform contract from your wallet.
+      </p>
+
+      {loading ? (
+        <div className="flex justify-center py-6">
+          <Loader2 className="w-6 h-6 animate-spin text-blue-600" />
+        </div>
+      ) : (
+        <>
+          <form onSubmit={handleSavePolicy} className="flex flex-wrap items-end gap-4 mb-6">
+            <label className="text-sm text-gray-700">
+              <span className="block mb-1">Minimum votes</span>
+              <input
+                type="number"
+                min={1}
+                value={draft.minimum_votes}
+                onChange={(e) => setDraft({ ...draft, minimum_votes: Math.max(1, Math.floor(Number(e.target.value))) })}
+                className="w-24 px-3 py-2 text-sm border border-gray-300 rounded-lg"
+              />
+            </label>
+            <label className="text-sm text-gray-700">
+              <span className="block mb-1">Approve above (%)</span>
+              <input
+                type="number"
+                min={0}
+                max={99.99}
+                step={0.01}
+                value={draft.approval_threshold_bps / 100}
+                onChange={(e) => setDraft({
+                  ...draft,
+                  approval_threshold_bps: Math.min(9999, Math.max(0, Math.round(Number(e.target.value) * 100))),
+                })}
+                className="w-28 px-3 py-2 text-sm border border-gray-300 rounded-lg"
+              />
+            </label>
+            <label className="flex items-center space-x-2 text-sm text-gray-700 pb-2">
+              <input
+                type="checkbox"
+                checked={draft.use_verifier_weights}
+                onChange={(e) => setDraft({ ...draft, use_verifier_weights: e.target.checked })}
+                className="w-4 h-4 text-blue-600 rounded"
+              />
+              <span>Weight votes by verifier</span>
+            </label>
+            <button
+              type="submit"
+              disabled={!policyChanged || sending !== null}
+              className="flex items-center space-x-1 px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              {sending === 'policy' && <Loader2 className="w-4 h-4 animate-spin" />}
+              <span>Update on-chain</span>
+            </button>
+          </form>
+
+          <h4 className="font-semibold text-gray-800 mb-2">Verifier weights</h4>
+          {verifiers.length === 0 ? (
+            <p className="text-sm text-gray-500">No verifiers with a wallet yet</p>
+          ) : (
+            <div className="space-y-2">
+              {verifiers.map((verifier) => (
+                <div key={verifier.id} className="flex flex-wrap items-center gap-3 p-3 rounded-lg border border-gray-100">
+                  <span className="flex-1 min-w-[10rem] text-sm text-gray-800">
+                    {verifier.username}
+                    <span className="block font-mono text-xs text-gray-500">{verifier.wallet_address}</span>
+                  </span>
+                  <input
+                    type="number"
+                    min={1}
+                    value={weightDrafts[verifier.id] ?? String(weights[verifier.id] ?? 1)}
+                    onChange={(e) => setWeightDrafts((prev) => ({ ...prev, [verifier.id]: e.target.value }))}
+                    className="w-20 px-2 py-1 text-sm border border-gray-300 rounded-lg"
+                  />
+                  <button
+                    onClick={() => handleSaveWeight(verifier)}
+                    disabled={weightDrafts[verifier.id] === undefined || sending !== null}
+                    className="flex items-center space-x-1 px-3 py-1 text-sm border border-blue-600 text-blue-600 rounded-lg hover:bg-blue-50 transition-colors disabled:opacity-50"
+                  >
+                    {sending === verifier.id && <Loader2 className="w-4 h-4 animate-spin" />}
+                    <span>Set</span>
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
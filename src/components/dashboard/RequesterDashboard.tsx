@@ -18,15 +18,32 @@ import {
   Target,
   Loader2
 } from 'lucide-react';
-import { Request, Vote, Donation } from '../../types';
+import { Request, RequestCategory, Vote, Donation, Withdrawal, Milestone } from '../../types';
 import { supabase } from '../../lib/supabase';
 import { useAuthStore } from '../../stores/authStore';
+import { donationPlatform, MilestoneInput } from '../../lib/donationPlatform';
+import { getMilestoneProofUrl, uploadMilestoneProof } from '../../lib/milestones';
+import { ATTACHMENT_MIME_TYPES, uploadRequestAttachment, validateAttachment } from '../../lib/attachments';
+import { formatFileSize } from '../../lib/files';
+import { MAX_TAGS, REQUEST_CATEGORIES, parseTags } from '../../lib/categories';
+import { COUNTRY_OPTIONS } from '../../lib/countries';
+import { RequestDetails, updateOwnRequest } from '../../lib/requests';
+import { archiveRequest } from '../../lib/archive';
+import { WALLET_NOT_VERIFIED_MESSAGE, isWalletVerified } from '../../lib/siwe';
+import { DeadlineBadge } from '../DeadlineBadge';
+import { AttachmentGallery } from '../AttachmentGallery';
+import { VoteReviewDetails } from '../VoteReview';
+import { WalletVerification } from '../WalletVerification';
 import toast from 'react-hot-toast';
 
 export const RequesterDashboard: React.FC = () => {
-  const [activeTab, setActiveTab] = useState<'requests' | 'dashboard' | 'profile'>('requests');
+  const [activeTab, setActiveTab] = useState<'requests' | 'dashboard' | 'funds' | 'profile'>('requests');
   const [requests, setRequests] = useState<Request[]>([]);
   const [donations, setDonations] = useState<Donation[]>([]);
+  const [withdrawals, setWithdrawals] = useState<Withdrawal[]>([]);
+  const [balances, setBalances] = useState<Record<string, string | null>>({});
+  const [loadingBalances, setLoadingBalances] = useState(false);
+  const [withdrawing, setWithdrawing] = useState<string | null>(null);
   const [showCreateForm, setShowCreateForm] = useState(false);
   const [editingRequest, setEditingRequest] = useState<Request | null>(null);
   const [loading, setLoading] = useState(false);
@@ -35,8 +52,16 @@ export const RequesterDashboard: React.FC = () => {
   useEffect(() => {
     fetchRequests();
     fetchDonations();
+    fetchWithdrawals();
   }, []);
 
+  // Balances are read from the contract, so only ask for the wallet when needed
+  useEffect(() => {
+    if (activeTab === 'funds') {
+      fetchBalances();
+    }
+  }, [activeTab, requests]);
+
   const fetchRequests = async () => {
     if (!user) return;
     
@@ -49,7 +74,8 @@ export const RequesterDashboard: React.FC = () => {
           votes(
             *,
             voter:users!voter_id(username, role)
-          )
+          ),
+          milestones:request_milestones(*)
         `)
         .eq('requester_id', user.id)
         .order('created_at', { ascending: false });
@@ -86,27 +112,241 @@ export const RequesterDashboard: React.FC = () => {
     }
   };
 
-  const handleCreateRequest = async (requestData: any) => {
-    if (!user?.wallet_address) {
-      toast.error('Please ensure your wallet address is set in your profile');
-      return;
+  const fetchWithdrawals = async () => {
+    if (!user) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('withdrawals')
+        .select('*')
+        .eq('requester_id', user.id)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setWithdrawals(data || []);
+    } catch (error) {
+      console.error('Error fetching withdrawals:', error);
+      toast.error('Failed to load withdrawals');
     }
+  };
 
-    setLoading(true);
+  const fetchBalances = async () => {
+    const onChainRequests = requests.filter(r => r.chain_request_id != null);
+    if (onChainRequests.length === 0) return;
+
+    setLoadingBalances(true);
+    try {
+      const entries = await Promise.all(
+        onChainRequests.map(async (r) => [r.id, await donationPlatform.getWithdrawableBalance(r.chain_request_id!)] as const)
+      );
+      setBalances(Object.fromEntries(entries));
+    } finally {
+      setLoadingBalances(false);
+    }
+  };
+
+  const handleSubmitProof = async (request: Request, milestone: Milestone, file: File) => {
+    if (!user || request.chain_request_id == null) return;
+
+    setWithdrawing(milestone.id);
+    try {
+      const { path, hash } = await uploadMilestoneProof(file, user.id, request.id, milestone.milestone_index);
+
+      // The proof hash goes on-chain so donors can check the file wasn't swapped
+      const txHash = await donationPlatform.submitMilestoneProof(request.chain_request_id, milestone.milestone_index, hash);
+      if (!txHash) return;
+
+      const { error } = await supabase.rpc('submit_milestone_proof', {
+        p_milestone_id: milestone.id,
+        p_proof_path: path,
+        p_proof_hash: hash,
+      });
+
+      if (error) throw error;
+
+      toast.success('Proof submitted for verifier review!');
+      fetchRequests();
+    } catch (error) {
+      console.error('Error submitting milestone proof:', error);
+      toast.error('Failed to submit proof');
+    } finally {
+      setWithdrawing(null);
+    }
+  };
+
+  const handleReleaseMilestone = async (request: Request, milestone: Milestone) => {
+    if (!user || request.chain_request_id == null) return;
+
+    setWithdrawing(milestone.id);
     try {
+      const receipt = await donationPlatform.releaseMilestone(request.chain_request_id, milestone.milestone_index);
+      if (!receipt) return;
+
+      // Releases emit FundsWithdrawn too, so they show up in withdrawal history
       const { error } = await supabase
-        .from('requests')
+        .from('withdrawals')
         .insert([
           {
-            ...requestData,
+            request_id: request.id,
             requester_id: user.id,
-            amount_raised: 0,
+            chain_request_id: receipt.chainRequestId,
+            amount: parseFloat(receipt.amount),
+            transaction_hash: receipt.transactionHash,
             status: 'pending',
           },
         ]);
 
       if (error) throw error;
 
+      toast.success(`Released ${receipt.amount} ETH to your wallet!`);
+      await Promise.all([fetchWithdrawals(), fetchBalances()]);
+    } catch (error) {
+      console.error('Error recording milestone release:', error);
+      toast.error('Release sent but could not be recorded; it will appear once indexed');
+    } finally {
+      setWithdrawing(null);
+    }
+  };
+
+  const handleWithdraw = async (request: Request) => {
+    if (!user || request.chain_request_id == null) return;
+
+    setWithdrawing(request.id);
+    try {
+      const receipt = await donationPlatform.withdrawFunds(request.chain_request_id);
+      if (!receipt) return;
+
+      // Recorded as pending; the chain indexer completes it from FundsWithdrawn
+      const { error } = await supabase
+        .from('withdrawals')
+        .insert([
+          {
+            request_id: request.id,
+            requester_id: user.id,
+            chain_request_id: receipt.chainRequestId,
+            amount: parseFloat(receipt.amount),
+            transaction_hash: receipt.transactionHash,
+            status: 'pending',
+          },
+        ]);
+
+      if (error) throw error;
+
+      toast.success(`Withdrew ${receipt.amount} ETH to your wallet!`);
+      await Promise.all([fetchWithdrawals(), fetchBalances()]);
+    } catch (error) {
+      console.error('Error recording withdrawal:', error);
+      toast.error('Withdrawal sent but could not be recorded; it will appear once indexed');
+    } finally {
+      setWithdrawing(null);
+    }
+  };
+
+  // Attachments are uploaded after the request row exists, since both the
+  // storage path and the attachment row reference the request id
+  const uploadAttachments = async (requestId: string, files: File[] = []) => {
+    if (!user || files.length === 0) return;
+
+    const results = await Promise.allSettled(
+      files.map((file) => uploadRequestAttachment(file, user.id, requestId))
+    );
+    const failed = results.filter((result) => result.status === 'rejected');
+
+    if (failed.length > 0) {
+      console.error('Error uploading attachments:', failed);
+      toast.error(`${failed.length} of ${files.length} attachment(s) failed to upload`);
+    }
+  };
+
+  const handleCreateRequest = async ({ milestones, attachments, ...requestData }: any) => {
+    if (!user?.wallet_address) {
+      toast.error('Please ensure your wallet address is set in your profile');
+      return;
+    }
+
+    if (!isWalletVerified(user)) {
+      toast.error(WALLET_NOT_VERIFIED_MESSAGE);
+      return;
+    }
+
+    // The contract pays out to msg.sender, so it must match the profile wallet
+    const signerAddress = await donationPlatform.getSignerAddress();
+    if (!signerAddress || signerAddress.toLowerCase() !== user.wallet_address.toLowerCase()) {
+      toast.error('Please connect the wallet set in your profile to create a request');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const stages: MilestoneInput[] = milestones || [];
+
+      // Register the request with the DonationPlatform contract first
+      const receipt = stages.length > 0
+        ? await donationPlatform.createRequestWithMilestones(
+            requestData.title,
+            requestData.description,
+            stages,
+            requestData.deadline
+          )
+        : await donationPlatform.createRequest(
+            requestData.title,
+            requestData.description,
+            String(requestData.amount_needed),
+            requestData.deadline
+          );
+
+      if (!receipt) {
+        throw new Error('Transaction failed');
+      }
+
+      const { data: inserted, error } = await supabase
+        .from('requests')
+        .insert({
+          ...requestData,
+          chain_request_id: receipt.chainRequestId,
+          requester_id: user.id,
+          amount_raised: 0,
+          status: 'pending',
+        })
+        .select('id')
+        .single();
+
+      let savedId: string;
+      if (!error) {
+        savedId = inserted.id;
+      } else if (error.code === '23505') {
+        // The chain indexer already mirrored this request; fill in the
+        // off-chain details it doesn't know about
+        const { data: mirrored, error: mirroredError } = await supabase
+          .from('requests')
+          .select('id')
+          .eq('chain_request_id', receipt.chainRequestId)
+          .single();
+
+        if (mirroredError) throw mirroredError;
+        savedId = (await updateOwnRequest(mirrored.id, requestData)).id;
+      } else {
+        throw error;
+      }
+
+      if (stages.length > 0) {
+        const { error: milestoneError } = await supabase
+          .from('request_milestones')
+          .upsert(
+            stages.map((stage, index) => ({
+              request_id: savedId,
+              milestone_index: index,
+              description: stage.description,
+              amount: parseFloat(stage.amount),
+            })),
+            { onConflict: 'request_id,milestone_index', ignoreDuplicates: true }
+          );
+
+        if (milestoneError) throw milestoneError;
+      }
+
+      await uploadAttachments(savedId, attachments);
+
       toast.success('Request created successfully!');
       setShowCreateForm(false);
       fetchRequests();
@@ -118,15 +358,14 @@ export const RequesterDashboard: React.FC = () => {
     }
   };
 
-  const handleUpdateRequest = async (requestId: string, updates: Partial<Request>) => {
+  const handleUpdateRequest = async (
+    requestId: string,
+    { attachments, ...details }: RequestDetails & { attachments?: File[] }
+  ) => {
     setLoading(true);
     try {
-      const { error } = await supabase
-        .from('requests')
-        .update(updates)
-        .eq('id', requestId);
-
-      if (error) throw error;
+      await updateOwnRequest(requestId, details);
+      await uploadAttachments(requestId, attachments);
 
       toast.success('Request updated successfully!');
       setEditingRequest(null);
@@ -144,18 +383,13 @@ export const RequesterDashboard: React.FC = () => {
 
     setLoading(true);
     try {
-      const { error } = await supabase
-        .from('requests')
-        .delete()
-        .eq('id', requestId);
-
-      if (error) throw error;
+      await archiveRequest(requestId);
 
       toast.success('Request deleted successfully!');
       fetchRequests();
     } catch (error) {
       console.error('Error deleting request:', error);
-      toast.error('Failed to delete request');
+      toast.error((error as { message?: string }).message || 'Failed to delete request');
     } finally {
       setLoading(false);
     }
@@ -184,12 +418,18 @@ export const RequesterDashboard: React.FC = () => {
         </button>
       </div>
 
-      {!user?.wallet_address && (
+      {!user?.wallet_address ? (
         <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
           <p className="text-yellow-800">
             <strong>Wallet address required:</strong> Please set your wallet address in profile settings to receive donations.
           </p>
         </div>
+      ) : !isWalletVerified(user) && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+          <p className="text-yellow-800">
+            <strong>Wallet not verified:</strong> Verify your wallet in profile settings before creating a request.
+          </p>
+        </div>
       )}
 
       {loading && (
@@ -355,6 +595,58 @@ export const RequesterDashboard: React.FC = () => {
     </div>
   );
 
+  const renderFundsTab = () => {
+    const fundedRequests = requests.filter(r => r.chain_request_id != null && r.status !== 'pending' && r.status !== 'rejected');
+
+    return (
+      <div className="space-y-6">
+        <div className="flex justify-between items-center">
+          <h2 className="text-2xl font-bold text-gray-800">Funds</h2>
+          <button
+            onClick={() => fetchBalances()}
+            disabled={loadingBalances}
+            className="bg-gray-600 text-white px-4 py-2 rounded-lg hover:bg-gray-700 transition-colors flex items-center space-x-2 disabled:opacity-50"
+          >
+            {loadingBalances ? <Loader2 className="w-4 h-4 animate-spin" /> : <Wallet className="w-4 h-4" />}
+            <span>Refresh Balances</span>
+          </button>
+        </div>
+
+        <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
+          <p className="text-sm text-blue-800">
+            Donations are held by the donation contract. Withdrawing sends the full available balance of a request
+            to the wallet that created it. Requests with milestones release each tranche once verifiers approve its proof.
+          </p>
+        </div>
+
+        {fundedRequests.length === 0 ? (
+          <div className="text-center py-12 bg-white/80 backdrop-blur-lg rounded-2xl shadow-lg">
+            <Wallet className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-xl font-semibold text-gray-800 mb-2">No Funds Yet</h3>
+            <p className="text-gray-600">Funds become withdrawable once a request is approved and receives donations.</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {fundedRequests.map((request, index) => (
+              <FundsCard
+                key={request.id}
+                request={request}
+                balance={balances[request.id]}
+                loadingBalance={loadingBalances}
+                withdrawals={withdrawals.filter(w => w.request_id === request.id)}
+                onWithdraw={handleWithdraw}
+                onSubmitProof={handleSubmitProof}
+                onReleaseMilestone={handleReleaseMilestone}
+                withdrawing={withdrawing}
+                index={index}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
   const renderProfileTab = () => (
     <div className="space-y-6">
       <div className="bg-white/80 backdrop-blur-lg rounded-2xl p-6 shadow-lg">
@@ -405,8 +697,9 @@ export const RequesterDashboard: React.FC = () => {
               readOnly
             />
             <p className="text-sm text-gray-500 mt-1">
-              Donations will be sent directly to this wallet address
+              Donations are held by the donation contract and withdrawn to this wallet address
             </p>
+            <WalletVerification />
           </div>
           
           <div>
@@ -444,6 +737,7 @@ export const RequesterDashboard: React.FC = () => {
         {[
           { id: 'requests', label: 'My Requests', icon: FileText },
           { id: 'dashboard', label: 'Dashboard', icon: BarChart3 },
+          { id: 'funds', label: 'Funds', icon: Wallet },
           { id: 'profile', label: 'Profile Settings', icon: Settings },
         ].map((tab) => (
           <button
@@ -465,6 +759,7 @@ export const RequesterDashboard: React.FC = () => {
       <div>
         {activeTab === 'requests' && renderRequestsTab()}
         {activeTab === 'dashboard' && renderDashboardTab()}
+        {activeTab === 'funds' && renderFundsTab()}
         {activeTab === 'profile' && renderProfileTab()}
       </div>
 
@@ -499,7 +794,8 @@ interface RequestCardProps {
 }
 
 const RequestCard: React.FC<RequestCardProps> = ({ request, onEdit, onDelete, index, loading }) => {
-  const [showVotes, setShowVotes] = useState(false);
+  // Rejected requests open with the verifiers' reasons showing
+  const [showVotes, setShowVotes] = useState(request.status === 'rejected');
   const progress = (request.amount_raised / request.amount_needed) * 100;
 
   const getStatusColor = (status: string) => {
@@ -510,6 +806,8 @@ const RequestCard: React.FC<RequestCardProps> = ({ request, onEdit, onDelete, in
         return 'bg-red-100 text-red-800';
       case 'completed':
         return 'bg-blue-100 text-blue-800';
+      case 'expired':
+        return 'bg-gray-200 text-gray-700';
       default:
         return 'bg-yellow-100 text-yellow-800';
     }
@@ -532,6 +830,9 @@ const RequestCard: React.FC<RequestCardProps> = ({ request, onEdit, onDelete, in
             <span className={`px-2 py-1 rounded-full text-xs font-medium ${getStatusColor(request.status)}`}>
               {request.status}
             </span>
+            {(request.status === 'approved' || request.status === 'pending') && (
+              <DeadlineBadge deadline={request.deadline} />
+            )}
           </div>
           <p className="text-gray-600 mb-4">{request.description}</p>
         </div>
@@ -550,13 +851,16 @@ const RequestCard: React.FC<RequestCardProps> = ({ request, onEdit, onDelete, in
           >
             <Edit className="w-5 h-5" />
           </button>
-          <button
-            onClick={() => onDelete(request.id)}
-            disabled={loading}
-            className="p-2 text-red-600 hover:bg-red-100 rounded-lg transition-colors disabled:opacity-50"
-          >
-            <Trash2 className="w-5 h-5" />
-          </button>
+          {/* Requests on the contract can only be cancelled there by an admin */}
+          {request.status === 'pending' && request.chain_request_id == null && (
+            <button
+              onClick={() => onDelete(request.id)}
+              disabled={loading}
+              className="p-2 text-red-600 hover:bg-red-100 rounded-lg transition-colors disabled:opacity-50"
+            >
+              <Trash2 className="w-5 h-5" />
+            </button>
+          )}
         </div>
       </div>
 
@@ -605,15 +909,18 @@ const RequestCard: React.FC<RequestCardProps> = ({ request, onEdit, onDelete, in
           <h4 className="font-medium text-gray-800 mb-3">Voting Details</h4>
           <div className="space-y-2">
             {request.votes?.map((vote) => (
-              <div key={vote.id} className="flex justify-between items-center">
-                <span className="text-sm text-gray-600">
-                  {vote.voter?.username} ({vote.voter?.role})
-                </span>
-                <span className={`text-sm font-medium ${
-                  vote.vote_type === 'approve' ? 'text-green-600' : 'text-red-600'
-                }`}>
-                  {vote.vote_type === 'approve' ? '✓ Approved' : '✗ Rejected'}
-                </span>
+              <div key={vote.id} className="py-2 border-b border-gray-100 last:border-0">
+                <div className="flex justify-between items-center">
+                  <span className="text-sm text-gray-600">
+                    {vote.voter?.username} ({vote.voter?.role})
+                  </span>
+                  <span className={`text-sm font-medium ${
+                    vote.vote_type === 'approve' ? 'text-green-600' : 'text-red-600'
+                  }`}>
+                    {vote.vote_type === 'approve' ? '✓ Approved' : '✗ Rejected'}
+                  </span>
+                </div>
+                <VoteReviewDetails vote={vote} />
               </div>
             ))}
           </div>
@@ -623,6 +930,211 @@ const RequestCard: React.FC<RequestCardProps> = ({ request, onEdit, onDelete, in
   );
 };
 
+interface FundsCardProps {
+  request: Request;
+  balance?: string | null;
+  loadingBalance: boolean;
+  withdrawals: Withdrawal[];
+  onWithdraw: (request: Request) => void;
+  onSubmitProof: (request: Request, milestone: Milestone, file: File) => void;
+  onReleaseMilestone: (request: Request, milestone: Milestone) => void;
+  withdrawing: string | null;
+  index: number;
+}
+
+const FundsCard: React.FC<FundsCardProps> = ({
+  request,
+  balance,
+  loadingBalance,
+  withdrawals,
+  onWithdraw,
+  onSubmitProof,
+  onReleaseMilestone,
+  withdrawing,
+  index,
+}) => {
+  const available = balance != null ? parseFloat(balance) : null;
+  const milestones = [...(request.milestones || [])].sort((a, b) => a.milestone_index - b.milestone_index);
+  const totalWithdrawn = withdrawals
+    .filter(w => w.status !== 'failed')
+    .reduce((sum, w) => sum + w.amount, 0);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: index * 0.1 }}
+      className="bg-white/80 backdrop-blur-lg rounded-xl shadow-lg p-6"
+    >
+      <div className="flex justify-between items-start mb-4">
+        <div className="flex-1">
+          <h3 className="text-xl font-semibold text-gray-800">{request.title}</h3>
+          <p className="text-sm text-gray-500">On-chain ID: {request.chain_request_id}</p>
+        </div>
+        {milestones.length === 0 && (
+          <button
+            onClick={() => onWithdraw(request)}
+            disabled={withdrawing === request.id || !available}
+            className="bg-gradient-to-r from-green-500 to-emerald-600 text-white px-6 py-2 rounded-lg hover:from-green-600 hover:to-emerald-700 transition-all duration-200 flex items-center space-x-2 disabled:opacity-50"
+          >
+            {withdrawing === request.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+            <span>Withdraw</span>
+          </button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+        <div className="bg-green-50 rounded-lg p-3">
+          <p className="text-xs text-green-700">Available to Withdraw</p>
+          <p className="text-lg font-bold text-green-800">
+            {loadingBalance && available == null ? '...' : available != null ? `${available.toFixed(4)} ETH` : 'Unavailable'}
+          </p>
+        </div>
+        <div className="bg-blue-50 rounded-lg p-3">
+          <p className="text-xs text-blue-700">Total Raised</p>
+          <p className="text-lg font-bold text-blue-800">{request.amount_raised.toFixed(4)} ETH</p>
+        </div>
+        <div className="bg-purple-50 rounded-lg p-3">
+          <p className="text-xs text-purple-700">Withdrawn</p>
+          <p className="text-lg font-bold text-purple-800">{totalWithdrawn.toFixed(4)} ETH</p>
+        </div>
+      </div>
+
+      {milestones.length > 0 && (
+        <div className="mb-4">
+          <h4 className="font-medium text-gray-800 mb-2">Milestones</h4>
+          <div className="space-y-3">
+            {milestones.map((milestone, i) => (
+              <MilestoneRow
+                key={milestone.id}
+                milestone={milestone}
+                canRelease={i === 0 || milestones[i - 1].status === 'released'}
+                busy={withdrawing === milestone.id}
+                onSubmitProof={(file) => onSubmitProof(request, milestone, file)}
+                onRelease={() => onReleaseMilestone(request, milestone)}
+              />
+            ))}
+          </div>
+        </div>
+      )}
+
+      <h4 className="font-medium text-gray-800 mb-2">Withdrawal History</h4>
+      {withdrawals.length === 0 ? (
+        <p className="text-sm text-gray-500">No withdrawals yet</p>
+      ) : (
+        <div className="space-y-2">
+          {withdrawals.map((withdrawal) => (
+            <div key={withdrawal.id} className="flex justify-between items-center text-sm border-b border-gray-100 pb-2">
+              <div className="flex items-center space-x-3">
+                <span className="font-medium text-gray-800">{withdrawal.amount.toFixed(4)} ETH</span>
+                <span className={`px-2 py-1 rounded-full text-xs font-medium ${
+                  withdrawal.status === 'completed' ? 'bg-green-100 text-green-800' :
+                  withdrawal.status === 'pending' ? 'bg-yellow-100 text-yellow-800' :
+                  'bg-red-100 text-red-800'
+                }`}>
+                  {withdrawal.status}
+                </span>
+              </div>
+              <div className="flex items-center space-x-3">
+                <span className="text-gray-500">{new Date(withdrawal.created_at).toLocaleDateString()}</span>
+                <a
+                  href={`https://sepolia.etherscan.io/tx/${withdrawal.transaction_hash}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-blue-600 hover:text-blue-800 hover:underline"
+                >
+                  View Transaction
+                </a>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </motion.div>
+  );
+};
+
+const milestoneStatusColors: Record<Milestone['status'], string> = {
+  pending: 'bg-gray-100 text-gray-800',
+  in_review: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-800',
+  released: 'bg-blue-100 text-blue-800',
+};
+
+interface MilestoneRowProps {
+  milestone: Milestone;
+  canRelease: boolean;
+  busy: boolean;
+  onSubmitProof: (file: File) => void;
+  onRelease: () => void;
+}
+
+const MilestoneRow: React.FC<MilestoneRowProps> = ({ milestone, canRelease, busy, onSubmitProof, onRelease }) => {
+  const viewProof = async () => {
+    if (!milestone.proof_path) return;
+    const url = await getMilestoneProofUrl(milestone.proof_path);
+    if (url) window.open(url, '_blank', 'noopener,noreferrer');
+  };
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-3">
+      <div className="flex justify-between items-start">
+        <div className="flex-1">
+          <p className="font-medium text-gray-800">
+            {milestone.milestone_index + 1}. {milestone.description}
+          </p>
+          <p className="text-sm text-gray-600">{milestone.amount.toFixed(4)} ETH</p>
+        </div>
+        <span className={`px-2 py-1 rounded-full text-xs font-medium ${milestoneStatusColors[milestone.status]}`}>
+          {milestone.status.replace('_', ' ')}
+        </span>
+      </div>
+
+      <div className="flex items-center justify-between mt-2 text-sm">
+        {milestone.proof_path ? (
+          <button onClick={viewProof} className="text-blue-600 hover:text-blue-800 hover:underline">
+            View Proof
+          </button>
+        ) : (
+          <span className="text-gray-500">No proof uploaded</span>
+        )}
+
+        {busy ? (
+          <Loader2 className="w-4 h-4 animate-spin text-blue-600" />
+        ) : (milestone.status === 'pending' || milestone.status === 'rejected') ? (
+          <label className="cursor-pointer bg-blue-600 text-white px-3 py-1 rounded-lg hover:bg-blue-700 transition-colors flex items-center space-x-1">
+            <Upload className="w-4 h-4" />
+            <span>{milestone.status === 'rejected' ? 'Resubmit Proof' : 'Upload Proof'}</span>
+            <input
+              type="file"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) onSubmitProof(file);
+                e.target.value = '';
+              }}
+            />
+          </label>
+        ) : milestone.status === 'approved' ? (
+          <button
+            onClick={onRelease}
+            disabled={!canRelease}
+            title={canRelease ? undefined : 'Release earlier milestones first'}
+            className="bg-green-600 text-white px-3 py-1 rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50"
+          >
+            Release Funds
+          </button>
+        ) : milestone.status === 'released' ? (
+          <span className="text-gray-600">Released {milestone.released_amount?.toFixed(4)} ETH</span>
+        ) : (
+          <span className="text-gray-600">Awaiting verifier review</span>
+        )}
+      </div>
+    </div>
+  );
+};
+
 interface RequestModalProps {
   request?: Request;
   onSubmit: (data: any) => void;
@@ -635,11 +1147,76 @@ const RequestModal: React.FC<RequestModalProps> = ({ request, onSubmit, onClose,
     title: request?.title || '',
     description: request?.description || '',
     amount_needed: request?.amount_needed || 0,
+    category: request?.category || 'other',
+    country_code: request?.country_code || '',
+    region: request?.region || '',
+  });
+  const [tagsInput, setTagsInput] = useState(request?.tags?.join(', ') || '');
+  const [coordinates, setCoordinates] = useState({
+    latitude: request?.latitude?.toString() ?? '',
+    longitude: request?.longitude?.toString() ?? '',
   });
+  const [deadline, setDeadline] = useState('');
+  const [useMilestones, setUseMilestones] = useState(false);
+  const [milestones, setMilestones] = useState<MilestoneInput[]>([{ description: '', amount: '' }]);
+  const [files, setFiles] = useState<File[]>([]);
+
+  const milestoneTotal = milestones.reduce((sum, m) => sum + (parseFloat(m.amount) || 0), 0);
+
+  const updateMilestone = (index: number, updates: Partial<MilestoneInput>) => {
+    setMilestones(milestones.map((m, i) => (i === index ? { ...m, ...updates } : m)));
+  };
+
+  const handleAddFiles = (selected: FileList | null) => {
+    if (!selected) return;
+
+    const accepted: File[] = [];
+    Array.from(selected).forEach((file) => {
+      const problem = validateAttachment(file);
+      if (problem) {
+        toast.error(problem);
+      } else {
+        accepted.push(file);
+      }
+    });
+    setFiles([...files, ...accepted]);
+  };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    onSubmit(formData);
+
+    if (!coordinates.latitude !== !coordinates.longitude) {
+      toast.error('Enter both latitude and longitude, or leave both empty');
+      return;
+    }
+
+    const details = {
+      ...formData,
+      country_code: formData.country_code || null,
+      region: formData.region.trim() || null,
+      tags: parseTags(tagsInput),
+      latitude: coordinates.latitude ? parseFloat(coordinates.latitude) : null,
+      longitude: coordinates.longitude ? parseFloat(coordinates.longitude) : null,
+      attachments: files,
+    };
+
+    // The deadline is fixed on-chain at creation, so edits leave it alone
+    if (request) {
+      onSubmit(details);
+      return;
+    }
+
+    const createData = {
+      ...details,
+      deadline: deadline ? new Date(`${deadline}T23:59:59`).toISOString() : null,
+    };
+
+    if (useMilestones) {
+      // The contract sets amount_needed to the sum of the milestones
+      onSubmit({ ...createData, amount_needed: milestoneTotal, milestones });
+    } else {
+      onSubmit(createData);
+    }
   };
 
   return (
@@ -647,7 +1224,7 @@ const RequestModal: React.FC<RequestModalProps> = ({ request, onSubmit, onClose,
       <motion.div
         initial={{ opacity: 0, scale: 0.9 }}
         animate={{ opacity: 1, scale: 1 }}
-        className="bg-white rounded-xl p-6 w-full max-w-md"
+        className="bg-white rounded-xl p-6 w-full max-w-md max-h-[90vh] overflow-y-auto"
       >
         <h2 className="text-2xl font-bold text-gray-800 mb-4">
           {request ? 'Edit Request' : 'Create New Aid Request'}
@@ -669,18 +1246,152 @@ const RequestModal: React.FC<RequestModalProps> = ({ request, onSubmit, onClose,
 
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
-              Description (Include photos/documentation if available)
+              Description
             </label>
             <textarea
               value={formData.description}
               onChange={(e) => setFormData({ ...formData, description: e.target.value })}
               rows={4}
               className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
-              placeholder="Describe your situation, include any supporting documentation or photo links..."
+              placeholder="Describe your situation and what the funds will be used for..."
               required
             />
           </div>
 
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Category
+              </label>
+              <select
+                value={formData.category}
+                onChange={(e) => setFormData({ ...formData, category: e.target.value as RequestCategory })}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {REQUEST_CATEGORIES.map((category) => (
+                  <option key={category.value} value={category.value}>{category.label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Country
+              </label>
+              <select
+                value={formData.country_code}
+                onChange={(e) => setFormData({ ...formData, country_code: e.target.value })}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="">Not specified</option>
+                {COUNTRY_OPTIONS.map((country) => (
+                  <option key={country.code} value={country.code}>{country.name}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Region / City (optional)
+            </label>
+            <input
+              type="text"
+              value={formData.region}
+              onChange={(e) => setFormData({ ...formData, region: e.target.value })}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              placeholder="e.g. Sindh, Karachi"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <input
+              type="number"
+              step="any"
+              min="-90"
+              max="90"
+              value={coordinates.latitude}
+              onChange={(e) => setCoordinates({ ...coordinates, latitude: e.target.value })}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              placeholder="Latitude (optional)"
+            />
+            <input
+              type="number"
+              step="any"
+              min="-180"
+              max="180"
+              value={coordinates.longitude}
+              onChange={(e) => setCoordinates({ ...coordinates, longitude: e.target.value })}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              placeholder="Longitude (optional)"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Tags
+            </label>
+            <input
+              type="text"
+              value={tagsInput}
+              onChange={(e) => setTagsInput(e.target.value)}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              placeholder="flood, children, surgery"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Comma-separated, up to {MAX_TAGS}. Donors can filter requests by tag.
+            </p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Supporting Documents
+            </label>
+            {request && (
+              <AttachmentGallery
+                requestId={request.id}
+                title="Attached"
+                compact
+                canDelete={request.status === 'pending'}
+              />
+            )}
+            <label className="flex items-center justify-center w-full px-4 py-3 border-2 border-dashed border-gray-300 rounded-lg cursor-pointer hover:border-blue-400 text-sm text-gray-600">
+              <Upload className="w-4 h-4 mr-2" />
+              Add photos or PDFs
+              <input
+                type="file"
+                multiple
+                accept={ATTACHMENT_MIME_TYPES.join(',')}
+                className="hidden"
+                onChange={(e) => {
+                  handleAddFiles(e.target.files);
+                  e.target.value = '';
+                }}
+              />
+            </label>
+            {files.length > 0 && (
+              <ul className="mt-2 space-y-1">
+                {files.map((file, index) => (
+                  <li key={`${file.name}-${index}`} className="flex items-center justify-between text-sm text-gray-700">
+                    <span className="truncate">{file.name}</span>
+                    <span className="flex items-center space-x-2 flex-shrink-0 ml-2">
+                      <span className="text-xs text-gray-500">{formatFileSize(file.size)}</span>
+                      <button
+                        type="button"
+                        onClick={() => setFiles(files.filter((_, i) => i !== index))}
+                        className="text-red-600 hover:text-red-800"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <p className="text-xs text-gray-500 mt-1">
+              Images and PDFs up to 10 MB. Verifiers review these before voting.
+            </p>
+          </div>
+
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
               Amount Needed (ETH)
@@ -688,17 +1399,96 @@ const RequestModal: React.FC<RequestModalProps> = ({ request, onSubmit, onClose,
             <input
               type="number"
               step="0.001"
-              value={formData.amount_needed}
+              value={useMilestones ? milestoneTotal : formData.amount_needed}
               onChange={(e) => setFormData({ ...formData, amount_needed: parseFloat(e.target.value) })}
-              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-50"
+              disabled={useMilestones || !!request}
+              title={request ? 'The amount is fixed on-chain when the request is created' : undefined}
               required
             />
           </div>
 
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Funding Deadline (optional)
+            </label>
+            <input
+              type="date"
+              value={request ? request.deadline?.slice(0, 10) || '' : deadline}
+              min={new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString().slice(0, 10)}
+              onChange={(e) => setDeadline(e.target.value)}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-50"
+              disabled={!!request}
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              If the goal isn't reached by this date, donors can claim refunds of what remains in escrow.
+            </p>
+          </div>
+
+          {!request && (
+            <div>
+              <label className="flex items-center space-x-2 text-sm font-medium text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={useMilestones}
+                  onChange={(e) => setUseMilestones(e.target.checked)}
+                />
+                <span>Release funds in milestones</span>
+              </label>
+
+              {useMilestones && (
+                <div className="mt-3 space-y-2">
+                  {milestones.map((milestone, index) => (
+                    <div key={index} className="flex space-x-2">
+                      <input
+                        type="text"
+                        value={milestone.description}
+                        onChange={(e) => updateMilestone(index, { description: e.target.value })}
+                        className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        placeholder={`Milestone ${index + 1}`}
+                        required
+                      />
+                      <input
+                        type="number"
+                        step="0.001"
+                        min="0.001"
+                        value={milestone.amount}
+                        onChange={(e) => updateMilestone(index, { amount: e.target.value })}
+                        className="w-28 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        placeholder="ETH"
+                        required
+                      />
+                      {milestones.length > 1 && (
+                        <button
+                          type="button"
+                          onClick={() => setMilestones(milestones.filter((_, i) => i !== index))}
+                          className="p-2 text-red-600 hover:bg-red-100 rounded-lg transition-colors"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                  <button
+                    type="button"
+                    onClick={() => setMilestones([...milestones, { description: '', amount: '' }])}
+                    className="text-sm text-blue-600 hover:text-blue-800 flex items-center space-x-1"
+                  >
+                    <Plus className="w-4 h-4" />
+                    <span>Add Milestone</span>
+                  </button>
+                  <p className="text-xs text-gray-500">
+                    Each milestone needs proof approved by verifiers before its funds can be released.
+                  </p>
+                </div>
+              )}
+            </div>
+          )}
+
           <div className="bg-blue-50 p-4 rounded-lg">
             <p className="text-sm text-blue-800">
-              <strong>Note:</strong> Donations will be sent directly to your wallet address. 
-              Make sure your wallet address is set in your profile.
+              <strong>Note:</strong> Your request is registered with the donation contract from your connected wallet.
+              Donations are held in escrow and can be withdrawn to that wallet once approved.
             </p>
           </div>
 
@@ -0,0 +1,154 @@
+import React, { useEffect, useState } from 'react';
+import { ClipboardCheck, Loader2, Plus } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { ReviewChecklistItem } from '../../types';
+import { fetchReviewChecklist, saveChecklistItem } from '../../lib/reviewChecklist';
+
+const toKey = (label: string) =>
+  label.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '').slice(0, 50);
+
+// Items are retired rather than deleted so older votes keep their labels
+export const ReviewChecklistSettings: React.FC = () => {
+  const [items, setItems] = useState<ReviewChecklistItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [newLabel, setNewLabel] = useState('');
+
+  useEffect(() => {
+    loadItems();
+  }, []);
+
+  const loadItems = async () => {
+    try {
+      setItems(await fetchReviewChecklist(true));
+    } catch (error) {
+      console.error('Error fetching review checklist:', error);
+      toast.error('Failed to load review checklist');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSave = async (item: ReviewChecklistItem) => {
+    const previous = items;
+    setItems((prev) => prev.map((i) => (i.key === item.key ? item : i)));
+
+    try {
+      await saveChecklistItem(item);
+    } catch (error) {
+      console.error('Error saving checklist item:', error);
+      toast.error('Failed to save checklist item');
+      setItems(previous);
+    }
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const label = newLabel.trim();
+    const key = toKey(label);
+    if (!key) return;
+
+    if (items.some((i) => i.key === key)) {
+      toast.error('A checklist item with this name already exists');
+      return;
+    }
+
+    const item: ReviewChecklistItem = {
+      key,
+      label,
+      required: true,
+      position: Math.max(0, ...items.map((i) => i.position)) + 1,
+      active: true,
+    };
+
+    try {
+      await saveChecklistItem(item);
+      setItems((prev) => [...prev, item]);
+      setNewLabel('');
+      toast.success('Checklist item added');
+    } catch (error) {
+      console.error('Error adding checklist item:', error);
+      toast.error('Failed to add checklist item');
+    }
+  };
+
+  return (
+    <div className="bg-white/80 backdrop-blur-lg rounded-2xl shadow-xl p-6">
+      <h3 className="text-xl font-bold text-gray-800 mb-1 flex items-center">
+        <ClipboardCheck className="w-5 h-5 mr-2 text-blue-600" />
+        Verifier Review Checklist
+      </h3>
+      <p className="text-sm text-gray-600 mb-4">
+        Verifiers confirm these before voting. Required items must be checked to approve a request.
+      </p>
+
+      {loading ? (
+        <div className="flex justify-center py-6">
+          <Loader2 className="w-6 h-6 animate-spin text-blue-600" />
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {items.map((item) => (
+            <div
+              key={item.key}
+              className={`flex flex-wrap items-center gap-3 p-3 rounded-lg border border-gray-100 ${item.active ? '' : 'opacity-60'}`}
+            >
+              <input
+                type="number"
+                value={item.position}
+                onChange={(e) => setItems((prev) => prev.map((i) => (i.key === item.key ? { ...i, position: Number(e.target.value) } : i)))}
+                onBlur={() => handleSave(item)}
+                className="w-16 px-2 py-1 text-sm border border-gray-300 rounded-lg"
+                title="Display order"
+              />
+              <input
+                type="text"
+                value={item.label}
+                onChange={(e) => setItems((prev) => prev.map((i) => (i.key === item.key ? { ...i, label: e.target.value } : i)))}
+                onBlur={() => item.label.trim() && handleSave({ ...item, label: item.label.trim() })}
+                maxLength={200}
+                className="flex-1 min-w-[12rem] px-3 py-1 text-sm border border-gray-300 rounded-lg"
+              />
+              <label className="flex items-center space-x-1 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={item.required}
+                  onChange={(e) => handleSave({ ...item, required: e.target.checked })}
+                  className="w-4 h-4 text-blue-600 rounded"
+                />
+                <span>Required</span>
+              </label>
+              <label className="flex items-center space-x-1 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={item.active}
+                  onChange={(e) => handleSave({ ...item, active: e.target.checked })}
+                  className="w-4 h-4 text-blue-600 rounded"
+                />
+                <span>Active</span>
+              </label>
+            </div>
+          ))}
+
+          <form onSubmit={handleAdd} className="flex gap-2 pt-2">
+            <input
+              type="text"
+              value={newLabel}
+              onChange={(e) => setNewLabel(e.target.value)}
+              maxLength={200}
+              placeholder="New checklist item, e.g. Medical bill verified with the hospital"
+              className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <button
+              type="submit"
+              disabled={!toKey(newLabel)}
+              className="flex items-center space-x-1 px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              <Plus className="w-4 h-4" />
+              <span>Add</span>
+            </button>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,327 @@
+import React, { useEffect, useState } from 'react';
+import { Inbox, Loader2, Mail, Send, User as UserIcon } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { SupportTicket, SupportTicketMessage, SupportTicketStatus, User } from '../../types';
+import { useAuthStore } from '../../stores/authStore';
+import {
+  SUPPORT_STATUSES,
+  fetchSupportTickets,
+  fetchTicketMessages,
+  getStatusStyle,
+  getSubjectLabel,
+  replyToTicket,
+  updateSupportTicket,
+} from '../../lib/support';
+
+interface SupportInboxProps {
+  admins: User[];
+}
+
+type StatusFilter = SupportTicketStatus | 'active' | 'all';
+
+export const SupportInbox: React.FC<SupportInboxProps> = ({ admins }) => {
+  const { user } = useAuthStore();
+  const [tickets, setTickets] = useState<SupportTicket[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('active');
+  const [mineOnly, setMineOnly] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadTickets();
+  }, []);
+
+  const loadTickets = async () => {
+    try {
+      setTickets(await fetchSupportTickets());
+    } catch (error) {
+      console.error('Error fetching support tickets:', error);
+      toast.error('Failed to load support tickets');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleUpdate = async (ticket: SupportTicket, updates: Partial<Pick<SupportTicket, 'status' | 'assigned_to'>>) => {
+    const assignee = updates.assigned_to !== undefined
+      ? admins.find((a) => a.id === updates.assigned_to) || null
+      : ticket.assignee;
+    setTickets((prev) => prev.map((t) => (t.id === ticket.id ? { ...t, ...updates, assignee } : t)));
+
+    try {
+      await updateSupportTicket(ticket.id, updates);
+    } catch (error) {
+      console.error('Error updating support ticket:', error);
+      toast.error('Failed to update ticket');
+      setTickets((prev) => prev.map((t) => (t.id === ticket.id ? ticket : t)));
+    }
+  };
+
+  const visible = tickets.filter((ticket) => {
+    if (statusFilter === 'active' && ticket.status === 'closed') return false;
+    if (statusFilter !== 'active' && statusFilter !== 'all' && ticket.status !== statusFilter) return false;
+    if (mineOnly && ticket.assigned_to !== user?.id) return false;
+    return true;
+  });
+  const selected = tickets.find((t) => t.id === selectedId) || null;
+  const openCount = tickets.filter((t) => t.status === 'open').length;
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-20">
+        <Loader2 className="w-8 h-8 animate-spin text-blue-600" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-5 gap-6">
+      <div className="lg:col-span-2 bg-white/80 backdrop-blur-lg rounded-2xl shadow-xl p-6">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-xl font-bold text-gray-800 flex items-center">
+            <Inbox className="w-5 h-5 mr-2 text-blue-600" />
+            Support Inbox
+          </h3>
+          {openCount > 0 && (
+            <span className="px-2 py-1 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">
+              {openCount} new
+            </span>
+          )}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3 mb-4">
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as StatusFilter)}
+            className="px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="active">All active</option>
+            {SUPPORT_STATUSES.map((status) => (
+              <option key={status.value} value={status.value}>{status.label}</option>
+            ))}
+            <option value="all">Everything</option>
+          </select>
+          <label className="flex items-center space-x-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={mineOnly}
+              onChange={(e) => setMineOnly(e.target.checked)}
+              className="w-4 h-4 text-blue-600 rounded"
+            />
+            <span>Assigned to me</span>
+          </label>
+        </div>
+
+        {visible.length === 0 ? (
+          <p className="text-center text-gray-500 py-12">No tickets here</p>
+        ) : (
+          <ul className="space-y-2 max-h-[36rem] overflow-y-auto">
+            {visible.map((ticket) => (
+              <li key={ticket.id}>
+                <button
+                  onClick={() => setSelectedId(ticket.id)}
+                  className={`w-full text-left p-3 rounded-lg border transition-colors ${
+                    ticket.id === selectedId ? 'border-blue-400 bg-blue-50' : 'border-gray-100 hover:bg-gray-50'
+                  }`}
+                >
+                  <div className="flex justify-between items-start mb-1">
+                    <span className="font-medium text-gray-800 truncate">{ticket.name}</span>
+                    <span className={`ml-2 px-2 py-0.5 rounded-full text-xs font-medium flex-shrink-0 ${getStatusStyle(ticket.status).color}`}>
+                      {getStatusStyle(ticket.status).label}
+                    </span>
+                  </div>
+                  <p className="text-sm text-gray-600">{getSubjectLabel(ticket.subject)}</p>
+                  <p className="text-xs text-gray-500 truncate">{ticket.message}</p>
+                  <div className="flex justify-between text-xs text-gray-400 mt-1">
+                    <span>{new Date(ticket.updated_at).toLocaleString()}</span>
+                    {ticket.assignee && <span>@{ticket.assignee.username}</span>}
+                  </div>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div className="lg:col-span-3">
+        {selected ? (
+          <TicketThread key={selected.id} ticket={selected} admins={admins} onUpdate={handleUpdate} onReplied={loadTickets} />
+        ) : (
+          <div className="bg-white/80 backdrop-blur-lg rounded-2xl shadow-xl p-12 text-center text-gray-500">
+            Select a ticket to read and reply
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+interface TicketThreadProps {
+  ticket: SupportTicket;
+  admins: User[];
+  onUpdate: (ticket: SupportTicket, updates: Partial<Pick<SupportTicket, 'status' | 'assigned_to'>>) => void;
+  onReplied: () => void;
+}
+
+const TicketThread: React.FC<TicketThreadProps> = ({ ticket, admins, onUpdate, onReplied }) => {
+  const { user } = useAuthStore();
+  const [messages, setMessages] = useState<SupportTicketMessage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [reply, setReply] = useState('');
+  const [sending, setSending] = useState(false);
+
+  useEffect(() => {
+    fetchTicketMessages(ticket.id)
+      .then(setMessages)
+      .catch((error) => {
+        console.error('Error fetching ticket messages:', error);
+        toast.error('Failed to load conversation');
+      })
+      .finally(() => setLoading(false));
+  }, [ticket.id]);
+
+  const handleReply = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !reply.trim()) return;
+
+    setSending(true);
+    try {
+      const message = await replyToTicket(ticket.id, user.id, reply.trim());
+      setMessages((prev) => [...prev, message]);
+      setReply('');
+      toast.success(`Reply queued for ${ticket.email}`);
+      // The reply moves the ticket to `waiting` and may assign it
+      onReplied();
+    } catch (error) {
+      console.error('Error replying to ticket:', error);
+      toast.error('Failed to send reply');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="bg-white/80 backdrop-blur-lg rounded-2xl shadow-xl p-6 space-y-6">
+      <div className="flex flex-wrap justify-between items-start gap-4">
+        <div>
+          <h3 className="text-xl font-bold text-gray-800">{getSubjectLabel(ticket.subject)}</h3>
+          <p className="text-sm text-gray-600 flex items-center mt-1">
+            <Mail className="w-4 h-4 mr-1" />
+            {ticket.name} &lt;{ticket.email}&gt;
+            {ticket.user_id && <span className="ml-2 px-2 py-0.5 rounded-full text-xs bg-green-100 text-green-800">Registered user</span>}
+          </p>
+          <p className="text-xs text-gray-400 mt-1">Opened {new Date(ticket.created_at).toLocaleString()}</p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <select
+            value={ticket.assigned_to || ''}
+            onChange={(e) => onUpdate(ticket, { assigned_to: e.target.value || null })}
+            className="px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="">Unassigned</option>
+            {admins.map((admin) => (
+              <option key={admin.id} value={admin.id}>{admin.username}</option>
+            ))}
+          </select>
+          <select
+            value={ticket.status}
+            onChange={(e) => onUpdate(ticket, { status: e.target.value as SupportTicketStatus })}
+            className="px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {SUPPORT_STATUSES.map((status) => (
+              <option key={status.value} value={status.value}>{status.label}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="space-y-4 max-h-[28rem] overflow-y-auto">
+        <ThreadMessage author={ticket.name} body={ticket.message} createdAt={ticket.created_at} staff={false} />
+        {loading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="w-5 h-5 animate-spin text-blue-600" />
+          </div>
+        ) : (
+          messages.map((message) => (
+            <ThreadMessage
+              key={message.id}
+              author={message.is_staff ? message.author?.username || 'Support' : ticket.name}
+              body={message.body}
+              createdAt={message.created_at}
+              staff={message.is_staff}
+              emailStatus={message.is_staff ? message.email_status : undefined}
+            />
+          ))
+        )}
+      </div>
+
+      {ticket.status === 'closed' ? (
+        <div className="flex justify-between items-center p-4 bg-gray-50 rounded-lg text-sm text-gray-600">
+          <span>Closed {ticket.closed_at ? new Date(ticket.closed_at).toLocaleString() : ''}</span>
+          <button onClick={() => onUpdate(ticket, { status: 'open' })} className="text-blue-600 hover:text-blue-800 font-medium">
+            Reopen
+          </button>
+        </div>
+      ) : (
+        <form onSubmit={handleReply} className="space-y-3">
+          <textarea
+            value={reply}
+            onChange={(e) => setReply(e.target.value)}
+            rows={4}
+            maxLength={5000}
+            className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            placeholder={`Reply to ${ticket.name} by email...`}
+          />
+          <div className="flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={() => onUpdate(ticket, { status: 'closed' })}
+              className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+            >
+              Close Ticket
+            </button>
+            <button
+              type="submit"
+              disabled={sending || !reply.trim()}
+              className="flex items-center space-x-2 px-4 py-2 bg-gradient-to-r from-blue-500 to-purple-600 text-white rounded-lg hover:from-blue-600 hover:to-purple-700 transition-all disabled:opacity-50"
+            >
+              {sending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+              <span>Send Reply</span>
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+};
+
+interface ThreadMessageProps {
+  author: string;
+  body: string;
+  createdAt: string;
+  staff: boolean;
+  emailStatus?: SupportTicketMessage['email_status'];
+}
+
+const emailStatusLabel = {
+  pending: 'Sending…',
+  sent: 'Emailed',
+  failed: 'Email failed',
+  skipped: '',
+};
+
+const ThreadMessage: React.FC<ThreadMessageProps> = ({ author, body, createdAt, staff, emailStatus }) => (
+  <div className={`flex ${staff ? 'justify-end' : 'justify-start'}`}>
+    <div className={`max-w-[85%] rounded-xl p-4 ${staff ? 'bg-blue-50 border border-blue-100' : 'bg-gray-50 border border-gray-100'}`}>
+      <div className="flex items-center text-xs text-gray-500 mb-2 space-x-2">
+        <UserIcon className="w-3 h-3" />
+        <span className="font-medium text-gray-700">{author}</span>
+        <span>{new Date(createdAt).toLocaleString()}</span>
+        {emailStatus && emailStatusLabel[emailStatus] && (
+          <span className={emailStatus === 'failed' ? 'text-red-600' : 'text-gray-400'}>· {emailStatusLabel[emailStatus]}</span>
+        )}
+      </div>
+      <p className="text-sm text-gray-800 whitespace-pre-wrap">{body}</p>
+    </div>
+  </div>
+);
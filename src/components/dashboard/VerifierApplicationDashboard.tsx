@@ -0,0 +1,217 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { CheckCircle, Clock, FileText, Loader2, Wallet, XCircle } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { VerifierApplication } from '../../types';
+import { supabase } from '../../lib/supabase';
+import { useAuthStore } from '../../stores/authStore';
+import {
+  EMPTY_APPLICATION,
+  MAX_CREDENTIALS_LENGTH,
+  MAX_REFERENCES_LENGTH,
+  MAX_REGION_LENGTH,
+  MIN_CREDENTIALS_LENGTH,
+  VerifierApplicationInput,
+  applicationProblem,
+  fetchMyApplications,
+  submitApplication,
+} from '../../lib/verifierApplications';
+import { WalletVerification } from '../WalletVerification';
+
+// Shown to `verifier_pending` users until an admin approves them
+export const VerifierApplicationDashboard: React.FC = () => {
+  const { user, setUser } = useAuthStore();
+  const [applications, setApplications] = useState<VerifierApplication[]>([]);
+  const [form, setForm] = useState<VerifierApplicationInput>(EMPTY_APPLICATION);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    loadApplications();
+  }, []);
+
+  const loadApplications = async () => {
+    if (!user) return;
+
+    try {
+      const data = await fetchMyApplications(user.id);
+      setApplications(data);
+
+      // The stored profile still says verifier_pending; reloading it switches
+      // App over to the verifier dashboard
+      if (data[0]?.status === 'approved') {
+        const { data: profile, error } = await supabase.from('users').select('*').eq('id', user.id).single();
+        if (error) throw error;
+        setUser(profile);
+      }
+
+      // Start a re-application from the rejected details
+      if (data[0]?.status === 'rejected') {
+        setForm({ credentials: data[0].credentials, region: data[0].region, reference_contacts: data[0].reference_contacts });
+      }
+    } catch (error) {
+      console.error('Error fetching verifier applications:', error);
+      toast.error('Failed to load your application');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    const problem = applicationProblem(form);
+    if (problem) {
+      toast.error(problem);
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const application = await submitApplication(user.id, form);
+      setApplications((prev) => [application, ...prev]);
+      toast.success('Application submitted');
+    } catch (error) {
+      console.error('Error submitting verifier application:', error);
+      toast.error('Failed to submit application');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const current = applications[0];
+
+  const renderStatus = () => {
+    if (!current) return null;
+
+    if (current.status === 'pending') {
+      return (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 flex items-start">
+          <Clock className="w-5 h-5 mr-3 text-yellow-600 flex-shrink-0" />
+          <div>
+            <p className="font-medium text-yellow-800">Application under review</p>
+            <p className="text-sm text-yellow-700">
+              Submitted {new Date(current.created_at).toLocaleDateString()}. An admin will review your credentials and
+              references, then register your wallet as a verifier on the contract.
+            </p>
+          </div>
+        </div>
+      );
+    }
+
+    if (current.status === 'rejected') {
+      return (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-start">
+          <XCircle className="w-5 h-5 mr-3 text-red-600 flex-shrink-0" />
+          <div>
+            <p className="font-medium text-red-800">Your last application was not approved</p>
+            {current.review_note && <p className="text-sm text-red-700 whitespace-pre-wrap">{current.review_note}</p>}
+            <p className="text-sm text-red-700 mt-1">You can update your details below and apply again.</p>
+          </div>
+        </div>
+      );
+    }
+
+    return (
+      <div className="bg-green-50 border border-green-200 rounded-lg p-4 flex items-start">
+        <CheckCircle className="w-5 h-5 mr-3 text-green-600 flex-shrink-0" />
+        <p className="text-green-800">Your application was approved. Opening the verifier dashboard...</p>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-8">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="text-center"
+      >
+        <h1 className="text-4xl font-bold text-gray-800 mb-4">
+          Become a Verifier
+        </h1>
+        <p className="text-lg text-gray-600">
+          Verifiers vote on which requests receive donations, so every verifier is reviewed by an admin first
+        </p>
+      </motion.div>
+
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="w-8 h-8 animate-spin text-blue-600" />
+        </div>
+      ) : (
+        <div className="max-w-3xl mx-auto space-y-6">
+          {renderStatus()}
+
+          <div className="bg-white/80 backdrop-blur-lg rounded-2xl p-6 shadow-lg">
+            <h3 className="text-xl font-bold text-gray-800 mb-2 flex items-center">
+              <Wallet className="w-6 h-6 mr-2 text-blue-600" />
+              Verifier Wallet
+            </h3>
+            <p className="text-sm text-gray-600 mb-2">
+              Approval registers this wallet with the donation contract, so it must be verified first.
+            </p>
+            <p className="font-mono text-sm text-gray-800 break-all">{user?.wallet_address || 'Not set'}</p>
+            <WalletVerification />
+          </div>
+
+          {current?.status !== 'pending' && current?.status !== 'approved' && (
+            <form onSubmit={handleSubmit} className="bg-white/80 backdrop-blur-lg rounded-2xl p-6 shadow-lg space-y-4">
+              <h3 className="text-xl font-bold text-gray-800 flex items-center">
+                <FileText className="w-6 h-6 mr-2 text-blue-600" />
+                Application
+              </h3>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Credentials</label>
+                <textarea
+                  value={form.credentials}
+                  onChange={(e) => setForm({ ...form, credentials: e.target.value })}
+                  rows={5}
+                  maxLength={MAX_CREDENTIALS_LENGTH}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  placeholder="Your background, e.g. social work, NGO or medical experience, and how you would check requests"
+                />
+                <p className="text-xs text-gray-500 mt-1">At least {MIN_CREDENTIALS_LENGTH} characters</p>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Region</label>
+                <input
+                  type="text"
+                  value={form.region}
+                  onChange={(e) => setForm({ ...form, region: e.target.value })}
+                  maxLength={MAX_REGION_LENGTH}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  placeholder="Countries or regions where you can verify requests"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">References</label>
+                <textarea
+                  value={form.reference_contacts}
+                  onChange={(e) => setForm({ ...form, reference_contacts: e.target.value })}
+                  rows={3}
+                  maxLength={MAX_REFERENCES_LENGTH}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  placeholder="Names and contact details of people or organisations who can vouch for you"
+                />
+              </div>
+
+              <button
+                type="submit"
+                disabled={submitting}
+                className="bg-gradient-to-r from-blue-500 to-purple-600 text-white px-6 py-3 rounded-lg hover:from-blue-600 hover:to-purple-700 transition-all duration-200 flex items-center space-x-2 disabled:opacity-50"
+              >
+                {submitting && <Loader2 className="w-4 h-4 animate-spin" />}
+                <span>Submit Application</span>
+              </button>
+            </form>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
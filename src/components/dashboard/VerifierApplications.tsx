@@ -0,0 +1,190 @@
+import React, { useEffect, useState } from 'react';
+import { CheckCircle, Loader2, ShieldAlert, ShieldCheck, UserCheck, XCircle } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { VerifierApplication, VerifierApplicationStatus } from '../../types';
+import { donationPlatform } from '../../lib/donationPlatform';
+import { fetchVerifierApplications, reviewApplication } from '../../lib/verifierApplications';
+import { isWalletVerified } from '../../lib/siwe';
+
+const STATUS_STYLES: Record<VerifierApplicationStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-800',
+};
+
+export const VerifierApplications: React.FC = () => {
+  const [applications, setApplications] = useState<VerifierApplication[]>([]);
+  const [status, setStatus] = useState<VerifierApplicationStatus | 'all'>('pending');
+  const [loading, setLoading] = useState(true);
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadApplications();
+  }, [status]);
+
+  const loadApplications = async () => {
+    setLoading(true);
+    try {
+      setApplications(await fetchVerifierApplications(status === 'all' ? undefined : status));
+    } catch (error) {
+      console.error('Error fetching verifier applications:', error);
+      toast.error('Failed to load verifier applications');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleApprove = async (application: VerifierApplication) => {
+    const wallet = application.applicant?.wallet_address;
+    if (!wallet) return;
+
+    setReviewingId(application.id);
+    try {
+      // Register the wallet on-chain first so the role never outruns the contract
+      const receipt = await donationPlatform.addVerifier(wallet);
+      if (!receipt) return;
+
+      await reviewApplication(application.id, true, '', receipt.transactionHash);
+      toast.success(`${application.applicant?.username} is now a verifier`);
+      loadApplications();
+    } catch (error) {
+      console.error('Error approving verifier application:', error);
+      toast.error((error as { message?: string }).message || 'Failed to approve application');
+    } finally {
+      setReviewingId(null);
+    }
+  };
+
+  const handleReject = async (application: VerifierApplication) => {
+    const note = prompt('Reason for rejecting (shown to the applicant)');
+    if (!note?.trim()) return;
+
+    setReviewingId(application.id);
+    try {
+      await reviewApplication(application.id, false, note);
+      toast.success('Application rejected');
+      loadApplications();
+    } catch (error) {
+      console.error('Error rejecting verifier application:', error);
+      toast.error('Failed to reject application');
+    } finally {
+      setReviewingId(null);
+    }
+  };
+
+  return (
+    <div className="bg-white/80 backdrop-blur-lg rounded-2xl shadow-xl p-6">
+      <div className="flex flex-wrap justify-between items-center gap-4 mb-6">
+        <h3 className="text-xl font-bold text-gray-800 flex items-center">
+          <UserCheck className="w-5 h-5 mr-2 text-blue-600" />
+          Verifier Applications
+        </h3>
+        <select
+          value={status}
+          onChange={(e) => setStatus(e.target.value as VerifierApplicationStatus | 'all')}
+          className="px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option value="pending">Pending</option>
+          <option value="approved">Approved</option>
+          <option value="rejected">Rejected</option>
+          <option value="all">All applications</option>
+        </select>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="w-8 h-8 animate-spin text-blue-600" />
+        </div>
+      ) : applications.length === 0 ? (
+        <p className="text-center text-gray-500 py-12">No applications to show</p>
+      ) : (
+        <ul className="space-y-4">
+          {applications.map((application) => {
+            const applicant = application.applicant;
+            const walletVerified = isWalletVerified(applicant);
+
+            return (
+              <li key={application.id} className="p-4 rounded-lg border border-gray-100 bg-gray-50">
+                <div className="flex flex-wrap justify-between items-start gap-2 mb-3">
+                  <div>
+                    <p className="font-semibold text-gray-800">{applicant?.username || 'Deleted user'}</p>
+                    <p className="text-xs text-gray-500">
+                      {applicant?.email} · applied {new Date(application.created_at).toLocaleDateString()}
+                    </p>
+                  </div>
+                  <span className={`px-2 py-1 rounded-full text-xs font-medium capitalize ${STATUS_STYLES[application.status]}`}>
+                    {application.status}
+                  </span>
+                </div>
+
+                <dl className="grid grid-cols-1 md:grid-cols-2 gap-3 text-sm mb-3">
+                  <div className="md:col-span-2">
+                    <dt className="font-medium text-gray-700">Credentials</dt>
+                    <dd className="text-gray-600 whitespace-pre-wrap">{application.credentials}</dd>
+                  </div>
+                  <div>
+                    <dt className="font-medium text-gray-700">Region</dt>
+                    <dd className="text-gray-600">{application.region}</dd>
+                  </div>
+                  <div>
+                    <dt className="font-medium text-gray-700">References</dt>
+                    <dd className="text-gray-600 whitespace-pre-wrap">{application.reference_contacts}</dd>
+                  </div>
+                  <div className="md:col-span-2">
+                    <dt className="font-medium text-gray-700">Wallet</dt>
+                    <dd className="flex flex-wrap items-center gap-2">
+                      <span className="font-mono text-xs text-gray-600 break-all">{applicant?.wallet_address || 'Not set'}</span>
+                      {walletVerified ? (
+                        <span className="flex items-center text-xs text-green-700">
+                          <ShieldCheck className="w-3 h-3 mr-1" />
+                          Verified
+                        </span>
+                      ) : (
+                        <span className="flex items-center text-xs text-yellow-700">
+                          <ShieldAlert className="w-3 h-3 mr-1" />
+                          Not verified
+                        </span>
+                      )}
+                    </dd>
+                  </div>
+                </dl>
+
+                {application.review_note && (
+                  <p className="text-sm text-gray-700 border-l-4 border-gray-200 pl-3 mb-3">{application.review_note}</p>
+                )}
+                {application.chain_tx_hash && (
+                  <p className="text-xs text-gray-500 font-mono break-all mb-3">addVerifier tx: {application.chain_tx_hash}</p>
+                )}
+
+                {application.status === 'pending' && (
+                  <div className="flex flex-wrap items-center gap-3">
+                    <button
+                      onClick={() => handleApprove(application)}
+                      disabled={!walletVerified || reviewingId === application.id}
+                      title={walletVerified ? 'Registers the wallet with addVerifier on the contract' : 'The applicant must verify their wallet first'}
+                      className="flex items-center space-x-1 px-4 py-2 text-sm bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50"
+                    >
+                      {reviewingId === application.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <CheckCircle className="w-4 h-4" />}
+                      <span>Approve</span>
+                    </button>
+                    <button
+                      onClick={() => handleReject(application)}
+                      disabled={reviewingId === application.id}
+                      className="flex items-center space-x-1 px-4 py-2 text-sm bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
+                    >
+                      <XCircle className="w-4 h-4" />
+                      <span>Reject</span>
+                    </button>
+                    {!walletVerified && (
+                      <span className="text-xs text-gray-500">Approval needs a verified wallet for addVerifier</span>
+                    )}
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
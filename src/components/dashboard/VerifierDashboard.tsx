@@ -1,25 +1,132 @@
 import React, { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
-import { CheckCircle, XCircle, Clock, TrendingUp, Users, Vote, Loader2 } from 'lucide-react';
-import { Request } from '../../types';
+import { CheckCircle, XCircle, Clock, TrendingUp, Users, Vote, Loader2, Flag } from 'lucide-react';
+import { GovernanceSettings, Milestone, Request, ReviewChecklistItem, Vote as VoteRecord } from '../../types';
 import { supabase } from '../../lib/supabase';
+import { donationPlatform } from '../../lib/donationPlatform';
+import { getMilestoneProofUrl } from '../../lib/milestones';
+import { AttachmentGallery } from '../AttachmentGallery';
+import { VoteReviewDetails, VoteReviewForm } from '../VoteReview';
+import { DEFAULT_GOVERNANCE, VerifierWeights, describeThreshold, fetchGovernance, tallyVotes } from '../../lib/governance';
+import { EMPTY_REVIEW, VoteReview, fetchReviewChecklist, reviewColumns, reviewProblem } from '../../lib/reviewChecklist';
 import { useAuthStore } from '../../stores/authStore';
+import { useRealtime, useRealtimeStore } from '../../stores/realtimeStore';
+import { applyChange, applyVoteChange, pendingOptimistic } from '../../lib/realtime';
+import { LiveIndicator } from '../LiveIndicator';
 import toast from 'react-hot-toast';
 
 export const VerifierDashboard: React.FC = () => {
   const [requests, setRequests] = useState<Request[]>([]);
+  const [milestones, setMilestones] = useState<Milestone[]>([]);
   const [myVotes, setMyVotes] = useState<any[]>([]);
   const [loading, setLoading] = useState(true);
   const [voting, setVoting] = useState<string | null>(null);
+  const [governance, setGovernance] = useState<GovernanceSettings>(DEFAULT_GOVERNANCE);
+  const [weights, setWeights] = useState<VerifierWeights>({});
+  const [checklist, setChecklist] = useState<ReviewChecklistItem[]>([]);
+  const [reviews, setReviews] = useState<Record<string, VoteReview>>({});
   const { user } = useAuthStore();
+  const { optimistic, addOptimistic, removeOptimistic } = useRealtimeStore();
 
   useEffect(() => {
     fetchRequests();
     fetchMyVotes();
+    fetchGovernanceSettings();
+    fetchMilestones();
+    fetchChecklist();
   }, []);
 
+  useRealtime(['requests', 'votes'], (change) => {
+    if (change.table === 'requests') {
+      // New requests need the requester join, so reload instead of merging
+      if (change.eventType === 'INSERT') fetchRequests();
+      else setRequests((prev) => applyChange(prev, change));
+      return;
+    }
+
+    setRequests((prev) => applyVoteChange(prev, change));
+    if (change.eventType === 'DELETE' || change.new.voter_id === user?.id) fetchMyVotes();
+  }, () => {
+    fetchRequests();
+    fetchMyVotes();
+  });
+
+  const fetchMilestones = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('request_milestones')
+        .select(`
+          *,
+          request:requests(id, title, chain_request_id, requester:users!requester_id(username)),
+          votes:milestone_votes(*)
+        `)
+        .eq('status', 'in_review')
+        .order('proof_submitted_at', { ascending: true });
+
+      if (error) throw error;
+      setMilestones(data || []);
+    } catch (error) {
+      console.error('Error fetching milestones:', error);
+      toast.error('Failed to load milestones');
+    }
+  };
+
+  const handleMilestoneVote = async (milestone: Milestone, voteType: 'approve' | 'reject') => {
+    if (!user || milestone.request?.chain_request_id == null) return;
+
+    setVoting(milestone.id);
+    try {
+      // Release is enforced by the contract, so milestone votes go on-chain
+      const txHash = await donationPlatform.voteOnMilestone(
+        milestone.request.chain_request_id,
+        milestone.milestone_index,
+        voteType === 'approve'
+      );
+      if (!txHash) return;
+
+      const { error } = await supabase
+        .from('milestone_votes')
+        .insert([
+          {
+            milestone_id: milestone.id,
+            voter_id: user.id,
+            round: milestone.round,
+            vote_type: voteType,
+          },
+        ]);
+
+      // 23505: the indexer already recorded this vote from the contract event
+      if (error && error.code !== '23505') throw error;
+
+      toast.success(`Vote to ${voteType} milestone recorded!`);
+      await fetchMilestones();
+    } catch (error) {
+      console.error('Error voting on milestone:', error);
+      toast.error('Failed to record milestone vote');
+    } finally {
+      setVoting(null);
+    }
+  };
+
+  const fetchGovernanceSettings = async () => {
+    try {
+      const { settings, weights } = await fetchGovernance();
+      setGovernance(settings);
+      setWeights(weights);
+    } catch (error) {
+      console.error('Error fetching governance settings:', error);
+    }
+  };
+
+  const fetchChecklist = async () => {
+    try {
+      setChecklist(await fetchReviewChecklist());
+    } catch (error) {
+      console.error('Error fetching review checklist:', error);
+    }
+  };
+
   const fetchRequests = async () => {
-    setLoading(true);
     try {
       const { data, error } = await supabase
         .from('requests')
@@ -66,7 +173,15 @@ export const VerifierDashboard: React.FC = () => {
   const handleVote = async (requestId: string, voteType: 'approve' | 'reject') => {
     if (!user) return;
 
+    const review = reviews[requestId] || EMPTY_REVIEW;
+    const problem = reviewProblem(checklist, review, voteType);
+    if (problem) {
+      toast.error(problem);
+      return;
+    }
+
     setVoting(requestId);
+    let tempId: string | null = null;
     try {
       // Check if user already voted
       const { data: existingVote } = await supabase
@@ -81,38 +196,86 @@ export const VerifierDashboard: React.FC = () => {
         return;
       }
 
+      // Requests registered on-chain get a signed vote the relayer submits
+      // via voteBySig, so the verifier pays no gas
+      const request = requests.find(r => r.id === requestId);
+      let signedVote = null;
+
+      if (request?.chain_request_id) {
+        signedVote = await donationPlatform.signVote(request.chain_request_id, voteType === 'approve');
+        if (!signedVote) return;
+
+        if (signedVote.verifier.toLowerCase() !== user.wallet_address?.toLowerCase()) {
+          toast.error('Please sign with the wallet set in your profile');
+          return;
+        }
+      }
+
+      // Show the vote immediately; the confirmed row replaces it
+      tempId = addOptimistic('votes', {
+        request_id: requestId,
+        voter_id: user.id,
+        vote_type: voteType,
+        rationale: review.rationale.trim(),
+        relay_status: signedVote ? 'pending' : 'unsigned',
+        created_at: new Date().toISOString(),
+      }, (row) => row.request_id === requestId && row.voter_id === user.id);
+
       // Cast vote
-      const { error } = await supabase
+      const { data: vote, error } = await supabase
         .from('votes')
         .insert([
           {
             request_id: requestId,
             voter_id: user.id,
             vote_type: voteType,
+            ...reviewColumns(review),
+            ...(signedVote && {
+              signature: signedVote.signature,
+              signer_address: signedVote.verifier,
+              signature_deadline: signedVote.deadline,
+            }),
           },
-        ]);
+        ])
+        .select()
+        .single();
 
       if (error) throw error;
 
-      toast.success(`Request ${voteType === 'approve' ? 'approved' : 'rejected'} successfully!`);
-      
-      // Refresh data
-      await Promise.all([fetchRequests(), fetchMyVotes()]);
+      // The request only changes status once the quorum is reached, which
+      // arrives as a realtime update on the request
+      toast.success(`Vote to ${voteType} recorded!`);
+      setRequests((prev) => applyVoteChange(prev, { table: 'votes', eventType: 'INSERT', new: vote, old: {} }));
+      setReviews((prev) => {
+        const next = { ...prev };
+        delete next[requestId];
+        return next;
+      });
+      fetchMyVotes();
     } catch (error) {
       console.error('Error voting:', error);
       toast.error('Failed to cast vote');
     } finally {
+      if (tempId) removeOptimistic(tempId);
       setVoting(null);
     }
   };
 
-  const pendingRequests = requests.filter(r => r.status === 'pending');
+  // Votes still being saved are shown as if they had landed
+  const optimisticVotes = pendingOptimistic<VoteRecord>(requests.flatMap(r => r.votes || []), optimistic, 'votes');
+  const liveRequests = optimisticVotes.length === 0 ? requests : requests.map(r => ({
+    ...r,
+    votes: [...(r.votes || []), ...optimisticVotes.filter(v => v.request_id === r.id)],
+  }));
+  const allMyVotes = [...myVotes, ...optimisticVotes.filter(v => v.voter_id === user?.id)];
+
+  const pendingRequests = liveRequests.filter(r => r.status === 'pending');
   const stats = {
-    totalRequests: requests.length,
+    totalRequests: liveRequests.length,
     pendingRequests: pendingRequests.length,
-    approvedRequests: requests.filter(r => r.status === 'approved').length,
-    rejectedRequests: requests.filter(r => r.status === 'rejected').length,
-    myVotes: myVotes.length,
+    approvedRequests: liveRequests.filter(r => r.status === 'approved').length,
+    rejectedRequests: liveRequests.filter(r => r.status === 'rejected').length,
+    myVotes: allMyVotes.length,
   };
 
   if (loading) {
@@ -140,6 +303,9 @@ export const VerifierDashboard: React.FC = () => {
         <p className="text-lg text-gray-600">
           Review and verify donation requests to maintain platform integrity
         </p>
+        <div className="mt-2">
+          <LiveIndicator />
+        </div>
       </motion.div>
 
       {/* Stats Cards */}
@@ -222,7 +388,12 @@ export const VerifierDashboard: React.FC = () => {
 
       {/* Pending Requests */}
       <div className="space-y-6">
-        <h2 className="text-2xl font-bold text-gray-800">Pending Requests (Need Your Review)</h2>
+        <div>
+          <h2 className="text-2xl font-bold text-gray-800">Pending Requests (Need Your Review)</h2>
+          <p className="text-sm text-gray-600 mt-1">
+            Requests are approved with {describeThreshold(governance)}, otherwise rejected.
+          </p>
+        </div>
         {pendingRequests.length === 0 ? (
           <div className="text-center py-12 bg-white/80 backdrop-blur-lg rounded-2xl shadow-lg">
             <CheckCircle className="w-16 h-16 text-green-500 mx-auto mb-4" />
@@ -236,24 +407,50 @@ export const VerifierDashboard: React.FC = () => {
                 key={request.id}
                 request={request}
                 onVote={handleVote}
-                userVote={myVotes.find(v => v.request_id === request.id)}
+                userVote={allMyVotes.find(v => v.request_id === request.id)}
                 index={index}
                 voting={voting === request.id}
+                governance={governance}
+                weights={weights}
+                checklist={checklist}
+                review={reviews[request.id] || EMPTY_REVIEW}
+                onReviewChange={(review) => setReviews((prev) => ({ ...prev, [request.id]: review }))}
               />
             ))}
           </div>
         )}
       </div>
 
+      {/* Milestones Awaiting Review */}
+      {milestones.length > 0 && (
+        <div className="space-y-6">
+          <h2 className="text-2xl font-bold text-gray-800">Milestones Awaiting Review</h2>
+          <div className="space-y-4">
+            {milestones.map((milestone, index) => (
+              <MilestoneReviewCard
+                key={milestone.id}
+                milestone={milestone}
+                onVote={handleMilestoneVote}
+                userVote={milestone.votes?.find(v => v.voter_id === user?.id && v.round === milestone.round)}
+                index={index}
+                voting={voting === milestone.id}
+                governance={governance}
+                weights={weights}
+              />
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* All Requests */}
       <div className="space-y-6">
         <h2 className="text-2xl font-bold text-gray-800">All Requests</h2>
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {requests.map((request, index) => (
+          {liveRequests.map((request, index) => (
             <RequestSummaryCard
               key={request.id}
               request={request}
-              userVote={myVotes.find(v => v.request_id === request.id)}
+              userVote={allMyVotes.find(v => v.request_id === request.id)}
               index={index}
             />
           ))}
@@ -263,17 +460,41 @@ export const VerifierDashboard: React.FC = () => {
   );
 };
 
+const relayStatusLabel = {
+  pending: 'Signed · waiting for relayer',
+  submitted: 'Signed · submitted on-chain',
+  confirmed: 'Signed · recorded on-chain',
+  failed: 'Signed · relay failed',
+};
+
 interface VoteCardProps {
   request: Request;
   onVote: (requestId: string, voteType: 'approve' | 'reject') => void;
   userVote?: any;
   index: number;
   voting: boolean;
+  governance: GovernanceSettings;
+  weights: VerifierWeights;
+  checklist: ReviewChecklistItem[];
+  review: VoteReview;
+  onReviewChange: (review: VoteReview) => void;
 }
 
-const VoteCard: React.FC<VoteCardProps> = ({ request, onVote, userVote, index, voting }) => {
+const VoteCard: React.FC<VoteCardProps> = ({
+  request,
+  onVote,
+  userVote,
+  index,
+  voting,
+  governance,
+  weights,
+  checklist,
+  review,
+  onReviewChange,
+}) => {
   const approveVotes = request.votes?.filter(v => v.vote_type === 'approve').length || 0;
   const rejectVotes = request.votes?.filter(v => v.vote_type === 'reject').length || 0;
+  const tally = tallyVotes(request.votes || [], governance, weights);
 
   return (
     <motion.div
@@ -293,6 +514,8 @@ const VoteCard: React.FC<VoteCardProps> = ({ request, onVote, userVote, index, v
         </div>
       </div>
 
+      <AttachmentGallery requestId={request.id} title="Supporting evidence" compact />
+
       <div className="flex justify-between items-center mb-4">
         <div className="flex space-x-4 text-sm">
           <span className="text-green-600 flex items-center">
@@ -309,6 +532,18 @@ const VoteCard: React.FC<VoteCardProps> = ({ request, onVote, userVote, index, v
         </span>
       </div>
 
+      <div className="flex items-center text-sm text-gray-600 mb-4">
+        <Users className="w-4 h-4 mr-1" />
+        {tally.votesNeeded > 0
+          ? `${tally.votesNeeded} more vote${tally.votesNeeded === 1 ? '' : 's'} needed (${tally.voteCount}/${governance.minimum_votes})`
+          : 'Quorum reached'}
+        {governance.use_verifier_weights && (
+          <span className="ml-2 text-xs text-gray-500">
+            Weighted: {tally.approveWeight} approve / {tally.rejectWeight} reject
+          </span>
+        )}
+      </div>
+
       {userVote ? (
         <div className="bg-gray-100 p-4 rounded-lg text-center">
           <p className="text-sm text-gray-600">
@@ -320,11 +555,144 @@ const VoteCard: React.FC<VoteCardProps> = ({ request, onVote, userVote, index, v
             </span>
             {' '} this request
           </p>
+          {userVote.signature && (
+            <p className="text-xs text-gray-500 mt-1">
+              {relayStatusLabel[userVote.relay_status as keyof typeof relayStatusLabel] || 'Signed'}
+              {userVote.relay_tx_hash && ` · ${userVote.relay_tx_hash.slice(0, 10)}...`}
+            </p>
+          )}
+          <div className="text-left">
+            <VoteReviewDetails vote={userVote} />
+          </div>
+        </div>
+      ) : (
+        <div>
+          <VoteReviewForm items={checklist} review={review} onChange={onReviewChange} disabled={voting} />
+          <div className="flex space-x-3">
+            <button
+              onClick={() => onVote(request.id, 'approve')}
+              disabled={voting}
+              className="flex-1 bg-green-600 text-white py-3 rounded-lg hover:bg-green-700 transition-colors flex items-center justify-center space-x-2 disabled:opacity-50"
+            >
+              {voting ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : (
+                <>
+                  <CheckCircle className="w-4 h-4" />
+                  <span>Approve</span>
+                </>
+              )}
+            </button>
+            <button
+              onClick={() => onVote(request.id, 'reject')}
+              disabled={voting}
+              className="flex-1 bg-red-600 text-white py-3 rounded-lg hover:bg-red-700 transition-colors flex items-center justify-center space-x-2 disabled:opacity-50"
+            >
+              {voting ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : (
+                <>
+                  <XCircle className="w-4 h-4" />
+                  <span>Reject</span>
+                </>
+              )}
+            </button>
+          </div>
+        </div>
+      )}
+    </motion.div>
+  );
+};
+
+interface MilestoneReviewCardProps {
+  milestone: Milestone;
+  onVote: (milestone: Milestone, voteType: 'approve' | 'reject') => void;
+  userVote?: { vote_type: 'approve' | 'reject' };
+  index: number;
+  voting: boolean;
+  governance: GovernanceSettings;
+  weights: VerifierWeights;
+}
+
+const MilestoneReviewCard: React.FC<MilestoneReviewCardProps> = ({
+  milestone,
+  onVote,
+  userVote,
+  index,
+  voting,
+  governance,
+  weights,
+}) => {
+  // Only votes from the current proof submission count
+  const roundVotes = milestone.votes?.filter(v => v.round === milestone.round) || [];
+  const tally = tallyVotes(roundVotes, governance, weights);
+
+  const viewProof = async () => {
+    if (!milestone.proof_path) return;
+    const url = await getMilestoneProofUrl(milestone.proof_path);
+    if (url) window.open(url, '_blank', 'noopener,noreferrer');
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: index * 0.1 }}
+      className="bg-white/80 backdrop-blur-lg rounded-xl shadow-lg p-6 border border-blue-200"
+    >
+      <div className="flex justify-between items-start mb-4">
+        <div className="flex-1">
+          <p className="text-sm text-gray-500 flex items-center mb-1">
+            <Flag className="w-4 h-4 mr-1" />
+            {milestone.request?.title} · Milestone {milestone.milestone_index + 1}
+          </p>
+          <h3 className="text-xl font-semibold text-gray-800 mb-2">{milestone.description}</h3>
+          <div className="flex items-center space-x-4 text-sm text-gray-500">
+            <span>By {milestone.request?.requester?.username}</span>
+            <span>Tranche: {milestone.amount.toFixed(4)} ETH</span>
+            {milestone.round > 1 && <span>Resubmission #{milestone.round - 1}</span>}
+          </div>
+        </div>
+        <button
+          onClick={viewProof}
+          className="text-blue-600 hover:text-blue-800 text-sm hover:underline"
+        >
+          View Proof
+        </button>
+      </div>
+
+      <div className="flex justify-between items-center mb-4 text-sm">
+        <div className="flex space-x-4">
+          <span className="text-green-600">✓ {roundVotes.filter(v => v.vote_type === 'approve').length} Approvals</span>
+          <span className="text-red-600">✗ {roundVotes.filter(v => v.vote_type === 'reject').length} Rejections</span>
+        </div>
+        <span className="text-gray-600">
+          {tally.votesNeeded > 0
+            ? `${tally.votesNeeded} more vote${tally.votesNeeded === 1 ? '' : 's'} needed`
+            : 'Quorum reached'}
+        </span>
+      </div>
+
+      {milestone.proof_hash && (
+        <p className="text-xs text-gray-500 font-mono mb-4 break-all">Proof hash: {milestone.proof_hash}</p>
+      )}
+
+      {userVote ? (
+        <div className="bg-gray-100 p-4 rounded-lg text-center">
+          <p className="text-sm text-gray-600">
+            You voted to {' '}
+            <span className={`font-medium ${
+              userVote.vote_type === 'approve' ? 'text-green-600' : 'text-red-600'
+            }`}>
+              {userVote.vote_type}
+            </span>
+            {' '} this milestone
+          </p>
         </div>
       ) : (
         <div className="flex space-x-3">
           <button
-            onClick={() => onVote(request.id, 'approve')}
+            onClick={() => onVote(milestone, 'approve')}
             disabled={voting}
             className="flex-1 bg-green-600 text-white py-3 rounded-lg hover:bg-green-700 transition-colors flex items-center justify-center space-x-2 disabled:opacity-50"
           >
@@ -333,12 +701,12 @@ const VoteCard: React.FC<VoteCardProps> = ({ request, onVote, userVote, index, v
             ) : (
               <>
                 <CheckCircle className="w-4 h-4" />
-                <span>Approve</span>
+                <span>Approve Milestone</span>
               </>
             )}
           </button>
           <button
-            onClick={() => onVote(request.id, 'reject')}
+            onClick={() => onVote(milestone, 'reject')}
             disabled={voting}
             className="flex-1 bg-red-600 text-white py-3 rounded-lg hover:bg-red-700 transition-colors flex items-center justify-center space-x-2 disabled:opacity-50"
           >
@@ -347,7 +715,7 @@ const VoteCard: React.FC<VoteCardProps> = ({ request, onVote, userVote, index, v
             ) : (
               <>
                 <XCircle className="w-4 h-4" />
-                <span>Reject</span>
+                <span>Request New Proof</span>
               </>
             )}
           </button>
@@ -372,6 +740,8 @@ const RequestSummaryCard: React.FC<RequestSummaryCardProps> = ({ request, userVo
         return 'bg-red-100 text-red-800';
       case 'completed':
         return 'bg-blue-100 text-blue-800';
+      case 'expired':
+        return 'bg-gray-200 text-gray-700';
       default:
         return 'bg-yellow-100 text-yellow-800';
     }
@@ -0,0 +1,68 @@
+import { supabase } from './supabase';
+import {
+  DailyApprovalTime,
+  DailyDonations,
+  DailyNewUsers,
+  RequestFunnel,
+  VerifierThroughput,
+} from '../types';
+
+export interface DateRange {
+  from: string; // YYYY-MM-DD, inclusive
+  to: string;
+}
+
+export interface AnalyticsData {
+  donations: DailyDonations[];
+  newUsers: DailyNewUsers[];
+  funnel: RequestFunnel | null;
+  approvalTimes: DailyApprovalTime[];
+  verifiers: VerifierThroughput[];
+}
+
+export const toDateInput = (date: Date) => date.toISOString().slice(0, 10);
+
+export const lastNDays = (days: number): DateRange => ({
+  from: toDateInput(new Date(Date.now() - (days - 1) * 24 * 60 * 60 * 1000)),
+  to: toDateInput(new Date()),
+});
+
+// Postgres numeric columns arrive as strings; normalise them for charts
+const numeric = (value: unknown) => (value === null || value === undefined ? null : Number(value));
+
+export const fetchAnalytics = async ({ from, to }: DateRange): Promise<AnalyticsData> => {
+  const params = { p_from: from, p_to: to };
+
+  const [donations, newUsers, funnel, approvalTimes, verifiers] = await Promise.all([
+    supabase.rpc('analytics_daily_donations', params),
+    supabase.rpc('analytics_new_users', params),
+    supabase.rpc('analytics_request_funnel', params),
+    supabase.rpc('analytics_time_to_approval', params),
+    supabase.rpc('analytics_verifier_throughput', params),
+  ]);
+
+  for (const result of [donations, newUsers, funnel, approvalTimes, verifiers]) {
+    if (result.error) throw result.error;
+  }
+
+  const funnelRow = funnel.data?.[0];
+
+  return {
+    donations: (donations.data || []).map((row: DailyDonations) => ({
+      ...row,
+      total_amount: Number(row.total_amount),
+    })),
+    newUsers: newUsers.data || [],
+    funnel: funnelRow
+      ? { ...funnelRow, median_hours_to_approval: numeric(funnelRow.median_hours_to_approval) }
+      : null,
+    approvalTimes: (approvalTimes.data || []).map((row: DailyApprovalTime) => ({
+      ...row,
+      median_hours: numeric(row.median_hours),
+    })),
+    verifiers: (verifiers.data || []).map((row: VerifierThroughput) => ({
+      ...row,
+      median_response_hours: numeric(row.median_response_hours),
+    })),
+  };
+};
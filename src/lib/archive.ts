@@ -0,0 +1,54 @@
+import { supabase } from './supabase';
+import { ArchivedRequest, ArchivedUser, Request, User } from '../types';
+
+// Users and requests are never hard-deleted: donations and votes keep
+// pointing at the archived (and, for users, anonymised) row
+
+export const archiveUser = async (userId: string, reason: string | null = null): Promise<User> => {
+  const { data, error } = await supabase.rpc('archive_user', { p_user_id: userId, p_reason: reason });
+
+  if (error) throw error;
+  return data;
+};
+
+export const restoreUser = async (userId: string): Promise<User> => {
+  const { data, error } = await supabase.rpc('restore_user', { p_user_id: userId });
+
+  if (error) throw error;
+  return data;
+};
+
+// Requesters can archive their own pending requests, admins any request
+export const archiveRequest = async (requestId: string): Promise<Request> => {
+  const { data, error } = await supabase.rpc('archive_request', { p_request_id: requestId });
+
+  if (error) throw error;
+  return data;
+};
+
+export const restoreRequest = async (requestId: string): Promise<Request> => {
+  const { data, error } = await supabase.rpc('restore_request', { p_request_id: requestId });
+
+  if (error) throw error;
+  return data;
+};
+
+export const fetchArchivedUsers = async (): Promise<ArchivedUser[]> => {
+  const { data, error } = await supabase
+    .from('archived_users')
+    .select('*')
+    .order('deleted_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const fetchArchivedRequests = async (): Promise<ArchivedRequest[]> => {
+  const { data, error } = await supabase
+    .from('archived_requests')
+    .select('*')
+    .order('deleted_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
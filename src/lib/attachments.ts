@@ -0,0 +1,116 @@
+import { supabase } from './supabase';
+import { hashFile } from './files';
+import { RequestAttachment } from '../types';
+
+export const ATTACHMENT_BUCKET = 'request-attachments';
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+export const ATTACHMENT_MIME_TYPES = [
+  'image/jpeg',
+  'image/png',
+  'image/webp',
+  'image/gif',
+  'application/pdf',
+];
+
+// Returns a user-facing reason the file can't be attached, or null if it's fine.
+// Mirrors the bucket and table constraints so users see the problem before uploading.
+export const validateAttachment = (file: File): string | null => {
+  if (!ATTACHMENT_MIME_TYPES.includes(file.type)) {
+    return `${file.name}: only images (JPEG, PNG, WebP, GIF) and PDFs can be attached`;
+  }
+  if (file.size === 0) {
+    return `${file.name}: file is empty`;
+  }
+  if (file.size > MAX_ATTACHMENT_BYTES) {
+    return `${file.name}: files must be 10 MB or smaller`;
+  }
+  return null;
+};
+
+export const isImageAttachment = (attachment: Pick<RequestAttachment, 'mime_type'>) =>
+  attachment.mime_type.startsWith('image/');
+
+export const uploadRequestAttachment = async (
+  file: File,
+  userId: string,
+  requestId: string
+): Promise<RequestAttachment> => {
+  const hash = await hashFile(file);
+  // The storage policy only allows uploads under the requester's own folder
+  const path = `${userId}/${requestId}/${hash.slice(2, 18)}-${file.name}`;
+
+  const { error: uploadError } = await supabase.storage
+    .from(ATTACHMENT_BUCKET)
+    .upload(path, file, { upsert: false, contentType: file.type });
+
+  if (uploadError) throw uploadError;
+
+  const { data, error } = await supabase
+    .from('request_attachments')
+    .insert([{
+      request_id: requestId,
+      uploaded_by: userId,
+      storage_path: path,
+      file_name: file.name,
+      mime_type: file.type,
+      size_bytes: file.size,
+      sha256: hash,
+    }])
+    .select()
+    .single();
+
+  if (error) {
+    // Don't leave an orphaned object behind if the row couldn't be written
+    await supabase.storage.from(ATTACHMENT_BUCKET).remove([path]);
+    throw error;
+  }
+  return data;
+};
+
+export const fetchRequestAttachments = async (requestId: string): Promise<RequestAttachment[]> => {
+  const { data, error } = await supabase
+    .from('request_attachments')
+    .select('*')
+    .eq('request_id', requestId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const deleteRequestAttachment = async (attachment: RequestAttachment) => {
+  const { error } = await supabase
+    .from('request_attachments')
+    .delete()
+    .eq('id', attachment.id);
+
+  if (error) throw error;
+
+  const { error: storageError } = await supabase.storage
+    .from(ATTACHMENT_BUCKET)
+    .remove([attachment.storage_path]);
+
+  if (storageError) console.error('Error removing attachment file:', storageError);
+};
+
+export const getAttachmentUrl = async (path: string): Promise<string | null> => {
+  const { data, error } = await supabase.storage
+    .from(ATTACHMENT_BUCKET)
+    .createSignedUrl(path, 60 * 60);
+
+  if (error) {
+    console.error('Error creating attachment URL:', error);
+    return null;
+  }
+  return data.signedUrl;
+};
+
+// Re-downloads the stored object and compares it against the hash recorded at upload
+export const verifyAttachmentIntegrity = async (attachment: RequestAttachment): Promise<boolean> => {
+  const { data, error } = await supabase.storage
+    .from(ATTACHMENT_BUCKET)
+    .download(attachment.storage_path);
+
+  if (error) throw error;
+  return (await hashFile(data)) === attachment.sha256;
+};
@@ -0,0 +1,110 @@
+import { supabase } from './supabase';
+import { AuditAction, AuditLogEntry } from '../types';
+
+export const AUDIT_LIMIT = 500;
+const AUDIT_EXPORT_PAGE = 1000;
+
+// The tables with audit triggers in the audit log migration
+export const AUDITED_TABLES: { value: string; label: string }[] = [
+  { value: 'users', label: 'Users' },
+  { value: 'requests', label: 'Requests' },
+  { value: 'donations', label: 'Donations' },
+  { value: 'verifier_applications', label: 'Verifier applications' },
+  { value: 'governance_settings', label: 'Governance settings' },
+  { value: 'verifier_weights', label: 'Verifier weights' },
+  { value: 'review_checklist_items', label: 'Review checklist' },
+  { value: 'request_comments', label: 'Comments' },
+];
+
+export interface AuditFilters {
+  table: string;
+  action: AuditAction | '';
+  // A user id, or 'service_role' for the workers
+  actor: string;
+  recordId: string;
+  from: string;
+  to: string;
+}
+
+export const EMPTY_AUDIT_FILTERS: AuditFilters = { table: '', action: '', actor: '', recordId: '', from: '', to: '' };
+
+const filteredAuditQuery = (filters: AuditFilters) => {
+  let query = supabase
+    .from('audit_log')
+    .select('*')
+    .order('id', { ascending: false });
+
+  if (filters.table) query = query.eq('table_name', filters.table);
+  if (filters.action) query = query.eq('action', filters.action);
+  if (filters.actor === 'service_role') query = query.eq('actor_role', 'service_role');
+  else if (filters.actor) query = query.eq('actor_id', filters.actor);
+  if (filters.recordId.trim()) query = query.eq('record_id', filters.recordId.trim());
+  if (filters.from) query = query.gte('occurred_at', new Date(`${filters.from}T00:00:00`).toISOString());
+  if (filters.to) query = query.lte('occurred_at', new Date(`${filters.to}T23:59:59.999`).toISOString());
+
+  return query;
+};
+
+// Newest first. `from` and `to` are yyyy-mm-dd dates, both inclusive
+export const fetchAuditLog = async (filters: AuditFilters): Promise<AuditLogEntry[]> => {
+  const { data, error } = await filteredAuditQuery(filters).limit(AUDIT_LIMIT);
+  if (error) throw error;
+  return data || [];
+};
+
+// Every entry matching the filters, for export. Pages by id so entries
+// written while exporting can't shift the pages
+export const fetchAllAuditLog = async (filters: AuditFilters): Promise<AuditLogEntry[]> => {
+  const entries: AuditLogEntry[] = [];
+
+  for (;;) {
+    let query = filteredAuditQuery(filters).limit(AUDIT_EXPORT_PAGE);
+    if (entries.length > 0) query = query.lt('id', entries[entries.length - 1].id);
+
+    const { data, error } = await query;
+    if (error) throw error;
+
+    entries.push(...(data || []));
+    if (!data || data.length < AUDIT_EXPORT_PAGE) return entries;
+  }
+};
+
+export interface AuditChainStatus {
+  checked: number;
+  first_broken_id: number | null;
+}
+
+export const verifyAuditLog = async (): Promise<AuditChainStatus> => {
+  const { data, error } = await supabase.rpc('verify_audit_log');
+
+  if (error) throw error;
+  return data[0];
+};
+
+// The keys an update actually changed, ignoring the updated_at bump
+export const changedKeys = (entry: AuditLogEntry): string[] => {
+  const before = entry.before || {};
+  const after = entry.after || {};
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+
+  return [...keys].filter(
+    (key) => key !== 'updated_at' && JSON.stringify(before[key]) !== JSON.stringify(after[key])
+  );
+};
+
+// Flattened for CSV, keeping the hashes so an export can be checked later
+export const auditExportRows = (entries: AuditLogEntry[], usernames: Record<string, string>) =>
+  entries.map((entry) => ({
+    id: entry.id,
+    occurred_at: entry.occurred_at,
+    actor_id: entry.actor_id,
+    actor: entry.actor_id ? usernames[entry.actor_id] || '' : entry.actor_role,
+    actor_role: entry.actor_role,
+    action: entry.action,
+    table_name: entry.table_name,
+    record_id: entry.record_id,
+    before: entry.before ? JSON.stringify(entry.before) : '',
+    after: entry.after ? JSON.stringify(entry.after) : '',
+    prev_hash: entry.prev_hash,
+    hash: entry.hash,
+  }));
@@ -0,0 +1,24 @@
+import { RequestCategory } from '../types';
+
+export const REQUEST_CATEGORIES: { value: RequestCategory; label: string; color: string; fill: string }[] = [
+  { value: 'medical', label: 'Medical', color: 'bg-red-100 text-red-800', fill: '#dc2626' },
+  { value: 'shelter', label: 'Shelter', color: 'bg-amber-100 text-amber-800', fill: '#d97706' },
+  { value: 'food', label: 'Food', color: 'bg-green-100 text-green-800', fill: '#16a34a' },
+  { value: 'education', label: 'Education', color: 'bg-blue-100 text-blue-800', fill: '#2563eb' },
+  { value: 'disaster', label: 'Disaster Relief', color: 'bg-purple-100 text-purple-800', fill: '#9333ea' },
+  { value: 'other', label: 'Other', color: 'bg-gray-100 text-gray-800', fill: '#4b5563' },
+];
+
+export const getCategory = (value?: string | null) =>
+  REQUEST_CATEGORIES.find((category) => category.value === value) || REQUEST_CATEGORIES[REQUEST_CATEGORIES.length - 1];
+
+export const MAX_TAGS = 10;
+
+// "Flood, kids ,flood" -> ["flood", "kids"]; mirrors normalize_request_tags()
+export const parseTags = (input: string): string[] =>
+  Array.from(new Set(
+    input
+      .split(',')
+      .map((tag) => tag.trim().toLowerCase())
+      .filter(Boolean)
+  )).slice(0, MAX_TAGS);
@@ -0,0 +1,107 @@
+import { supabase } from './supabase';
+import { RequestComment } from '../types';
+
+export const MAX_COMMENT_LENGTH = 5000;
+
+// Replies deeper than this are shown at this depth so threads stay readable
+export const MAX_THREAD_DEPTH = 3;
+
+export interface CommentNode {
+  id: string;
+  // Null for a placeholder whose comment was hidden but still has replies
+  comment: RequestComment | null;
+  replies: CommentNode[];
+}
+
+// Builds the reply tree for one request. Replies whose parent the caller
+// can't see (hidden by a moderator) hang off a placeholder node.
+export const buildCommentTree = (comments: RequestComment[]): CommentNode[] => {
+  const nodes = new Map<string, CommentNode>();
+  comments.forEach((comment) => nodes.set(comment.id, { id: comment.id, comment, replies: [] }));
+
+  const roots: CommentNode[] = [];
+  comments.forEach((comment) => {
+    const node = nodes.get(comment.id)!;
+    if (!comment.parent_id) {
+      roots.push(node);
+      return;
+    }
+
+    let parent = nodes.get(comment.parent_id);
+    if (!parent) {
+      parent = { id: comment.parent_id, comment: null, replies: [] };
+      nodes.set(comment.parent_id, parent);
+      roots.push(parent);
+    }
+    parent.replies.push(node);
+  });
+
+  return roots;
+};
+
+export const fetchRequestComments = async (requestId: string): Promise<RequestComment[]> => {
+  const { data, error } = await supabase
+    .from('request_comment_threads')
+    .select('*')
+    .eq('request_id', requestId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const fetchRecentComments = async (limit = 100): Promise<(RequestComment & { request?: { title: string } | null })[]> => {
+  const { data, error } = await supabase
+    .from('request_comment_threads')
+    .select('*, request:requests(title)')
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const postComment = async (
+  requestId: string,
+  authorId: string,
+  body: string,
+  parentId: string | null = null
+) => {
+  const { error } = await supabase
+    .from('request_comments')
+    .insert([{ request_id: requestId, author_id: authorId, parent_id: parentId, body }]);
+
+  if (error) throw error;
+};
+
+export const editComment = async (commentId: string, body: string) => {
+  const { error } = await supabase
+    .from('request_comments')
+    .update({ body })
+    .eq('id', commentId);
+
+  if (error) throw error;
+};
+
+// Hidden comments stay in the thread for their author and admins only
+export const setCommentHidden = async (commentId: string, hidden: boolean, reason?: string) => {
+  const { error } = await supabase
+    .from('request_comments')
+    .update({
+      hidden_at: hidden ? new Date().toISOString() : null,
+      hidden_reason: hidden ? reason || null : null,
+    })
+    .eq('id', commentId);
+
+  if (error) throw error;
+};
+
+// Deleting a comment also deletes its replies
+export const deleteComment = async (commentId: string) => {
+  const { error } = await supabase
+    .from('request_comments')
+    .delete()
+    .eq('id', commentId);
+
+  if (error) throw error;
+};
@@ -0,0 +1,61 @@
+// ISO 3166-1 alpha-2 codes with approximate centroids (lat, lon), used to
+// place requests that only give a country on the browse map
+export const COUNTRY_CENTROIDS: Record<string, [number, number]> = {
+  AF: [33.9, 67.7], AL: [41.2, 20.2], DZ: [28.0, 1.7], AO: [-11.2, 17.9], AR: [-38.4, -63.6],
+  AM: [40.1, 45.0], AU: [-25.3, 133.8], AT: [47.5, 14.6], AZ: [40.1, 47.6], BS: [25.0, -77.4],
+  BH: [26.0, 50.6], BD: [23.7, 90.4], BB: [13.2, -59.5], BY: [53.7, 28.0], BE: [50.5, 4.5],
+  BZ: [17.2, -88.5], BJ: [9.3, 2.3], BT: [27.5, 90.4], BO: [-16.3, -63.6], BA: [43.9, 17.7],
+  BW: [-22.3, 24.7], BR: [-14.2, -51.9], BN: [4.5, 114.7], BG: [42.7, 25.5], BF: [12.2, -1.6],
+  BI: [-3.4, 29.9], KH: [12.6, 104.9], CM: [7.4, 12.4], CA: [56.1, -106.3], CV: [16.0, -24.0],
+  CF: [6.6, 20.9], TD: [15.5, 18.7], CL: [-35.7, -71.5], CN: [35.9, 104.2], CO: [4.6, -74.3],
+  KM: [-11.9, 43.9], CG: [-0.2, 15.8], CD: [-4.0, 21.8], CR: [9.7, -83.8], CI: [7.5, -5.5],
+  HR: [45.1, 15.2], CU: [21.5, -77.8], CY: [35.1, 33.4], CZ: [49.8, 15.5], DK: [56.3, 9.5],
+  DJ: [11.8, 42.6], DM: [15.4, -61.4], DO: [18.7, -70.2], EC: [-1.8, -78.2], EG: [26.8, 30.8],
+  SV: [13.8, -88.9], GQ: [1.7, 10.3], ER: [15.2, 39.8], EE: [58.6, 25.0], SZ: [-26.5, 31.5],
+  ET: [9.1, 40.5], FJ: [-17.7, 178.1], FI: [61.9, 25.7], FR: [46.2, 2.2], GA: [-0.8, 11.6],
+  GM: [13.4, -15.3], GE: [42.3, 43.4], DE: [51.2, 10.5], GH: [7.9, -1.0], GR: [39.1, 21.8],
+  GD: [12.1, -61.7], GT: [15.8, -90.2], GN: [9.9, -9.7], GW: [11.8, -15.2], GY: [4.9, -58.9],
+  HT: [19.0, -72.3], HN: [15.2, -86.2], HU: [47.2, 19.5], IS: [64.9, -19.0], IN: [20.6, 79.0],
+  ID: [-0.8, 113.9], IR: [32.4, 53.7], IQ: [33.2, 43.7], IE: [53.4, -8.2], IL: [31.0, 34.9],
+  IT: [41.9, 12.6], JM: [18.1, -77.3], JP: [36.2, 138.3], JO: [30.6, 36.2], KZ: [48.0, 66.9],
+  KE: [-0.0, 37.9], KI: [1.9, -157.4], KP: [40.3, 127.5], KR: [35.9, 127.8], KW: [29.3, 47.5],
+  KG: [41.2, 74.8], LA: [19.9, 102.5], LV: [56.9, 24.6], LB: [33.9, 35.9], LS: [-29.6, 28.2],
+  LR: [6.4, -9.4], LY: [26.3, 17.2], LI: [47.2, 9.6], LT: [55.2, 23.9], LU: [49.8, 6.1],
+  MG: [-18.8, 46.9], MW: [-13.3, 34.3], MY: [4.2, 101.98], MV: [3.2, 73.2], ML: [17.6, -4.0],
+  MT: [35.9, 14.4], MH: [7.1, 171.2], MR: [21.0, -10.9], MU: [-20.3, 57.6], MX: [23.6, -102.6],
+  FM: [7.4, 150.6], MD: [47.4, 28.4], MC: [43.7, 7.4], MN: [46.9, 103.8], ME: [42.7, 19.4],
+  MA: [31.8, -7.1], MZ: [-18.7, 35.5], MM: [21.9, 96.0], NA: [-22.96, 18.5], NR: [-0.5, 166.9],
+  NP: [28.4, 84.1], NL: [52.1, 5.3], NZ: [-40.9, 174.9], NI: [12.9, -85.2], NE: [17.6, 8.1],
+  NG: [9.1, 8.7], MK: [41.6, 21.7], NO: [60.5, 8.5], OM: [21.5, 55.9], PK: [30.4, 69.3],
+  PW: [7.5, 134.6], PS: [31.9, 35.2], PA: [8.5, -80.8], PG: [-6.3, 143.96], PY: [-23.4, -58.4],
+  PE: [-9.2, -75.0], PH: [12.9, 121.8], PL: [51.9, 19.1], PT: [39.4, -8.2], QA: [25.4, 51.2],
+  RO: [45.9, 25.0], RU: [61.5, 105.3], RW: [-1.9, 29.9], KN: [17.4, -62.8], LC: [13.9, -61.0],
+  VC: [12.98, -61.3], WS: [-13.8, -172.1], SM: [43.9, 12.5], ST: [0.2, 6.6], SA: [23.9, 45.1],
+  SN: [14.5, -14.5], RS: [44.0, 21.0], SC: [-4.7, 55.5], SL: [8.5, -11.8], SG: [1.4, 103.8],
+  SK: [48.7, 19.7], SI: [46.2, 14.99], SB: [-9.6, 160.2], SO: [5.2, 46.2], ZA: [-30.6, 22.9],
+  SS: [6.9, 31.3], ES: [40.5, -3.7], LK: [7.9, 80.8], SD: [12.9, 30.2], SR: [3.9, -56.0],
+  SE: [60.1, 18.6], CH: [46.8, 8.2], SY: [34.8, 39.0], TW: [23.7, 121.0], TJ: [38.9, 71.3],
+  TZ: [-6.4, 34.9], TH: [15.9, 100.99], TL: [-8.9, 125.7], TG: [8.6, 0.8], TO: [-21.2, -175.2],
+  TT: [10.7, -61.2], TN: [33.9, 9.5], TR: [38.96, 35.2], TM: [38.97, 59.6], TV: [-7.1, 177.6],
+  UG: [1.4, 32.3], UA: [48.4, 31.2], AE: [23.4, 53.8], GB: [55.4, -3.4], US: [37.1, -95.7],
+  UY: [-32.5, -55.8], UZ: [41.4, 64.6], VU: [-15.4, 166.96], VE: [6.4, -66.6], VN: [14.1, 108.3],
+  YE: [15.6, 48.5], ZM: [-13.1, 27.8], ZW: [-19.0, 29.2], XK: [42.6, 20.9], HK: [22.4, 114.1],
+  PR: [18.2, -66.6],
+};
+
+const displayNames = typeof Intl !== 'undefined' && 'DisplayNames' in Intl
+  ? new Intl.DisplayNames(['en'], { type: 'region' })
+  : null;
+
+export const countryName = (code?: string | null): string => {
+  if (!code) return '';
+  try {
+    return displayNames?.of(code) || code;
+  } catch {
+    return code;
+  }
+};
+
+export const COUNTRY_OPTIONS = Object.keys(COUNTRY_CENTROIDS)
+  .map((code) => ({ code, name: countryName(code) }))
+  .sort((a, b) => a.name.localeCompare(b.name));
@@ -0,0 +1,31 @@
+type CsvValue = string | number | boolean | null | undefined;
+
+const escapeCsv = (value: CsvValue) => {
+  if (value === null || value === undefined) return '';
+  // Spreadsheets run text starting with =, +, -, @ (or a tab/CR) as a
+  // formula, and exports carry user-written titles, names and comments
+  const text = typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = <T extends object>(rows: T[], columns?: (keyof T & string)[]): string => {
+  if (rows.length === 0) return '';
+  const keys = columns || (Object.keys(rows[0]) as (keyof T & string)[]);
+
+  return [
+    keys.join(','),
+    ...rows.map((row) => keys.map((key) => escapeCsv(row[key] as CsvValue)).join(',')),
+  ].join('\n');
+};
+
+export const downloadCsv = <T extends object>(filename: string, rows: T[], columns?: (keyof T & string)[]) => {
+  const blob = new Blob([toCsv(rows, columns)], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,16 @@
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+// Requests ending within this window count as "ending soon"
+export const ENDING_SOON_MS = 3 * DAY;
+
+export const formatTimeLeft = (ms: number) => {
+  if (ms <= 0) return 'Ended';
+  const days = Math.floor(ms / DAY);
+  const hours = Math.floor((ms % DAY) / HOUR);
+  const minutes = Math.floor((ms % HOUR) / (60 * 1000));
+
+  if (days > 0) return `${days}d ${hours}h left`;
+  if (hours > 0) return `${hours}h ${minutes}m left`;
+  return `${Math.max(minutes, 1)}m left`;
+};
@@ -0,0 +1,569 @@
+import { ethers } from 'ethers';
+import toast from 'react-hot-toast';
+import {
+  DONATION_PLATFORM_ABI,
+  OnChainMilestone,
+  OnChainRequest,
+  VOTE_TYPES,
+  voteDomain,
+} from './donationPlatformAbi';
+
+const contractAddress = import.meta.env.VITE_CONTRACT_ADDRESS;
+
+export interface DonationReceipt {
+  transactionHash: string;
+  chainRequestId: number;
+  donor: string;
+  grossAmount: string;
+  netAmount: string;
+}
+
+export interface CreatedRequestReceipt {
+  transactionHash: string;
+  chainRequestId: number;
+  requester: string;
+}
+
+export interface WithdrawalReceipt {
+  transactionHash: string;
+  chainRequestId: number;
+  amount: string;
+}
+
+export interface MilestoneInput {
+  description: string;
+  amount: string;
+}
+
+export interface RefundReceipt {
+  transactionHash: string;
+  chainRequestId: number;
+  amount: string;
+}
+
+// `transactionHash` is null when the wallet was already a verifier on-chain
+export interface VerifierReceipt {
+  transactionHash: string | null;
+  verifier: string;
+}
+
+export interface SignedVoteReceipt {
+  signature: string;
+  verifier: string;
+  chainRequestId: number;
+  deadline: string;
+}
+
+// How long a relayer may hold a signed vote before it has to be submitted
+const VOTE_SIGNATURE_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+// ISO timestamp to the contract's unix-seconds deadline (0 = none)
+const toChainDeadline = (deadline?: string | null) =>
+  deadline ? BigInt(Math.floor(new Date(deadline).getTime() / 1000)) : 0n;
+
+export class DonationPlatformService {
+  private provider: ethers.BrowserProvider | null = null;
+
+  private async getContract(): Promise<ethers.Contract | null> {
+    if (!window.ethereum) {
+      toast.error('MetaMask not found');
+      return null;
+    }
+
+    if (!contractAddress || !ethers.isAddress(contractAddress)) {
+      toast.error('Donation contract address is not configured');
+      return null;
+    }
+
+    await window.ethereum.request({ method: 'eth_requestAccounts' });
+
+    this.provider = new ethers.BrowserProvider(window.ethereum);
+    const signer = await this.provider.getSigner();
+
+    return new ethers.Contract(contractAddress, DONATION_PLATFORM_ABI, signer);
+  }
+
+  // For views: no account request and no toasts, so polling reads never
+  // prompt the wallet. Returns null when there is no wallet or contract
+  private getReadContract(): ethers.Contract | null {
+    if (!window.ethereum || !contractAddress || !ethers.isAddress(contractAddress)) return null;
+
+    return new ethers.Contract(contractAddress, DONATION_PLATFORM_ABI, new ethers.BrowserProvider(window.ethereum));
+  }
+
+  private findEvent(contract: ethers.Contract, receipt: ethers.TransactionReceipt, name: string) {
+    for (const log of receipt.logs) {
+      try {
+        const parsed = contract.interface.parseLog(log);
+        if (parsed?.name === name) return parsed;
+      } catch {
+        // Log emitted by another contract
+      }
+    }
+    return null;
+  }
+
+  // Sends a transaction and returns the named event once it is mined
+  private async sendAndWait(
+    contract: ethers.Contract,
+    transaction: ethers.ContractTransactionResponse,
+    eventName: string
+  ): Promise<{ receipt: ethers.TransactionReceipt; event: ethers.LogDescription } | null> {
+    toast.success(`Transaction sent! Hash: ${transaction.hash.slice(0, 10)}...`);
+
+    const receipt = await transaction.wait();
+    if (!receipt || receipt.status !== 1) {
+      toast.error('Transaction failed');
+      return null;
+    }
+
+    const event = this.findEvent(contract, receipt, eventName);
+    if (!event) {
+      toast.error(`${eventName} event not found in transaction`);
+      return null;
+    }
+
+    return { receipt, event };
+  }
+
+  async getSignerAddress(): Promise<string | null> {
+    if (!window.ethereum) return null;
+
+    try {
+      this.provider = new ethers.BrowserProvider(window.ethereum);
+      const signer = await this.provider.getSigner();
+      return await signer.getAddress();
+    } catch (error) {
+      console.error('Error getting signer address:', error);
+      return null;
+    }
+  }
+
+  async createRequest(
+    title: string,
+    description: string,
+    amountNeeded: string,
+    deadline?: string | null
+  ): Promise<CreatedRequestReceipt | null> {
+    try {
+      const contract = await this.getContract();
+      if (!contract) return null;
+
+      const transaction = await contract.createRequest(
+        title,
+        description,
+        ethers.parseEther(amountNeeded),
+        toChainDeadline(deadline)
+      );
+      toast.success(`Transaction sent! Hash: ${transaction.hash.slice(0, 10)}...`);
+
+      const receipt: ethers.TransactionReceipt | null = await transaction.wait();
+      if (!receipt || receipt.status !== 1) {
+        toast.error('Transaction failed');
+        return null;
+      }
+
+      const event = this.findEvent(contract, receipt, 'RequestCreated');
+      if (!event) {
+        toast.error('RequestCreated event not found in transaction');
+        return null;
+      }
+
+      return {
+        transactionHash: receipt.hash,
+        chainRequestId: Number(event.args.requestId),
+        requester: event.args.requester,
+      };
+    } catch (error) {
+      this.handleError(error);
+      return null;
+    }
+  }
+
+  async createRequestWithMilestones(
+    title: string,
+    description: string,
+    milestones: MilestoneInput[],
+    deadline?: string | null
+  ): Promise<CreatedRequestReceipt | null> {
+    try {
+      const contract = await this.getContract();
+      if (!contract) return null;
+
+      const transaction = await contract.createRequestWithMilestones(
+        title,
+        description,
+        milestones.map((m) => ethers.parseEther(m.amount)),
+        milestones.map((m) => m.description),
+        toChainDeadline(deadline)
+      );
+
+      const result = await this.sendAndWait(contract, transaction, 'RequestCreated');
+      if (!result) return null;
+
+      return {
+        transactionHash: result.receipt.hash,
+        chainRequestId: Number(result.event.args.requestId),
+        requester: result.event.args.requester,
+      };
+    } catch (error) {
+      this.handleError(error);
+      return null;
+    }
+  }
+
+  async submitMilestoneProof(chainRequestId: number, index: number, proofHash: string): Promise<string | null> {
+    try {
+      const contract = await this.getContract();
+      if (!contract) return null;
+
+      const transaction = await contract.submitMilestoneProof(chainRequestId, index, proofHash);
+      const result = await this.sendAndWait(contract, transaction, 'MilestoneProofSubmitted');
+      return result ? result.receipt.hash : null;
+    } catch (error) {
+      this.handleError(error);
+      return null;
+    }
+  }
+
+  // Signs an EIP-712 vote for the relayer to submit via voteBySig; costs no gas
+  async signVote(chainRequestId: number, approve: boolean): Promise<SignedVoteReceipt | null> {
+    try {
+      const contract = await this.getContract();
+      if (!contract || !this.provider) return null;
+
+      const signer = await this.provider.getSigner();
+      const verifier = await signer.getAddress();
+
+      if (!(await contract.isVerifier(verifier))) {
+        toast.error('Connected wallet is not a registered verifier');
+        return null;
+      }
+
+      if (await contract.hasUserVoted(chainRequestId, verifier)) {
+        toast.error('This wallet has already voted on this request');
+        return null;
+      }
+
+      const { chainId } = await this.provider.getNetwork();
+      const deadline = BigInt(Math.floor(Date.now() / 1000) + VOTE_SIGNATURE_TTL_SECONDS);
+
+      const signature = await signer.signTypedData(
+        voteDomain(chainId, await contract.getAddress()),
+        VOTE_TYPES,
+        { requestId: chainRequestId, approve, verifier, deadline }
+      );
+
+      return {
+        signature,
+        verifier,
+        chainRequestId,
+        deadline: new Date(Number(deadline) * 1000).toISOString(),
+      };
+    } catch (error) {
+      this.handleError(error);
+      return null;
+    }
+  }
+
+  async voteOnMilestone(chainRequestId: number, index: number, approve: boolean): Promise<string | null> {
+    try {
+      const contract = await this.getContract();
+      if (!contract) return null;
+
+      const transaction = await contract.voteOnMilestone(chainRequestId, index, approve);
+      const result = await this.sendAndWait(contract, transaction, 'MilestoneVoteCast');
+      return result ? result.receipt.hash : null;
+    } catch (error) {
+      this.handleError(error);
+      return null;
+    }
+  }
+
+  async releaseMilestone(chainRequestId: number, index: number): Promise<WithdrawalReceipt | null> {
+    try {
+      const contract = await this.getContract();
+      if (!contract) return null;
+
+      const transaction = await contract.releaseMilestone(chainRequestId, index);
+      const result = await this.sendAndWait(contract, transaction, 'MilestoneReleased');
+      if (!result) return null;
+
+      toast.success('Transaction confirmed!');
+      return {
+        transactionHash: result.receipt.hash,
+        chainRequestId: Number(result.event.args.requestId),
+        amount: ethers.formatEther(result.event.args.amount),
+      };
+    } catch (error) {
+      this.handleError(error);
+      return null;
+    }
+  }
+
+  async cancelRequest(chainRequestId: number): Promise<string | null> {
+    try {
+      const contract = await this.getContract();
+      if (!contract) return null;
+
+      const transaction = await contract.cancelRequest(chainRequestId);
+      const result = await this.sendAndWait(contract, transaction, 'RequestCancelled');
+      return result ? result.receipt.hash : null;
+    } catch (error) {
+      this.handleError(error);
+      return null;
+    }
+  }
+
+  async addVerifier(verifier: string): Promise<VerifierReceipt | null> {
+    try {
+      const contract = await this.getContract();
+      if (!contract) return null;
+
+      // addVerifier() reverts for existing verifiers
+      if (await contract.isVerifier(verifier)) {
+        return { transactionHash: null, verifier };
+      }
+
+      const transaction = await contract.addVerifier(verifier);
+      const result = await this.sendAndWait(contract, transaction, 'VerifierAdded');
+      if (!result) return null;
+
+      toast.success('Transaction confirmed!');
+      return { transactionHash: result.receipt.hash, verifier: result.event.args.verifier };
+    } catch (error) {
+      this.handleError(error);
+      return null;
+    }
+  }
+
+  // The indexer mirrors QuorumPolicyUpdated into governance_settings
+  async setQuorumPolicy(minimumVotes: number, approvalThresholdBps: number, useVerifierWeights: boolean): Promise<string | null> {
+    try {
+      const contract = await this.getContract();
+      if (!contract) return null;
+
+      const transaction = await contract.setQuorumPolicy(minimumVotes, approvalThresholdBps, useVerifierWeights);
+      const result = await this.sendAndWait(contract, transaction, 'QuorumPolicyUpdated');
+      return result ? result.receipt.hash : null;
+    } catch (error) {
+      this.handleError(error);
+      return null;
+    }
+  }
+
+  // The indexer mirrors VerifierWeightUpdated into verifier_weights
+  async setVerifierWeight(verifier: string, weight: number): Promise<string | null> {
+    try {
+      const contract = await this.getContract();
+      if (!contract) return null;
+
+      const transaction = await contract.setVerifierWeight(verifier, weight);
+      const result = await this.sendAndWait(contract, transaction, 'VerifierWeightUpdated');
+      return result ? result.receipt.hash : null;
+    } catch (error) {
+      this.handleError(error);
+      return null;
+    }
+  }
+
+  async getRefundableAmount(chainRequestId: number): Promise<string | null> {
+    try {
+      const contract = this.getReadContract();
+      if (!contract) return null;
+
+      // eth_accounts only lists already-connected accounts, without a prompt
+      const [donor] = await (contract.runner as ethers.BrowserProvider).send('eth_accounts', []);
+      if (!donor) return null;
+
+      const amount: bigint = await contract.getRefundableAmount(chainRequestId, donor);
+      return ethers.formatEther(amount);
+    } catch (error) {
+      console.error('Error reading refundable amount:', error);
+      return null;
+    }
+  }
+
+  async claimRefund(chainRequestId: number): Promise<RefundReceipt | null> {
+    try {
+      const contract = await this.getContract();
+      if (!contract) return null;
+
+      // Fail fast on the same conditions claimRefund() would revert with
+      if (!(await contract.isRefundable(chainRequestId))) {
+        toast.error('This request is not refundable');
+        return null;
+      }
+
+      const transaction = await contract.claimRefund(chainRequestId);
+      const result = await this.sendAndWait(contract, transaction, 'RefundClaimed');
+      if (!result) return null;
+
+      toast.success('Transaction confirmed!');
+      return {
+        transactionHash: result.receipt.hash,
+        chainRequestId: Number(result.event.args.requestId),
+        amount: ethers.formatEther(result.event.args.amount),
+      };
+    } catch (error) {
+      this.handleError(error);
+      return null;
+    }
+  }
+
+  async getMilestones(chainRequestId: number): Promise<OnChainMilestone[] | null> {
+    try {
+      const contract = this.getReadContract();
+      if (!contract) return null;
+      return await contract.getMilestones(chainRequestId);
+    } catch (error) {
+      console.error('Error reading on-chain milestones:', error);
+      return null;
+    }
+  }
+
+  async donate(chainRequestId: number, amount: string): Promise<DonationReceipt | null> {
+    try {
+      const amountWei = ethers.parseEther(amount);
+      if (amountWei <= 0) {
+        toast.error('Invalid amount');
+        return null;
+      }
+
+      const contract = await this.getContract();
+      if (!contract) return null;
+
+      // Fail fast on the same conditions donate() would revert with
+      const onChain: OnChainRequest = await contract.getRequest(chainRequestId);
+      if (!onChain.isApproved) {
+        toast.error('This request has not been approved on-chain yet');
+        return null;
+      }
+      if (onChain.deadline > 0n && BigInt(Math.floor(Date.now() / 1000)) > onChain.deadline) {
+        toast.error("This request's funding deadline has passed");
+        return null;
+      }
+      if (!onChain.isActive || onChain.amountRaised >= onChain.amountNeeded) {
+        toast.error('This request is already fully funded');
+        return null;
+      }
+
+      const transaction = await contract.donate(chainRequestId, { value: amountWei });
+      toast.success(`Transaction sent! Hash: ${transaction.hash.slice(0, 10)}...`);
+
+      const receipt: ethers.TransactionReceipt | null = await transaction.wait();
+      if (!receipt || receipt.status !== 1) {
+        toast.error('Transaction failed');
+        return null;
+      }
+
+      const event = this.findEvent(contract, receipt, 'DonationMade');
+      if (!event) {
+        toast.error('DonationMade event not found in transaction');
+        return null;
+      }
+
+      toast.success('Transaction confirmed!');
+      return {
+        transactionHash: receipt.hash,
+        chainRequestId: Number(event.args.requestId),
+        donor: event.args.donor,
+        grossAmount: amount,
+        netAmount: ethers.formatEther(event.args.amount),
+      };
+    } catch (error) {
+      this.handleError(error);
+      return null;
+    }
+  }
+
+  async getRequest(chainRequestId: number): Promise<OnChainRequest | null> {
+    try {
+      const contract = this.getReadContract();
+      if (!contract) return null;
+      return await contract.getRequest(chainRequestId);
+    } catch (error) {
+      console.error('Error reading on-chain request:', error);
+      return null;
+    }
+  }
+
+  // Balance held in escrow for the request, in ETH
+  async getWithdrawableBalance(chainRequestId: number): Promise<string | null> {
+    try {
+      const contract = this.getReadContract();
+      if (!contract) return null;
+
+      // Milestone requests keep amountRaised and track releases separately
+      const onChain: OnChainRequest = await contract.getRequest(chainRequestId);
+      const released: bigint = await contract.releasedAmount(chainRequestId);
+      return ethers.formatEther(onChain.amountRaised - released);
+    } catch (error) {
+      console.error('Error reading withdrawable balance:', error);
+      return null;
+    }
+  }
+
+  async withdrawFunds(chainRequestId: number): Promise<WithdrawalReceipt | null> {
+    try {
+      const contract = await this.getContract();
+      if (!contract) return null;
+
+      // Fail fast on the same conditions withdrawFunds() would revert with
+      const onChain: OnChainRequest = await contract.getRequest(chainRequestId);
+      const signerAddress = await (contract.runner as ethers.Signer).getAddress();
+      if (onChain.requester.toLowerCase() !== signerAddress.toLowerCase()) {
+        toast.error('Connect the wallet that created this request to withdraw');
+        return null;
+      }
+      if (!onChain.isApproved) {
+        toast.error('This request has not been approved on-chain yet');
+        return null;
+      }
+      if (onChain.amountRaised <= 0) {
+        toast.error('No funds to withdraw');
+        return null;
+      }
+
+      const transaction = await contract.withdrawFunds(chainRequestId);
+      toast.success(`Transaction sent! Hash: ${transaction.hash.slice(0, 10)}...`);
+
+      const receipt: ethers.TransactionReceipt | null = await transaction.wait();
+      if (!receipt || receipt.status !== 1) {
+        toast.error('Transaction failed');
+        return null;
+      }
+
+      const event = this.findEvent(contract, receipt, 'FundsWithdrawn');
+      if (!event) {
+        toast.error('FundsWithdrawn event not found in transaction');
+        return null;
+      }
+
+      toast.success('Transaction confirmed!');
+      return {
+        transactionHash: receipt.hash,
+        chainRequestId: Number(event.args.requestId),
+        amount: ethers.formatEther(event.args.amount),
+      };
+    } catch (error) {
+      this.handleError(error);
+      return null;
+    }
+  }
+
+  private handleError(error: unknown) {
+    console.error('Contract error:', error);
+    const err = error as { code?: number | string; reason?: string; shortMessage?: string; message?: string };
+
+    if (err.code === 4001 || err.code === 'ACTION_REJECTED') {
+      toast.error('Transaction rejected by user');
+    } else if (err.message?.includes('insufficient funds')) {
+      toast.error('Insufficient funds for gas fees');
+    } else {
+      toast.error('Transaction failed: ' + (err.reason || err.shortMessage || err.message || 'Unknown error'));
+    }
+  }
+}
+
+export const donationPlatform = new DonationPlatformService();
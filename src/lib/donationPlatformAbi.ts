@@ -0,0 +1,110 @@
+// Human-readable ABI for contracts/DonationPlatform.sol.
+// Kept free of browser/env imports so background workers can share it.
+export const DONATION_PLATFORM_ABI = [
+  // Events
+  'event RequestCreated(uint256 indexed requestId, address indexed requester, string title, uint256 amountNeeded)',
+  'event DonationMade(uint256 indexed requestId, address indexed donor, uint256 amount)',
+  'event VoteCast(uint256 indexed requestId, address indexed verifier, bool approve)',
+  'event SignedVoteSkipped(uint256 indexed requestId, address indexed verifier, string reason)',
+  'event RequestApproved(uint256 indexed requestId)',
+  'event RequestRejected(uint256 indexed requestId)',
+  'event RequestCancelled(uint256 indexed requestId)',
+  'event RefundClaimed(uint256 indexed requestId, address indexed donor, uint256 amount)',
+  'event FundsWithdrawn(uint256 indexed requestId, uint256 amount)',
+  'event VerifierAdded(address indexed verifier)',
+  'event VerifierRemoved(address indexed verifier)',
+  'event QuorumPolicyUpdated(uint256 minimumVotes, uint256 approvalThresholdBps, bool useVerifierWeights)',
+  'event VerifierWeightUpdated(address indexed verifier, uint256 weight)',
+  'event MilestoneAdded(uint256 indexed requestId, uint256 indexed milestoneIndex, uint256 amount, string description)',
+  'event MilestoneProofSubmitted(uint256 indexed requestId, uint256 indexed milestoneIndex, bytes32 proofHash)',
+  'event MilestoneVoteCast(uint256 indexed requestId, uint256 indexed milestoneIndex, address indexed verifier, bool approve)',
+  'event MilestoneApproved(uint256 indexed requestId, uint256 indexed milestoneIndex)',
+  'event MilestoneRejected(uint256 indexed requestId, uint256 indexed milestoneIndex)',
+  'event MilestoneReleased(uint256 indexed requestId, uint256 indexed milestoneIndex, uint256 amount)',
+
+  // Mutations
+  'function createRequest(string _title, string _description, uint256 _amountNeeded, uint256 _deadline)',
+  'function createRequestWithMilestones(string _title, string _description, uint256[] _amounts, string[] _descriptions, uint256 _deadline)',
+  'function voteOnRequest(uint256 _requestId, bool _approve)',
+  'function voteBySig(tuple(uint256 requestId, bool approve, address verifier, uint256 deadline, bytes signature)[] _votes)',
+  'function donate(uint256 _requestId) payable',
+  'function withdrawFunds(uint256 _requestId)',
+  'function cancelRequest(uint256 _requestId)',
+  'function claimRefund(uint256 _requestId)',
+  'function submitMilestoneProof(uint256 _requestId, uint256 _index, bytes32 _proofHash)',
+  'function voteOnMilestone(uint256 _requestId, uint256 _index, bool _approve)',
+  'function releaseMilestone(uint256 _requestId, uint256 _index)',
+  'function setQuorumPolicy(uint256 _minimumVotes, uint256 _approvalThresholdBps, bool _useVerifierWeights)',
+  'function setVerifierWeight(address _verifier, uint256 _weight)',
+  'function addVerifier(address _verifier)',
+
+  // Views
+  'function getRequest(uint256 _requestId) view returns (tuple(uint256 id, address requester, string title, string description, uint256 amountNeeded, uint256 amountRaised, bool isActive, bool isApproved, uint256 createdAt, uint256 deadline))',
+  'function getMilestones(uint256 _requestId) view returns (tuple(uint256 amount, string description, bytes32 proofHash, uint256 round, uint256 approvalVotes, uint256 rejectionVotes, uint256 voteCount, bool approved, bool released)[])',
+  'function releasedAmount(uint256 _requestId) view returns (uint256)',
+  'function isRefundable(uint256 _requestId) view returns (bool)',
+  'function getRefundableAmount(uint256 _requestId, address _donor) view returns (uint256)',
+  'function contributions(uint256 _requestId, address _donor) view returns (uint256)',
+  'function hasVotedOnMilestone(uint256 _requestId, uint256 _index, address _user) view returns (bool)',
+  'function getRequestVotes(uint256 _requestId) view returns (uint256 approvals, uint256 rejections)',
+  'function platformFee() view returns (uint256)',
+  'function minimumVotes() view returns (uint256)',
+  'function approvalThresholdBps() view returns (uint256)',
+  'function useVerifierWeights() view returns (bool)',
+  'function voteWeight(address _verifier) view returns (uint256)',
+  'function nextRequestId() view returns (uint256)',
+  'function isVerifier(address _address) view returns (bool)',
+  'function hasUserVoted(uint256 _requestId, address _user) view returns (bool)',
+  'function hashVote(uint256 _requestId, bool _approve, address _verifier, uint256 _deadline) view returns (bytes32)',
+] as const;
+
+export interface OnChainRequest {
+  id: bigint;
+  requester: string;
+  title: string;
+  description: string;
+  amountNeeded: bigint;
+  amountRaised: bigint;
+  isActive: boolean;
+  isApproved: boolean;
+  createdAt: bigint;
+  deadline: bigint;
+}
+
+export interface OnChainMilestone {
+  amount: bigint;
+  description: string;
+  proofHash: string;
+  round: bigint;
+  approvalVotes: bigint;
+  rejectionVotes: bigint;
+  voteCount: bigint;
+  approved: boolean;
+  released: boolean;
+}
+
+// EIP-712 definition for DonationPlatform.voteBySig; must match VOTE_TYPEHASH
+// and the EIP712("DonationPlatform", "1") constructor in the contract
+export const VOTE_TYPES = {
+  Vote: [
+    { name: 'requestId', type: 'uint256' },
+    { name: 'approve', type: 'bool' },
+    { name: 'verifier', type: 'address' },
+    { name: 'deadline', type: 'uint256' },
+  ],
+};
+
+export const voteDomain = (chainId: bigint | number, verifyingContract: string) => ({
+  name: 'DonationPlatform',
+  version: '1',
+  chainId,
+  verifyingContract,
+});
+
+export interface SignedVote {
+  requestId: bigint;
+  approve: boolean;
+  verifier: string;
+  deadline: bigint;
+  signature: string;
+}
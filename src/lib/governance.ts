@@ -0,0 +1,61 @@
+import { supabase } from './supabase';
+import { GovernanceSettings, Vote, VoteTally } from '../types';
+
+// Mirrors the defaults in governance_settings and DonationPlatform.sol
+export const DEFAULT_GOVERNANCE: GovernanceSettings = {
+  minimum_votes: 3,
+  approval_threshold_bps: 5000,
+  use_verifier_weights: false,
+};
+
+export type VerifierWeights = Record<string, number>;
+
+export const fetchGovernance = async (): Promise<{ settings: GovernanceSettings; weights: VerifierWeights }> => {
+  const [settingsResult, weightsResult] = await Promise.all([
+    supabase.from('governance_settings').select('*').maybeSingle(),
+    supabase.from('verifier_weights').select('verifier_id, weight'),
+  ]);
+
+  if (settingsResult.error) throw settingsResult.error;
+  if (weightsResult.error) throw weightsResult.error;
+
+  const weights: VerifierWeights = {};
+  for (const row of weightsResult.data || []) {
+    weights[row.verifier_id] = row.weight;
+  }
+
+  return { settings: settingsResult.data || DEFAULT_GOVERNANCE, weights };
+};
+
+// Same rule as request_vote_tally() and DonationPlatform.voteOnRequest
+export const tallyVotes = (
+  votes: Pick<Vote, 'voter_id' | 'vote_type'>[],
+  settings: GovernanceSettings,
+  weights: VerifierWeights = {}
+): VoteTally => {
+  let approveWeight = 0;
+  let rejectWeight = 0;
+
+  for (const vote of votes) {
+    const weight = settings.use_verifier_weights ? weights[vote.voter_id] ?? 1 : 1;
+    if (vote.vote_type === 'approve') {
+      approveWeight += weight;
+    } else {
+      rejectWeight += weight;
+    }
+  }
+
+  return {
+    voteCount: votes.length,
+    approveWeight,
+    rejectWeight,
+    votesNeeded: Math.max(settings.minimum_votes - votes.length, 0),
+    wouldApprove: approveWeight * 10000 > (approveWeight + rejectWeight) * settings.approval_threshold_bps,
+  };
+};
+
+export const describeThreshold = (settings: GovernanceSettings) => {
+  const percent = settings.approval_threshold_bps / 100;
+  const basis = settings.use_verifier_weights ? 'of weighted votes' : 'of votes';
+  return `more than ${percent}% ${basis} after ${settings.minimum_votes} votes`;
+};
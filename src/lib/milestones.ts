@@ -0,0 +1,34 @@
+import { supabase } from './supabase';
+import { hashFile } from './files';
+
+export const MILESTONE_PROOF_BUCKET = 'milestone-proofs';
+
+export const uploadMilestoneProof = async (
+  file: File,
+  userId: string,
+  requestId: string,
+  milestoneIndex: number
+): Promise<{ path: string; hash: string }> => {
+  const hash = await hashFile(file);
+  // The storage policy only allows uploads under the requester's own folder
+  const path = `${userId}/${requestId}/${milestoneIndex}-${hash.slice(2, 18)}-${file.name}`;
+
+  const { error } = await supabase.storage
+    .from(MILESTONE_PROOF_BUCKET)
+    .upload(path, file, { upsert: false });
+
+  if (error) throw error;
+  return { path, hash };
+};
+
+export const getMilestoneProofUrl = async (path: string): Promise<string | null> => {
+  const { data, error } = await supabase.storage
+    .from(MILESTONE_PROOF_BUCKET)
+    .createSignedUrl(path, 60 * 60);
+
+  if (error) {
+    console.error('Error creating proof URL:', error);
+    return null;
+  }
+  return data.signedUrl;
+};
@@ -0,0 +1,86 @@
+import { supabase } from './supabase';
+import { Notification, NotificationPreference, NotificationType, User } from '../types';
+
+export const NOTIFICATION_LIMIT = 20;
+
+// Which notifications each role can receive, mirrored from the triggers in
+// the notifications migration. `emailByDefault` matches apply_notification_preferences().
+export const NOTIFICATION_TYPES: {
+  type: NotificationType;
+  label: string;
+  roles: User['role'][];
+  emailByDefault: boolean;
+}[] = [
+  { type: 'review_needed', label: 'New requests awaiting review', roles: ['verifier'], emailByDefault: true },
+  { type: 'request_approved', label: 'My request was approved', roles: ['requester'], emailByDefault: true },
+  { type: 'request_rejected', label: 'My request was rejected', roles: ['requester'], emailByDefault: true },
+  { type: 'request_completed', label: 'My request was fully funded', roles: ['requester'], emailByDefault: true },
+  { type: 'request_expired', label: 'A request expired', roles: ['requester', 'donor'], emailByDefault: true },
+  { type: 'vote_cast', label: 'A verifier voted on my request', roles: ['requester'], emailByDefault: false },
+  { type: 'donation_received', label: 'I received a donation', roles: ['requester'], emailByDefault: true },
+  { type: 'donation_confirmed', label: 'My donation was confirmed', roles: ['donor', 'requester', 'verifier', 'admin'], emailByDefault: true },
+  { type: 'donation_failed', label: 'My donation could not be verified', roles: ['donor', 'requester', 'verifier', 'admin'], emailByDefault: true },
+  { type: 'verifier_application', label: 'My verifier application was reviewed', roles: ['verifier_pending', 'verifier'], emailByDefault: true },
+];
+
+export const fetchNotifications = async (userId: string): Promise<Notification[]> => {
+  const { data, error } = await supabase
+    .from('notifications')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('in_app', true)
+    .order('created_at', { ascending: false })
+    .limit(NOTIFICATION_LIMIT);
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const fetchUnreadCount = async (userId: string): Promise<number> => {
+  const { count, error } = await supabase
+    .from('notifications')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .eq('in_app', true)
+    .is('read_at', null);
+
+  if (error) throw error;
+  return count || 0;
+};
+
+// Marks the given notifications read, or all of the user's unread ones
+export const markNotificationsRead = async (userId: string, ids?: string[]) => {
+  let query = supabase
+    .from('notifications')
+    .update({ read_at: new Date().toISOString() })
+    .eq('user_id', userId)
+    .is('read_at', null);
+
+  if (ids) query = query.in('id', ids);
+
+  const { error } = await query;
+  if (error) throw error;
+};
+
+// Returns a preference for every type, filling in the defaults for types
+// the user never changed
+export const fetchNotificationPreferences = async (userId: string): Promise<NotificationPreference[]> => {
+  const { data, error } = await supabase
+    .from('notification_preferences')
+    .select('*')
+    .eq('user_id', userId);
+
+  if (error) throw error;
+
+  return NOTIFICATION_TYPES.map(({ type, emailByDefault }) =>
+    data?.find((pref) => pref.type === type) || { user_id: userId, type, in_app: true, email: emailByDefault }
+  );
+};
+
+export const saveNotificationPreference = async (preference: NotificationPreference) => {
+  const { error } = await supabase
+    .from('notification_preferences')
+    .upsert([{ ...preference, updated_at: new Date().toISOString() }], { onConflict: 'user_id,type' });
+
+  if (error) throw error;
+};
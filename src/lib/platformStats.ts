@@ -0,0 +1,14 @@
+import { supabase } from './supabase';
+import { PlatformStats } from '../types';
+
+// Platform-wide aggregates computed server-side, so they don't depend on
+// which rows RLS lets the current visitor read
+export const fetchPlatformStats = async (): Promise<PlatformStats | null> => {
+  const { data, error } = await supabase.rpc('platform_stats');
+
+  if (error) {
+    console.error('Error fetching platform stats:', error);
+    return null;
+  }
+  return data as PlatformStats;
+};
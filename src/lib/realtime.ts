@@ -0,0 +1,62 @@
+import { Vote } from '../types';
+
+export type RealtimeTable = 'requests' | 'donations' | 'votes' | 'notifications' | 'request_comments';
+
+export type RealtimeRow = Record<string, unknown>;
+
+export interface RealtimeChange {
+  table: RealtimeTable;
+  eventType: 'INSERT' | 'UPDATE' | 'DELETE';
+  // Realtime sends the full new row, but only the primary key in `old`
+  // unless the table has REPLICA IDENTITY FULL
+  new: RealtimeRow;
+  old: RealtimeRow;
+}
+
+export interface OptimisticRow {
+  tempId: string;
+  table: RealtimeTable;
+  row: RealtimeRow;
+  // True for the confirmed row this optimistic one stands in for
+  settles: (row: RealtimeRow) => boolean;
+}
+
+export const OPTIMISTIC_ID_PREFIX = 'optimistic-';
+
+export const isOptimisticId = (id: string) => id.startsWith(OPTIMISTIC_ID_PREFIX);
+
+const changedId = (change: RealtimeChange) =>
+  (change.eventType === 'DELETE' ? change.old.id : change.new.id) as string | undefined;
+
+// Merges a change into a flat list. Updates keep joined fields (requester,
+// votes, ...) since realtime rows only carry the table's own columns.
+export function applyChange<T extends { id: string }>(rows: T[], change: RealtimeChange): T[] {
+  const id = changedId(change);
+
+  switch (change.eventType) {
+    case 'INSERT':
+      return rows.some((row) => row.id === id) ? rows : [change.new as T, ...rows];
+    case 'UPDATE':
+      return rows.map((row) => (row.id === id ? { ...row, ...change.new } : row));
+    case 'DELETE':
+      return rows.filter((row) => row.id !== id);
+  }
+}
+
+// Merges a `votes` change into the nested votes of the request it belongs to.
+// Deletes only carry the vote id, so every request is checked for it.
+export function applyVoteChange<T extends { id: string; votes?: Vote[] }>(requests: T[], change: RealtimeChange): T[] {
+  return requests.map((request) => {
+    if (change.eventType !== 'DELETE' && change.new.request_id !== request.id) return request;
+    if (change.eventType === 'DELETE' && !request.votes?.some((vote) => vote.id === change.old.id)) return request;
+
+    return { ...request, votes: applyChange(request.votes || [], change) };
+  });
+}
+
+// Optimistic rows for a table that have no confirmed counterpart in `rows` yet
+export function pendingOptimistic<T>(rows: object[], optimistic: OptimisticRow[], table: RealtimeTable): T[] {
+  return optimistic
+    .filter((entry) => entry.table === table && !rows.some((row) => entry.settles(row as RealtimeRow)))
+    .map((entry) => ({ ...entry.row, id: entry.tempId }) as T);
+}
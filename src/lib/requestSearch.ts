@@ -0,0 +1,77 @@
+import { supabase } from './supabase';
+import { Request, RequestCategory, User } from '../types';
+
+export const SORT_OPTIONS = [
+  { value: 'newest', label: 'Newest First' },
+  { value: 'oldest', label: 'Oldest First' },
+  { value: 'amount_high', label: 'Highest Amount' },
+  { value: 'amount_low', label: 'Lowest Amount' },
+  { value: 'progress', label: 'Most Funded' },
+  { value: 'urgent', label: 'Most Urgent' },
+  { value: 'ending_soon', label: 'Ending Soon' },
+] as const;
+
+export type RequestSort = typeof SORT_OPTIONS[number]['value'];
+
+export interface RequestSearchParams {
+  query: string;
+  status: Request['status'] | 'all';
+  sort: RequestSort;
+  category: RequestCategory | 'all';
+  tags: string[];
+  country: string;
+}
+
+// Keyset position of the last row on a page
+export interface SearchCursor {
+  key: string;
+  id: string;
+}
+
+export interface RequestSearchPage {
+  requests: Request[];
+  nextCursor: SearchCursor | null;
+  total: number;
+}
+
+interface SearchRow {
+  request: Request;
+  requester: Pick<User, 'id' | 'username'> | null;
+  vote_count: number;
+  sort_key: string;
+  total_count: number;
+}
+
+export const PAGE_SIZE = 12;
+
+export const searchRequests = async (
+  { query, status, sort, category, tags, country }: RequestSearchParams,
+  cursor: SearchCursor | null = null
+): Promise<RequestSearchPage> => {
+  const { data, error } = await supabase.rpc('search_requests', {
+    p_query: query || null,
+    p_statuses: status === 'all' ? null : [status],
+    p_sort: sort,
+    p_cursor_key: cursor?.key ?? null,
+    p_cursor_id: cursor?.id ?? null,
+    p_limit: PAGE_SIZE,
+    p_category: category === 'all' ? null : category,
+    p_tags: tags.length > 0 ? tags : null,
+    p_country: country || null,
+  });
+
+  if (error) throw error;
+
+  const rows = (data || []) as SearchRow[];
+  const last = rows[rows.length - 1];
+
+  return {
+    requests: rows.map((row) => ({
+      ...row.request,
+      requester: row.requester as Request['requester'],
+      vote_count: row.vote_count,
+    })),
+    nextCursor: rows.length === PAGE_SIZE ? { key: last.sort_key, id: last.request.id } : null,
+    total: rows[0]?.total_count ?? 0,
+  };
+};
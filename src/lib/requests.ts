@@ -0,0 +1,26 @@
+import { supabase } from './supabase';
+import { Request } from '../types';
+
+// What a requester can change after creation. The amount and deadline are
+// fixed on-chain, and status and totals follow votes and donations
+export type RequestDetails = Pick<
+  Request,
+  'title' | 'description' | 'category' | 'tags' | 'country_code' | 'region' | 'latitude' | 'longitude'
+>;
+
+export const updateOwnRequest = async (requestId: string, details: RequestDetails): Promise<Request> => {
+  const { data, error } = await supabase.rpc('update_own_request', {
+    p_request_id: requestId,
+    p_title: details.title,
+    p_description: details.description,
+    p_category: details.category,
+    p_tags: details.tags,
+    p_country_code: details.country_code ?? null,
+    p_region: details.region ?? null,
+    p_latitude: details.latitude ?? null,
+    p_longitude: details.longitude ?? null,
+  });
+
+  if (error) throw error;
+  return data;
+};
@@ -0,0 +1,58 @@
+import { supabase } from './supabase';
+import { ReviewChecklistItem, Vote } from '../types';
+
+// Same limits as apply_vote_review()
+export const MIN_RATIONALE_LENGTH = 10;
+export const MAX_RATIONALE_LENGTH = 2000;
+
+export interface VoteReview {
+  rationale: string;
+  checked: Record<string, boolean>;
+}
+
+export const EMPTY_REVIEW: VoteReview = { rationale: '', checked: {} };
+
+export const fetchReviewChecklist = async (includeInactive = false): Promise<ReviewChecklistItem[]> => {
+  let query = supabase
+    .from('review_checklist_items')
+    .select('*')
+    .order('position', { ascending: true })
+    .order('key', { ascending: true });
+
+  if (!includeInactive) query = query.eq('active', true);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data || [];
+};
+
+export const saveChecklistItem = async (item: ReviewChecklistItem) => {
+  const { error } = await supabase
+    .from('review_checklist_items')
+    .upsert(item, { onConflict: 'key' });
+
+  if (error) throw error;
+};
+
+// Mirrors the checks in apply_vote_review() so verifiers see the problem
+// before signing anything
+export const reviewProblem = (
+  items: ReviewChecklistItem[],
+  review: VoteReview,
+  voteType: Vote['vote_type']
+): string | null => {
+  const rationale = review.rationale.trim();
+  if (rationale.length < MIN_RATIONALE_LENGTH) {
+    return `Please explain your vote in at least ${MIN_RATIONALE_LENGTH} characters`;
+  }
+  if (voteType === 'approve' && items.some((item) => item.required && !review.checked[item.key])) {
+    return 'Confirm every required checklist item before approving';
+  }
+  return null;
+};
+
+// The vote columns for a review; the trigger adds labels to the checklist
+export const reviewColumns = (review: VoteReview) => ({
+  rationale: review.rationale.trim(),
+  checklist: Object.entries(review.checked).map(([key, checked]) => ({ key, checked })),
+});
@@ -0,0 +1,84 @@
+import { ethers } from 'ethers';
+import { supabase } from './supabase';
+import { User, WalletChallenge } from '../types';
+
+const POLL_INTERVAL_MS = 2000;
+const POLL_TIMEOUT_MS = 60000;
+
+export const isWalletVerified = (user: Pick<User, 'wallet_address' | 'wallet_verified_at'> | null | undefined) =>
+  !!user?.wallet_address && !!user.wallet_verified_at;
+
+export const WALLET_NOT_VERIFIED_MESSAGE = 'Verify your wallet from your profile before continuing';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Waits for workers/verifyWalletSignatures.ts to check the signature
+const waitForVerdict = async (challengeId: string): Promise<WalletChallenge> => {
+  const deadline = Date.now() + POLL_TIMEOUT_MS;
+
+  while (Date.now() < deadline) {
+    await sleep(POLL_INTERVAL_MS);
+
+    const { data, error } = await supabase
+      .from('wallet_challenges')
+      .select('*')
+      .eq('id', challengeId)
+      .single();
+
+    if (error) throw error;
+    if (data.status === 'verified' || data.status === 'failed') return data as WalletChallenge;
+  }
+
+  throw new Error('Wallet verification is taking longer than expected. Check your profile again in a minute.');
+};
+
+/**
+ * Proves the connected wallet belongs to the signed-in user with an EIP-4361
+ * (Sign-In With Ethereum) message. The server issues the message and nonce,
+ * the wallet signs it, and the signature is checked server-side; on success
+ * the profile's wallet_address becomes the connected account. Returns the
+ * refreshed profile.
+ */
+export const verifyConnectedWallet = async (userId: string): Promise<User> => {
+  if (!window.ethereum) {
+    throw new Error('Please install MetaMask to verify your wallet');
+  }
+
+  const provider = new ethers.BrowserProvider(window.ethereum);
+  const signer = await provider.getSigner();
+  const address = ethers.getAddress(await signer.getAddress());
+  const { chainId } = await provider.getNetwork();
+
+  const { data, error } = await supabase.rpc('create_wallet_challenge', {
+    p_address: address,
+    p_domain: window.location.host,
+    p_uri: window.location.origin,
+    p_chain_id: Number(chainId),
+  });
+
+  if (error) throw error;
+  const challenge = data as WalletChallenge;
+
+  const signature = await signer.signMessage(challenge.message);
+
+  const { error: submitError } = await supabase.rpc('submit_wallet_signature', {
+    p_challenge_id: challenge.id,
+    p_signature: signature,
+  });
+
+  if (submitError) throw submitError;
+
+  const verdict = await waitForVerdict(challenge.id);
+  if (verdict.status === 'failed') {
+    throw new Error(verdict.error || 'Wallet signature could not be verified');
+  }
+
+  const { data: profile, error: profileError } = await supabase
+    .from('users')
+    .select('*')
+    .eq('id', userId)
+    .single();
+
+  if (profileError) throw profileError;
+  return profile as User;
+};
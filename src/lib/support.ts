@@ -0,0 +1,96 @@
+import { supabase } from './supabase';
+import { SupportSubject, SupportTicket, SupportTicketMessage, SupportTicketStatus } from '../types';
+
+export const SUPPORT_SUBJECTS: { value: SupportSubject; label: string }[] = [
+  { value: 'general', label: 'General Inquiry' },
+  { value: 'support', label: 'Technical Support' },
+  { value: 'partnership', label: 'Partnership' },
+  { value: 'verification', label: 'Become a Verifier' },
+  { value: 'donation', label: 'Donation Questions' },
+  { value: 'other', label: 'Other' },
+];
+
+export const SUPPORT_STATUSES: { value: SupportTicketStatus; label: string; color: string }[] = [
+  { value: 'open', label: 'Open', color: 'bg-yellow-100 text-yellow-800' },
+  { value: 'in_progress', label: 'In Progress', color: 'bg-blue-100 text-blue-800' },
+  { value: 'waiting', label: 'Waiting on Customer', color: 'bg-purple-100 text-purple-800' },
+  { value: 'closed', label: 'Closed', color: 'bg-gray-100 text-gray-700' },
+];
+
+export const getSubjectLabel = (subject: SupportSubject) =>
+  SUPPORT_SUBJECTS.find((s) => s.value === subject)?.label || subject;
+
+export const getStatusStyle = (status: SupportTicketStatus) =>
+  SUPPORT_STATUSES.find((s) => s.value === status) || SUPPORT_STATUSES[0];
+
+export interface SupportTicketInput {
+  name: string;
+  email: string;
+  subject: string;
+  message: string;
+  // Hidden field real visitors never fill in
+  honeypot: string;
+  // How long the form was open before it was submitted
+  elapsedMs: number;
+}
+
+// Spam and rate-limit checks run server-side in submit_support_ticket(); its
+// exception messages are written to be shown to the visitor as-is
+export const submitSupportTicket = async (input: SupportTicketInput) => {
+  const { error } = await supabase.rpc('submit_support_ticket', {
+    p_name: input.name,
+    p_email: input.email,
+    p_subject: input.subject,
+    p_message: input.message,
+    p_honeypot: input.honeypot,
+    p_elapsed_ms: Math.round(input.elapsedMs),
+  });
+
+  if (error) throw error;
+};
+
+export const fetchSupportTickets = async (): Promise<SupportTicket[]> => {
+  const { data, error } = await supabase
+    .from('support_tickets')
+    .select('*, assignee:users!assigned_to(id, username)')
+    .order('updated_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const fetchTicketMessages = async (ticketId: string): Promise<SupportTicketMessage[]> => {
+  const { data, error } = await supabase
+    .from('support_ticket_messages')
+    .select('*, author:users!author_id(username)')
+    .eq('ticket_id', ticketId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const updateSupportTicket = async (
+  ticketId: string,
+  updates: Partial<Pick<SupportTicket, 'status' | 'assigned_to'>>
+) => {
+  const { error } = await supabase
+    .from('support_tickets')
+    .update(updates)
+    .eq('id', ticketId);
+
+  if (error) throw error;
+};
+
+// Staff replies are emailed to the ticket address by the email worker, and
+// move the ticket to `waiting`
+export const replyToTicket = async (ticketId: string, authorId: string, body: string): Promise<SupportTicketMessage> => {
+  const { data, error } = await supabase
+    .from('support_ticket_messages')
+    .insert([{ ticket_id: ticketId, author_id: authorId, is_staff: true, body }])
+    .select('*, author:users!author_id(username)')
+    .single();
+
+  if (error) throw error;
+  return data;
+};
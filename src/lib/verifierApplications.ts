@@ -0,0 +1,85 @@
+import { supabase } from './supabase';
+import { VerifierApplication, VerifierApplicationStatus } from '../types';
+
+// Same limits as the verifier_applications table
+export const MIN_CREDENTIALS_LENGTH = 20;
+export const MAX_CREDENTIALS_LENGTH = 5000;
+export const MAX_REGION_LENGTH = 200;
+export const MAX_REFERENCES_LENGTH = 2000;
+
+export interface VerifierApplicationInput {
+  credentials: string;
+  region: string;
+  reference_contacts: string;
+}
+
+export const EMPTY_APPLICATION: VerifierApplicationInput = { credentials: '', region: '', reference_contacts: '' };
+
+export const applicationProblem = (input: VerifierApplicationInput): string | null => {
+  if (input.credentials.trim().length < MIN_CREDENTIALS_LENGTH) {
+    return `Describe your credentials in at least ${MIN_CREDENTIALS_LENGTH} characters`;
+  }
+  if (input.region.trim().length < 2) return 'Please enter the region you can verify requests in';
+  if (!input.reference_contacts.trim()) return 'Please list at least one reference';
+  return null;
+};
+
+// Newest first, so the first entry is the current application
+export const fetchMyApplications = async (userId: string): Promise<VerifierApplication[]> => {
+  const { data, error } = await supabase
+    .from('verifier_applications')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const submitApplication = async (userId: string, input: VerifierApplicationInput): Promise<VerifierApplication> => {
+  const { data, error } = await supabase
+    .from('verifier_applications')
+    .insert({
+      user_id: userId,
+      credentials: input.credentials.trim(),
+      region: input.region.trim(),
+      reference_contacts: input.reference_contacts.trim(),
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+export const fetchVerifierApplications = async (status?: VerifierApplicationStatus): Promise<VerifierApplication[]> => {
+  let query = supabase
+    .from('verifier_applications')
+    .select('*, applicant:users!user_id(id, username, email, role, wallet_address, wallet_verified_at, created_at)')
+    .order('created_at', { ascending: status === 'pending' });
+
+  if (status) query = query.eq('status', status);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data || [];
+};
+
+// Approval expects the applicant's wallet to be registered with addVerifier()
+// already; pass the transaction hash when one was sent
+export const reviewApplication = async (
+  applicationId: string,
+  approve: boolean,
+  note: string,
+  txHash: string | null = null
+): Promise<VerifierApplication> => {
+  const { data, error } = await supabase.rpc('review_verifier_application', {
+    p_application_id: applicationId,
+    p_approve: approve,
+    p_note: note,
+    p_tx_hash: txHash,
+  });
+
+  if (error) throw error;
+  return data;
+};
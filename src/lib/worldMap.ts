@@ -0,0 +1,94 @@
+// Coarse land outlines ([lon, lat] rings) for the offline browse map. Only
+// meant to give points on the map geographic context, not to be accurate.
+const LAND: [number, number][][] = [
+  // North America
+  [[-168, 65], [-162, 70], [-140, 70], [-125, 70], [-95, 72], [-80, 73], [-62, 67], [-55, 52], [-66, 45],
+    [-70, 42], [-76, 35], [-81, 31], [-80, 25], [-82, 27], [-84, 30], [-90, 29.5], [-97, 27], [-97, 22],
+    [-92, 18.5], [-88, 21], [-87, 16], [-83, 15], [-83, 10], [-79, 9], [-77.5, 8], [-80, 7.5], [-85, 11],
+    [-88, 13.5], [-92, 14.5], [-96, 16], [-105, 20], [-110, 24], [-115, 30], [-117, 32.5], [-121, 35],
+    [-124, 40], [-124, 46], [-123, 49], [-130, 55], [-140, 60], [-150, 60], [-158, 57], [-165, 60]],
+  // Greenland
+  [[-73, 78], [-60, 82], [-30, 83], [-20, 80], [-18, 75], [-22, 70], [-40, 65], [-43, 60], [-50, 62],
+    [-55, 68], [-60, 75]],
+  // South America
+  [[-77.5, 8], [-72, 12], [-63, 10.5], [-60, 8.5], [-52, 5], [-50, 0], [-44, -2.5], [-35, -5], [-35, -9],
+    [-39, -15], [-41, -22], [-48, -26], [-53, -34], [-58, -38.5], [-62, -40], [-65, -45], [-68, -50],
+    [-68.5, -53], [-71, -55], [-75, -50], [-74, -42], [-73, -37], [-71.5, -30], [-70.5, -18], [-76, -14],
+    [-81, -6], [-80, -2], [-80, 1], [-78, 4]],
+  // Eurasia
+  [[-9.5, 43.5], [-1.5, 43.5], [-4.5, 48.5], [2, 51], [5, 53], [8.5, 54], [8.5, 57], [10.5, 57.5],
+    [12, 55.5], [14, 54], [19, 54.5], [21, 57], [24, 57.5], [28, 59.5], [23, 60], [21, 61], [22, 65.5],
+    [17, 62], [19, 60], [16, 56], [12.5, 56], [10.5, 59], [5, 58], [5, 62], [13, 67], [18, 70], [25, 71],
+    [30, 70], [40, 67], [44, 68.5], [55, 68.5], [60, 69.5], [68, 69], [73, 72.5], [80, 73], [87, 75.5],
+    [100, 77.5], [105, 78], [113, 74], [128, 73], [140, 72.5], [150, 71.5], [160, 70], [170, 70],
+    [180, 69], [180, 65], [177, 64.5], [179, 62.5], [170, 60], [163, 60], [162, 56], [156, 51],
+    [156, 57.5], [160, 61.5], [155, 59], [143, 59.5], [135, 54.5], [141, 52], [140, 48], [135, 43],
+    [130, 42.5], [129.5, 35.5], [126.5, 34.5], [126, 37.5], [125, 39.5], [121.5, 40], [119, 39],
+    [122.5, 37], [119, 35], [121, 31], [122, 29], [119.5, 25], [117, 23.5], [113, 22], [110, 21],
+    [108, 21.5], [106, 20], [105.5, 18.5], [108.5, 15], [109, 11.5], [106, 9.5], [104.5, 8.5],
+    [105, 10.5], [102.5, 12.5], [100.5, 13.5], [99, 10], [100.5, 7], [103, 4], [104, 1.3], [101, 2.5],
+    [98.5, 8], [98, 15], [97.5, 16.5], [94.5, 16], [94, 19], [92, 21.5], [90, 22], [86.5, 21],
+    [85, 19.5], [80.3, 15.5], [80, 10], [77.5, 8], [76.3, 10], [73, 17], [72.5, 21], [70, 22.5],
+    [68.5, 23.5], [66.5, 25.4], [61.5, 25.2], [57, 25.8], [56, 26.5], [54, 24], [51.5, 24.5],
+    [50, 26.5], [48, 29.5], [50, 30], [52, 27.8], [56.5, 27], [57.5, 25], [59.5, 22.5], [57.5, 19],
+    [55, 17], [52, 15.5], [45, 13], [43.3, 13], [42.8, 16], [40.5, 20], [38.5, 23], [35.5, 28],
+    [34.5, 29], [34, 31], [35, 33], [36, 35.5], [36, 36.8], [32, 36.2], [29, 36.6], [27, 37.5],
+    [26.5, 40], [24, 40.5], [23, 38], [21.5, 37], [21, 39.5], [19.5, 41.5], [16, 43.5], [13.5, 45.7],
+    [12.3, 45], [14, 42.5], [16, 41.5], [18.5, 40], [16, 38], [15.5, 40], [12, 42], [10, 44],
+    [7, 43.5], [3, 42], [0, 39], [-1, 37], [-5.5, 36], [-9, 37]],
+  // Africa
+  [[-17, 21], [-16, 14.5], [-17.5, 14.7], [-15, 11], [-13, 8], [-8, 4.5], [-4, 5.2], [2, 6.3], [4.5, 6.3],
+    [6, 4.3], [8.5, 4.5], [9.5, 3], [9.5, -1], [12, -5], [13.5, -11], [12, -17], [14.5, -22.5],
+    [16.5, -28.5], [18.5, -34], [20, -34.8], [26, -33.8], [30, -31], [32.5, -28.5], [32.8, -25.5],
+    [35.5, -24], [35, -20], [37, -17.5], [40.5, -15], [40.5, -10.5], [39.5, -6], [41, -2], [43, 0],
+    [46, 2], [49, 5.5], [51, 10.5], [51.2, 12], [47.5, 11], [44, 10.5], [43.3, 11.5], [42.5, 12.5],
+    [39.5, 15.5], [38.5, 18], [37.3, 21], [35.5, 24], [33.5, 27.5], [32.5, 30], [30, 31.2], [25, 31.8],
+    [20, 30.5], [19, 30.3], [15.5, 32], [11.5, 33.2], [10, 37], [8, 37], [3, 36.8], [-1, 35.5],
+    [-5.5, 35.8], [-6.5, 34], [-9.5, 30.5], [-10, 28], [-13, 27.5]],
+  // Madagascar
+  [[44, -25], [47, -25], [50.5, -15.5], [49.5, -12], [48, -13.5], [44.3, -17]],
+  // Australia
+  [[114, -22], [114, -26], [115, -34], [117.5, -35], [123, -34], [129, -31.5], [131, -31.5], [135, -34.5],
+    [138, -35.5], [140, -38], [144, -38.5], [147, -38], [150, -37.5], [153, -31], [153, -25],
+    [149, -20.5], [146, -18.5], [145.5, -15], [142.5, -10.7], [141.5, -13], [141.5, -17], [139.5, -17.5],
+    [136, -15], [136.7, -12.2], [132.5, -11.3], [130, -13], [129, -15], [126, -14], [122.5, -17],
+    [121, -19.5], [117, -20.7]],
+  // Sumatra, Java, Borneo, New Guinea, Philippines
+  [[95.3, 5.6], [98, 4], [104, -2], [106, -6], [104.5, -6], [101, -2.5]],
+  [[105.2, -6.8], [114.5, -8.7], [110, -8]],
+  [[109, 1.5], [111, -3], [116, -4], [119, 0.5], [119, 5], [117, 7], [115, 5]],
+  [[131, -1], [138, -1.7], [144, -3.7], [148, -6], [150.5, -10.5], [147, -10], [143, -9], [138, -8.2],
+    [134.5, -4]],
+  [[120, 18.5], [122.3, 18.5], [124, 12.5], [126.5, 7], [125.5, 5.8], [122, 7], [120, 14]],
+  // Japan
+  [[130, 31], [131.5, 34], [135, 34], [140, 35], [141, 38.5], [141.5, 41.5], [140, 40], [139, 38],
+    [136, 36.5], [132, 35.5], [130, 33.5]],
+  [[140, 42], [143, 42], [145.5, 43.5], [142, 45.5]],
+  // Great Britain, Ireland, Iceland
+  [[-5.7, 50], [1.7, 51.5], [1.7, 52.8], [-0.3, 53.5], [-2, 55.8], [-1.8, 57.6], [-3, 58.6], [-5, 58.6],
+    [-6.2, 56.7], [-5, 55], [-3, 54], [-3, 53.4], [-4.5, 53.3], [-4.2, 52.2], [-5.3, 51.8], [-3, 51.4]],
+  [[-6, 52], [-6, 54], [-7.5, 55.3], [-10, 54], [-10, 51.6]],
+  [[-24, 65.5], [-22, 66.4], [-14.5, 66.2], [-13.5, 65], [-18, 63.4], [-22, 63.8]],
+  // New Zealand
+  [[172.6, -34.4], [178.5, -37.7], [176.9, -39.6], [174.7, -41.3], [173.8, -39.2]],
+  [[172.7, -40.5], [174.3, -41.7], [171.2, -44.5], [169, -46.6], [166.5, -46], [168, -44]],
+  // Cuba, Hispaniola, Sri Lanka
+  [[-85, 21.8], [-80, 23.2], [-74.2, 20.2], [-77.5, 19.9]],
+  [[-74.4, 18.4], [-68.4, 18.6], [-69.9, 19.9], [-73, 19.9]],
+  [[79.8, 9.8], [81.9, 7.5], [81.2, 6.2], [80, 6]],
+];
+
+// Equirectangular projection cropped to 85N..65S
+export const MAP_WIDTH = 360;
+export const MAP_HEIGHT = 150;
+
+export const project = (lat: number, lon: number): [number, number] => [lon + 180, 85 - lat];
+
+export const LAND_PATHS = LAND.map((ring) =>
+  ring
+    .map(([lon, lat], i) => {
+      const [x, y] = project(lat, lon);
+      return `${i === 0 ? 'M' : 'L'}${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(' ') + ' Z'
+);
@@ -1,6 +1,6 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { motion } from 'framer-motion';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { 
   Search, 
   Filter, 
@@ -10,123 +10,140 @@ import {
   CheckCircle,
   Users,
   MapPin,
-  Calendar
+  Calendar,
+  LayoutGrid,
+  Map as MapIcon,
+  X
 } from 'lucide-react';
 import { Request } from '../types';
-import { supabase } from '../lib/supabase';
+import {
+  PAGE_SIZE,
+  RequestSearchParams,
+  RequestSort,
+  SORT_OPTIONS,
+  SearchCursor,
+  searchRequests,
+} from '../lib/requestSearch';
 import { useAuthStore } from '../stores/authStore';
+import { DeadlineBadge } from '../components/DeadlineBadge';
+import { RequestMap } from '../components/RequestMap';
+import { REQUEST_CATEGORIES, getCategory } from '../lib/categories';
+import { COUNTRY_OPTIONS, countryName } from '../lib/countries';
 
 export const BrowseRequestsPage: React.FC = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
   const [requests, setRequests] = useState<Request[]>([]);
-  const [filteredRequests, setFilteredRequests] = useState<Request[]>([]);
-  const [searchTerm, setSearchTerm] = useState('');
-  const [statusFilter, setStatusFilter] = useState('all');
-  const [sortBy, setSortBy] = useState('newest');
+  const [total, setTotal] = useState(0);
+  const [nextCursor, setNextCursor] = useState<SearchCursor | null>(null);
+  const [searchTerm, setSearchTerm] = useState(searchParams.get('q') || '');
   const [loading, setLoading] = useState(true);
+  const [loaded, setLoaded] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+  const latestSearch = useRef(0);
   const { isAuthenticated } = useAuthStore();
   const navigate = useNavigate();
 
+  // Filters live in the URL so searches can be shared and survive reloads
+  const filters = useMemo<RequestSearchParams>(() => {
+    const sort = searchParams.get('sort');
+    return {
+      query: searchParams.get('q') || '',
+      status: (searchParams.get('status') || 'all') as RequestSearchParams['status'],
+      sort: SORT_OPTIONS.some(option => option.value === sort) ? sort as RequestSort : 'newest',
+      category: (searchParams.get('category') || 'all') as RequestSearchParams['category'],
+      tags: searchParams.getAll('tag'),
+      country: searchParams.get('country') || '',
+    };
+  }, [searchParams]);
+  const view = searchParams.get('view') === 'map' ? 'map' : 'grid';
+
+  const updateFilters = (updates: Partial<RequestSearchParams> & { view?: 'grid' | 'map' }) => {
+    const next = { ...filters, view, ...updates };
+    const params = new URLSearchParams();
+    if (next.query) params.set('q', next.query);
+    if (next.status !== 'all') params.set('status', next.status);
+    if (next.sort !== 'newest') params.set('sort', next.sort);
+    if (next.category !== 'all') params.set('category', next.category);
+    next.tags.forEach(tag => params.append('tag', tag));
+    if (next.country) params.set('country', next.country);
+    if (next.view === 'map') params.set('view', 'map');
+    setSearchParams(params, { replace: true });
+  };
+
+  const toggleTag = (tag: string) => {
+    updateFilters({
+      tags: filters.tags.includes(tag) ? filters.tags.filter(t => t !== tag) : [...filters.tags, tag],
+    });
+  };
+
+  // Debounce typing before it reaches the URL (and the database)
+  useEffect(() => {
+    if (searchTerm.trim() === filters.query) return;
+    const timer = setTimeout(() => updateFilters({ query: searchTerm.trim() }), 300);
+    return () => clearTimeout(timer);
+  }, [searchTerm]);
+
+  // Keep the box in step when the URL changes underneath it (back/forward)
+  useEffect(() => {
+    if (searchTerm.trim() !== filters.query) setSearchTerm(filters.query);
+  }, [filters.query]);
+
   useEffect(() => {
     fetchRequests();
-  }, []);
+  }, [filters]);
 
   useEffect(() => {
-    filterAndSortRequests();
-  }, [requests, searchTerm, statusFilter, sortBy]);
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !nextCursor) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting) fetchMore();
+    }, { rootMargin: '400px' });
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [nextCursor, loadingMore]);
 
   const fetchRequests = async () => {
+    const searchId = ++latestSearch.current;
+    setLoading(true);
     try {
-      const { data, error } = await supabase
-        .from('requests')
-        .select(`
-          *,
-          requester:users!requester_id(id, username, email, wallet_address),
-          votes(*)
-        `)
-        .order('created_at', { ascending: false });
-
-      if (error) throw error;
-      console.log('Fetched requests for browse page:', data); // Debug log
-      setRequests(data || []);
+      const page = await searchRequests(filters);
+      // A newer search started while this one was in flight
+      if (searchId !== latestSearch.current) return;
+
+      setRequests(page.requests);
+      setTotal(page.total);
+      setNextCursor(page.nextCursor);
     } catch (error) {
       console.error('Error fetching requests:', error);
     } finally {
       setLoading(false);
+      setLoaded(true);
     }
   };
 
-  const filterAndSortRequests = () => {
-    let filtered = requests;
-
-    // Filter by search term
-    if (searchTerm) {
-      filtered = filtered.filter(request =>
-        request.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        request.description.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        request.requester?.username.toLowerCase().includes(searchTerm.toLowerCase())
-      );
-    }
-
-    // Filter by status
-    if (statusFilter !== 'all') {
-      filtered = filtered.filter(request => request.status === statusFilter);
-    }
-
-    // Sort requests
-    switch (sortBy) {
-      case 'newest':
-        filtered.sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
-        break;
-      case 'oldest':
-        filtered.sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
-        break;
-      case 'amount_high':
-        filtered.sort((a, b) => b.amount_needed - a.amount_needed);
-        break;
-      case 'amount_low':
-        filtered.sort((a, b) => a.amount_needed - b.amount_needed);
-        break;
-      case 'progress':
-        filtered.sort((a, b) => (b.amount_raised / b.amount_needed) - (a.amount_raised / a.amount_needed));
-        break;
-      case 'urgent':
-        filtered.sort((a, b) => {
-          const aProgress = a.amount_raised / a.amount_needed;
-          const bProgress = b.amount_raised / b.amount_needed;
-          const aUrgency = aProgress < 0.5 ? 1 : 0;
-          const bUrgency = bProgress < 0.5 ? 1 : 0;
-          return bUrgency - aUrgency;
-        });
-        break;
-    }
+  const fetchMore = async () => {
+    if (!nextCursor || loadingMore) return;
 
-    setFilteredRequests(filtered);
-  };
+    const searchId = latestSearch.current;
+    setLoadingMore(true);
+    try {
+      const page = await searchRequests(filters, nextCursor);
+      if (searchId !== latestSearch.current) return;
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'approved':
-        return 'bg-green-100 text-green-800';
-      case 'pending':
-        return 'bg-yellow-100 text-yellow-800';
-      case 'rejected':
-        return 'bg-red-100 text-red-800';
-      case 'completed':
-        return 'bg-blue-100 text-blue-800';
-      default:
-        return 'bg-gray-100 text-gray-800';
+      setRequests(prev => [...prev, ...page.requests]);
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      console.error('Error fetching more requests:', error);
+    } finally {
+      setLoadingMore(false);
     }
   };
 
-  const getUrgencyLevel = (request: Request) => {
-    const progress = request.amount_raised / request.amount_needed;
-    if (progress < 0.25) return { level: 'Critical', color: 'text-red-600' };
-    if (progress < 0.5) return { level: 'High', color: 'text-orange-600' };
-    if (progress < 0.75) return { level: 'Medium', color: 'text-yellow-600' };
-    return { level: 'Low', color: 'text-green-600' };
-  };
-
-  if (loading) {
+  // Only the first load replaces the page; later searches keep the filters mounted
+  if (!loaded) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50 flex items-center justify-center">
         <div className="text-center">
@@ -180,43 +197,103 @@ export const BrowseRequestsPage: React.FC = () => {
               <div className="relative">
                 <Filter className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
                 <select
-                  value={statusFilter}
-                  onChange={(e) => setStatusFilter(e.target.value)}
+                  value={filters.status}
+                  onChange={(e) => updateFilters({ status: e.target.value as RequestSearchParams['status'] })}
                   className="pl-10 pr-8 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
                 >
                   <option value="all">All Status</option>
                   <option value="pending">Pending</option>
                   <option value="approved">Approved</option>
                   <option value="completed">Completed</option>
+                  <option value="expired">Expired</option>
                 </select>
               </div>
 
               <select
-                value={sortBy}
-                onChange={(e) => setSortBy(e.target.value)}
+                value={filters.category}
+                onChange={(e) => updateFilters({ category: e.target.value as RequestSearchParams['category'] })}
                 className="px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
               >
-                <option value="newest">Newest First</option>
-                <option value="oldest">Oldest First</option>
-                <option value="amount_high">Highest Amount</option>
-                <option value="amount_low">Lowest Amount</option>
-                <option value="progress">Most Funded</option>
-                <option value="urgent">Most Urgent</option>
+                <option value="all">All Categories</option>
+                {REQUEST_CATEGORIES.map(category => (
+                  <option key={category.value} value={category.value}>{category.label}</option>
+                ))}
               </select>
+
+              <select
+                value={filters.country}
+                onChange={(e) => updateFilters({ country: e.target.value })}
+                className="px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="">All Countries</option>
+                {COUNTRY_OPTIONS.map(country => (
+                  <option key={country.code} value={country.code}>{country.name}</option>
+                ))}
+              </select>
+
+              <select
+                value={filters.sort}
+                onChange={(e) => updateFilters({ sort: e.target.value as RequestSort })}
+                className="px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {SORT_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+
+              <div className="flex rounded-lg border border-gray-300 overflow-hidden">
+                <button
+                  onClick={() => updateFilters({ view: 'grid' })}
+                  className={`px-3 py-3 ${view === 'grid' ? 'bg-blue-600 text-white' : 'bg-white text-gray-600 hover:bg-gray-50'}`}
+                  title="Grid view"
+                >
+                  <LayoutGrid className="w-5 h-5" />
+                </button>
+                <button
+                  onClick={() => updateFilters({ view: 'map' })}
+                  className={`px-3 py-3 ${view === 'map' ? 'bg-blue-600 text-white' : 'bg-white text-gray-600 hover:bg-gray-50'}`}
+                  title="Map view"
+                >
+                  <MapIcon className="w-5 h-5" />
+                </button>
+              </div>
             </div>
           </div>
 
+          {filters.tags.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2 mt-4">
+              <span className="text-sm text-gray-600">Tagged:</span>
+              {filters.tags.map(tag => (
+                <button
+                  key={tag}
+                  onClick={() => toggleTag(tag)}
+                  className="flex items-center px-2 py-1 rounded-full text-xs bg-blue-100 text-blue-800 hover:bg-blue-200"
+                >
+                  #{tag}
+                  <X className="w-3 h-3 ml-1" />
+                </button>
+              ))}
+            </div>
+          )}
+
           {/* Results Count */}
-          <div className="mt-4 text-gray-600">
-            Showing {filteredRequests.length} of {requests.length} requests
-          </div>
+          {view === 'grid' && (
+            <div className="mt-4 text-gray-600">
+              {loading ? 'Searching...' : `Showing ${requests.length} of ${total} requests`}
+            </div>
+          )}
         </div>
       </section>
 
       {/* Requests Grid */}
       <section className="py-12">
         <div className="container mx-auto px-4">
-          {filteredRequests.length === 0 ? (
+          {view === 'map' ? (
+            <RequestMap
+              category={filters.category === 'all' ? undefined : filters.category}
+              onSelectCountry={(country) => updateFilters({ country, view: 'grid' })}
+            />
+          ) : requests.length === 0 ? (
             <div className="text-center py-20">
               <div className="w-24 h-24 bg-gray-200 rounded-full mx-auto mb-6 flex items-center justify-center">
                 <Search className="w-12 h-12 text-gray-400" />
@@ -228,8 +305,7 @@ export const BrowseRequestsPage: React.FC = () => {
               <button
                 onClick={() => {
                   setSearchTerm('');
-                  setStatusFilter('all');
-                  setSortBy('newest');
+                  setSearchParams(new URLSearchParams(), { replace: true });
                 }}
                 className="bg-blue-600 text-white px-6 py-3 rounded-lg hover:bg-blue-700 transition-colors"
               >
@@ -237,17 +313,25 @@ export const BrowseRequestsPage: React.FC = () => {
               </button>
             </div>
           ) : (
-            <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-8">
-              {filteredRequests.map((request, index) => (
-                <RequestCard
-                  key={request.id}
-                  request={request}
-                  index={index}
-                  onViewDetails={() => navigate(`/request/${request.id}`)}
-                  isAuthenticated={isAuthenticated}
-                />
-              ))}
-            </div>
+            <>
+              <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-8">
+                {requests.map((request, index) => (
+                  <RequestCard
+                    key={request.id}
+                    request={request}
+                    index={index % PAGE_SIZE}
+                    onViewDetails={() => navigate(`/request/${request.id}`)}
+                    onSelectTag={toggleTag}
+                    isAuthenticated={isAuthenticated}
+                  />
+                ))}
+              </div>
+              <div ref={loadMoreRef} className="flex justify-center py-8">
+                {loadingMore && (
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+                )}
+              </div>
+            </>
           )}
         </div>
       </section>
@@ -259,35 +343,39 @@ interface RequestCardProps {
   request: Request;
   index: number;
   onViewDetails: () => void;
+  onSelectTag: (tag: string) => void;
   isAuthenticated: boolean;
 }
 
-const RequestCard: React.FC<RequestCardProps> = ({ request, index, onViewDetails, isAuthenticated }) => {
-  const progress = (request.amount_raised / request.amount_needed) * 100;
-  const urgency = getUrgencyLevel(request);
+const getStatusColor = (status: string) => {
+  switch (status) {
+    case 'approved':
+      return 'bg-green-100 text-green-800';
+    case 'pending':
+      return 'bg-yellow-100 text-yellow-800';
+    case 'rejected':
+      return 'bg-red-100 text-red-800';
+    case 'completed':
+      return 'bg-blue-100 text-blue-800';
+    case 'expired':
+      return 'bg-gray-200 text-gray-700';
+    default:
+      return 'bg-gray-100 text-gray-800';
+  }
+};
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'approved':
-        return 'bg-green-100 text-green-800';
-      case 'pending':
-        return 'bg-yellow-100 text-yellow-800';
-      case 'rejected':
-        return 'bg-red-100 text-red-800';
-      case 'completed':
-        return 'bg-blue-100 text-blue-800';
-      default:
-        return 'bg-gray-100 text-gray-800';
-    }
-  };
+const getUrgencyLevel = (request: Request) => {
+  const progress = request.amount_raised / request.amount_needed;
+  if (progress < 0.25) return { level: 'Critical', color: 'text-red-600' };
+  if (progress < 0.5) return { level: 'High', color: 'text-orange-600' };
+  if (progress < 0.75) return { level: 'Medium', color: 'text-yellow-600' };
+  return { level: 'Low', color: 'text-green-600' };
+};
 
-  const getUrgencyLevel = (request: Request) => {
-    const progress = request.amount_raised / request.amount_needed;
-    if (progress < 0.25) return { level: 'Critical', color: 'text-red-600' };
-    if (progress < 0.5) return { level: 'High', color: 'text-orange-600' };
-    if (progress < 0.75) return { level: 'Medium', color: 'text-yellow-600' };
-    return { level: 'Low', color: 'text-green-600' };
-  };
+const RequestCard: React.FC<RequestCardProps> = ({ request, index, onViewDetails, onSelectTag, isAuthenticated }) => {
+  const progress = (request.amount_raised / request.amount_needed) * 100;
+  const urgency = getUrgencyLevel(request);
+  const category = getCategory(request.category);
 
   return (
     <motion.div
@@ -306,19 +394,48 @@ const RequestCard: React.FC<RequestCardProps> = ({ request, index, onViewDetails
               <Users className="w-4 h-4" />
               <span>By {request.requester?.username}</span>
             </div>
+            {request.country_code && (
+              <div className="flex items-center space-x-2 text-sm text-gray-500 mb-2">
+                <MapPin className="w-4 h-4" />
+                <span>{[request.region, countryName(request.country_code)].filter(Boolean).join(', ')}</span>
+              </div>
+            )}
           </div>
           <div className="flex flex-col items-end space-y-2">
             <span className={`px-2 py-1 rounded-full text-xs font-medium ${getStatusColor(request.status)}`}>
               {request.status}
             </span>
+            <span className={`px-2 py-1 rounded-full text-xs font-medium ${category.color}`}>
+              {category.label}
+            </span>
             <span className={`text-xs font-medium ${urgency.color}`}>
               {urgency.level} Priority
             </span>
+            {(request.status === 'approved' || request.status === 'pending') && (
+              <DeadlineBadge deadline={request.deadline} />
+            )}
           </div>
         </div>
 
         <p className="text-gray-600 text-sm line-clamp-3 mb-4">{request.description}</p>
 
+        {request.tags?.length > 0 && (
+          <div className="flex flex-wrap gap-1 mb-4">
+            {request.tags.map(tag => (
+              <button
+                key={tag}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onSelectTag(tag);
+                }}
+                className="px-2 py-0.5 rounded-full text-xs bg-gray-100 text-gray-600 hover:bg-blue-100 hover:text-blue-800"
+              >
+                #{tag}
+              </button>
+            ))}
+          </div>
+        )}
+
         {/* Progress */}
         <div className="mb-4">
           <div className="flex justify-between items-center mb-2">
@@ -347,7 +464,7 @@ const RequestCard: React.FC<RequestCardProps> = ({ request, index, onViewDetails
         <div className="flex justify-between items-center text-sm text-gray-500 mb-4">
           <div className="flex items-center space-x-1">
             <TrendingUp className="w-4 h-4" />
-            <span>{request.votes?.length || 0} votes</span>
+            <span>{request.vote_count ?? request.votes?.length ?? 0} votes</span>
           </div>
           <div className="flex items-center space-x-1">
             <Calendar className="w-4 h-4" />
@@ -358,7 +475,7 @@ const RequestCard: React.FC<RequestCardProps> = ({ request, index, onViewDetails
         {/* Debug info - remove in production */}
         {process.env.NODE_ENV === 'development' && (
           <div className="text-xs text-gray-400 mb-2">
-            Wallet: {request.requester?.wallet_address ? 'Set' : 'Not set'}
+            On-chain ID: {request.chain_request_id ?? 'Not set'}
           </div>
         )}
       </div>
@@ -385,11 +502,11 @@ const RequestCard: React.FC<RequestCardProps> = ({ request, index, onViewDetails
                   onViewDetails();
                 }
               }}
-              disabled={!request.requester?.wallet_address}
+              disabled={!request.chain_request_id}
               className="bg-gradient-to-r from-green-500 to-blue-600 text-white px-4 py-2 rounded-lg hover:from-green-600 hover:to-blue-700 transition-all duration-200 flex items-center space-x-2 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
             >
               <Heart className="w-4 h-4" />
-              <span>{!request.requester?.wallet_address ? 'Wallet Not Set' : 'Donate'}</span>
+              <span>{!request.chain_request_id ? 'Not On-Chain Yet' : 'Donate'}</span>
             </button>
           )}
         </div>
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useRef, useState } from 'react';
 import { motion } from 'framer-motion';
 import { 
   Mail, 
@@ -11,6 +11,7 @@ import {
   Shield
 } from 'lucide-react';
 import toast from 'react-hot-toast';
+import { SUPPORT_SUBJECTS, submitSupportTicket } from '../lib/support';
 
 export const ContactPage: React.FC = () => {
   const [formData, setFormData] = useState({
@@ -19,7 +20,10 @@ export const ContactPage: React.FC = () => {
     subject: '',
     message: ''
   });
+  const [honeypot, setHoneypot] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
+  // Submissions faster than a person could type are treated as spam server-side
+  const formShownAt = useRef(Date.now());
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
@@ -30,12 +34,22 @@ export const ContactPage: React.FC = () => {
     e.preventDefault();
     setIsSubmitting(true);
 
-    // Simulate form submission
-    await new Promise(resolve => setTimeout(resolve, 2000));
-    
-    toast.success('Message sent successfully! We\'ll get back to you soon.');
-    setFormData({ name: '', email: '', subject: '', message: '' });
-    setIsSubmitting(false);
+    try {
+      await submitSupportTicket({
+        ...formData,
+        honeypot,
+        elapsedMs: Date.now() - formShownAt.current,
+      });
+
+      toast.success('Message sent successfully! We\'ll get back to you soon.');
+      setFormData({ name: '', email: '', subject: '', message: '' });
+      formShownAt.current = Date.now();
+    } catch (error) {
+      console.error('Error sending message:', error);
+      toast.error(error instanceof Error && error.message ? error.message : 'Failed to send message');
+    } finally {
+      setIsSubmitting(false);
+    }
   };
 
   return (
@@ -83,6 +97,7 @@ export const ContactPage: React.FC = () => {
                       name="name"
                       value={formData.name}
                       onChange={handleInputChange}
+                      maxLength={100}
                       className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
                       required
                     />
@@ -114,12 +129,9 @@ export const ContactPage: React.FC = () => {
                     required
                   >
                     <option value="">Select a subject</option>
-                    <option value="general">General Inquiry</option>
-                    <option value="support">Technical Support</option>
-                    <option value="partnership">Partnership</option>
-                    <option value="verification">Become a Verifier</option>
-                    <option value="donation">Donation Questions</option>
-                    <option value="other">Other</option>
+                    {SUPPORT_SUBJECTS.map((subject) => (
+                      <option key={subject.value} value={subject.value}>{subject.label}</option>
+                    ))}
                   </select>
                 </div>
 
@@ -134,10 +146,27 @@ export const ContactPage: React.FC = () => {
                     rows={6}
                     className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
                     placeholder="Tell us how we can help you..."
+                    minLength={10}
+                    maxLength={5000}
                     required
                   />
                 </div>
 
+                {/* Honeypot: hidden from people, filled in by bots */}
+                <div className="hidden" aria-hidden="true">
+                  <label>
+                    Website
+                    <input
+                      type="text"
+                      name="website"
+                      value={honeypot}
+                      onChange={(e) => setHoneypot(e.target.value)}
+                      tabIndex={-1}
+                      autoComplete="off"
+                    />
+                  </label>
+                </div>
+
                 <button
                   type="submit"
                   disabled={isSubmitting}
@@ -14,12 +14,24 @@ import {
   Flag,
   Wallet,
   ExternalLink,
-  Loader2
+  Loader2,
+  MapPin
 } from 'lucide-react';
-import { Request, Vote, Donation } from '../types';
+import { Request, Vote, Donation, ReviewChecklistItem } from '../types';
 import { supabase } from '../lib/supabase';
 import { useAuthStore } from '../stores/authStore';
-import { walletService } from '../lib/wallet';
+import { donationPlatform } from '../lib/donationPlatform';
+import { DeadlineBadge } from '../components/DeadlineBadge';
+import { AttachmentGallery } from '../components/AttachmentGallery';
+import { RequestComments } from '../components/RequestComments';
+import { VoteReviewDetails, VoteReviewForm } from '../components/VoteReview';
+import { EMPTY_REVIEW, VoteReview, fetchReviewChecklist, reviewColumns, reviewProblem } from '../lib/reviewChecklist';
+import { getCategory } from '../lib/categories';
+import { countryName } from '../lib/countries';
+import { WALLET_NOT_VERIFIED_MESSAGE, isWalletVerified } from '../lib/siwe';
+import { applyVoteChange, isOptimisticId, pendingOptimistic } from '../lib/realtime';
+import { useRealtime, useRealtimeStore } from '../stores/realtimeStore';
+import { LiveIndicator } from '../components/LiveIndicator';
 import toast from 'react-hot-toast';
 
 export const RequestDetailsPage: React.FC = () => {
@@ -33,7 +45,10 @@ export const RequestDetailsPage: React.FC = () => {
   const [loading, setLoading] = useState(true);
   const [donating, setDonating] = useState(false);
   const [voting, setVoting] = useState(false);
+  const [checklist, setChecklist] = useState<ReviewChecklistItem[]>([]);
+  const [review, setReview] = useState<VoteReview>(EMPTY_REVIEW);
   const { user, isAuthenticated } = useAuthStore();
+  const { optimistic, addOptimistic, removeOptimistic } = useRealtimeStore();
 
   useEffect(() => {
     if (id) {
@@ -45,6 +60,39 @@ export const RequestDetailsPage: React.FC = () => {
     }
   }, [id, user]);
 
+  useEffect(() => {
+    if (user && (user.role === 'verifier' || user.role === 'admin')) {
+      fetchReviewChecklist()
+        .then(setChecklist)
+        .catch((error) => console.error('Error fetching review checklist:', error));
+    }
+  }, [user]);
+
+  useRealtime(['requests', 'donations', 'votes'], (change) => {
+    const row = change.eventType === 'DELETE' ? change.old : change.new;
+
+    if (change.table === 'requests') {
+      if (row.id !== id) return;
+      if (change.eventType === 'DELETE') {
+        toast.error('This request has been removed');
+        navigate('/browse');
+        return;
+      }
+      // Progress and status update in place; joined fields are kept
+      setRequest((prev) => prev && { ...prev, ...change.new });
+    } else if (change.table === 'donations') {
+      // Donations are listed with the donor's name, so reload the list
+      if (row.request_id === id || donations.some((d) => d.id === row.id)) fetchDonations();
+    } else if (row.request_id === id || request?.votes?.some((v) => v.id === row.id)) {
+      fetchRequestDetails();
+      if (user) fetchUserVote();
+    }
+  }, () => {
+    fetchRequestDetails();
+    fetchDonations();
+    if (user) fetchUserVote();
+  });
+
   const fetchRequestDetails = async () => {
     try {
       const { data, error } = await supabase
@@ -125,28 +173,53 @@ export const RequestDetailsPage: React.FC = () => {
       return;
     }
 
+    const problem = reviewProblem(checklist, review, voteType);
+    if (problem) {
+      toast.error(problem);
+      return;
+    }
+
     setVoting(true);
+    const voter = { username: user.username, role: user.role };
+    const tempId = addOptimistic('votes', {
+      request_id: id,
+      voter_id: user.id,
+      vote_type: voteType,
+      rationale: review.rationale.trim(),
+      created_at: new Date().toISOString(),
+      voter,
+    }, (row) => row.request_id === id && row.voter_id === user.id);
+
     try {
-      const { error } = await supabase
+      const { data: vote, error } = await supabase
         .from('votes')
         .insert([
           {
             request_id: id,
             voter_id: user.id,
             vote_type: voteType,
+            ...reviewColumns(review),
           },
-        ]);
+        ])
+        .select()
+        .single();
 
       if (error) throw error;
 
+      setReview(EMPTY_REVIEW);
       toast.success(`Request ${voteType === 'approve' ? 'approved' : 'rejected'} successfully!`);
-      
-      // Refresh data
-      await Promise.all([fetchRequestDetails(), fetchUserVote()]);
+      setUserVote(vote);
+      setRequest((prev) => prev && applyVoteChange([prev], {
+        table: 'votes',
+        eventType: 'INSERT',
+        new: { ...vote, voter },
+        old: {},
+      })[0]);
     } catch (error) {
       console.error('Error voting:', error);
       toast.error('Failed to cast vote');
     } finally {
+      removeOptimistic(tempId);
       setVoting(false);
     }
   };
@@ -157,61 +230,70 @@ export const RequestDetailsPage: React.FC = () => {
       return;
     }
 
+    if (!isWalletVerified(user)) {
+      toast.error(WALLET_NOT_VERIFIED_MESSAGE);
+      return;
+    }
+
     if (!donationAmount || parseFloat(donationAmount) <= 0) {
       toast.error('Please enter a valid amount');
       return;
     }
 
-    if (!request?.requester) {
-      toast.error('Requester information not found');
+    if (!request?.chain_request_id) {
+      toast.error('This request has not been registered on-chain yet');
       return;
     }
 
-    if (!request.requester.wallet_address) {
-      toast.error('Requester wallet address not set. Please contact the requester to update their wallet address.');
+    if (request.amount_raised >= request.amount_needed) {
+      toast.error('This request is already fully funded');
       return;
     }
 
-    console.log('Donation details:', {
-      requesterWallet: request.requester.wallet_address,
-      amount: donationAmount,
-      requester: request.requester
-    }); // Debug log
-
     setDonating(true);
+    let tempId: string | null = null;
     try {
-      // Send transaction via MetaMask
-      const txHash = await walletService.sendTransaction(
-        request.requester.wallet_address,
-        donationAmount
-      );
+      // Donate through the DonationPlatform contract (fee + escrow)
+      const receipt = await donationPlatform.donate(request.chain_request_id, donationAmount);
 
-      if (!txHash) {
+      if (!receipt) {
         throw new Error('Transaction failed');
       }
 
-      // Save donation to database
+      // Shown as confirming until the verification worker settles it
+      tempId = addOptimistic('donations', {
+        request_id: id,
+        donor_id: user.id,
+        amount: parseFloat(receipt.grossAmount),
+        transaction_hash: receipt.transactionHash,
+        status: 'pending',
+        created_at: new Date().toISOString(),
+        donor: { username: user.username },
+      }, (row) => row.transaction_hash === receipt.transactionHash && row.status !== 'pending');
+
+      // Save donation to database; the verification worker completes it once confirmed
       const { error } = await supabase
         .from('donations')
         .insert([
           {
             request_id: id,
             donor_id: user.id,
-            amount: parseFloat(donationAmount),
-            transaction_hash: txHash,
-            status: 'completed',
+            amount: parseFloat(receipt.grossAmount),
+            net_amount: parseFloat(receipt.netAmount),
+            chain_request_id: receipt.chainRequestId,
+            transaction_hash: receipt.transactionHash,
+            status: 'pending',
           },
         ]);
 
-      if (error) throw error;
+      // 23505: the indexer already recorded this transaction from DonationMade
+      if (error && error.code !== '23505') throw error;
 
-      toast.success('Donation sent successfully!');
+      toast.success('Donation sent! It will appear once verified on-chain.');
       setDonationAmount('');
       setShowDonationForm(false);
-      
-      // Refresh data
-      await Promise.all([fetchRequestDetails(), fetchDonations()]);
     } catch (error) {
+      if (tempId) removeOptimistic(tempId);
       console.error('Donation error:', error);
       toast.error('Failed to send donation');
     } finally {
@@ -229,6 +311,8 @@ export const RequestDetailsPage: React.FC = () => {
         return 'bg-red-100 text-red-800';
       case 'completed':
         return 'bg-blue-100 text-blue-800';
+      case 'expired':
+        return 'bg-gray-200 text-gray-700';
       default:
         return 'bg-gray-100 text-gray-800';
     }
@@ -274,9 +358,21 @@ export const RequestDetailsPage: React.FC = () => {
     );
   }
 
+  // Votes and donations this user just made show up before they are confirmed
+  const optimisticVotes = pendingOptimistic<Vote>(request.votes || [], optimistic, 'votes')
+    .filter(v => v.request_id === request.id);
+  const pendingDonations = pendingOptimistic<Donation>(donations, optimistic, 'donations')
+    .filter(d => d.request_id === request.id);
+  const votes = [...(request.votes || []), ...optimisticVotes];
+  const currentVote = userVote ?? optimisticVotes.find(v => v.voter_id === user?.id) ?? null;
+  const recentDonations = [...pendingDonations, ...donations];
+  const pendingAmount = pendingDonations.reduce((sum, d) => sum + d.amount, 0);
+
   const progress = (request.amount_raised / request.amount_needed) * 100;
-  const approveVotes = request.votes?.filter(v => v.vote_type === 'approve') || [];
-  const rejectVotes = request.votes?.filter(v => v.vote_type === 'reject') || [];
+  const pendingProgress = Math.max(Math.min((pendingAmount / request.amount_needed) * 100, 100 - progress), 0);
+  const isFullyFunded = request.amount_raised >= request.amount_needed;
+  const approveVotes = votes.filter(v => v.vote_type === 'approve');
+  const rejectVotes = votes.filter(v => v.vote_type === 'reject');
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50">
@@ -331,15 +427,41 @@ export const RequestDetailsPage: React.FC = () => {
                       <Calendar className="w-5 h-5" />
                       <span>{new Date(request.created_at).toLocaleDateString()}</span>
                     </div>
+                    {request.country_code && (
+                      <div className="flex items-center space-x-2">
+                        <MapPin className="w-5 h-5" />
+                        <span>{[request.region, countryName(request.country_code)].filter(Boolean).join(', ')}</span>
+                      </div>
+                    )}
                   </div>
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className={`px-3 py-1 rounded-full text-xs font-medium ${getCategory(request.category).color}`}>
+                      {getCategory(request.category).label}
+                    </span>
+                    {request.tags?.map((tag) => (
+                      <span key={tag} className="px-2 py-1 rounded-full text-xs bg-gray-100 text-gray-600">
+                        #{tag}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+                <div className="flex flex-col items-end space-y-2">
+                  <span className={`px-3 py-1 rounded-full text-sm font-medium ${getStatusColor(request.status)}`}>
+                    {request.status}
+                  </span>
+                  {(request.status === 'approved' || request.status === 'pending') && (
+                    <DeadlineBadge deadline={request.deadline} />
+                  )}
                 </div>
-                <span className={`px-3 py-1 rounded-full text-sm font-medium ${getStatusColor(request.status)}`}>
-                  {request.status}
-                </span>
               </div>
 
               <p className="text-gray-700 leading-relaxed mb-6">{request.description}</p>
 
+              <AttachmentGallery
+                requestId={request.id}
+                canDelete={user?.id === request.requester_id && request.status === 'pending'}
+              />
+
               {/* Progress Bar */}
               <div className="mb-6">
                 <div className="flex justify-between items-center mb-2">
@@ -348,15 +470,27 @@ export const RequestDetailsPage: React.FC = () => {
                     {progress.toFixed(1)}%
                   </span>
                 </div>
-                <div className="w-full bg-gray-200 rounded-full h-4">
+                <div className="w-full bg-gray-200 rounded-full h-4 flex overflow-hidden">
                   <div
-                    className="bg-gradient-to-r from-green-500 to-blue-600 h-4 rounded-full transition-all duration-300"
+                    className="bg-gradient-to-r from-green-500 to-blue-600 h-4 transition-all duration-300"
                     style={{ width: `${Math.min(progress, 100)}%` }}
                   />
+                  {pendingProgress > 0 && (
+                    <div
+                      className="bg-green-300 h-4 animate-pulse transition-all duration-300"
+                      style={{ width: `${pendingProgress}%` }}
+                      title="Donations confirming on-chain"
+                    />
+                  )}
                 </div>
                 <div className="flex justify-between items-center mt-3">
                   <span className="text-lg text-gray-600">
                     {request.amount_raised.toFixed(4)} ETH raised
+                    {pendingAmount > 0 && (
+                      <span className="text-sm text-green-600 ml-2">
+                        (+{pendingAmount.toFixed(4)} ETH confirming)
+                      </span>
+                    )}
                   </span>
                   <span className="text-lg font-semibold text-gray-800">
                     Goal: {request.amount_needed.toFixed(4)} ETH
@@ -368,7 +502,7 @@ export const RequestDetailsPage: React.FC = () => {
               {process.env.NODE_ENV === 'development' && (
                 <div className="bg-gray-100 p-3 rounded-lg mb-4">
                   <p className="text-xs text-gray-600">
-                    Debug: Requester wallet - {request.requester?.wallet_address || 'Not set'}
+                    Debug: On-chain request ID - {request.chain_request_id ?? 'Not set'}
                   </p>
                 </div>
               )}
@@ -377,48 +511,54 @@ export const RequestDetailsPage: React.FC = () => {
               {user && (user.role === 'verifier' || user.role === 'admin') && request.status === 'pending' && (
                 <div className="border-t pt-6">
                   <h3 className="text-lg font-semibold text-gray-800 mb-4">Verification Voting</h3>
-                  {userVote ? (
+                  {currentVote ? (
                     <div className="bg-gray-100 p-4 rounded-lg text-center">
                       <p className="text-gray-600">
                         You voted to {' '}
                         <span className={`font-medium ${
-                          userVote.vote_type === 'approve' ? 'text-green-600' : 'text-red-600'
+                          currentVote.vote_type === 'approve' ? 'text-green-600' : 'text-red-600'
                         }`}>
-                          {userVote.vote_type}
+                          {currentVote.vote_type}
                         </span>
                         {' '} this request
                       </p>
+                      <div className="text-left">
+                        <VoteReviewDetails vote={currentVote} />
+                      </div>
                     </div>
                   ) : (
-                    <div className="flex space-x-4">
-                      <button
-                        onClick={() => handleVote('approve')}
-                        disabled={voting}
-                        className="flex-1 bg-green-600 text-white py-3 rounded-lg hover:bg-green-700 transition-colors flex items-center justify-center space-x-2 disabled:opacity-50"
-                      >
-                        {voting ? (
-                          <Loader2 className="w-5 h-5 animate-spin" />
-                        ) : (
-                          <>
-                            <CheckCircle className="w-5 h-5" />
-                            <span>Approve Request</span>
-                          </>
-                        )}
-                      </button>
-                      <button
-                        onClick={() => handleVote('reject')}
-                        disabled={voting}
-                        className="flex-1 bg-red-600 text-white py-3 rounded-lg hover:bg-red-700 transition-colors flex items-center justify-center space-x-2 disabled:opacity-50"
-                      >
-                        {voting ? (
-                          <Loader2 className="w-5 h-5 animate-spin" />
-                        ) : (
-                          <>
-                            <XCircle className="w-5 h-5" />
-                            <span>Reject Request</span>
-                          </>
-                        )}
-                      </button>
+                    <div>
+                      <VoteReviewForm items={checklist} review={review} onChange={setReview} disabled={voting} />
+                      <div className="flex space-x-4">
+                        <button
+                          onClick={() => handleVote('approve')}
+                          disabled={voting}
+                          className="flex-1 bg-green-600 text-white py-3 rounded-lg hover:bg-green-700 transition-colors flex items-center justify-center space-x-2 disabled:opacity-50"
+                        >
+                          {voting ? (
+                            <Loader2 className="w-5 h-5 animate-spin" />
+                          ) : (
+                            <>
+                              <CheckCircle className="w-5 h-5" />
+                              <span>Approve Request</span>
+                            </>
+                          )}
+                        </button>
+                        <button
+                          onClick={() => handleVote('reject')}
+                          disabled={voting}
+                          className="flex-1 bg-red-600 text-white py-3 rounded-lg hover:bg-red-700 transition-colors flex items-center justify-center space-x-2 disabled:opacity-50"
+                        >
+                          {voting ? (
+                            <Loader2 className="w-5 h-5 animate-spin" />
+                          ) : (
+                            <>
+                              <XCircle className="w-5 h-5" />
+                              <span>Reject Request</span>
+                            </>
+                          )}
+                        </button>
+                      </div>
                     </div>
                   )}
                 </div>
@@ -445,19 +585,22 @@ export const RequestDetailsPage: React.FC = () => {
                 </div>
               </div>
 
-              {request.votes && request.votes.length > 0 && (
+              {votes.length > 0 && (
                 <div className="space-y-3">
                   <h3 className="font-semibold text-gray-800">Voting Details</h3>
-                  {request.votes.map((vote) => (
-                    <div key={vote.id} className="flex justify-between items-center p-3 bg-gray-50 rounded-lg">
-                      <span className="text-gray-700">
-                        {vote.voter?.username} ({vote.voter?.role})
-                      </span>
-                      <span className={`font-medium ${
-                        vote.vote_type === 'approve' ? 'text-green-600' : 'text-red-600'
-                      }`}>
-                        {vote.vote_type === 'approve' ? '✓ Approved' : '✗ Rejected'}
-                      </span>
+                  {votes.map((vote) => (
+                    <div key={vote.id} className="p-3 bg-gray-50 rounded-lg">
+                      <div className="flex justify-between items-center">
+                        <span className="text-gray-700">
+                          {vote.voter?.username} ({vote.voter?.role})
+                        </span>
+                        <span className={`font-medium ${
+                          vote.vote_type === 'approve' ? 'text-green-600' : 'text-red-600'
+                        }`}>
+                          {vote.vote_type === 'approve' ? '✓ Approved' : '✗ Rejected'}
+                        </span>
+                      </div>
+                      <VoteReviewDetails vote={vote} />
                     </div>
                   ))}
                 </div>
@@ -465,16 +608,19 @@ export const RequestDetailsPage: React.FC = () => {
             </motion.div>
 
             {/* Recent Donations */}
-            {donations.length > 0 && (
+            {recentDonations.length > 0 && (
               <motion.div
                 initial={{ opacity: 0, y: 20 }}
                 animate={{ opacity: 1, y: 0 }}
                 transition={{ delay: 0.2 }}
                 className="bg-white/80 backdrop-blur-lg rounded-2xl p-8 shadow-lg"
               >
-                <h2 className="text-2xl font-bold text-gray-800 mb-6">Recent Donations</h2>
+                <div className="flex justify-between items-center mb-6">
+                  <h2 className="text-2xl font-bold text-gray-800">Recent Donations</h2>
+                  <LiveIndicator />
+                </div>
                 <div className="space-y-4">
-                  {donations.slice(0, 10).map((donation) => (
+                  {recentDonations.slice(0, 10).map((donation) => (
                     <div key={donation.id} className="flex justify-between items-center p-4 bg-gray-50 rounded-lg">
                       <div>
                         <div className="font-medium text-gray-800">{donation.donor?.username}</div>
@@ -483,7 +629,12 @@ export const RequestDetailsPage: React.FC = () => {
                         </div>
                       </div>
                       <div className="text-right">
-                        <div className="font-bold text-green-600">{donation.amount.toFixed(4)} ETH</div>
+                        <div className={`font-bold ${isOptimisticId(donation.id) ? 'text-gray-400' : 'text-green-600'}`}>
+                          {donation.amount.toFixed(4)} ETH
+                        </div>
+                        {isOptimisticId(donation.id) && (
+                          <div className="text-xs text-gray-500">Confirming on-chain...</div>
+                        )}
                         <a
                           href={`https://sepolia.etherscan.io/tx/${donation.transaction_hash}`}
                           target="_blank"
@@ -499,6 +650,14 @@ export const RequestDetailsPage: React.FC = () => {
                 </div>
               </motion.div>
             )}
+
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.3 }}
+            >
+              <RequestComments requestId={request.id} />
+            </motion.div>
           </div>
 
           {/* Sidebar */}
@@ -512,13 +671,17 @@ export const RequestDetailsPage: React.FC = () => {
               >
                 <h3 className="text-xl font-bold text-gray-800 mb-4">Make a Donation</h3>
                 
-                {!request.requester?.wallet_address && (
+                {!request.chain_request_id && (
                   <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 mb-4">
                     <p className="text-yellow-800 text-sm">
-                      <strong>Wallet not set:</strong> The requester needs to update their wallet address to receive donations.
+                      <strong>Not on-chain yet:</strong> This request has not been registered with the donation contract.
                     </p>
                   </div>
                 )}
+
+                <p className="text-xs text-gray-500 mb-4">
+                  Donations are held in escrow by the DonationPlatform contract. A small platform fee is deducted on-chain.
+                </p>
                 
                 {!isAuthenticated ? (
                   <div className="text-center">
@@ -533,11 +696,13 @@ export const RequestDetailsPage: React.FC = () => {
                 ) : !showDonationForm ? (
                   <button
                     onClick={() => setShowDonationForm(true)}
-                    disabled={!request.requester?.wallet_address}
+                    disabled={!request.chain_request_id || isFullyFunded}
                     className="w-full bg-gradient-to-r from-green-500 to-blue-600 text-white py-3 rounded-lg hover:from-green-600 hover:to-blue-700 transition-all duration-200 flex items-center justify-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
                   >
                     <Heart className="w-5 h-5" />
-                    <span>{!request.requester?.wallet_address ? 'Wallet Not Set' : 'Donate Now'}</span>
+                    <span>
+                      {!request.chain_request_id ? 'Not On-Chain Yet' : isFullyFunded ? 'Fully Funded' : 'Donate Now'}
+                    </span>
                   </button>
                 ) : (
                   <div className="space-y-4">
@@ -0,0 +1,122 @@
+import { create } from 'zustand';
+import { useEffect, useRef } from 'react';
+import { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+import { OPTIMISTIC_ID_PREFIX, OptimisticRow, RealtimeChange, RealtimeRow, RealtimeTable } from '../lib/realtime';
+
+interface RealtimeListener {
+  tables: RealtimeTable[];
+  onChange: (change: RealtimeChange) => void;
+  onResync?: () => void;
+}
+
+interface RealtimeStore {
+  status: 'idle' | 'connecting' | 'live' | 'reconnecting';
+  optimistic: OptimisticRow[];
+  subscribe: (listener: RealtimeListener) => () => void;
+  addOptimistic: (table: RealtimeTable, row: RealtimeRow, settles: OptimisticRow['settles']) => string;
+  removeOptimistic: (tempId: string) => void;
+}
+
+const TABLES: RealtimeTable[] = ['requests', 'donations', 'votes', 'notifications', 'request_comments'];
+
+// One channel is shared by every mounted subscriber and closed when the last one leaves
+let channel: RealtimeChannel | null = null;
+const listeners = new Set<RealtimeListener>();
+let nextOptimisticId = 0;
+
+export const useRealtimeStore = create<RealtimeStore>((set, get) => {
+  const dispatch = (change: RealtimeChange) => {
+    // A confirmed row replaces the optimistic one standing in for it
+    if (change.eventType !== 'DELETE' && get().optimistic.some((entry) => entry.settles(change.new))) {
+      set((state) => ({
+        optimistic: state.optimistic.filter((entry) => !entry.settles(change.new)),
+      }));
+    }
+
+    listeners.forEach((listener) => {
+      if (listener.tables.includes(change.table)) listener.onChange(change);
+    });
+  };
+
+  const open = () => {
+    let wasLive = false;
+    set({ status: 'connecting' });
+
+    const ch = supabase.channel('db-changes');
+    TABLES.forEach((table) => {
+      ch.on('postgres_changes', { event: '*', schema: 'public', table }, (payload) => {
+        dispatch({
+          table,
+          eventType: payload.eventType,
+          new: payload.new as RealtimeRow,
+          old: payload.old as RealtimeRow,
+        });
+      });
+    });
+
+    ch.subscribe((status) => {
+      if (status === 'SUBSCRIBED') {
+        // Anything that changed while the socket was down was missed, so
+        // subscribers reload from the database
+        if (wasLive) listeners.forEach((listener) => listener.onResync?.());
+        wasLive = true;
+        set({ status: 'live' });
+      } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+        set({ status: 'reconnecting' });
+      }
+    });
+
+    channel = ch;
+  };
+
+  const close = () => {
+    if (channel) supabase.removeChannel(channel);
+    channel = null;
+    set({ status: 'idle' });
+  };
+
+  return {
+    status: 'idle',
+    optimistic: [],
+
+    subscribe: (listener: RealtimeListener) => {
+      listeners.add(listener);
+      if (!channel) open();
+
+      return () => {
+        listeners.delete(listener);
+        if (listeners.size === 0) close();
+      };
+    },
+
+    addOptimistic: (table, row, settles) => {
+      const tempId = `${OPTIMISTIC_ID_PREFIX}${++nextOptimisticId}`;
+      set((state) => ({ optimistic: [...state.optimistic, { tempId, table, row, settles }] }));
+      return tempId;
+    },
+
+    removeOptimistic: (tempId: string) => {
+      set((state) => ({ optimistic: state.optimistic.filter((entry) => entry.tempId !== tempId) }));
+    },
+  };
+});
+
+// Subscribes the calling component to changes on `tables` for as long as it
+// is mounted. Handlers always see the component's latest state.
+export const useRealtime = (
+  tables: RealtimeTable[],
+  onChange: (change: RealtimeChange) => void,
+  onResync?: () => void
+) => {
+  const handlers = useRef({ onChange, onResync });
+  handlers.current = { onChange, onResync };
+  const subscribe = useRealtimeStore((state) => state.subscribe);
+  const key = tables.join(',');
+
+  useEffect(() => subscribe({
+    tables: key.split(',') as RealtimeTable[],
+    onChange: (change) => handlers.current.onChange(change),
+    onResync: () => handlers.current.onResync?.(),
+  }), [subscribe, key]);
+};
@@ -2,24 +2,81 @@ export interface User {
   id: string;
   username: string;
   email: string;
-  role: 'donor' | 'verifier' | 'requester' | 'admin';
+  role: 'donor' | 'verifier' | 'verifier_pending' | 'requester' | 'admin';
   wallet_address?: string;
+  wallet_verified_at?: string | null;
+  deleted_at?: string | null;
   created_at: string;
   updated_at: string;
 }
 
+export type RequestCategory = 'medical' | 'shelter' | 'food' | 'education' | 'disaster' | 'other';
+
 export interface Request {
   id: string;
   title: string;
   description: string;
   amount_needed: number;
   amount_raised: number;
-  status: 'pending' | 'approved' | 'rejected' | 'completed';
+  status: 'pending' | 'approved' | 'rejected' | 'completed' | 'expired';
   requester_id: string;
+  chain_request_id?: number | null;
+  deadline?: string | null;
+  category: RequestCategory;
+  tags: string[];
+  country_code?: string | null;
+  region?: string | null;
+  latitude?: number | null;
+  longitude?: number | null;
+  deleted_at?: string | null;
   created_at: string;
   updated_at: string;
   requester?: User;
   votes?: Vote[];
+  vote_count?: number;
+  milestones?: Milestone[];
+}
+
+export interface Milestone {
+  id: string;
+  request_id: string;
+  milestone_index: number;
+  description: string;
+  amount: number;
+  status: 'pending' | 'in_review' | 'approved' | 'rejected' | 'released';
+  round: number;
+  proof_path?: string | null;
+  proof_hash?: string | null;
+  proof_submitted_at?: string | null;
+  decided_at?: string | null;
+  released_amount?: number | null;
+  release_tx_hash?: string | null;
+  released_at?: string | null;
+  created_at: string;
+  request?: Request;
+  votes?: MilestoneVote[];
+}
+
+export interface MilestoneVote {
+  id: string;
+  milestone_id: string;
+  voter_id: string;
+  round: number;
+  vote_type: 'approve' | 'reject';
+  created_at: string;
+  voter?: User;
+}
+
+export interface RequestAttachment {
+  id: string;
+  request_id: string;
+  uploaded_by: string;
+  storage_path: string;
+  file_name: string;
+  mime_type: string;
+  size_bytes: number;
+  sha256: string;
+  created_at: string;
 }
 
 export interface Vote {
@@ -27,26 +84,326 @@ export interface Vote {
   request_id: string;
   voter_id: string;
   vote_type: 'approve' | 'reject';
+  signature?: string | null;
+  signer_address?: string | null;
+  signature_deadline?: string | null;
+  relay_status?: 'unsigned' | 'pending' | 'submitted' | 'confirmed' | 'failed';
+  relay_tx_hash?: string | null;
+  relay_error?: string | null;
+  rationale?: string | null;
+  checklist?: VoteChecklistEntry[];
   created_at: string;
   voter?: User;
   request?: Request;
 }
 
+export interface ReviewChecklistItem {
+  key: string;
+  label: string;
+  required: boolean;
+  position: number;
+  active: boolean;
+}
+
+// A checklist item as answered on a vote
+export interface VoteChecklistEntry {
+  key: string;
+  label: string;
+  required: boolean;
+  checked: boolean;
+}
+
 export interface Donation {
   id: string;
   request_id: string;
   donor_id: string;
   amount: number;
+  net_amount?: number | null;
+  chain_request_id?: number | null;
   transaction_hash: string;
-  status: 'pending' | 'completed' | 'failed';
+  status: 'pending' | 'completed' | 'failed' | 'refunded';
+  refund_tx_hash?: string | null;
+  refund_amount?: number | null;
+  refunded_at?: string | null;
   created_at: string;
   donor?: User;
   request?: Request;
 }
 
+export interface RefundableDonation {
+  donor_id: string;
+  request_id: string;
+  title: string;
+  chain_request_id: number;
+  request_status: Request['status'];
+  deadline?: string | null;
+  reason: 'rejected' | 'expired';
+  donation_count: number;
+  net_total: number;
+  refund_tx_hash?: string | null;
+}
+
+export interface Withdrawal {
+  id: string;
+  request_id: string;
+  requester_id: string;
+  chain_request_id: number;
+  amount: number;
+  transaction_hash: string;
+  status: 'pending' | 'completed' | 'failed';
+  block_number?: number | null;
+  verification_error?: string | null;
+  created_at: string;
+  confirmed_at?: string | null;
+}
+
+export interface GovernanceSettings {
+  minimum_votes: number;
+  approval_threshold_bps: number;
+  use_verifier_weights: boolean;
+  updated_at?: string;
+}
+
+export interface VoteTally {
+  voteCount: number;
+  approveWeight: number;
+  rejectWeight: number;
+  votesNeeded: number;
+  wouldApprove: boolean;
+}
+
 export interface WalletState {
   address: string | null;
   network: 'mainnet' | 'sepolia';
   balance: string;
   connected: boolean;
-}
\ No newline at end of file
+}
+
+export interface PlatformStats {
+  total_donated: number;
+  donation_count: number;
+  average_donation: number;
+  failed_donations: number;
+  verification_rate: number;
+  active_donors: number;
+  total_requests: number;
+  requests_by_status: Record<Request['status'], number>;
+  success_rate: number;
+  total_users: number;
+  users_by_role: Record<User['role'], number>;
+  user_growth_rate: number | null;
+  indexer_synced_at: string | null;
+}
+
+export interface DailyDonations {
+  day: string;
+  donation_count: number;
+  total_amount: number;
+  unique_donors: number;
+}
+
+export interface DailyNewUsers {
+  day: string;
+  donors: number;
+  requesters: number;
+  verifiers: number;
+  admins: number;
+}
+
+export interface RequestFunnel {
+  created: number;
+  approved: number;
+  completed: number;
+  rejected: number;
+  expired: number;
+  still_pending: number;
+  median_hours_to_approval: number | null;
+}
+
+export interface DailyApprovalTime {
+  day: string;
+  approvals: number;
+  median_hours: number | null;
+}
+
+export interface VerifierThroughput {
+  verifier_id: string;
+  username: string;
+  votes_cast: number;
+  approvals: number;
+  rejections: number;
+  median_response_hours: number | null;
+  last_vote_at: string | null;
+}
+
+export interface RequestMapPoint {
+  id: string;
+  title: string;
+  category: RequestCategory;
+  country_code: string;
+  region: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  amount_needed: number;
+  amount_raised: number;
+}
+
+export type NotificationType =
+  | 'review_needed'
+  | 'request_approved'
+  | 'request_rejected'
+  | 'request_completed'
+  | 'request_expired'
+  | 'vote_cast'
+  | 'donation_received'
+  | 'donation_confirmed'
+  | 'donation_failed'
+  | 'verifier_application';
+
+export interface Notification {
+  id: string;
+  user_id: string;
+  type: NotificationType;
+  title: string;
+  body: string;
+  request_id: string | null;
+  in_app: boolean;
+  email_status: 'pending' | 'sent' | 'failed' | 'skipped';
+  read_at: string | null;
+  created_at: string;
+}
+
+export interface NotificationPreference {
+  user_id: string;
+  type: NotificationType;
+  in_app: boolean;
+  email: boolean;
+}
+
+export type SupportSubject = 'general' | 'support' | 'partnership' | 'verification' | 'donation' | 'other';
+
+export type SupportTicketStatus = 'open' | 'in_progress' | 'waiting' | 'closed';
+
+export interface SupportTicket {
+  id: string;
+  name: string;
+  email: string;
+  subject: SupportSubject;
+  message: string;
+  user_id: string | null;
+  status: SupportTicketStatus;
+  assigned_to: string | null;
+  created_at: string;
+  updated_at: string;
+  closed_at: string | null;
+  assignee?: Pick<User, 'id' | 'username'> | null;
+}
+
+export interface SupportTicketMessage {
+  id: string;
+  ticket_id: string;
+  author_id: string | null;
+  is_staff: boolean;
+  body: string;
+  email_status: 'pending' | 'sent' | 'failed' | 'skipped';
+  created_at: string;
+  author?: Pick<User, 'username'> | null;
+}
+
+export interface RequestComment {
+  id: string;
+  request_id: string;
+  author_id: string | null;
+  parent_id: string | null;
+  body: string;
+  edited_at: string | null;
+  hidden_at: string | null;
+  hidden_by: string | null;
+  hidden_reason: string | null;
+  created_at: string;
+  updated_at: string;
+  author_username: string | null;
+  author_role: User['role'] | null;
+  author_is_requester: boolean;
+}
+
+export interface WalletChallenge {
+  id: string;
+  user_id: string;
+  address: string;
+  nonce: string;
+  message: string;
+  signature: string | null;
+  status: 'issued' | 'submitted' | 'verified' | 'failed';
+  error: string | null;
+  issued_at: string;
+  expires_at: string;
+  verified_at: string | null;
+}
+
+export type VerifierApplicationStatus = 'pending' | 'approved' | 'rejected';
+
+export interface VerifierApplication {
+  id: string;
+  user_id: string;
+  credentials: string;
+  region: string;
+  reference_contacts: string;
+  status: VerifierApplicationStatus;
+  review_note: string | null;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  chain_tx_hash: string | null;
+  created_at: string;
+  updated_at: string;
+  applicant?: Pick<User, 'id' | 'username' | 'email' | 'role' | 'wallet_address' | 'wallet_verified_at' | 'created_at'> | null;
+}
+
+export type AuditAction = 'insert' | 'update' | 'delete';
+
+export interface AuditLogEntry {
+  id: number;
+  occurred_at: string;
+  actor_id: string | null;
+  actor_role: string | null;
+  action: AuditAction;
+  table_name: string;
+  record_id: string | null;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  prev_hash: string | null;
+  hash: string;
+}
+
+// Rows of the archived_users view: the original details of a deleted user
+export interface ArchivedUser {
+  id: string;
+  username: string;
+  email: string;
+  wallet_address: string | null;
+  role: User['role'];
+  tombstone: string;
+  reason: string | null;
+  created_at: string;
+  deleted_at: string;
+  deleted_by: string | null;
+  donation_count: number;
+  vote_count: number;
+  request_count: number;
+}
+
+export interface ArchivedRequest {
+  id: string;
+  title: string;
+  status: Request['status'];
+  amount_needed: number;
+  amount_raised: number;
+  chain_request_id: number | null;
+  requester_id: string;
+  requester_username: string;
+  requester_deleted: boolean;
+  created_at: string;
+  deleted_at: string;
+  deleted_by: string | null;
+  donation_count: number;
+}
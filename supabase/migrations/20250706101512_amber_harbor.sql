@@ -0,0 +1,40 @@
+/*
+  # Link requests and donations to the DonationPlatform contract
+
+  1. Changes
+    - Add `chain_request_id` to `requests` (id assigned by `createRequest`)
+    - Add `chain_request_id` and `net_amount` to `donations`
+      - `amount` stays the gross value sent by the donor
+      - `net_amount` is the amount credited after the platform fee
+    - `update_request_amount_raised` now credits the net amount when known
+
+  2. Security
+    - No changes to RLS policies
+*/
+
+ALTER TABLE requests ADD COLUMN IF NOT EXISTS chain_request_id bigint UNIQUE;
+
+ALTER TABLE donations ADD COLUMN IF NOT EXISTS chain_request_id bigint;
+ALTER TABLE donations ADD COLUMN IF NOT EXISTS net_amount numeric CHECK (net_amount >= 0);
+
+CREATE INDEX IF NOT EXISTS donations_transaction_hash_idx ON donations(transaction_hash);
+
+CREATE OR REPLACE FUNCTION update_request_amount_raised()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'completed' AND OLD.status != 'completed' THEN
+    UPDATE requests
+    SET amount_raised = amount_raised + COALESCE(NEW.net_amount, NEW.amount)
+    WHERE id = NEW.request_id;
+    
+    -- Check if request is fully funded
+    UPDATE requests
+    SET status = 'completed'
+    WHERE id = NEW.request_id 
+    AND amount_raised >= amount_needed 
+    AND status = 'approved';
+  END IF;
+  
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,32 @@
+/*
+  # Verify donation transactions before crediting requests
+
+  1. Changes
+    - Add `verified_at` and `verification_error` to `donations`
+    - Make `transaction_hash` unique so one transaction cannot be credited twice
+
+  2. Security
+    - Donors may only insert donations in `pending` status
+    - Only the verification worker (service role) or admins move a donation
+      to `completed` or `failed`
+*/
+
+ALTER TABLE donations ADD COLUMN IF NOT EXISTS verified_at timestamptz;
+ALTER TABLE donations ADD COLUMN IF NOT EXISTS verification_error text;
+
+DROP INDEX IF EXISTS donations_transaction_hash_idx;
+CREATE UNIQUE INDEX IF NOT EXISTS donations_transaction_hash_key ON donations(lower(transaction_hash));
+
+CREATE INDEX IF NOT EXISTS donations_pending_idx ON donations(created_at) WHERE status = 'pending';
+
+DROP POLICY IF EXISTS "Donors can insert own donations" ON donations;
+
+CREATE POLICY "Donors can insert own pending donations"
+  ON donations
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    donor_id = auth.uid()
+    AND status = 'pending'
+    AND verified_at IS NULL
+  );
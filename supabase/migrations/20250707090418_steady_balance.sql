@@ -0,0 +1,174 @@
+/*
+  # Rework donation ledger so amount_raised always matches completed donations
+
+  1. Changes
+    - Add `refunded` to the allowed donation statuses
+    - Replace the AFTER UPDATE-only `update_request_amount_raised` trigger with
+      one that fires on INSERT, UPDATE and DELETE and applies the difference
+      between the old and new credited amount:
+      - a donation is credited (`net_amount`, else `amount`) only while `completed`
+      - inserts already marked `completed` are credited immediately
+      - `completed` -> `failed` / `refunded` and deletes roll the credit back
+      - moving a donation between requests debits one and credits the other
+    - Requests move to `completed` when fully funded and back to `approved`
+      if refunds take them under their goal
+    - New view `request_ledger` with per-status totals for each request
+    - New function `reconcile_request_totals()` that recomputes
+      `amount_raised` for every request and reports any drift it fixed
+
+  2. Security
+    - Ledger trigger runs as SECURITY DEFINER so crediting does not depend on
+      the caller being allowed to update `requests`
+    - `reconcile_request_totals()` is restricted to admins and the service role
+    - `request_ledger` uses the caller's RLS (security_invoker)
+*/
+
+ALTER TABLE donations DROP CONSTRAINT IF EXISTS donations_status_check;
+ALTER TABLE donations ADD CONSTRAINT donations_status_check
+  CHECK (status IN ('pending', 'completed', 'failed', 'refunded'));
+
+DROP TRIGGER IF EXISTS update_request_amount_raised_trigger ON donations;
+DROP FUNCTION IF EXISTS update_request_amount_raised();
+
+-- Amount a donation row contributes to its request's amount_raised
+CREATE OR REPLACE FUNCTION donation_credit(status text, amount numeric, net_amount numeric)
+RETURNS numeric
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE WHEN status = 'completed' THEN COALESCE(net_amount, amount) ELSE 0 END;
+$$;
+
+-- Apply a credit delta to a request and keep its funded status in sync
+CREATE OR REPLACE FUNCTION apply_request_credit(target_request_id uuid, delta numeric)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF delta = 0 THEN
+    RETURN;
+  END IF;
+
+  UPDATE requests
+  SET amount_raised = GREATEST(COALESCE(amount_raised, 0) + delta, 0)
+  WHERE id = target_request_id;
+
+  UPDATE requests
+  SET status = CASE
+    WHEN status = 'approved' AND amount_raised >= amount_needed THEN 'completed'
+    WHEN status = 'completed' AND amount_raised < amount_needed THEN 'approved'
+    ELSE status
+  END
+  WHERE id = target_request_id
+  AND status IN ('approved', 'completed');
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION update_request_amount_raised()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  old_credit numeric := 0;
+  new_credit numeric := 0;
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    old_credit := donation_credit(OLD.status, OLD.amount, OLD.net_amount);
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    new_credit := donation_credit(NEW.status, NEW.amount, NEW.net_amount);
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.request_id IS DISTINCT FROM NEW.request_id THEN
+    PERFORM apply_request_credit(OLD.request_id, -old_credit);
+    PERFORM apply_request_credit(NEW.request_id, new_credit);
+  ELSIF TG_OP = 'DELETE' THEN
+    PERFORM apply_request_credit(OLD.request_id, -old_credit);
+  ELSE
+    PERFORM apply_request_credit(NEW.request_id, new_credit - old_credit);
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+CREATE TRIGGER update_request_amount_raised_trigger
+  AFTER INSERT OR UPDATE OR DELETE ON donations
+  FOR EACH ROW
+  EXECUTE FUNCTION update_request_amount_raised();
+
+-- Per-request ledger totals
+CREATE OR REPLACE VIEW request_ledger
+WITH (security_invoker = true)
+AS
+SELECT
+  r.id AS request_id,
+  r.amount_needed,
+  r.amount_raised,
+  COALESCE(SUM(donation_credit(d.status, d.amount, d.net_amount)), 0) AS completed_total,
+  COALESCE(SUM(d.amount) FILTER (WHERE d.status = 'pending'), 0) AS pending_total,
+  COALESCE(SUM(d.amount) FILTER (WHERE d.status = 'failed'), 0) AS failed_total,
+  COALESCE(SUM(COALESCE(d.net_amount, d.amount)) FILTER (WHERE d.status = 'refunded'), 0) AS refunded_total,
+  COUNT(d.id) FILTER (WHERE d.status = 'completed') AS completed_count
+FROM requests r
+LEFT JOIN donations d ON d.request_id = r.id
+GROUP BY r.id;
+
+-- Recompute amount_raised for every request from completed donations
+CREATE OR REPLACE FUNCTION reconcile_request_totals()
+RETURNS TABLE (request_id uuid, previous_amount numeric, reconciled_amount numeric)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT (is_admin() OR COALESCE(auth.role(), '') = 'service_role') THEN
+    RAISE EXCEPTION 'Only admins can reconcile request totals';
+  END IF;
+
+  RETURN QUERY
+  WITH totals AS (
+    SELECT
+      r.id,
+      COALESCE(r.amount_raised, 0) AS current_amount,
+      COALESCE(SUM(donation_credit(d.status, d.amount, d.net_amount)), 0) AS ledger_amount
+    FROM requests r
+    LEFT JOIN donations d ON d.request_id = r.id
+    GROUP BY r.id
+  ),
+  fixed AS (
+    UPDATE requests r
+    SET amount_raised = t.ledger_amount,
+        status = CASE
+          WHEN r.status = 'approved' AND t.ledger_amount >= r.amount_needed THEN 'completed'
+          WHEN r.status = 'completed' AND t.ledger_amount < r.amount_needed THEN 'approved'
+          ELSE r.status
+        END
+    FROM totals t
+    WHERE r.id = t.id
+    AND t.current_amount <> t.ledger_amount
+    RETURNING r.id, t.current_amount, t.ledger_amount
+  )
+  SELECT fixed.id, fixed.current_amount, fixed.ledger_amount FROM fixed;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION reconcile_request_totals() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION reconcile_request_totals() TO authenticated, service_role;
+
+-- Fix totals for donations inserted as completed before this migration
+UPDATE requests r
+SET amount_raised = t.ledger_amount
+FROM (
+  SELECT r2.id, COALESCE(SUM(donation_credit(d.status, d.amount, d.net_amount)), 0) AS ledger_amount
+  FROM requests r2
+  LEFT JOIN donations d ON d.request_id = r2.id
+  GROUP BY r2.id
+) t
+WHERE r.id = t.id
+AND COALESCE(r.amount_raised, 0) <> t.ledger_amount;
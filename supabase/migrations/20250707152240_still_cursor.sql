@@ -0,0 +1,83 @@
+/*
+  # Chain event indexer state
+
+  1. New Tables
+    - `indexer_cursors`
+      - `name` (text, primary key) - one row per indexer instance
+      - `last_block` (bigint) - last block whose events were applied
+      - `last_block_hash` (text) - hash of that block, used to detect reorgs
+      - `updated_at` (timestamp)
+    - `chain_events`
+      - raw DonationPlatform events applied by the indexer, unique per
+        (`transaction_hash`, `log_index`) so replays are idempotent
+    - `chain_verifiers`
+      - on-chain verifier set mirrored from VerifierAdded / VerifierRemoved
+
+  2. Security
+    - Enable RLS on all three tables
+    - Admins can read indexer state; anyone authenticated can read the
+      verifier set
+    - Only the indexer (service role) writes to them
+*/
+
+CREATE TABLE IF NOT EXISTS indexer_cursors (
+  name text PRIMARY KEY,
+  last_block bigint NOT NULL CHECK (last_block >= 0),
+  last_block_hash text,
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS chain_events (
+  id bigserial PRIMARY KEY,
+  block_number bigint NOT NULL,
+  block_hash text NOT NULL,
+  transaction_hash text NOT NULL,
+  log_index integer NOT NULL,
+  event_name text NOT NULL,
+  args jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE(transaction_hash, log_index)
+);
+
+CREATE INDEX IF NOT EXISTS chain_events_block_number_idx ON chain_events(block_number);
+
+CREATE TABLE IF NOT EXISTS chain_verifiers (
+  address text PRIMARY KEY CHECK (is_valid_ethereum_address(address)),
+  is_active boolean NOT NULL,
+  updated_block bigint NOT NULL,
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE indexer_cursors ENABLE ROW LEVEL SECURITY;
+ALTER TABLE chain_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE chain_verifiers ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+CREATE POLICY "Admins can read indexer cursors"
+  ON indexer_cursors
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE POLICY "Admins can read chain events"
+  ON chain_events
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE POLICY "Anyone can read chain verifiers"
+  ON chain_verifiers
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE TRIGGER update_indexer_cursors_updated_at
+  BEFORE UPDATE ON indexer_cursors
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_chain_verifiers_updated_at
+  BEFORE UPDATE ON chain_verifiers
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,166 @@
+/*
+  # Configurable quorum policy shared by the database and the contract
+
+  1. New Tables
+    - `governance_settings` (single row)
+      - `minimum_votes` (integer) - votes required before a decision
+      - `approval_threshold_bps` (integer) - approve when approving weight is
+        strictly above this share of total weight, in basis points
+        (5000 = simple majority, same as DonationPlatform.approvalThresholdBps)
+      - `use_verifier_weights` (boolean) - weight votes by `verifier_weights`
+      - `updated_at`, `updated_by`
+    - `verifier_weights`
+      - `verifier_id` (uuid, primary key, references users)
+      - `weight` (integer, default 1)
+
+  2. Changes
+    - Replace the "approve after a single vote" rule from
+      20250705094115_raspy_shore.sql with the same rule the contract uses:
+      once `minimum_votes` are in, approve if the approving share exceeds the
+      threshold, otherwise reject
+    - New function `request_vote_tally(request_id)` used by the dashboards to
+      explain how many votes are still needed
+
+  3. Security
+    - Everyone authenticated can read the policy and weights
+    - Only admins can change them
+    - The vote trigger runs as SECURITY DEFINER so verifier votes can move
+      request status even though verifiers cannot update `requests`
+*/
+
+CREATE TABLE IF NOT EXISTS governance_settings (
+  id boolean PRIMARY KEY DEFAULT true CHECK (id),
+  minimum_votes integer NOT NULL DEFAULT 3 CHECK (minimum_votes > 0),
+  approval_threshold_bps integer NOT NULL DEFAULT 5000 CHECK (approval_threshold_bps >= 0 AND approval_threshold_bps < 10000),
+  use_verifier_weights boolean NOT NULL DEFAULT false,
+  updated_at timestamptz DEFAULT now(),
+  updated_by uuid REFERENCES users(id) ON DELETE SET NULL
+);
+
+INSERT INTO governance_settings (id) VALUES (true) ON CONFLICT (id) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS verifier_weights (
+  verifier_id uuid PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  weight integer NOT NULL DEFAULT 1 CHECK (weight > 0),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE governance_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE verifier_weights ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+CREATE POLICY "Anyone can read governance settings"
+  ON governance_settings
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can update governance settings"
+  ON governance_settings
+  FOR UPDATE
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Anyone can read verifier weights"
+  ON verifier_weights
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage verifier weights"
+  ON verifier_weights
+  FOR ALL
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE TRIGGER update_governance_settings_updated_at
+  BEFORE UPDATE ON governance_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_verifier_weights_updated_at
+  BEFORE UPDATE ON verifier_weights
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Current tally for a request under the active policy
+CREATE OR REPLACE FUNCTION request_vote_tally(p_request_id uuid)
+RETURNS TABLE (
+  vote_count integer,
+  approve_weight integer,
+  reject_weight integer,
+  minimum_votes integer,
+  approval_threshold_bps integer,
+  votes_needed integer,
+  is_approved boolean
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH policy AS (
+    SELECT * FROM governance_settings WHERE id
+  ),
+  weighted AS (
+    SELECT
+      v.vote_type,
+      CASE WHEN p.use_verifier_weights THEN COALESCE(w.weight, 1) ELSE 1 END AS weight
+    FROM votes v
+    CROSS JOIN policy p
+    LEFT JOIN verifier_weights w ON w.verifier_id = v.voter_id
+    WHERE v.request_id = p_request_id
+  ),
+  totals AS (
+    SELECT
+      COUNT(*)::integer AS vote_count,
+      COALESCE(SUM(weight) FILTER (WHERE vote_type = 'approve'), 0)::integer AS approve_weight,
+      COALESCE(SUM(weight) FILTER (WHERE vote_type = 'reject'), 0)::integer AS reject_weight
+    FROM weighted
+  )
+  SELECT
+    t.vote_count,
+    t.approve_weight,
+    t.reject_weight,
+    p.minimum_votes,
+    p.approval_threshold_bps,
+    GREATEST(p.minimum_votes - t.vote_count, 0),
+    t.approve_weight::bigint * 10000 > (t.approve_weight + t.reject_weight)::bigint * p.approval_threshold_bps
+  FROM totals t
+  CROSS JOIN policy p;
+$$;
+
+-- Drop existing trigger and function
+DROP TRIGGER IF EXISTS update_request_status_trigger ON votes;
+DROP FUNCTION IF EXISTS update_request_status();
+
+CREATE OR REPLACE FUNCTION update_request_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  tally record;
+BEGIN
+  SELECT * INTO tally FROM request_vote_tally(NEW.request_id);
+
+  -- Decide only once the quorum is reached, exactly like voteOnRequest
+  IF tally.votes_needed = 0 THEN
+    UPDATE requests
+    SET status = CASE WHEN tally.is_approved THEN 'approved' ELSE 'rejected' END
+    WHERE id = NEW.request_id AND status = 'pending';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Recreate trigger
+CREATE TRIGGER update_request_status_trigger
+  AFTER INSERT ON votes
+  FOR EACH ROW
+  EXECUTE FUNCTION update_request_status();
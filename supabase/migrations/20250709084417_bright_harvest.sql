@@ -0,0 +1,73 @@
+/*
+  # Requester withdrawals
+
+  1. New Tables
+    - `withdrawals`
+      - `id` (uuid, primary key)
+      - `request_id` (uuid, references requests)
+      - `requester_id` (uuid, references users)
+      - `chain_request_id` (bigint) - DonationPlatform request id
+      - `amount` (numeric) - ETH paid out by `withdrawFunds`
+      - `transaction_hash` (text, unique)
+      - `status` (text) - pending, completed or failed
+      - `block_number` (bigint) - set once the indexer sees FundsWithdrawn
+      - `verification_error` (text)
+      - `created_at`, `confirmed_at` (timestamp)
+
+  2. Security
+    - Enable RLS on `withdrawals`
+    - Requesters can read withdrawals for their own requests and record
+      their own withdrawals as `pending`
+    - Admins can read all withdrawals
+    - Only the indexer (service role) marks withdrawals `completed` or
+      `failed` from the FundsWithdrawn event
+*/
+
+CREATE TABLE IF NOT EXISTS withdrawals (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  request_id uuid NOT NULL REFERENCES requests(id) ON DELETE CASCADE,
+  requester_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  chain_request_id bigint NOT NULL,
+  amount numeric NOT NULL CHECK (amount > 0),
+  transaction_hash text NOT NULL,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'completed', 'failed')),
+  block_number bigint,
+  verification_error text,
+  created_at timestamptz DEFAULT now(),
+  confirmed_at timestamptz
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS withdrawals_transaction_hash_key ON withdrawals(lower(transaction_hash));
+CREATE INDEX IF NOT EXISTS withdrawals_request_id_idx ON withdrawals(request_id);
+
+-- Enable RLS
+ALTER TABLE withdrawals ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+CREATE POLICY "Requesters can read own withdrawals"
+  ON withdrawals
+  FOR SELECT
+  TO authenticated
+  USING (requester_id = auth.uid());
+
+CREATE POLICY "Admins can read all withdrawals"
+  ON withdrawals
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE POLICY "Requesters can insert own pending withdrawals"
+  ON withdrawals
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    requester_id = auth.uid()
+    AND status = 'pending'
+    AND block_number IS NULL
+    AND confirmed_at IS NULL
+    AND EXISTS (
+      SELECT 1 FROM requests
+      WHERE requests.id = request_id
+      AND requests.requester_id = auth.uid()
+    )
+  );
@@ -0,0 +1,267 @@
+/*
+  # Milestone-based fund release
+
+  1. New Tables
+    - `request_milestones`
+      - `id` (uuid, primary key)
+      - `request_id` (uuid, references requests)
+      - `milestone_index` (integer) - position in DonationPlatform.requestMilestones
+      - `description` (text)
+      - `amount` (numeric) - ETH released when the milestone is approved
+      - `status` (text) - pending, in_review, approved, rejected or released
+      - `round` (integer) - bumped on every proof submission; votes only
+        count for the current round, like the contract
+      - `proof_path` (text) - object in the `milestone-proofs` bucket
+      - `proof_hash` (text) - sha256 of the proof file, also stored on-chain
+      - `proof_submitted_at`, `decided_at`, `released_at` (timestamp)
+      - `released_amount` (numeric), `release_tx_hash` (text)
+    - `milestone_votes`
+      - `milestone_id`, `voter_id`, `round`, `vote_type`, `created_at`
+      - one vote per verifier per round
+
+  2. Changes
+    - `submit_milestone_proof()` lets the requester attach proof and start a
+      new review round
+    - Trigger on `milestone_votes` applies the `governance_settings` quorum:
+      approve once the threshold is met, otherwise send it back for new proof
+    - Storage bucket `milestone-proofs` for proof uploads
+
+  3. Security
+    - Everyone authenticated can read milestones, votes and proofs so donors
+      can follow how funds are spent
+    - Requesters add milestones to their own pending requests
+    - Only verifiers and admins vote, and only on milestones under review
+    - Status changes come from the vote trigger or the chain indexer
+*/
+
+CREATE TABLE IF NOT EXISTS request_milestones (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  request_id uuid NOT NULL REFERENCES requests(id) ON DELETE CASCADE,
+  milestone_index integer NOT NULL CHECK (milestone_index >= 0),
+  description text NOT NULL,
+  amount numeric NOT NULL CHECK (amount > 0),
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'in_review', 'approved', 'rejected', 'released')),
+  round integer NOT NULL DEFAULT 0,
+  proof_path text,
+  proof_hash text,
+  proof_submitted_at timestamptz,
+  decided_at timestamptz,
+  released_amount numeric,
+  release_tx_hash text,
+  released_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE(request_id, milestone_index)
+);
+
+CREATE TABLE IF NOT EXISTS milestone_votes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  milestone_id uuid NOT NULL REFERENCES request_milestones(id) ON DELETE CASCADE,
+  voter_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  round integer NOT NULL,
+  vote_type text NOT NULL CHECK (vote_type IN ('approve', 'reject')),
+  created_at timestamptz DEFAULT now(),
+  UNIQUE(milestone_id, voter_id, round)
+);
+
+CREATE INDEX IF NOT EXISTS milestone_votes_milestone_id_idx ON milestone_votes(milestone_id, round);
+
+-- Enable RLS
+ALTER TABLE request_milestones ENABLE ROW LEVEL SECURITY;
+ALTER TABLE milestone_votes ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+CREATE POLICY "Anyone can read milestones"
+  ON request_milestones
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Requesters can add milestones to own pending requests"
+  ON request_milestones
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    status = 'pending'
+    AND round = 0
+    AND proof_path IS NULL
+    AND EXISTS (
+      SELECT 1 FROM requests
+      WHERE requests.id = request_id
+      AND requests.requester_id = auth.uid()
+      AND requests.status = 'pending'
+    )
+  );
+
+CREATE POLICY "Anyone can read milestone votes"
+  ON milestone_votes
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Verifiers can vote on milestones under review"
+  ON milestone_votes
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    voter_id = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM users
+      WHERE id = auth.uid()
+      AND role IN ('verifier', 'admin')
+    )
+    AND EXISTS (
+      SELECT 1 FROM request_milestones
+      WHERE request_milestones.id = milestone_id
+      AND request_milestones.status = 'in_review'
+      AND request_milestones.round = milestone_votes.round
+    )
+  );
+
+CREATE TRIGGER update_request_milestones_updated_at
+  BEFORE UPDATE ON request_milestones
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Attach proof and open a new review round
+CREATE OR REPLACE FUNCTION submit_milestone_proof(
+  p_milestone_id uuid,
+  p_proof_path text,
+  p_proof_hash text
+)
+RETURNS request_milestones
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  milestone request_milestones;
+BEGIN
+  SELECT m.* INTO milestone
+  FROM request_milestones m
+  JOIN requests r ON r.id = m.request_id
+  WHERE m.id = p_milestone_id
+  AND r.requester_id = auth.uid()
+  AND r.status IN ('approved', 'completed');
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Milestone not found or request not approved';
+  END IF;
+
+  IF milestone.status NOT IN ('pending', 'in_review', 'rejected') THEN
+    RAISE EXCEPTION 'Milestone already approved';
+  END IF;
+
+  IF p_proof_hash !~ '^0x[0-9a-fA-F]{64}$' THEN
+    RAISE EXCEPTION 'Invalid proof hash';
+  END IF;
+
+  UPDATE request_milestones
+  SET
+    proof_path = p_proof_path,
+    proof_hash = lower(p_proof_hash),
+    proof_submitted_at = now(),
+    round = round + 1,
+    status = 'in_review',
+    decided_at = NULL
+  WHERE id = p_milestone_id
+  RETURNING * INTO milestone;
+
+  RETURN milestone;
+END;
+$$;
+
+-- Tally for the milestone's current round under the active policy
+CREATE OR REPLACE FUNCTION milestone_vote_tally(p_milestone_id uuid)
+RETURNS TABLE (
+  vote_count integer,
+  approve_weight integer,
+  reject_weight integer,
+  votes_needed integer,
+  is_approved boolean
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH policy AS (
+    SELECT * FROM governance_settings WHERE id
+  ),
+  weighted AS (
+    SELECT
+      v.vote_type,
+      CASE WHEN p.use_verifier_weights THEN COALESCE(w.weight, 1) ELSE 1 END AS weight
+    FROM milestone_votes v
+    JOIN request_milestones m ON m.id = v.milestone_id AND m.round = v.round
+    CROSS JOIN policy p
+    LEFT JOIN verifier_weights w ON w.verifier_id = v.voter_id
+    WHERE v.milestone_id = p_milestone_id
+  ),
+  totals AS (
+    SELECT
+      COUNT(*)::integer AS vote_count,
+      COALESCE(SUM(weight) FILTER (WHERE vote_type = 'approve'), 0)::integer AS approve_weight,
+      COALESCE(SUM(weight) FILTER (WHERE vote_type = 'reject'), 0)::integer AS reject_weight
+    FROM weighted
+  )
+  SELECT
+    t.vote_count,
+    t.approve_weight,
+    t.reject_weight,
+    GREATEST(p.minimum_votes - t.vote_count, 0),
+    t.approve_weight::bigint * 10000 > (t.approve_weight + t.reject_weight)::bigint * p.approval_threshold_bps
+  FROM totals t
+  CROSS JOIN policy p;
+$$;
+
+CREATE OR REPLACE FUNCTION update_milestone_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  tally record;
+BEGIN
+  SELECT * INTO tally FROM milestone_vote_tally(NEW.milestone_id);
+
+  -- Mirrors DonationPlatform.voteOnMilestone
+  IF tally.votes_needed = 0 THEN
+    UPDATE request_milestones
+    SET
+      status = CASE WHEN tally.is_approved THEN 'approved' ELSE 'rejected' END,
+      decided_at = now()
+    WHERE id = NEW.milestone_id
+    AND status = 'in_review'
+    AND round = NEW.round;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER update_milestone_status_trigger
+  AFTER INSERT ON milestone_votes
+  FOR EACH ROW
+  EXECUTE FUNCTION update_milestone_status();
+
+-- Proof uploads, stored under <requester id>/<request id>/
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('milestone-proofs', 'milestone-proofs', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Requesters can upload milestone proofs"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'milestone-proofs'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+CREATE POLICY "Anyone can read milestone proofs"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (bucket_id = 'milestone-proofs');
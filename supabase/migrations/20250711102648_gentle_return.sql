@@ -0,0 +1,100 @@
+/*
+  # Donor refunds for cancelled and underfunded requests
+
+  1. Changes
+    - Add `deadline` to `requests`, mirrored from DonationPlatform
+    - Add `refund_tx_hash`, `refund_amount` and `refunded_at` to `donations`
+    - New view `refundable_donations`: one row per donor and request whose
+      escrow can be reclaimed with `claimRefund`, i.e. the request was
+      rejected or its deadline passed before reaching the goal
+    - New function `record_refund_claim()` so donors can attach their claim
+      transaction while the indexer confirms it
+
+  2. Security
+    - `refundable_donations` uses the caller's RLS (security_invoker), so
+      donors only see their own donations
+    - Donors can read requests they donated to, so rejected requests stay
+      visible for refunds
+    - `record_refund_claim()` only touches the caller's own completed
+      donations and never changes their status; the indexer marks them
+      `refunded` from the RefundClaimed event
+*/
+
+ALTER TABLE requests ADD COLUMN IF NOT EXISTS deadline timestamptz;
+
+ALTER TABLE donations ADD COLUMN IF NOT EXISTS refund_tx_hash text;
+ALTER TABLE donations ADD COLUMN IF NOT EXISTS refund_amount numeric;
+ALTER TABLE donations ADD COLUMN IF NOT EXISTS refunded_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS requests_deadline_idx ON requests(deadline) WHERE deadline IS NOT NULL;
+
+-- SECURITY DEFINER so the requests policy doesn't recurse through the
+-- donations policies that look at requests
+CREATE OR REPLACE FUNCTION has_donated_to(target_request_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM donations
+    WHERE request_id = target_request_id
+    AND donor_id = auth.uid()
+  );
+$$;
+
+CREATE POLICY "Donors can read requests they donated to"
+  ON requests
+  FOR SELECT
+  TO authenticated
+  USING (has_donated_to(id));
+
+CREATE OR REPLACE VIEW refundable_donations
+WITH (security_invoker = true)
+AS
+SELECT
+  d.donor_id,
+  r.id AS request_id,
+  r.title,
+  r.chain_request_id,
+  r.status AS request_status,
+  r.deadline,
+  CASE WHEN r.status = 'rejected' THEN 'rejected' ELSE 'expired' END AS reason,
+  COUNT(d.id) AS donation_count,
+  SUM(COALESCE(d.net_amount, d.amount)) AS net_total,
+  MAX(d.refund_tx_hash) AS refund_tx_hash
+FROM donations d
+JOIN requests r ON r.id = d.request_id
+WHERE d.status = 'completed'
+AND r.chain_request_id IS NOT NULL
+AND (
+  r.status = 'rejected'
+  OR (r.deadline IS NOT NULL AND r.deadline < now() AND r.amount_raised < r.amount_needed)
+)
+GROUP BY d.donor_id, r.id;
+
+CREATE OR REPLACE FUNCTION record_refund_claim(p_request_id uuid, p_transaction_hash text)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  updated integer;
+BEGIN
+  IF p_transaction_hash !~ '^0x[0-9a-fA-F]{64}$' THEN
+    RAISE EXCEPTION 'Invalid transaction hash';
+  END IF;
+
+  UPDATE donations
+  SET refund_tx_hash = p_transaction_hash
+  WHERE request_id = p_request_id
+  AND donor_id = auth.uid()
+  AND status = 'completed'
+  AND refund_tx_hash IS NULL;
+
+  GET DIAGNOSTICS updated = ROW_COUNT;
+  RETURN updated;
+END;
+$$;
@@ -0,0 +1,123 @@
+/*
+  # Request deadlines and expiry
+
+  1. Changes
+    - Add `expired` to the allowed request statuses
+    - New function `expire_requests()`: moves `pending` and `approved`
+      requests whose `deadline` has passed without reaching the goal to
+      `expired`, and notifies the requester and everyone who donated
+    - If pg_cron is available, schedule `expire_requests()` every 15 minutes;
+      otherwise run `npm run worker:expire-requests`
+
+  2. New Tables
+    - `notifications`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references users)
+      - `type` (text) - e.g. `request_expired`
+      - `title`, `body` (text)
+      - `request_id` (uuid, references requests, nullable)
+      - `read_at`, `created_at` (timestamp)
+
+  3. Security
+    - Users can read and mark their own notifications as read
+    - Notifications are only created by SECURITY DEFINER functions
+    - `expire_requests()` is restricted to admins, the service role and
+      the database owner (pg_cron jobs)
+*/
+
+ALTER TABLE requests DROP CONSTRAINT IF EXISTS requests_status_check;
+ALTER TABLE requests ADD CONSTRAINT requests_status_check
+  CHECK (status IN ('pending', 'approved', 'rejected', 'completed', 'expired'));
+
+CREATE TABLE IF NOT EXISTS notifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  type text NOT NULL,
+  title text NOT NULL,
+  body text NOT NULL DEFAULT '',
+  request_id uuid REFERENCES requests(id) ON DELETE CASCADE,
+  read_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS notifications_user_id_idx ON notifications(user_id, created_at DESC);
+
+-- Enable RLS
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+CREATE POLICY "Users can read own notifications"
+  ON notifications
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can update own notifications"
+  ON notifications
+  FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE OR REPLACE FUNCTION expire_requests()
+RETURNS TABLE (request_id uuid, title text, notified integer)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  expired record;
+  recipients integer;
+BEGIN
+  IF NOT (is_admin() OR COALESCE(auth.role(), '') = 'service_role' OR session_user = 'postgres') THEN
+    RAISE EXCEPTION 'Only admins can expire requests';
+  END IF;
+
+  FOR expired IN
+    UPDATE requests r
+    SET status = 'expired'
+    WHERE r.status IN ('pending', 'approved')
+    AND r.deadline IS NOT NULL
+    AND r.deadline < now()
+    AND r.amount_raised < r.amount_needed
+    RETURNING r.id, r.title, r.requester_id, r.status
+  LOOP
+    INSERT INTO notifications (user_id, type, title, body, request_id)
+    SELECT
+      recipient.user_id,
+      'request_expired',
+      'Request expired: ' || expired.title,
+      recipient.body,
+      expired.id
+    FROM (
+      SELECT
+        expired.requester_id AS user_id,
+        'Your request reached its deadline before being fully funded.' AS body
+      UNION
+      SELECT DISTINCT
+        d.donor_id,
+        'A request you donated to expired before reaching its goal. You can claim a refund from your dashboard.'
+      FROM donations d
+      WHERE d.request_id = expired.id
+      AND d.status = 'completed'
+      AND d.donor_id <> expired.requester_id
+    ) recipient;
+
+    GET DIAGNOSTICS recipients = ROW_COUNT;
+
+    request_id := expired.id;
+    title := expired.title;
+    notified := recipients;
+    RETURN NEXT;
+  END LOOP;
+END;
+$$;
+
+-- Schedule with pg_cron when the extension is enabled on the project
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('expire-requests', '*/15 * * * *', 'SELECT expire_requests()');
+  END IF;
+END;
+$$;
@@ -0,0 +1,122 @@
+/*
+  # Evidence attachments for requests
+
+  1. New Tables
+    - `request_attachments`
+      - `id` (uuid, primary key)
+      - `request_id` (uuid, references requests)
+      - `uploaded_by` (uuid, references users)
+      - `storage_path` (text, unique) - object in the `request-attachments` bucket
+      - `file_name`, `mime_type` (text)
+      - `size_bytes` (bigint)
+      - `sha256` (text) - content hash computed on upload, so verifiers can
+        check the stored file hasn't been swapped
+      - `created_at` (timestamp)
+
+  2. Storage
+    - Private bucket `request-attachments` for images and PDFs up to 10 MB,
+      stored under <requester id>/<request id>/
+
+  3. Security
+    - Attachments are readable by anyone who can read the request itself
+      (the subquery runs under the caller's `requests` policies)
+    - Requesters attach files to their own requests and can remove them
+      while the request is still pending
+    - Admins can remove any attachment
+*/
+
+CREATE TABLE IF NOT EXISTS request_attachments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  request_id uuid NOT NULL REFERENCES requests(id) ON DELETE CASCADE,
+  uploaded_by uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  storage_path text NOT NULL UNIQUE,
+  file_name text NOT NULL,
+  mime_type text NOT NULL CHECK (mime_type IN ('image/jpeg', 'image/png', 'image/webp', 'image/gif', 'application/pdf')),
+  size_bytes bigint NOT NULL CHECK (size_bytes > 0 AND size_bytes <= 10485760),
+  sha256 text NOT NULL CHECK (sha256 ~ '^0x[0-9a-f]{64}$'),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS request_attachments_request_id_idx ON request_attachments(request_id);
+
+-- Enable RLS
+ALTER TABLE request_attachments ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+CREATE POLICY "Users can read attachments of visible requests"
+  ON request_attachments
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM requests
+      WHERE requests.id = request_id
+    )
+  );
+
+CREATE POLICY "Requesters can attach files to own requests"
+  ON request_attachments
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    uploaded_by = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM requests
+      WHERE requests.id = request_id
+      AND requests.requester_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Requesters can remove attachments from own pending requests"
+  ON request_attachments
+  FOR DELETE
+  TO authenticated
+  USING (
+    uploaded_by = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM requests
+      WHERE requests.id = request_id
+      AND requests.requester_id = auth.uid()
+      AND requests.status = 'pending'
+    )
+  );
+
+CREATE POLICY "Admins can remove any attachment"
+  ON request_attachments
+  FOR DELETE
+  TO authenticated
+  USING (is_admin());
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'request-attachments',
+  'request-attachments',
+  false,
+  10485760,
+  ARRAY['image/jpeg', 'image/png', 'image/webp', 'image/gif', 'application/pdf']
+)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Requesters can upload request attachments"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'request-attachments'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+CREATE POLICY "Users can read request attachments"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (bucket_id = 'request-attachments');
+
+CREATE POLICY "Requesters can delete own request attachments"
+  ON storage.objects
+  FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'request-attachments'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
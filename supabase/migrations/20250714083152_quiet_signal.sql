@@ -0,0 +1,56 @@
+/*
+  # Signed votes for gasless relaying
+
+  1. Changes
+    - `votes` gains the verifier's EIP-712 signature over
+      Vote(requestId, approve, verifier, deadline):
+      - `signature` (text) - 65-byte signature, 0x-prefixed
+      - `signer_address` (text) - wallet that signed
+      - `signature_deadline` (timestamp) - after this the contract refuses it
+      - `relay_status` (text) - unsigned, pending, submitted, confirmed, failed
+      - `relay_tx_hash` (text) - voteBySig batch transaction
+      - `relay_error` (text) - why the relayer or contract skipped the vote
+      - `relayed_at` (timestamp)
+
+  2. Security
+    - Clients can't pick their own relay state: inserts from anyone but the
+      service role start as `pending` (signed) or `unsigned`
+    - Relay columns are only written by the relayer and indexer, which use
+      the service role; there is still no client UPDATE policy on votes
+*/
+
+ALTER TABLE votes
+  ADD COLUMN IF NOT EXISTS signature text CHECK (signature ~ '^0x[0-9a-fA-F]{130}$'),
+  ADD COLUMN IF NOT EXISTS signer_address text,
+  ADD COLUMN IF NOT EXISTS signature_deadline timestamptz,
+  ADD COLUMN IF NOT EXISTS relay_status text NOT NULL DEFAULT 'unsigned'
+    CHECK (relay_status IN ('unsigned', 'pending', 'submitted', 'confirmed', 'failed')),
+  ADD COLUMN IF NOT EXISTS relay_tx_hash text,
+  ADD COLUMN IF NOT EXISTS relay_error text,
+  ADD COLUMN IF NOT EXISTS relayed_at timestamptz;
+
+ALTER TABLE votes
+  ADD CONSTRAINT votes_signature_complete CHECK (
+    signature IS NULL
+    OR (signer_address IS NOT NULL AND signature_deadline IS NOT NULL)
+  );
+
+CREATE INDEX IF NOT EXISTS votes_relay_pending_idx ON votes(created_at) WHERE relay_status = 'pending';
+
+CREATE OR REPLACE FUNCTION set_vote_relay_status()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF COALESCE(auth.role(), '') <> 'service_role' THEN
+    NEW.relay_status := CASE WHEN NEW.signature IS NULL THEN 'unsigned' ELSE 'pending' END;
+    NEW.relay_tx_hash := NULL;
+    NEW.relay_error := NULL;
+    NEW.relayed_at := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER set_vote_relay_status_trigger
+  BEFORE INSERT ON votes
+  FOR EACH ROW
+  EXECUTE FUNCTION set_vote_relay_status();
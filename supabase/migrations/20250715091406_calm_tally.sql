@@ -0,0 +1,87 @@
+/*
+  # Aggregated platform statistics
+
+  1. New Functions
+    - `platform_stats()` returns one JSON object with platform-wide totals:
+      - `total_donated`, `donation_count`, `average_donation` (completed donations)
+      - `failed_donations`, `verification_rate` - share of settled donations
+        whose transaction verified (completed vs failed)
+      - `total_requests`, `requests_by_status`, `success_rate` - share of
+        reviewed (non-pending) requests that were approved or completed
+      - `total_users`, `users_by_role`, `active_donors` (donated in the last
+        30 days), `user_growth_rate` (sign-ups in the last 30 days vs the
+        30 before)
+      - `indexer_synced_at` - when the chain indexer last checkpointed
+
+  2. Security
+    - SECURITY DEFINER so the home pages get real totals instead of whatever
+      RLS lets the caller see; only aggregates are returned, never rows
+    - Executable by anonymous visitors
+*/
+
+CREATE OR REPLACE FUNCTION platform_stats()
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH donation_totals AS (
+    SELECT
+      COALESCE(SUM(amount) FILTER (WHERE status = 'completed'), 0) AS total_donated,
+      COUNT(*) FILTER (WHERE status = 'completed') AS donation_count,
+      COUNT(*) FILTER (WHERE status = 'failed') AS failed_donations,
+      COUNT(DISTINCT donor_id) FILTER (
+        WHERE status = 'completed' AND created_at > now() - interval '30 days'
+      ) AS active_donors
+    FROM donations
+  ),
+  request_totals AS (
+    SELECT
+      COUNT(*) AS total_requests,
+      COUNT(*) FILTER (WHERE status <> 'pending') AS reviewed,
+      COUNT(*) FILTER (WHERE status IN ('approved', 'completed')) AS successful
+    FROM requests
+  ),
+  user_totals AS (
+    SELECT
+      COUNT(*) AS total_users,
+      COUNT(*) FILTER (WHERE created_at > now() - interval '30 days') AS recent,
+      COUNT(*) FILTER (
+        WHERE created_at <= now() - interval '30 days'
+        AND created_at > now() - interval '60 days'
+      ) AS previous
+    FROM users
+  )
+  SELECT jsonb_build_object(
+    'total_donated', d.total_donated,
+    'donation_count', d.donation_count,
+    'average_donation', CASE WHEN d.donation_count > 0 THEN d.total_donated / d.donation_count ELSE 0 END,
+    'failed_donations', d.failed_donations,
+    'verification_rate', CASE
+      WHEN d.donation_count + d.failed_donations > 0
+      THEN round(d.donation_count * 100.0 / (d.donation_count + d.failed_donations), 1)
+      ELSE 0
+    END,
+    'active_donors', d.active_donors,
+    'total_requests', r.total_requests,
+    'requests_by_status', (
+      SELECT jsonb_object_agg(s.status, (SELECT COUNT(*) FROM requests WHERE requests.status = s.status))
+      FROM unnest(ARRAY['pending', 'approved', 'rejected', 'completed', 'expired']) AS s(status)
+    ),
+    'success_rate', CASE WHEN r.reviewed > 0 THEN round(r.successful * 100.0 / r.reviewed, 1) ELSE 0 END,
+    'total_users', u.total_users,
+    'users_by_role', (
+      SELECT jsonb_object_agg(s.role, (SELECT COUNT(*) FROM users WHERE users.role = s.role))
+      FROM unnest(ARRAY['donor', 'requester', 'verifier', 'admin']) AS s(role)
+    ),
+    'user_growth_rate', CASE
+      WHEN u.previous > 0 THEN round((u.recent - u.previous) * 100.0 / u.previous, 1)
+      ELSE NULL
+    END,
+    'indexer_synced_at', (SELECT MAX(updated_at) FROM indexer_cursors)
+  )
+  FROM donation_totals d, request_totals r, user_totals u;
+$$;
+
+GRANT EXECUTE ON FUNCTION platform_stats() TO anon, authenticated;
@@ -0,0 +1,211 @@
+/*
+  # Admin analytics
+
+  1. New Functions (all take an inclusive date range)
+    - `analytics_daily_donations(p_from, p_to)` - completed donation count,
+      volume and unique donors per day, zero-filled
+    - `analytics_new_users(p_from, p_to)` - sign-ups per day split by role
+    - `analytics_request_funnel(p_from, p_to)` - requests created in the range
+      and how many reached approval, completion, rejection or expiry, plus
+      the median hours from creation to approval
+    - `analytics_time_to_approval(p_from, p_to)` - approvals per day and the
+      median hours they took
+    - `analytics_verifier_throughput(p_from, p_to)` - votes cast per verifier
+      and their median response time
+
+  2. Notes
+    - A request's approval time is the `created_at` of the vote that
+      completed its quorum, i.e. its latest vote. Requests count as having
+      reached approval if they are approved or completed, or expired after
+      their votes passed the quorum rule
+
+  3. Security
+    - SECURITY DEFINER, callable by admins only
+*/
+
+-- Approval time per request, shared by the funnel and time-to-approval series
+CREATE OR REPLACE FUNCTION request_approval_times()
+RETURNS TABLE (request_id uuid, created_at timestamptz, approved_at timestamptz)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT r.id, r.created_at, MAX(v.created_at)
+  FROM requests r
+  JOIN votes v ON v.request_id = r.id
+  WHERE r.status IN ('approved', 'completed')
+  OR (
+    r.status = 'expired'
+    AND EXISTS (
+      SELECT 1 FROM request_vote_tally(r.id) t
+      WHERE t.votes_needed = 0 AND t.is_approved
+    )
+  )
+  GROUP BY r.id, r.created_at;
+$$;
+
+REVOKE EXECUTE ON FUNCTION request_approval_times() FROM PUBLIC;
+
+CREATE OR REPLACE FUNCTION analytics_daily_donations(p_from date, p_to date)
+RETURNS TABLE (day date, donation_count bigint, total_amount numeric, unique_donors bigint)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can view analytics';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    d.day::date,
+    COUNT(dn.id),
+    COALESCE(SUM(dn.amount), 0)::numeric,
+    COUNT(DISTINCT dn.donor_id)
+  FROM generate_series(p_from, p_to, interval '1 day') AS d(day)
+  LEFT JOIN donations dn
+    ON dn.created_at::date = d.day::date
+    AND dn.status = 'completed'
+  GROUP BY d.day
+  ORDER BY d.day;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION analytics_new_users(p_from date, p_to date)
+RETURNS TABLE (day date, donors bigint, requesters bigint, verifiers bigint, admins bigint)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can view analytics';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    d.day::date,
+    COUNT(u.id) FILTER (WHERE u.role = 'donor'),
+    COUNT(u.id) FILTER (WHERE u.role = 'requester'),
+    COUNT(u.id) FILTER (WHERE u.role = 'verifier'),
+    COUNT(u.id) FILTER (WHERE u.role = 'admin')
+  FROM generate_series(p_from, p_to, interval '1 day') AS d(day)
+  LEFT JOIN users u ON u.created_at::date = d.day::date
+  GROUP BY d.day
+  ORDER BY d.day;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION analytics_request_funnel(p_from date, p_to date)
+RETURNS TABLE (
+  created bigint,
+  approved bigint,
+  completed bigint,
+  rejected bigint,
+  expired bigint,
+  still_pending bigint,
+  median_hours_to_approval numeric
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can view analytics';
+  END IF;
+
+  RETURN QUERY
+  WITH in_range AS (
+    SELECT r.id, r.status
+    FROM requests r
+    WHERE r.created_at::date BETWEEN p_from AND p_to
+  ),
+  approvals AS (
+    SELECT a.request_id, EXTRACT(EPOCH FROM a.approved_at - a.created_at) / 3600 AS hours
+    FROM request_approval_times() a
+    JOIN in_range ON in_range.id = a.request_id
+  )
+  SELECT
+    (SELECT COUNT(*) FROM in_range),
+    (SELECT COUNT(*) FROM approvals),
+    (SELECT COUNT(*) FROM in_range WHERE status = 'completed'),
+    (SELECT COUNT(*) FROM in_range WHERE status = 'rejected'),
+    (SELECT COUNT(*) FROM in_range WHERE status = 'expired'),
+    (SELECT COUNT(*) FROM in_range WHERE status = 'pending'),
+    (SELECT round(percentile_cont(0.5) WITHIN GROUP (ORDER BY hours)::numeric, 1) FROM approvals);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION analytics_time_to_approval(p_from date, p_to date)
+RETURNS TABLE (day date, approvals bigint, median_hours numeric)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can view analytics';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    d.day::date,
+    COUNT(a.request_id),
+    round((percentile_cont(0.5) WITHIN GROUP (
+      ORDER BY EXTRACT(EPOCH FROM a.approved_at - a.created_at) / 3600
+    ))::numeric, 1)
+  FROM generate_series(p_from, p_to, interval '1 day') AS d(day)
+  LEFT JOIN request_approval_times() a ON a.approved_at::date = d.day::date
+  GROUP BY d.day
+  ORDER BY d.day;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION analytics_verifier_throughput(p_from date, p_to date)
+RETURNS TABLE (
+  verifier_id uuid,
+  username text,
+  votes_cast bigint,
+  approvals bigint,
+  rejections bigint,
+  median_response_hours numeric,
+  last_vote_at timestamptz
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can view analytics';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    u.id,
+    u.username,
+    COUNT(v.id),
+    COUNT(v.id) FILTER (WHERE v.vote_type = 'approve'),
+    COUNT(v.id) FILTER (WHERE v.vote_type = 'reject'),
+    round((percentile_cont(0.5) WITHIN GROUP (
+      ORDER BY EXTRACT(EPOCH FROM v.created_at - r.created_at) / 3600
+    ))::numeric, 1),
+    MAX(v.created_at)
+  FROM users u
+  LEFT JOIN votes v
+    ON v.voter_id = u.id
+    AND v.created_at::date BETWEEN p_from AND p_to
+  LEFT JOIN requests r ON r.id = v.request_id
+  WHERE u.role IN ('verifier', 'admin')
+  GROUP BY u.id, u.username
+  ORDER BY COUNT(v.id) DESC, u.username;
+END;
+$$;
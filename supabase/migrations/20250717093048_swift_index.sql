@@ -0,0 +1,122 @@
+/*
+  # Server-side request search
+
+  1. Changes
+    - `requests.search_vector` (tsvector, generated) over title (weight A)
+      and description (weight B), with a GIN index
+    - Indexes backing the browse sort orders
+
+  2. New Views
+    - `public_profiles` (id, username, role) - the profile fields shown next
+      to public content. Runs with the owner's rights so requester names can
+      be displayed and searched without exposing the rest of `users`
+
+  3. New Functions
+    - `search_requests(p_query, p_statuses, p_sort, p_cursor_key, p_cursor_id, p_limit)`
+      returns one page of requests with their requester, vote count and
+      `total_count`. Pages are keyset-paginated on (`sort_key`, `id`): pass
+      the last row's `sort_key` and `id` to fetch the next page.
+      Sort keys: newest, oldest, amount_high, amount_low, progress, urgent
+      (least funded first), ending_soon (nearest future deadline first)
+
+  4. Security
+    - `search_requests` runs as the caller, so it only returns requests the
+      caller's `requests` policies allow
+*/
+
+ALTER TABLE requests
+  ADD COLUMN IF NOT EXISTS search_vector tsvector
+  GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(description, '')), 'B')
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS requests_search_vector_idx ON requests USING gin(search_vector);
+CREATE INDEX IF NOT EXISTS requests_created_at_idx ON requests(created_at, id);
+CREATE INDEX IF NOT EXISTS requests_status_idx ON requests(status);
+
+CREATE OR REPLACE VIEW public_profiles AS
+  SELECT id, username, role FROM users;
+
+GRANT SELECT ON public_profiles TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION search_requests(
+  p_query text DEFAULT NULL,
+  p_statuses text[] DEFAULT NULL,
+  p_sort text DEFAULT 'newest',
+  p_cursor_key text DEFAULT NULL,
+  p_cursor_id uuid DEFAULT NULL,
+  p_limit integer DEFAULT 12
+)
+RETURNS TABLE (
+  request requests,
+  requester jsonb,
+  vote_count bigint,
+  sort_key text,
+  total_count bigint
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  search_query tsquery;
+  search_text text;
+BEGIN
+  IF p_sort NOT IN ('newest', 'oldest', 'amount_high', 'amount_low', 'progress', 'urgent', 'ending_soon') THEN
+    RAISE EXCEPTION 'Unknown sort key: %', p_sort;
+  END IF;
+
+  search_text := NULLIF(trim(p_query), '');
+  IF search_text IS NOT NULL THEN
+    search_query := websearch_to_tsquery('english', search_text);
+  END IF;
+
+  RETURN QUERY
+  WITH matches AS (
+    SELECT
+      r AS request,
+      jsonb_build_object('id', p.id, 'username', p.username) AS requester,
+      -- Every order is expressed as an ascending numeric key so one keyset
+      -- condition works for all of them; requests without a future deadline
+      -- sort after every real timestamp for ending_soon
+      CASE p_sort
+        WHEN 'newest' THEN -EXTRACT(EPOCH FROM r.created_at)
+        WHEN 'oldest' THEN EXTRACT(EPOCH FROM r.created_at)
+        WHEN 'amount_high' THEN -r.amount_needed
+        WHEN 'amount_low' THEN r.amount_needed
+        WHEN 'progress' THEN -(COALESCE(r.amount_raised, 0) / r.amount_needed)
+        WHEN 'urgent' THEN COALESCE(r.amount_raised, 0) / r.amount_needed
+        WHEN 'ending_soon' THEN CASE
+          WHEN r.deadline > now() THEN EXTRACT(EPOCH FROM r.deadline)
+          ELSE 1e12
+        END
+      END AS key
+    FROM requests r
+    LEFT JOIN public_profiles p ON p.id = r.requester_id
+    WHERE (p_statuses IS NULL OR r.status = ANY(p_statuses))
+    AND (
+      search_text IS NULL
+      OR r.search_vector @@ search_query
+      OR p.username ILIKE '%' || search_text || '%'
+    )
+  ),
+  counted AS (
+    SELECT m.*, COUNT(*) OVER () AS total
+    FROM matches m
+  )
+  SELECT
+    c.request,
+    c.requester,
+    (SELECT COUNT(*) FROM votes v WHERE v.request_id = (c.request).id),
+    c.key::text,
+    c.total
+  FROM counted c
+  WHERE p_cursor_key IS NULL
+  OR (c.key, (c.request).id) > (p_cursor_key::numeric, p_cursor_id)
+  ORDER BY c.key, (c.request).id
+  LIMIT LEAST(GREATEST(p_limit, 1), 50);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION search_requests(text, text[], text, text, uuid, integer) TO anon, authenticated;
@@ -0,0 +1,175 @@
+/*
+  # Request categories, tags and location
+
+  1. Changes
+    - `requests` gains:
+      - `category` (text) - medical, shelter, food, education, disaster or other
+      - `tags` (text[]) - free-form, stored lowercase, at most 10
+      - `country_code` (text) - ISO 3166-1 alpha-2
+      - `region` (text) - state, province or city
+      - `latitude`, `longitude` (double precision, optional, set together)
+    - `search_requests` gains category, tag and country filters, and free
+      text also matches tags exactly
+
+  2. New Functions
+    - `request_map_points(p_statuses)` - id, title, category, location and
+      funding of requests with a country, for the browse map
+
+  3. Security
+    - Both functions run as the caller, so only visible requests are returned
+*/
+
+ALTER TABLE requests
+  ADD COLUMN IF NOT EXISTS category text NOT NULL DEFAULT 'other'
+    CHECK (category IN ('medical', 'shelter', 'food', 'education', 'disaster', 'other')),
+  ADD COLUMN IF NOT EXISTS tags text[] NOT NULL DEFAULT '{}'
+    CHECK (cardinality(tags) <= 10),
+  ADD COLUMN IF NOT EXISTS country_code text CHECK (country_code ~ '^[A-Z]{2}$'),
+  ADD COLUMN IF NOT EXISTS region text,
+  ADD COLUMN IF NOT EXISTS latitude double precision CHECK (latitude BETWEEN -90 AND 90),
+  ADD COLUMN IF NOT EXISTS longitude double precision CHECK (longitude BETWEEN -180 AND 180);
+
+ALTER TABLE requests
+  ADD CONSTRAINT requests_coordinates_pair CHECK ((latitude IS NULL) = (longitude IS NULL));
+
+CREATE INDEX IF NOT EXISTS requests_category_idx ON requests(category);
+CREATE INDEX IF NOT EXISTS requests_country_code_idx ON requests(country_code);
+CREATE INDEX IF NOT EXISTS requests_tags_idx ON requests USING gin(tags);
+
+-- Tags are matched exactly, so normalise them on the way in
+CREATE OR REPLACE FUNCTION normalize_request_tags()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.tags := COALESCE(
+    ARRAY(
+      SELECT DISTINCT lower(trim(tag))
+      FROM unnest(NEW.tags) AS tag
+      WHERE trim(tag) <> ''
+    ),
+    '{}'
+  );
+  NEW.country_code := upper(NULLIF(trim(NEW.country_code), ''));
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER normalize_request_tags_trigger
+  BEFORE INSERT OR UPDATE OF tags, country_code ON requests
+  FOR EACH ROW
+  EXECUTE FUNCTION normalize_request_tags();
+
+DROP FUNCTION IF EXISTS search_requests(text, text[], text, text, uuid, integer);
+
+CREATE OR REPLACE FUNCTION search_requests(
+  p_query text DEFAULT NULL,
+  p_statuses text[] DEFAULT NULL,
+  p_sort text DEFAULT 'newest',
+  p_cursor_key text DEFAULT NULL,
+  p_cursor_id uuid DEFAULT NULL,
+  p_limit integer DEFAULT 12,
+  p_category text DEFAULT NULL,
+  p_tags text[] DEFAULT NULL,
+  p_country text DEFAULT NULL
+)
+RETURNS TABLE (
+  request requests,
+  requester jsonb,
+  vote_count bigint,
+  sort_key text,
+  total_count bigint
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  search_query tsquery;
+  search_text text;
+BEGIN
+  IF p_sort NOT IN ('newest', 'oldest', 'amount_high', 'amount_low', 'progress', 'urgent', 'ending_soon') THEN
+    RAISE EXCEPTION 'Unknown sort key: %', p_sort;
+  END IF;
+
+  search_text := NULLIF(trim(p_query), '');
+  IF search_text IS NOT NULL THEN
+    search_query := websearch_to_tsquery('english', search_text);
+  END IF;
+
+  RETURN QUERY
+  WITH matches AS (
+    SELECT
+      r AS request,
+      jsonb_build_object('id', p.id, 'username', p.username) AS requester,
+      -- Every order is expressed as an ascending numeric key so one keyset
+      -- condition works for all of them; requests without a future deadline
+      -- sort after every real timestamp for ending_soon
+      CASE p_sort
+        WHEN 'newest' THEN -EXTRACT(EPOCH FROM r.created_at)
+        WHEN 'oldest' THEN EXTRACT(EPOCH FROM r.created_at)
+        WHEN 'amount_high' THEN -r.amount_needed
+        WHEN 'amount_low' THEN r.amount_needed
+        WHEN 'progress' THEN -(COALESCE(r.amount_raised, 0) / r.amount_needed)
+        WHEN 'urgent' THEN COALESCE(r.amount_raised, 0) / r.amount_needed
+        WHEN 'ending_soon' THEN CASE
+          WHEN r.deadline > now() THEN EXTRACT(EPOCH FROM r.deadline)
+          ELSE 1e12
+        END
+      END AS key
+    FROM requests r
+    LEFT JOIN public_profiles p ON p.id = r.requester_id
+    WHERE (p_statuses IS NULL OR r.status = ANY(p_statuses))
+    AND (p_category IS NULL OR r.category = p_category)
+    AND (p_tags IS NULL OR r.tags @> p_tags)
+    AND (p_country IS NULL OR r.country_code = upper(p_country))
+    AND (
+      search_text IS NULL
+      OR r.search_vector @@ search_query
+      OR p.username ILIKE '%' || search_text || '%'
+      OR lower(search_text) = ANY(r.tags)
+    )
+  ),
+  counted AS (
+    SELECT m.*, COUNT(*) OVER () AS total
+    FROM matches m
+  )
+  SELECT
+    c.request,
+    c.requester,
+    (SELECT COUNT(*) FROM votes v WHERE v.request_id = (c.request).id),
+    c.key::text,
+    c.total
+  FROM counted c
+  WHERE p_cursor_key IS NULL
+  OR (c.key, (c.request).id) > (p_cursor_key::numeric, p_cursor_id)
+  ORDER BY c.key, (c.request).id
+  LIMIT LEAST(GREATEST(p_limit, 1), 50);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION search_requests(text, text[], text, text, uuid, integer, text, text[], text) TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION request_map_points(p_statuses text[] DEFAULT ARRAY['approved'])
+RETURNS TABLE (
+  id uuid,
+  title text,
+  category text,
+  country_code text,
+  region text,
+  latitude double precision,
+  longitude double precision,
+  amount_needed numeric,
+  amount_raised numeric
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT r.id, r.title, r.category, r.country_code, r.region, r.latitude, r.longitude, r.amount_needed, r.amount_raised
+  FROM requests r
+  WHERE r.country_code IS NOT NULL
+  AND (p_statuses IS NULL OR r.status = ANY(p_statuses))
+  ORDER BY r.created_at DESC
+  LIMIT 1000;
+$$;
+
+GRANT EXECUTE ON FUNCTION request_map_points(text[]) TO anon, authenticated;
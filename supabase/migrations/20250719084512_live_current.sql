@@ -0,0 +1,29 @@
+/*
+  # Realtime change feeds
+
+  1. Changes
+    - Add `requests`, `donations` and `votes` to the `supabase_realtime`
+      publication so dashboards can subscribe to `postgres_changes`
+
+  2. Security
+    - Realtime checks each table's existing RLS policies before delivering
+      an event, so subscribers only see rows they could already select
+*/
+
+DO $$
+DECLARE
+  t text;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+    RETURN;
+  END IF;
+
+  FOREACH t IN ARRAY ARRAY['requests', 'donations', 'votes'] LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = t
+    ) THEN
+      EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', t);
+    END IF;
+  END LOOP;
+END $$;
@@ -0,0 +1,285 @@
+/*
+  # Notifications for request, vote and donation events
+
+  1. Changes
+    - `notifications` gains delivery columns:
+      - `in_app` (boolean) - false when the user only wants the email
+      - `email_status` (pending/sent/failed/skipped) plus `email_attempts`,
+        `email_error` and `emailed_at`, maintained by the email worker
+    - Triggers create notifications for:
+      - `review_needed` - a new pending request, for every verifier
+      - `request_approved` / `request_rejected` / `request_completed` - for
+        the requester when the request status changes (`request_expired` is
+        still sent by `expire_requests()`)
+      - `vote_cast` - a verifier voted on the requester's request
+      - `donation_received` / `donation_confirmed` - a donation completed,
+        for the requester and the donor
+      - `donation_failed` - the donor's transaction could not be verified
+    - `notifications` is added to the realtime publication for the bell menu
+
+  2. New Tables
+    - `notification_preferences`
+      - `user_id` (uuid, references users)
+      - `type` (text) - one of the notification types above
+      - `in_app`, `email` (boolean)
+      - Missing rows mean the defaults: everything in-app, and email for
+        everything except `vote_cast`
+
+  3. Security
+    - Users manage their own preferences
+    - Preferences are applied by a BEFORE INSERT trigger, so every
+      notification source (including `expire_requests()`) respects them
+    - Trigger functions are SECURITY DEFINER since the acting user can't
+      insert notifications for others
+*/
+
+ALTER TABLE notifications
+  ADD COLUMN IF NOT EXISTS in_app boolean NOT NULL DEFAULT true,
+  ADD COLUMN IF NOT EXISTS email_status text NOT NULL DEFAULT 'skipped'
+    CHECK (email_status IN ('pending', 'sent', 'failed', 'skipped')),
+  ADD COLUMN IF NOT EXISTS email_attempts integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS email_error text,
+  ADD COLUMN IF NOT EXISTS emailed_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS notifications_email_pending_idx
+  ON notifications(created_at)
+  WHERE email_status = 'pending';
+
+CREATE INDEX IF NOT EXISTS notifications_unread_idx
+  ON notifications(user_id)
+  WHERE read_at IS NULL AND in_app;
+
+CREATE TABLE IF NOT EXISTS notification_preferences (
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  type text NOT NULL CHECK (type IN (
+    'review_needed', 'request_approved', 'request_rejected', 'request_completed',
+    'request_expired', 'vote_cast', 'donation_received', 'donation_confirmed', 'donation_failed'
+  )),
+  in_app boolean NOT NULL DEFAULT true,
+  email boolean NOT NULL DEFAULT true,
+  updated_at timestamptz DEFAULT now(),
+  PRIMARY KEY (user_id, type)
+);
+
+-- Enable RLS
+ALTER TABLE notification_preferences ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+CREATE POLICY "Users can read own notification preferences"
+  ON notification_preferences
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can insert own notification preferences"
+  ON notification_preferences
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update own notification preferences"
+  ON notification_preferences
+  FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can delete own notification preferences"
+  ON notification_preferences
+  FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE OR REPLACE FUNCTION apply_notification_preferences()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  pref notification_preferences;
+  wants_email boolean;
+BEGIN
+  SELECT * INTO pref
+  FROM notification_preferences
+  WHERE user_id = NEW.user_id AND type = NEW.type;
+
+  NEW.in_app := COALESCE(pref.in_app, true);
+  wants_email := COALESCE(pref.email, NEW.type <> 'vote_cast');
+
+  -- Nothing to deliver, so don't store it at all
+  IF NOT NEW.in_app AND NOT wants_email THEN
+    RETURN NULL;
+  END IF;
+
+  NEW.email_status := CASE WHEN wants_email THEN 'pending' ELSE 'skipped' END;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_notification_preferences_trigger
+  BEFORE INSERT ON notifications
+  FOR EACH ROW
+  EXECUTE FUNCTION apply_notification_preferences();
+
+CREATE OR REPLACE FUNCTION notify_request_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status = 'pending' THEN
+      INSERT INTO notifications (user_id, type, title, body, request_id)
+      SELECT
+        u.id,
+        'review_needed',
+        'New request to review: ' || NEW.title,
+        'A new donation request is waiting for verifier votes.',
+        NEW.id
+      FROM users u
+      WHERE u.role = 'verifier'
+      AND u.id <> NEW.requester_id;
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = 'approved' THEN
+    INSERT INTO notifications (user_id, type, title, body, request_id)
+    VALUES (
+      NEW.requester_id,
+      'request_approved',
+      'Request approved: ' || NEW.title,
+      'Verifiers approved your request. It is now open for donations.',
+      NEW.id
+    );
+  ELSIF NEW.status = 'rejected' THEN
+    INSERT INTO notifications (user_id, type, title, body, request_id)
+    VALUES (
+      NEW.requester_id,
+      'request_rejected',
+      'Request rejected: ' || NEW.title,
+      'Your request was not approved by the verifiers.',
+      NEW.id
+    );
+  ELSIF NEW.status = 'completed' THEN
+    INSERT INTO notifications (user_id, type, title, body, request_id)
+    VALUES (
+      NEW.requester_id,
+      'request_completed',
+      'Fully funded: ' || NEW.title,
+      'Your request reached its goal of ' || NEW.amount_needed || ' ETH.',
+      NEW.id
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_request_change_trigger
+  AFTER INSERT OR UPDATE OF status ON requests
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_request_change();
+
+CREATE OR REPLACE FUNCTION notify_vote_cast()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  req requests;
+BEGIN
+  SELECT * INTO req FROM requests WHERE id = NEW.request_id;
+
+  IF req.id IS NOT NULL AND req.requester_id <> NEW.voter_id THEN
+    INSERT INTO notifications (user_id, type, title, body, request_id)
+    VALUES (
+      req.requester_id,
+      'vote_cast',
+      'New vote on ' || req.title,
+      'A verifier voted to ' || NEW.vote_type || ' your request.',
+      req.id
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_vote_cast_trigger
+  AFTER INSERT ON votes
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_vote_cast();
+
+CREATE OR REPLACE FUNCTION notify_donation_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  req requests;
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO req FROM requests WHERE id = NEW.request_id;
+  IF req.id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = 'completed' THEN
+    INSERT INTO notifications (user_id, type, title, body, request_id)
+    VALUES
+      (
+        req.requester_id,
+        'donation_received',
+        'New donation to ' || req.title,
+        'You received a donation of ' || NEW.amount || ' ETH.',
+        req.id
+      ),
+      (
+        NEW.donor_id,
+        'donation_confirmed',
+        'Donation confirmed: ' || req.title,
+        'Your donation of ' || NEW.amount || ' ETH was confirmed on-chain. Thank you!',
+        req.id
+      );
+  ELSIF NEW.status = 'failed' THEN
+    INSERT INTO notifications (user_id, type, title, body, request_id)
+    VALUES (
+      NEW.donor_id,
+      'donation_failed',
+      'Donation could not be verified: ' || req.title,
+      'We could not verify your donation transaction ' || NEW.transaction_hash || '.',
+      req.id
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_donation_change_trigger
+  AFTER INSERT OR UPDATE OF status ON donations
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_donation_change();
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime')
+  AND NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'notifications'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
+  END IF;
+END $$;
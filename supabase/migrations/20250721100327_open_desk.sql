@@ -0,0 +1,241 @@
+/*
+  # Support inbox for the Contact page
+
+  1. New Tables
+    - `support_tickets`
+      - `id` (uuid, primary key)
+      - `name`, `email` (text) - who to reply to
+      - `subject` (text) - one of the Contact form topics
+      - `message` (text)
+      - `user_id` (uuid, references users, nullable) - set when signed in
+      - `status` (open/in_progress/waiting/closed)
+      - `assigned_to` (uuid, references users, nullable)
+      - `ip_hash` (text) - SHA-256 of the client IP, for rate limiting only
+      - `created_at`, `updated_at`, `closed_at` (timestamp)
+    - `support_ticket_messages`
+      - `id` (uuid, primary key)
+      - `ticket_id` (uuid, references support_tickets)
+      - `author_id` (uuid, references users, nullable)
+      - `is_staff` (boolean)
+      - `body` (text)
+      - `email_status`, `email_attempts`, `email_error`, `emailed_at` - staff
+        replies are emailed to the ticket address by the email worker
+
+  2. New Functions
+    - `submit_support_ticket(...)` - the only way to create a ticket:
+      - Silently drops submissions that fill the hidden honeypot field or
+        arrive less than 3 seconds after the form was shown
+      - Rejects messages with more than 3 links
+      - At most 3 tickets per email address and 5 per client IP per hour
+
+  3. Security
+    - Admins can read, assign, update and reply to every ticket
+    - Signed-in users can read their own tickets and the replies to them
+    - Staff replies move the ticket to `waiting` (on the customer)
+*/
+
+CREATE TABLE IF NOT EXISTS support_tickets (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL CHECK (char_length(name) BETWEEN 1 AND 100),
+  email text NOT NULL CHECK (email ~* '^[^@\s]+@[^@\s]+\.[^@\s]+$'),
+  subject text NOT NULL CHECK (subject IN ('general', 'support', 'partnership', 'verification', 'donation', 'other')),
+  message text NOT NULL CHECK (char_length(message) BETWEEN 10 AND 5000),
+  user_id uuid REFERENCES users(id) ON DELETE SET NULL,
+  status text NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'in_progress', 'waiting', 'closed')),
+  assigned_to uuid REFERENCES users(id) ON DELETE SET NULL,
+  ip_hash text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  closed_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS support_tickets_status_idx ON support_tickets(status, updated_at DESC);
+CREATE INDEX IF NOT EXISTS support_tickets_email_idx ON support_tickets(lower(email), created_at DESC);
+CREATE INDEX IF NOT EXISTS support_tickets_ip_hash_idx ON support_tickets(ip_hash, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS support_ticket_messages (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  ticket_id uuid NOT NULL REFERENCES support_tickets(id) ON DELETE CASCADE,
+  author_id uuid REFERENCES users(id) ON DELETE SET NULL,
+  is_staff boolean NOT NULL DEFAULT false,
+  body text NOT NULL CHECK (char_length(body) BETWEEN 1 AND 5000),
+  email_status text NOT NULL DEFAULT 'skipped' CHECK (email_status IN ('pending', 'sent', 'failed', 'skipped')),
+  email_attempts integer NOT NULL DEFAULT 0,
+  email_error text,
+  emailed_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS support_ticket_messages_ticket_idx ON support_ticket_messages(ticket_id, created_at);
+CREATE INDEX IF NOT EXISTS support_ticket_messages_email_pending_idx
+  ON support_ticket_messages(created_at)
+  WHERE email_status = 'pending';
+
+-- Enable RLS
+ALTER TABLE support_tickets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE support_ticket_messages ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+CREATE POLICY "Admins can read all support tickets"
+  ON support_tickets
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE POLICY "Users can read own support tickets"
+  ON support_tickets
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Admins can update support tickets"
+  ON support_tickets
+  FOR UPDATE
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can read all support messages"
+  ON support_ticket_messages
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE POLICY "Users can read messages on own support tickets"
+  ON support_ticket_messages
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM support_tickets t
+      WHERE t.id = support_ticket_messages.ticket_id
+      AND t.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can reply to support tickets"
+  ON support_ticket_messages
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (is_admin() AND is_staff AND author_id = auth.uid());
+
+CREATE OR REPLACE FUNCTION submit_support_ticket(
+  p_name text,
+  p_email text,
+  p_subject text,
+  p_message text,
+  p_honeypot text DEFAULT '',
+  p_elapsed_ms integer DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  client_ip text;
+  client_ip_hash text;
+  ticket_id uuid;
+BEGIN
+  -- Bots fill hidden fields and submit instantly. Report success anyway so
+  -- they have nothing to adapt to.
+  IF COALESCE(p_honeypot, '') <> '' OR COALESCE(p_elapsed_ms, 0) < 3000 THEN
+    RETURN NULL;
+  END IF;
+
+  p_name := btrim(p_name);
+  p_email := lower(btrim(p_email));
+  p_message := btrim(p_message);
+
+  IF p_name = '' OR p_email !~* '^[^@\s]+@[^@\s]+\.[^@\s]+$' THEN
+    RAISE EXCEPTION 'Please enter your name and a valid email address';
+  END IF;
+
+  IF char_length(p_message) < 10 THEN
+    RAISE EXCEPTION 'Please write a little more so we can help';
+  END IF;
+
+  IF (SELECT count(*) FROM regexp_matches(p_message, 'https?://', 'gi')) > 3 THEN
+    RAISE EXCEPTION 'Messages can contain at most 3 links';
+  END IF;
+
+  -- PostgREST exposes the request headers; the first forwarded address is the client
+  client_ip := btrim(split_part(
+    COALESCE(current_setting('request.headers', true)::json ->> 'x-forwarded-for', ''), ',', 1
+  ));
+  IF client_ip <> '' THEN
+    client_ip_hash := encode(sha256(convert_to(client_ip, 'UTF8')), 'hex');
+  END IF;
+
+  IF (
+    SELECT count(*) FROM support_tickets
+    WHERE lower(email) = p_email
+    AND created_at > now() - interval '1 hour'
+  ) >= 3 OR (
+    client_ip_hash IS NOT NULL AND (
+      SELECT count(*) FROM support_tickets
+      WHERE ip_hash = client_ip_hash
+      AND created_at > now() - interval '1 hour'
+    ) >= 5
+  ) THEN
+    RAISE EXCEPTION 'Too many messages sent recently. Please try again in an hour.';
+  END IF;
+
+  INSERT INTO support_tickets (name, email, subject, message, user_id, ip_hash)
+  VALUES (p_name, p_email, p_subject, p_message, auth.uid(), client_ip_hash)
+  RETURNING id INTO ticket_id;
+
+  RETURN ticket_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION submit_support_ticket(text, text, text, text, text, integer) TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION handle_support_reply()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.is_staff THEN
+    NEW.email_status := 'pending';
+
+    UPDATE support_tickets
+    SET status = 'waiting',
+        assigned_to = COALESCE(assigned_to, NEW.author_id)
+    WHERE id = NEW.ticket_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER handle_support_reply_trigger
+  BEFORE INSERT ON support_ticket_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION handle_support_reply();
+
+CREATE OR REPLACE FUNCTION set_support_ticket_closed_at()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.status = 'closed' AND OLD.status <> 'closed' THEN
+    NEW.closed_at := now();
+  ELSIF NEW.status <> 'closed' THEN
+    NEW.closed_at := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_support_ticket_closed_at_trigger
+  BEFORE UPDATE OF status ON support_tickets
+  FOR EACH ROW
+  EXECUTE FUNCTION set_support_ticket_closed_at();
+
+CREATE TRIGGER update_support_tickets_updated_at
+  BEFORE UPDATE ON support_tickets
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,168 @@
+/*
+  # Comment and Q&A threads on requests
+
+  1. New Tables
+    - `request_comments`
+      - `id` (uuid, primary key)
+      - `request_id` (uuid, references requests)
+      - `author_id` (uuid, references users, nullable) - kept as NULL if the
+        author's account is removed so replies keep their place
+      - `parent_id` (uuid, references request_comments, nullable) - the
+        comment this one replies to; NULL for top-level questions
+      - `body` (text, markdown)
+      - `edited_at` (timestamp) - set when the author changes the body
+      - `hidden_at`, `hidden_by`, `hidden_reason` - admin moderation
+      - `created_at`, `updated_at` (timestamp)
+
+  2. New Views
+    - `request_comment_threads` - comments with the author's username and
+      role, and whether the author is the request's requester. Runs as the
+      caller, so the `request_comments` policies still apply
+
+  3. Security
+    - Any signed-in user can read visible comments and post as themselves
+    - Authors can edit the body of their own comments; every other column
+      is protected by a trigger
+    - Hidden comments are only readable by their author and admins
+    - Admins can hide, restore and delete any comment
+*/
+
+CREATE TABLE IF NOT EXISTS request_comments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  request_id uuid NOT NULL REFERENCES requests(id) ON DELETE CASCADE,
+  author_id uuid REFERENCES users(id) ON DELETE SET NULL,
+  parent_id uuid REFERENCES request_comments(id) ON DELETE CASCADE,
+  body text NOT NULL CHECK (char_length(btrim(body)) BETWEEN 1 AND 5000),
+  edited_at timestamptz,
+  hidden_at timestamptz,
+  hidden_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  hidden_reason text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS request_comments_request_idx ON request_comments(request_id, created_at);
+CREATE INDEX IF NOT EXISTS request_comments_parent_idx ON request_comments(parent_id);
+CREATE INDEX IF NOT EXISTS request_comments_created_at_idx ON request_comments(created_at DESC);
+
+-- Enable RLS
+ALTER TABLE request_comments ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+CREATE POLICY "Authenticated users can read visible comments"
+  ON request_comments
+  FOR SELECT
+  TO authenticated
+  USING (hidden_at IS NULL OR author_id = auth.uid() OR is_admin());
+
+CREATE POLICY "Authenticated users can post comments"
+  ON request_comments
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (author_id = auth.uid() AND hidden_at IS NULL);
+
+CREATE POLICY "Authors can edit own comments"
+  ON request_comments
+  FOR UPDATE
+  TO authenticated
+  USING (author_id = auth.uid() AND hidden_at IS NULL)
+  WITH CHECK (author_id = auth.uid());
+
+CREATE POLICY "Admins can moderate comments"
+  ON request_comments
+  FOR UPDATE
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can delete comments"
+  ON request_comments
+  FOR DELETE
+  TO authenticated
+  USING (is_admin());
+
+CREATE OR REPLACE FUNCTION check_request_comment()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.parent_id IS NOT NULL AND NOT EXISTS (
+      SELECT 1 FROM request_comments
+      WHERE id = NEW.parent_id
+      AND request_id = NEW.request_id
+    ) THEN
+      RAISE EXCEPTION 'Replies must belong to the same request as their parent';
+    END IF;
+
+    NEW.edited_at := NULL;
+    NEW.hidden_by := NULL;
+    NEW.hidden_reason := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.request_id IS DISTINCT FROM OLD.request_id
+    OR NEW.author_id IS DISTINCT FROM OLD.author_id
+    OR NEW.parent_id IS DISTINCT FROM OLD.parent_id
+    OR NEW.created_at IS DISTINCT FROM OLD.created_at THEN
+    RAISE EXCEPTION 'Only the comment body can be changed';
+  END IF;
+
+  IF NOT (is_admin() OR COALESCE(auth.role(), '') = 'service_role' OR session_user = 'postgres') THEN
+    IF NEW.hidden_at IS DISTINCT FROM OLD.hidden_at
+      OR NEW.hidden_by IS DISTINCT FROM OLD.hidden_by
+      OR NEW.hidden_reason IS DISTINCT FROM OLD.hidden_reason THEN
+      RAISE EXCEPTION 'Only admins can moderate comments';
+    END IF;
+  END IF;
+
+  IF NEW.body IS DISTINCT FROM OLD.body THEN
+    NEW.edited_at := now();
+  END IF;
+
+  IF NEW.hidden_at IS NULL THEN
+    NEW.hidden_by := NULL;
+    NEW.hidden_reason := NULL;
+  ELSIF OLD.hidden_at IS NULL THEN
+    NEW.hidden_by := auth.uid();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_request_comment_trigger
+  BEFORE INSERT OR UPDATE ON request_comments
+  FOR EACH ROW
+  EXECUTE FUNCTION check_request_comment();
+
+CREATE TRIGGER update_request_comments_updated_at
+  BEFORE UPDATE ON request_comments
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE OR REPLACE VIEW request_comment_threads
+WITH (security_invoker = true) AS
+  SELECT
+    c.*,
+    p.username AS author_username,
+    p.role AS author_role,
+    (c.author_id IS NOT NULL AND c.author_id = r.requester_id) AS author_is_requester
+  FROM request_comments c
+  LEFT JOIN requests r ON r.id = c.request_id
+  LEFT JOIN public_profiles p ON p.id = c.author_id;
+
+GRANT SELECT ON request_comment_threads TO authenticated;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime')
+  AND NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'request_comments'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.request_comments;
+  END IF;
+END $$;
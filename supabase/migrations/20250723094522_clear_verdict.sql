@@ -0,0 +1,127 @@
+/*
+  # Vote rationale and review checklist
+
+  1. New Tables
+    - `review_checklist_items` - the checks verifiers confirm before voting
+      - `key` (text, primary key)
+      - `label` (text)
+      - `required` (boolean) - must be confirmed to vote `approve`
+      - `position` (integer) - display order
+      - `active` (boolean) - retired items stay for older votes' labels
+      - `updated_at` (timestamp)
+    - Seeded with identity checked, documents consistent and amount reasonable
+
+  2. Changes
+    - `votes.rationale` (text) - the verifier's reasoning, required for votes
+      cast through the app
+    - `votes.checklist` (jsonb) - the checklist as answered, an array of
+      `{ key, label, required, checked }`. The client sends `{ key, checked }`
+      and the trigger fills in the rest from the active items, so the stored
+      labels are the ones the verifier saw
+
+  3. Security
+    - Everyone authenticated can read the checklist; only admins can change it
+    - Approving requires every required item to be checked
+    - Votes the indexer mirrors from the contract (service role) are exempt,
+      since they were cast without the app
+*/
+
+CREATE TABLE IF NOT EXISTS review_checklist_items (
+  key text PRIMARY KEY CHECK (key ~ '^[a-z0-9_]+$'),
+  label text NOT NULL CHECK (char_length(label) BETWEEN 1 AND 200),
+  required boolean NOT NULL DEFAULT true,
+  position integer NOT NULL DEFAULT 0,
+  active boolean NOT NULL DEFAULT true,
+  updated_at timestamptz DEFAULT now()
+);
+
+INSERT INTO review_checklist_items (key, label, position) VALUES
+  ('identity_checked', 'Requester identity checked', 1),
+  ('documents_consistent', 'Documents are consistent with the request', 2),
+  ('amount_reasonable', 'Requested amount is reasonable', 3)
+ON CONFLICT (key) DO NOTHING;
+
+ALTER TABLE votes ADD COLUMN IF NOT EXISTS rationale text;
+ALTER TABLE votes ADD COLUMN IF NOT EXISTS checklist jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+-- Enable RLS
+ALTER TABLE review_checklist_items ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+CREATE POLICY "Anyone can read the review checklist"
+  ON review_checklist_items
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage the review checklist"
+  ON review_checklist_items
+  FOR ALL
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE TRIGGER update_review_checklist_items_updated_at
+  BEFORE UPDATE ON review_checklist_items
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION apply_vote_review()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  answers jsonb := COALESCE(NEW.checklist, '[]'::jsonb);
+BEGIN
+  NEW.rationale := NULLIF(btrim(COALESCE(NEW.rationale, '')), '');
+
+  -- Votes cast directly on the contract are mirrored by the indexer and
+  -- carry no review
+  IF NEW.rationale IS NULL AND (COALESCE(auth.role(), '') = 'service_role' OR session_user = 'postgres') THEN
+    NEW.checklist := '[]'::jsonb;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.rationale IS NULL OR char_length(NEW.rationale) < 10 THEN
+    RAISE EXCEPTION 'Please explain your vote in at least 10 characters';
+  END IF;
+
+  IF char_length(NEW.rationale) > 2000 THEN
+    RAISE EXCEPTION 'Vote rationale is limited to 2000 characters';
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(
+    jsonb_build_object(
+      'key', i.key,
+      'label', i.label,
+      'required', i.required,
+      'checked', EXISTS (
+        SELECT 1 FROM jsonb_array_elements(answers) a
+        WHERE a ->> 'key' = i.key
+        AND (a ->> 'checked')::boolean
+      )
+    )
+    ORDER BY i.position, i.key
+  ), '[]'::jsonb)
+  INTO NEW.checklist
+  FROM review_checklist_items i
+  WHERE i.active;
+
+  IF NEW.vote_type = 'approve' AND EXISTS (
+    SELECT 1 FROM jsonb_array_elements(NEW.checklist) c
+    WHERE (c ->> 'required')::boolean
+    AND NOT (c ->> 'checked')::boolean
+  ) THEN
+    RAISE EXCEPTION 'Confirm every required checklist item before approving';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_vote_review_trigger
+  BEFORE INSERT ON votes
+  FOR EACH ROW
+  EXECUTE FUNCTION apply_vote_review();
@@ -0,0 +1,282 @@
+/*
+  # Sign-In With Ethereum (EIP-4361) wallet verification
+
+  1. Changes
+    - `users.wallet_verified_at` (timestamp) - when the user last proved they
+      control `wallet_address`. Cleared whenever the address changes, and
+      only ever set by the wallet verification worker
+
+  2. New Tables
+    - `wallet_challenges`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references users)
+      - `address` (text) - the EIP-55 address being claimed
+      - `nonce` (text) - random, single use
+      - `message` (text) - the exact EIP-4361 message the wallet signs
+      - `signature` (text) - set by `submit_wallet_signature`
+      - `status` (issued/submitted/verified/failed)
+      - `error` (text)
+      - `issued_at`, `expires_at`, `verified_at` (timestamp)
+
+  3. New Functions
+    - `create_wallet_challenge(p_address, p_domain, p_uri, p_chain_id)` -
+      issues a challenge for the caller and returns it. Older unanswered
+      challenges for the caller are discarded
+    - `submit_wallet_signature(p_challenge_id, p_signature)` - stores the
+      signature for the worker to check
+    - `complete_wallet_challenge(p_challenge_id, p_error)` - service role only.
+      Called by workers/verifyWalletSignatures.ts once it has recovered the
+      signer: with no error it sets `users.wallet_address` and
+      `wallet_verified_at`, otherwise marks the challenge failed
+
+  4. Security
+    - Users can read their own challenges; all writes go through the functions
+    - Users cannot set `wallet_verified_at` themselves
+    - New requests and donations require the requester's or donor's wallet to
+      be verified. Existing wallets are not grandfathered in: they must be
+      verified once before their next request or donation
+*/
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS wallet_verified_at timestamptz;
+
+CREATE TABLE IF NOT EXISTS wallet_challenges (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  address text NOT NULL CHECK (is_valid_ethereum_address(address)),
+  nonce text NOT NULL UNIQUE,
+  message text NOT NULL,
+  signature text,
+  status text NOT NULL DEFAULT 'issued' CHECK (status IN ('issued', 'submitted', 'verified', 'failed')),
+  error text,
+  issued_at timestamptz NOT NULL DEFAULT now(),
+  expires_at timestamptz NOT NULL DEFAULT now() + interval '10 minutes',
+  verified_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS wallet_challenges_user_idx ON wallet_challenges(user_id, issued_at DESC);
+CREATE INDEX IF NOT EXISTS wallet_challenges_submitted_idx
+  ON wallet_challenges(issued_at)
+  WHERE status = 'submitted';
+
+-- Enable RLS
+ALTER TABLE wallet_challenges ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+CREATE POLICY "Users can read own wallet challenges"
+  ON wallet_challenges
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE OR REPLACE FUNCTION protect_wallet_verification()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  trusted boolean := COALESCE(auth.role(), '') = 'service_role' OR session_user = 'postgres';
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NOT trusted THEN
+      NEW.wallet_verified_at := NULL;
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.wallet_verified_at IS DISTINCT FROM OLD.wallet_verified_at AND NOT trusted THEN
+    RAISE EXCEPTION 'Wallets can only be verified by signing a challenge';
+  END IF;
+
+  -- A new address has to be proven again
+  IF NEW.wallet_address IS DISTINCT FROM OLD.wallet_address
+    AND NEW.wallet_verified_at IS NOT DISTINCT FROM OLD.wallet_verified_at THEN
+    NEW.wallet_verified_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_wallet_verification_trigger
+  BEFORE INSERT OR UPDATE ON users
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_wallet_verification();
+
+CREATE OR REPLACE FUNCTION create_wallet_challenge(
+  p_address text,
+  p_domain text,
+  p_uri text,
+  p_chain_id integer
+)
+RETURNS wallet_challenges
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller users;
+  challenge wallet_challenges;
+  challenge_nonce text := replace(gen_random_uuid()::text, '-', '');
+  issued timestamptz := now();
+BEGIN
+  SELECT * INTO caller FROM users WHERE id = auth.uid();
+  IF caller.id IS NULL THEN
+    RAISE EXCEPTION 'Sign in to verify a wallet';
+  END IF;
+
+  IF NOT is_valid_ethereum_address(p_address) THEN
+    RAISE EXCEPTION 'Invalid Ethereum wallet address format';
+  END IF;
+
+  IF p_domain !~ '^[A-Za-z0-9.-]+(:[0-9]+)?$' OR p_uri !~ '^https?://' OR p_chain_id IS NULL OR p_chain_id <= 0 THEN
+    RAISE EXCEPTION 'Invalid sign-in request';
+  END IF;
+
+  IF caller.role <> 'admin' AND EXISTS (
+    SELECT 1 FROM users
+    WHERE lower(wallet_address) = lower(p_address)
+    AND role = caller.role
+    AND id <> caller.id
+  ) THEN
+    RAISE EXCEPTION 'A % with this wallet address already exists. Same role users cannot share wallet addresses.', caller.role;
+  END IF;
+
+  DELETE FROM wallet_challenges
+  WHERE user_id = caller.id
+  AND status IN ('issued', 'submitted');
+
+  INSERT INTO wallet_challenges (user_id, address, nonce, message, issued_at, expires_at)
+  VALUES (
+    caller.id,
+    p_address,
+    challenge_nonce,
+    format(
+      E'%s wants you to sign in with your Ethereum account:\n%s\n\n%s\n\nURI: %s\nVersion: 1\nChain ID: %s\nNonce: %s\nIssued At: %s\nExpiration Time: %s',
+      p_domain,
+      p_address,
+      'Confirm that this wallet belongs to your DeCriCo account (' || caller.username || ').',
+      p_uri,
+      p_chain_id,
+      challenge_nonce,
+      to_char(issued AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS"Z"'),
+      to_char((issued + interval '10 minutes') AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS"Z"')
+    ),
+    issued,
+    issued + interval '10 minutes'
+  )
+  RETURNING * INTO challenge;
+
+  RETURN challenge;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_wallet_challenge(text, text, text, integer) TO authenticated;
+
+CREATE OR REPLACE FUNCTION submit_wallet_signature(p_challenge_id uuid, p_signature text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_signature !~ '^0x[0-9a-fA-F]{130}$' THEN
+    RAISE EXCEPTION 'Malformed signature';
+  END IF;
+
+  UPDATE wallet_challenges
+  SET signature = p_signature,
+      status = 'submitted'
+  WHERE id = p_challenge_id
+  AND user_id = auth.uid()
+  AND status = 'issued'
+  AND expires_at > now();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This sign-in request has expired. Please try again.';
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION submit_wallet_signature(uuid, text) TO authenticated;
+
+CREATE OR REPLACE FUNCTION complete_wallet_challenge(p_challenge_id uuid, p_error text DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  challenge wallet_challenges;
+BEGIN
+  SELECT * INTO challenge
+  FROM wallet_challenges
+  WHERE id = p_challenge_id
+  AND status = 'submitted'
+  FOR UPDATE;
+
+  IF challenge.id IS NULL THEN
+    RETURN;
+  END IF;
+
+  IF p_error IS NOT NULL THEN
+    UPDATE wallet_challenges SET status = 'failed', error = p_error WHERE id = challenge.id;
+    RETURN;
+  END IF;
+
+  BEGIN
+    UPDATE users
+    SET wallet_address = challenge.address,
+        wallet_verified_at = now()
+    WHERE id = challenge.user_id;
+  EXCEPTION WHEN others THEN
+    -- e.g. another account claimed the address in the meantime
+    UPDATE wallet_challenges SET status = 'failed', error = SQLERRM WHERE id = challenge.id;
+    RETURN;
+  END;
+
+  UPDATE wallet_challenges
+  SET status = 'verified',
+      verified_at = now()
+  WHERE id = challenge.id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION complete_wallet_challenge(uuid, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION complete_wallet_challenge(uuid, text) TO service_role;
+
+-- Requests pay out to, and donations are matched against, the profile
+-- wallet, so both need it proven first
+CREATE OR REPLACE FUNCTION require_verified_wallet()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  owner_id uuid := (to_jsonb(NEW) ->> CASE TG_TABLE_NAME WHEN 'donations' THEN 'donor_id' ELSE 'requester_id' END)::uuid;
+BEGIN
+  IF COALESCE(auth.role(), '') = 'service_role' OR session_user = 'postgres' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM users
+    WHERE id = owner_id
+    AND wallet_address IS NOT NULL
+    AND wallet_verified_at IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION 'Verify your wallet by signing in with Ethereum before continuing';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER require_verified_wallet_trigger
+  BEFORE INSERT ON requests
+  FOR EACH ROW
+  EXECUTE FUNCTION require_verified_wallet();
+
+CREATE TRIGGER require_verified_wallet_trigger
+  BEFORE INSERT ON donations
+  FOR EACH ROW
+  EXECUTE FUNCTION require_verified_wallet();
@@ -0,0 +1,205 @@
+/*
+  # Verifier applications
+
+  1. Changes
+    - New role `verifier_pending`. Signing up as a verifier now creates a
+      `verifier_pending` user, who can't vote until an admin approves their
+      application. Existing verifiers keep their role
+    - New notification type `verifier_application`, sent to the applicant
+      when their application is reviewed
+
+  2. New Tables
+    - `verifier_applications`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references users)
+      - `credentials` (text) - relevant experience and qualifications
+      - `region` (text) - where the applicant can verify requests
+      - `reference_contacts` (text) - people who can vouch for the applicant
+      - `status` (pending/approved/rejected)
+      - `review_note` (text) - the admin's note, required when rejecting
+      - `reviewed_by` (uuid, references users), `reviewed_at` (timestamp)
+      - `chain_tx_hash` (text) - the `addVerifier` transaction, if one was needed
+      - `created_at`, `updated_at` (timestamp)
+
+  3. New Functions
+    - `review_verifier_application(p_application_id, p_approve, p_note, p_tx_hash)` -
+      admin only. Approving makes the applicant a `verifier`; the admin
+      registers their wallet with `addVerifier` on the contract first.
+      Rejected applicants stay `verifier_pending` and may apply again
+
+  4. Security
+    - Applicants can submit one pending application at a time and read their own
+    - Admins can read all applications; reviews go through the function
+    - Only admins (or the service role) can make someone a `verifier`
+*/
+
+ALTER TABLE users DROP CONSTRAINT IF EXISTS users_role_check;
+ALTER TABLE users ADD CONSTRAINT users_role_check
+  CHECK (role IN ('donor', 'verifier', 'verifier_pending', 'requester', 'admin'));
+
+ALTER TABLE notification_preferences DROP CONSTRAINT IF EXISTS notification_preferences_type_check;
+ALTER TABLE notification_preferences ADD CONSTRAINT notification_preferences_type_check
+  CHECK (type IN (
+    'review_needed', 'request_approved', 'request_rejected', 'request_completed',
+    'request_expired', 'vote_cast', 'donation_received', 'donation_confirmed', 'donation_failed',
+    'verifier_application'
+  ));
+
+CREATE TABLE IF NOT EXISTS verifier_applications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  credentials text NOT NULL CHECK (char_length(credentials) BETWEEN 20 AND 5000),
+  region text NOT NULL CHECK (char_length(region) BETWEEN 2 AND 200),
+  reference_contacts text NOT NULL CHECK (char_length(reference_contacts) BETWEEN 1 AND 2000),
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  review_note text,
+  reviewed_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  reviewed_at timestamptz,
+  chain_tx_hash text CHECK (chain_tx_hash ~ '^0x[0-9a-fA-F]{64}$'),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS verifier_applications_user_idx ON verifier_applications(user_id, created_at DESC);
+CREATE UNIQUE INDEX IF NOT EXISTS verifier_applications_one_pending_idx
+  ON verifier_applications(user_id)
+  WHERE status = 'pending';
+
+-- Enable RLS
+ALTER TABLE verifier_applications ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+CREATE POLICY "Applicants can read own verifier applications"
+  ON verifier_applications
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Pending verifiers can apply"
+  ON verifier_applications
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    user_id = auth.uid()
+    AND status = 'pending'
+    AND reviewed_by IS NULL
+    AND reviewed_at IS NULL
+    AND chain_tx_hash IS NULL
+    AND EXISTS (
+      SELECT 1 FROM users
+      WHERE id = auth.uid()
+      AND role = 'verifier_pending'
+    )
+  );
+
+CREATE POLICY "Admins can read verifier applications"
+  ON verifier_applications
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE TRIGGER update_verifier_applications_updated_at
+  BEFORE UPDATE ON verifier_applications
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Self-selected verifiers start out pending, and only an admin can promote
+-- anyone to verifier
+CREATE OR REPLACE FUNCTION guard_verifier_role()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.role <> 'verifier'
+    OR COALESCE(auth.role(), '') = 'service_role'
+    OR session_user = 'postgres'
+    OR is_admin() THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.role := 'verifier_pending';
+  ELSIF OLD.role <> 'verifier' THEN
+    RAISE EXCEPTION 'Verifier access is granted by an admin after reviewing your application';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_verifier_role_trigger
+  BEFORE INSERT OR UPDATE OF role ON users
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_verifier_role();
+
+CREATE OR REPLACE FUNCTION review_verifier_application(
+  p_application_id uuid,
+  p_approve boolean,
+  p_note text DEFAULT NULL,
+  p_tx_hash text DEFAULT NULL
+)
+RETURNS verifier_applications
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  application verifier_applications;
+  applicant users;
+  note text := NULLIF(btrim(COALESCE(p_note, '')), '');
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can review verifier applications';
+  END IF;
+
+  SELECT * INTO application
+  FROM verifier_applications
+  WHERE id = p_application_id
+  FOR UPDATE;
+
+  IF application.id IS NULL OR application.status <> 'pending' THEN
+    RAISE EXCEPTION 'This application has already been reviewed';
+  END IF;
+
+  SELECT * INTO applicant FROM users WHERE id = application.user_id;
+
+  IF p_approve THEN
+    IF applicant.role <> 'verifier_pending' THEN
+      RAISE EXCEPTION 'Applicant is no longer a pending verifier';
+    END IF;
+
+    -- addVerifier trusts the wallet, so it has to be proven first
+    IF applicant.wallet_address IS NULL OR applicant.wallet_verified_at IS NULL THEN
+      RAISE EXCEPTION 'The applicant has not verified their wallet yet';
+    END IF;
+
+    UPDATE users SET role = 'verifier' WHERE id = applicant.id;
+  ELSIF note IS NULL THEN
+    RAISE EXCEPTION 'Please give the applicant a reason for the rejection';
+  END IF;
+
+  UPDATE verifier_applications
+  SET status = CASE WHEN p_approve THEN 'approved' ELSE 'rejected' END,
+      review_note = note,
+      reviewed_by = auth.uid(),
+      reviewed_at = now(),
+      chain_tx_hash = CASE WHEN p_approve THEN p_tx_hash END
+  WHERE id = application.id
+  RETURNING * INTO application;
+
+  INSERT INTO notifications (user_id, type, title, body)
+  VALUES (
+    applicant.id,
+    'verifier_application',
+    CASE WHEN p_approve THEN 'Verifier application approved' ELSE 'Verifier application not approved' END,
+    CASE
+      WHEN p_approve THEN 'You can now review and vote on donation requests.'
+      ELSE 'Reason: ' || note || E'\n\nYou can update your details and apply again.'
+    END
+  );
+
+  RETURN application;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION review_verifier_application(uuid, boolean, text, text) TO authenticated;
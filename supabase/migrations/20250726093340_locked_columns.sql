@@ -0,0 +1,193 @@
+/*
+  # Lock down roles and other sensitive columns
+
+  1. Changes
+    - Users and requesters can no longer UPDATE their own `users` / `requests`
+      rows directly: "Users can update own profile" let anyone set their own
+      `role`, and "Requesters can update own requests" let requesters set
+      their own `status` and `amount_raised`
+    - Owners edit through SECURITY DEFINER functions instead, which only
+      touch the columns they are allowed to change
+
+  2. New Functions
+    - `update_own_profile(p_username)` - the caller's username
+    - `update_own_request(p_request_id, p_title, p_description, p_category,
+      p_tags, p_country_code, p_region, p_latitude, p_longitude)` - the
+      descriptive fields of one of the caller's requests. The amount and
+      deadline are fixed on-chain at creation
+    - `is_privileged_write()` - true for admins, the service role, and
+      SECURITY DEFINER functions (which run as their owner rather than as
+      `authenticated`)
+
+  3. Security
+    - Triggers reject changes to protected columns unless
+      `is_privileged_write()`:
+      - `users`: `id`, `email`, `role`, `wallet_address`, `wallet_verified_at`,
+        `created_at`. Self sign-up is limited to the donor, requester and
+        pending verifier roles
+      - `requests`: `requester_id`, `status`, `amount_needed`, `amount_raised`,
+        `chain_request_id`, `deadline`, `created_at`. New requests must start
+        `pending` with nothing raised
+    - Ledger, vote tally, expiry and wallet verification already run as
+      SECURITY DEFINER functions and are unaffected
+    - Policy tests live in supabase/tests/database and run with
+      `supabase test db`
+*/
+
+DROP POLICY IF EXISTS "Users can update own profile" ON users;
+DROP POLICY IF EXISTS "Requesters can update own requests" ON requests;
+
+CREATE OR REPLACE FUNCTION is_privileged_write()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT current_user NOT IN ('authenticated', 'anon') OR is_admin();
+$$;
+
+CREATE OR REPLACE FUNCTION protect_user_columns()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF is_privileged_write() THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.role NOT IN ('donor', 'requester', 'verifier_pending') THEN
+      RAISE EXCEPTION 'You cannot sign up as %', NEW.role;
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.id IS DISTINCT FROM OLD.id
+    OR NEW.email IS DISTINCT FROM OLD.email
+    OR NEW.role IS DISTINCT FROM OLD.role
+    OR NEW.wallet_address IS DISTINCT FROM OLD.wallet_address
+    OR NEW.wallet_verified_at IS DISTINCT FROM OLD.wallet_verified_at
+    OR NEW.created_at IS DISTINCT FROM OLD.created_at THEN
+    RAISE EXCEPTION 'Only admins can change the role, email or wallet of a profile';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_user_columns_trigger
+  BEFORE INSERT OR UPDATE ON users
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_user_columns();
+
+CREATE OR REPLACE FUNCTION protect_request_columns()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF is_privileged_write() THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status <> 'pending' OR COALESCE(NEW.amount_raised, 0) <> 0 THEN
+      RAISE EXCEPTION 'New requests must start pending with nothing raised';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.requester_id IS DISTINCT FROM OLD.requester_id
+    OR NEW.status IS DISTINCT FROM OLD.status
+    OR NEW.amount_needed IS DISTINCT FROM OLD.amount_needed
+    OR NEW.amount_raised IS DISTINCT FROM OLD.amount_raised
+    OR NEW.chain_request_id IS DISTINCT FROM OLD.chain_request_id
+    OR NEW.deadline IS DISTINCT FROM OLD.deadline
+    OR NEW.created_at IS DISTINCT FROM OLD.created_at THEN
+    RAISE EXCEPTION 'The status, amounts and deadline of a request can only change through votes, donations or an admin';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_request_columns_trigger
+  BEFORE INSERT OR UPDATE ON requests
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_request_columns();
+
+CREATE OR REPLACE FUNCTION update_own_profile(p_username text)
+RETURNS users
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  profile users;
+BEGIN
+  IF p_username !~ '^[A-Za-z0-9_]{3,}$' THEN
+    RAISE EXCEPTION 'Username must be at least 3 characters: letters, numbers and underscores';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM users WHERE username = p_username AND id <> auth.uid()) THEN
+    RAISE EXCEPTION 'This username is already taken. Please choose a different username.';
+  END IF;
+
+  UPDATE users
+  SET username = p_username
+  WHERE id = auth.uid()
+  RETURNING * INTO profile;
+
+  IF profile.id IS NULL THEN
+    RAISE EXCEPTION 'Sign in to edit your profile';
+  END IF;
+
+  RETURN profile;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION update_own_profile(text) TO authenticated;
+
+CREATE OR REPLACE FUNCTION update_own_request(
+  p_request_id uuid,
+  p_title text,
+  p_description text,
+  p_category text,
+  p_tags text[],
+  p_country_code text,
+  p_region text,
+  p_latitude double precision,
+  p_longitude double precision
+)
+RETURNS requests
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  request requests;
+BEGIN
+  IF btrim(COALESCE(p_title, '')) = '' OR btrim(COALESCE(p_description, '')) = '' THEN
+    RAISE EXCEPTION 'A request needs a title and description';
+  END IF;
+
+  UPDATE requests
+  SET title = btrim(p_title),
+      description = p_description,
+      category = p_category,
+      tags = COALESCE(p_tags, '{}'),
+      country_code = p_country_code,
+      region = NULLIF(btrim(COALESCE(p_region, '')), ''),
+      latitude = p_latitude,
+      longitude = p_longitude
+  WHERE id = p_request_id
+  AND requester_id = auth.uid()
+  RETURNING * INTO request;
+
+  IF request.id IS NULL THEN
+    RAISE EXCEPTION 'Request not found';
+  END IF;
+
+  RETURN request;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION update_own_request(uuid, text, text, text, text[], text, text, double precision, double precision) TO authenticated;
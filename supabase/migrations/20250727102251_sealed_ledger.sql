@@ -0,0 +1,245 @@
+/*
+  # Tamper-evident audit log
+
+  1. New Tables
+    - `audit_log` - one row per privileged change, append-only
+      - `id` (bigint) - also the order of the hash chain
+      - `occurred_at` (timestamp)
+      - `actor_id` (uuid) - the signed-in user, null for the service role.
+        Not a foreign key, so entries outlive the user
+      - `actor_role` (text) - the actor's role at the time, or `service_role`
+      - `action` (insert/update/delete)
+      - `table_name`, `record_id` (text)
+      - `before`, `after` (jsonb) - the row before and after the change
+      - `prev_hash`, `hash` (text) - `hash` is the SHA-256 of `prev_hash` and
+        the entry, so editing or removing any entry breaks every later hash
+
+  2. Changes
+    - Triggers log every insert, update and delete made by an admin or the
+      service role on `users`, `requests`, `donations`, `verifier_applications`,
+      `governance_settings`, `verifier_weights`, `review_checklist_items` and
+      `request_comments`. Changes made by other users (and by the triggers
+      their actions fire) are not privileged and are not logged
+
+  3. New Functions
+    - `verify_audit_log()` - admin only. Recomputes the chain and returns how
+      many entries were checked and the first entry that doesn't match
+
+  4. Security
+    - Only admins can read the log
+    - Nobody can write to it directly; UPDATE, DELETE and TRUNCATE are
+      rejected for every role, including the service role
+*/
+
+CREATE TABLE IF NOT EXISTS audit_log (
+  id bigint PRIMARY KEY,
+  occurred_at timestamptz NOT NULL DEFAULT now(),
+  actor_id uuid,
+  actor_role text,
+  action text NOT NULL CHECK (action IN ('insert', 'update', 'delete')),
+  table_name text NOT NULL,
+  record_id text,
+  before jsonb,
+  after jsonb,
+  prev_hash text,
+  hash text NOT NULL
+);
+
+CREATE SEQUENCE IF NOT EXISTS audit_log_id_seq OWNED BY audit_log.id;
+
+CREATE INDEX IF NOT EXISTS audit_log_occurred_at_idx ON audit_log(occurred_at DESC);
+CREATE INDEX IF NOT EXISTS audit_log_table_record_idx ON audit_log(table_name, record_id);
+CREATE INDEX IF NOT EXISTS audit_log_actor_idx ON audit_log(actor_id);
+
+-- Enable RLS
+ALTER TABLE audit_log ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+CREATE POLICY "Admins can read the audit log"
+  ON audit_log
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+REVOKE INSERT, UPDATE, DELETE, TRUNCATE ON audit_log FROM PUBLIC, anon, authenticated, service_role;
+
+CREATE OR REPLACE FUNCTION audit_log_hash(
+  p_prev_hash text,
+  p_id bigint,
+  p_occurred_at timestamptz,
+  p_actor_id uuid,
+  p_actor_role text,
+  p_action text,
+  p_table_name text,
+  p_record_id text,
+  p_before jsonb,
+  p_after jsonb
+)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT encode(sha256(convert_to(concat_ws('|',
+    COALESCE(p_prev_hash, ''),
+    p_id,
+    to_char(p_occurred_at AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.US'),
+    COALESCE(p_actor_id::text, ''),
+    COALESCE(p_actor_role, ''),
+    p_action,
+    p_table_name,
+    COALESCE(p_record_id, ''),
+    COALESCE(p_before::text, ''),
+    COALESCE(p_after::text, '')
+  ), 'UTF8')), 'hex');
+$$;
+
+CREATE OR REPLACE FUNCTION reject_audit_log_change()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'audit_log is append-only';
+END;
+$$;
+
+CREATE TRIGGER reject_audit_log_change_trigger
+  BEFORE UPDATE OR DELETE ON audit_log
+  FOR EACH ROW
+  EXECUTE FUNCTION reject_audit_log_change();
+
+CREATE TRIGGER reject_audit_log_truncate_trigger
+  BEFORE TRUNCATE ON audit_log
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION reject_audit_log_change();
+
+-- TG_ARGV[0] names the primary key column
+CREATE OR REPLACE FUNCTION audit_row_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  actor_role text;
+  old_row jsonb;
+  new_row jsonb;
+  entry audit_log;
+BEGIN
+  IF COALESCE(auth.role(), '') = 'service_role' THEN
+    actor_role := 'service_role';
+  ELSIF is_admin() THEN
+    actor_role := 'admin';
+  ELSE
+    RETURN NULL;
+  END IF;
+
+  -- The search vector is derived from the title and description
+  IF TG_OP <> 'INSERT' THEN
+    old_row := to_jsonb(OLD) - 'search_vector';
+  END IF;
+  IF TG_OP <> 'DELETE' THEN
+    new_row := to_jsonb(NEW) - 'search_vector';
+  END IF;
+
+  IF old_row = new_row THEN
+    RETURN NULL;
+  END IF;
+
+  -- One writer at a time, so every entry links to the one before it
+  PERFORM pg_advisory_xact_lock(hashtext('audit_log'));
+
+  entry.id := nextval('audit_log_id_seq');
+  entry.occurred_at := clock_timestamp();
+  entry.actor_id := auth.uid();
+  entry.actor_role := actor_role;
+  entry.action := lower(TG_OP);
+  entry.table_name := TG_TABLE_NAME;
+  entry.record_id := COALESCE(new_row, old_row) ->> TG_ARGV[0];
+  entry.before := old_row;
+  entry.after := new_row;
+
+  SELECT hash INTO entry.prev_hash
+  FROM audit_log
+  ORDER BY id DESC
+  LIMIT 1;
+
+  entry.hash := audit_log_hash(
+    entry.prev_hash, entry.id, entry.occurred_at, entry.actor_id, entry.actor_role,
+    entry.action, entry.table_name, entry.record_id, entry.before, entry.after
+  );
+
+  INSERT INTO audit_log VALUES (entry.*);
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER audit_users_trigger
+  AFTER INSERT OR UPDATE OR DELETE ON users
+  FOR EACH ROW EXECUTE FUNCTION audit_row_change('id');
+
+CREATE TRIGGER audit_requests_trigger
+  AFTER INSERT OR UPDATE OR DELETE ON requests
+  FOR EACH ROW EXECUTE FUNCTION audit_row_change('id');
+
+CREATE TRIGGER audit_donations_trigger
+  AFTER INSERT OR UPDATE OR DELETE ON donations
+  FOR EACH ROW EXECUTE FUNCTION audit_row_change('id');
+
+CREATE TRIGGER audit_verifier_applications_trigger
+  AFTER INSERT OR UPDATE OR DELETE ON verifier_applications
+  FOR EACH ROW EXECUTE FUNCTION audit_row_change('id');
+
+CREATE TRIGGER audit_governance_settings_trigger
+  AFTER INSERT OR UPDATE OR DELETE ON governance_settings
+  FOR EACH ROW EXECUTE FUNCTION audit_row_change('id');
+
+CREATE TRIGGER audit_verifier_weights_trigger
+  AFTER INSERT OR UPDATE OR DELETE ON verifier_weights
+  FOR EACH ROW EXECUTE FUNCTION audit_row_change('verifier_id');
+
+CREATE TRIGGER audit_review_checklist_items_trigger
+  AFTER INSERT OR UPDATE OR DELETE ON review_checklist_items
+  FOR EACH ROW EXECUTE FUNCTION audit_row_change('key');
+
+CREATE TRIGGER audit_request_comments_trigger
+  AFTER INSERT OR UPDATE OR DELETE ON request_comments
+  FOR EACH ROW EXECUTE FUNCTION audit_row_change('id');
+
+CREATE OR REPLACE FUNCTION verify_audit_log()
+RETURNS TABLE (checked bigint, first_broken_id bigint)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  entry audit_log;
+  expected_prev text;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can verify the audit log';
+  END IF;
+
+  checked := 0;
+
+  FOR entry IN SELECT * FROM audit_log ORDER BY id LOOP
+    checked := checked + 1;
+
+    IF entry.prev_hash IS DISTINCT FROM expected_prev
+      OR entry.hash <> audit_log_hash(
+        entry.prev_hash, entry.id, entry.occurred_at, entry.actor_id, entry.actor_role,
+        entry.action, entry.table_name, entry.record_id, entry.before, entry.after
+      ) THEN
+      first_broken_id := entry.id;
+      RETURN NEXT;
+      RETURN;
+    END IF;
+
+    expected_prev := entry.hash;
+  END LOOP;
+
+  RETURN NEXT;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION verify_audit_log() TO authenticated;
@@ -0,0 +1,423 @@
+/*
+  # Soft delete and archival for users and requests
+
+  1. Changes
+    - `users.deleted_at` / `deleted_by` and `requests.deleted_at` /
+      `deleted_by` mark archived rows. Archived rows stay in place, so
+      donations, votes, withdrawals and milestones keep pointing at them
+    - Foreign keys from `requests`, `votes`, `donations`, `withdrawals`,
+      `request_milestones` and `milestone_votes` are now ON DELETE RESTRICT:
+      hard-deleting a user or request that has financial or voting history
+      fails instead of cascading it away
+    - Admins can no longer DELETE users or requests through the API
+    - The four-admin limit counts active admins only, and is only checked
+      when someone becomes an active admin
+
+  2. New Tables
+    - `archived_user_details` - the personal fields an archived user had,
+      kept so an admin can restore the account
+      - `user_id` (uuid, primary key, references users)
+      - `username`, `email`, `wallet_address` (text)
+      - `reason` (text) - the admin's note
+      - `archived_at` (timestamp)
+
+  3. New Views
+    - `archived_users` - archived accounts with their original details and
+      how many donations and votes they left behind
+    - `archived_requests` - archived requests with their original requester
+
+  4. New Functions
+    - `archive_user(p_user_id, p_reason)` - admin only. Replaces the username,
+      email and wallet with a tombstone (`deleted_user_…`), bans the login
+      and archives the user's requests that are still `pending`
+    - `restore_user(p_user_id)` - admin only. Puts the original details
+      back, lifts the ban and restores the requests archived with the user.
+      The wallet has to be verified again
+    - `archive_request(p_request_id)` - admins, or the requester while the
+      request is still `pending`
+    - `restore_request(p_request_id)` - admin only
+
+  5. Security
+    - Archived users can't read or change their own profile, so they are
+      signed out and fail every policy that looks up their role. An archived
+      admin loses admin rights at once
+    - Archived requests are hidden from everyone except admins and donors
+      who gave to them (who still need them for refunds)
+    - Both views run with the caller's rights and `archived_user_details` is
+      admin-only, so only admins see archived records
+    - The audit log keeps its history of archived rows as written
+*/
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS deleted_by uuid REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE requests ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+ALTER TABLE requests ADD COLUMN IF NOT EXISTS deleted_by uuid REFERENCES users(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS users_deleted_at_idx ON users(deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS requests_deleted_at_idx ON requests(deleted_at) WHERE deleted_at IS NOT NULL;
+
+ALTER TABLE requests DROP CONSTRAINT IF EXISTS requests_requester_id_fkey;
+ALTER TABLE requests ADD CONSTRAINT requests_requester_id_fkey
+  FOREIGN KEY (requester_id) REFERENCES users(id) ON DELETE RESTRICT;
+
+ALTER TABLE votes DROP CONSTRAINT IF EXISTS votes_request_id_fkey;
+ALTER TABLE votes ADD CONSTRAINT votes_request_id_fkey
+  FOREIGN KEY (request_id) REFERENCES requests(id) ON DELETE RESTRICT;
+ALTER TABLE votes DROP CONSTRAINT IF EXISTS votes_voter_id_fkey;
+ALTER TABLE votes ADD CONSTRAINT votes_voter_id_fkey
+  FOREIGN KEY (voter_id) REFERENCES users(id) ON DELETE RESTRICT;
+
+ALTER TABLE donations DROP CONSTRAINT IF EXISTS donations_request_id_fkey;
+ALTER TABLE donations ADD CONSTRAINT donations_request_id_fkey
+  FOREIGN KEY (request_id) REFERENCES requests(id) ON DELETE RESTRICT;
+ALTER TABLE donations DROP CONSTRAINT IF EXISTS donations_donor_id_fkey;
+ALTER TABLE donations ADD CONSTRAINT donations_donor_id_fkey
+  FOREIGN KEY (donor_id) REFERENCES users(id) ON DELETE RESTRICT;
+
+ALTER TABLE withdrawals DROP CONSTRAINT IF EXISTS withdrawals_request_id_fkey;
+ALTER TABLE withdrawals ADD CONSTRAINT withdrawals_request_id_fkey
+  FOREIGN KEY (request_id) REFERENCES requests(id) ON DELETE RESTRICT;
+ALTER TABLE withdrawals DROP CONSTRAINT IF EXISTS withdrawals_requester_id_fkey;
+ALTER TABLE withdrawals ADD CONSTRAINT withdrawals_requester_id_fkey
+  FOREIGN KEY (requester_id) REFERENCES users(id) ON DELETE RESTRICT;
+
+ALTER TABLE request_milestones DROP CONSTRAINT IF EXISTS request_milestones_request_id_fkey;
+ALTER TABLE request_milestones ADD CONSTRAINT request_milestones_request_id_fkey
+  FOREIGN KEY (request_id) REFERENCES requests(id) ON DELETE RESTRICT;
+
+ALTER TABLE milestone_votes DROP CONSTRAINT IF EXISTS milestone_votes_milestone_id_fkey;
+ALTER TABLE milestone_votes ADD CONSTRAINT milestone_votes_milestone_id_fkey
+  FOREIGN KEY (milestone_id) REFERENCES request_milestones(id) ON DELETE RESTRICT;
+ALTER TABLE milestone_votes DROP CONSTRAINT IF EXISTS milestone_votes_voter_id_fkey;
+ALTER TABLE milestone_votes ADD CONSTRAINT milestone_votes_voter_id_fkey
+  FOREIGN KEY (voter_id) REFERENCES users(id) ON DELETE RESTRICT;
+
+DROP POLICY IF EXISTS "Admins can delete users" ON users;
+DROP POLICY IF EXISTS "Admins can delete requests" ON requests;
+
+-- Archived admins lose their rights
+CREATE OR REPLACE FUNCTION is_admin()
+RETURNS boolean
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM users
+    WHERE id = auth.uid()
+    AND role = 'admin'
+    AND deleted_at IS NULL
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION check_admin_limit()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.role = 'admin' AND NEW.deleted_at IS NULL AND (
+    TG_OP = 'INSERT' OR OLD.role <> 'admin' OR OLD.deleted_at IS NOT NULL
+  ) THEN
+    IF (SELECT COUNT(*) FROM users WHERE role = 'admin' AND deleted_at IS NULL AND id <> NEW.id) >= 4 THEN
+      RAISE EXCEPTION 'Maximum number of admin users (4) reached';
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TABLE IF NOT EXISTS archived_user_details (
+  user_id uuid PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  username text NOT NULL,
+  email text NOT NULL,
+  wallet_address text,
+  reason text,
+  archived_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE archived_user_details ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+CREATE POLICY "Admins can read archived user details"
+  ON archived_user_details
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+-- Restrictive, so they apply on top of every existing SELECT policy
+CREATE POLICY "Archived users are hidden"
+  ON users
+  AS RESTRICTIVE
+  FOR SELECT
+  TO authenticated
+  USING (deleted_at IS NULL OR is_admin());
+
+CREATE POLICY "Archived requests are hidden"
+  ON requests
+  AS RESTRICTIVE
+  FOR SELECT
+  TO authenticated
+  USING (deleted_at IS NULL OR is_admin() OR has_donated_to(id));
+
+-- SECURITY DEFINER functions still act for the signed-in user, so stop an
+-- archived user editing their profile or their archived requests that way
+CREATE OR REPLACE FUNCTION protect_archived_rows()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF OLD.deleted_at IS NULL OR NEW.deleted_at IS NULL OR is_admin() THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_TABLE_NAME = 'users' AND COALESCE(auth.role(), '') <> 'service_role' THEN
+    RAISE EXCEPTION 'This account has been deleted';
+  END IF;
+
+  -- Donations and the indexer still update archived requests' totals
+  IF TG_TABLE_NAME = 'requests' AND (to_jsonb(OLD) ->> 'requester_id')::uuid = auth.uid() THEN
+    RAISE EXCEPTION 'This request has been deleted';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_archived_users_trigger
+  BEFORE UPDATE ON users
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_archived_rows();
+
+CREATE TRIGGER protect_archived_requests_trigger
+  BEFORE UPDATE ON requests
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_archived_rows();
+
+CREATE OR REPLACE FUNCTION archive_user(p_user_id uuid, p_reason text DEFAULT NULL)
+RETURNS users
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target users;
+  archived_at timestamptz := now();
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can delete users';
+  END IF;
+
+  IF p_user_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot delete your own account';
+  END IF;
+
+  SELECT * INTO target FROM users WHERE id = p_user_id FOR UPDATE;
+
+  IF target.id IS NULL THEN
+    RAISE EXCEPTION 'User not found';
+  END IF;
+
+  IF target.deleted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This user has already been deleted';
+  END IF;
+
+  INSERT INTO archived_user_details (user_id, username, email, wallet_address, reason, archived_at)
+  VALUES (target.id, target.username, target.email, target.wallet_address, NULLIF(btrim(COALESCE(p_reason, '')), ''), archived_at)
+  ON CONFLICT (user_id) DO UPDATE
+  SET username = EXCLUDED.username,
+      email = EXCLUDED.email,
+      wallet_address = EXCLUDED.wallet_address,
+      reason = EXCLUDED.reason,
+      archived_at = EXCLUDED.archived_at;
+
+  UPDATE users
+  SET username = 'deleted_user_' || left(replace(id::text, '-', ''), 12),
+      email = 'deleted+' || id || '@invalid',
+      wallet_address = NULL,
+      deleted_at = archived_at,
+      deleted_by = auth.uid()
+  WHERE id = target.id
+  RETURNING * INTO target;
+
+  -- Requests that never reached the chain go with their requester
+  UPDATE requests
+  SET deleted_at = archived_at,
+      deleted_by = auth.uid()
+  WHERE requester_id = target.id
+  AND status = 'pending'
+  AND deleted_at IS NULL;
+
+  DELETE FROM wallet_challenges WHERE user_id = target.id;
+
+  UPDATE auth.users SET banned_until = 'infinity' WHERE id = target.id;
+
+  RETURN target;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION archive_user(uuid, text) TO authenticated;
+
+CREATE OR REPLACE FUNCTION restore_user(p_user_id uuid)
+RETURNS users
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target users;
+  details archived_user_details;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can restore users';
+  END IF;
+
+  SELECT * INTO target FROM users WHERE id = p_user_id FOR UPDATE;
+  SELECT * INTO details FROM archived_user_details WHERE user_id = p_user_id;
+
+  IF target.deleted_at IS NULL OR details.user_id IS NULL THEN
+    RAISE EXCEPTION 'This user is not deleted';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM users WHERE (username = details.username OR email = details.email) AND id <> target.id) THEN
+    RAISE EXCEPTION 'Another account now uses this username or email';
+  END IF;
+
+  UPDATE requests
+  SET deleted_at = NULL,
+      deleted_by = NULL
+  WHERE requester_id = target.id
+  AND deleted_at = target.deleted_at;
+
+  UPDATE users
+  SET username = details.username,
+      email = details.email,
+      wallet_address = details.wallet_address,
+      deleted_at = NULL,
+      deleted_by = NULL
+  WHERE id = target.id
+  RETURNING * INTO target;
+
+  DELETE FROM archived_user_details WHERE user_id = target.id;
+
+  UPDATE auth.users SET banned_until = NULL WHERE id = target.id;
+
+  RETURN target;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION restore_user(uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION archive_request(p_request_id uuid)
+RETURNS requests
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  request requests;
+BEGIN
+  SELECT * INTO request FROM requests WHERE id = p_request_id FOR UPDATE;
+
+  IF request.id IS NULL OR request.deleted_at IS NOT NULL
+    OR NOT (is_admin() OR request.requester_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Request not found';
+  END IF;
+
+  IF NOT is_admin() AND request.status <> 'pending' THEN
+    RAISE EXCEPTION 'Only pending requests can be deleted';
+  END IF;
+
+  UPDATE requests
+  SET deleted_at = now(),
+      deleted_by = auth.uid()
+  WHERE id = request.id
+  RETURNING * INTO request;
+
+  RETURN request;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION archive_request(uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION restore_request(p_request_id uuid)
+RETURNS requests
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  request requests;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can restore requests';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM requests r
+    JOIN users u ON u.id = r.requester_id
+    WHERE r.id = p_request_id
+    AND u.deleted_at IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION 'Restore the requester first';
+  END IF;
+
+  UPDATE requests
+  SET deleted_at = NULL,
+      deleted_by = NULL
+  WHERE id = p_request_id
+  AND deleted_at IS NOT NULL
+  RETURNING * INTO request;
+
+  IF request.id IS NULL THEN
+    RAISE EXCEPTION 'This request is not deleted';
+  END IF;
+
+  RETURN request;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION restore_request(uuid) TO authenticated;
+
+CREATE OR REPLACE VIEW archived_users
+WITH (security_invoker = true)
+AS
+SELECT
+  u.id,
+  a.username,
+  a.email,
+  a.wallet_address,
+  u.role,
+  u.username AS tombstone,
+  a.reason,
+  u.created_at,
+  u.deleted_at,
+  u.deleted_by,
+  (SELECT COUNT(*) FROM donations d WHERE d.donor_id = u.id) AS donation_count,
+  (SELECT COUNT(*) FROM votes v WHERE v.voter_id = u.id) AS vote_count,
+  (SELECT COUNT(*) FROM requests r WHERE r.requester_id = u.id) AS request_count
+FROM users u
+JOIN archived_user_details a ON a.user_id = u.id
+WHERE u.deleted_at IS NOT NULL;
+
+CREATE OR REPLACE VIEW archived_requests
+WITH (security_invoker = true)
+AS
+SELECT
+  r.id,
+  r.title,
+  r.status,
+  r.amount_needed,
+  r.amount_raised,
+  r.chain_request_id,
+  r.requester_id,
+  COALESCE(a.username, u.username) AS requester_username,
+  u.deleted_at IS NOT NULL AS requester_deleted,
+  r.created_at,
+  r.deleted_at,
+  r.deleted_by,
+  (SELECT COUNT(*) FROM donations d WHERE d.request_id = r.id) AS donation_count
+FROM requests r
+JOIN users u ON u.id = r.requester_id
+LEFT JOIN archived_user_details a ON a.user_id = u.id
+WHERE r.deleted_at IS NOT NULL;
+
+GRANT SELECT ON archived_users, archived_requests TO authenticated;
@@ -0,0 +1,16 @@
+/*
+  # Round-robin donation verification
+
+  1. Changes
+    - `donations.last_checked_at` (timestamp) - when the verification worker
+      last looked at a pending donation. The worker picks the least recently
+      checked rows first, so transactions that are not mined yet no longer
+      hold up newer donations behind them
+*/
+
+ALTER TABLE donations ADD COLUMN IF NOT EXISTS last_checked_at timestamptz;
+
+DROP INDEX IF EXISTS donations_pending_idx;
+CREATE INDEX IF NOT EXISTS donations_pending_idx
+  ON donations(last_checked_at NULLS FIRST, created_at)
+  WHERE status = 'pending';
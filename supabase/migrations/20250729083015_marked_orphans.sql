@@ -0,0 +1,16 @@
+/*
+  # Crash-safe reorg handling in the chain indexer
+
+  1. Changes
+    - `chain_events.orphaned_at` (timestamp) - set on every event after the
+      rewind point when the indexer detects a reorg. Replaying the range
+      clears it for events that are still on the chain; the rest are
+      reverted and only then deleted, so a crash part-way through leaves
+      them flagged for the next pass instead of losing them
+*/
+
+ALTER TABLE chain_events ADD COLUMN IF NOT EXISTS orphaned_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS chain_events_orphaned_idx
+  ON chain_events(orphaned_at)
+  WHERE orphaned_at IS NOT NULL;
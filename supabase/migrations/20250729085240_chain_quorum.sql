@@ -0,0 +1,21 @@
+/*
+  # Quorum policy and verifier weights come from the contract only
+
+  1. Changes
+    - Admins could edit `governance_settings` and `verifier_weights`
+      directly, but nothing sent those edits to `setQuorumPolicy` /
+      `setVerifierWeight`, so the database tally and
+      `DonationPlatform.minimumVotes` could silently disagree. Admins now
+      change them on the contract and the indexer mirrors the
+      QuorumPolicyUpdated and VerifierWeightUpdated events
+
+  2. Security
+    - Drop "Admins can update governance settings" and "Admins can manage
+      verifier weights"; only the service role (the indexer) writes to
+      either table. Everyone authenticated can still read them
+*/
+
+DROP POLICY IF EXISTS "Admins can update governance settings" ON governance_settings;
+DROP POLICY IF EXISTS "Admins can manage verifier weights" ON verifier_weights;
+
+REVOKE INSERT, UPDATE, DELETE ON governance_settings, verifier_weights FROM anon, authenticated;
@@ -0,0 +1,24 @@
+/*
+  # Milestone proofs follow request visibility
+
+  1. Security
+    - "Anyone can read milestone proofs" let every signed-in user read and
+      list the whole `milestone-proofs` bucket. Replace it with a policy
+      that only allows proofs whose request (the second folder of
+      `<requester id>/<request id>/...`) the caller can read. The subquery
+      runs under the caller's `requests` policies, so the two can't drift
+*/
+
+DROP POLICY IF EXISTS "Anyone can read milestone proofs" ON storage.objects;
+
+CREATE POLICY "Users can read proofs of visible requests"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'milestone-proofs'
+    AND EXISTS (
+      SELECT 1 FROM requests
+      WHERE requests.id::text = (storage.foldername(name))[2]
+    )
+  );
@@ -0,0 +1,45 @@
+/*
+  # Only accept client donations for requests that take donations
+
+  1. New Functions
+    - `accepts_donations(target_request_id)` - true while the request is
+      approved or completed and not archived, i.e. public and fundable
+
+  2. Security
+    - "Donors can insert own pending donations" allowed any request id.
+      Because `has_donated_to()` counts pending rows, a donor could insert
+      a pending donation with a made-up hash and read a pending or hidden
+      request until the verifier failed the row. The insert policy now
+      also requires `accepts_donations()`. Donations the indexer records
+      from DonationMade go through the service role and are unaffected
+*/
+
+-- SECURITY DEFINER so a completed request the donor can no longer read
+-- still accepts the row for a transaction sent while it was approved
+CREATE OR REPLACE FUNCTION accepts_donations(target_request_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM requests
+    WHERE id = target_request_id
+    AND status IN ('approved', 'completed')
+    AND deleted_at IS NULL
+  );
+$$;
+
+DROP POLICY IF EXISTS "Donors can insert own pending donations" ON donations;
+
+CREATE POLICY "Donors can insert own pending donations"
+  ON donations
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    donor_id = auth.uid()
+    AND status = 'pending'
+    AND verified_at IS NULL
+    AND accepts_donations(request_id)
+  );
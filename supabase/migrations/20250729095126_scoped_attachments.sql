@@ -0,0 +1,45 @@
+/*
+  # Attachment files follow their rows
+
+  1. Security
+    - "Users can read request attachments" let every signed-in user read and
+      list the whole `request-attachments` bucket. Replace it with a policy
+      that only allows objects recorded in `request_attachments`; that
+      subquery runs under the caller's policies, which already limit rows
+      to requests the caller can read
+    - "Requesters can delete own request attachments" let requesters remove
+      files at any time, while the row policy stops at `pending`. Files are
+      now only removable from the requester's own pending requests, taken
+      from the second folder of `<requester id>/<request id>/...`. The path
+      is used rather than the row because the client deletes the row first
+*/
+
+DROP POLICY IF EXISTS "Users can read request attachments" ON storage.objects;
+DROP POLICY IF EXISTS "Requesters can delete own request attachments" ON storage.objects;
+
+CREATE POLICY "Users can read attachments of visible requests"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'request-attachments'
+    AND EXISTS (
+      SELECT 1 FROM request_attachments
+      WHERE request_attachments.storage_path = objects.name
+    )
+  );
+
+CREATE POLICY "Requesters can delete attachments of own pending requests"
+  ON storage.objects
+  FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'request-attachments'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+    AND EXISTS (
+      SELECT 1 FROM requests
+      WHERE requests.id::text = (storage.foldername(name))[2]
+      AND requests.requester_id = auth.uid()
+      AND requests.status = 'pending'
+    )
+  );
@@ -0,0 +1,12 @@
+/*
+  # Keep request_approval_times() internal
+
+  1. Security
+    - `request_approval_times()` is SECURITY DEFINER with no admin check and
+      was only revoked from PUBLIC, which leaves the explicit grants Supabase
+      gives `anon` and `authenticated` on new functions. Revoke those too;
+      the analytics functions that use it run as their owner and check
+      `is_admin()` themselves
+*/
+
+REVOKE EXECUTE ON FUNCTION request_approval_times() FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,123 @@
+/*
+  # Narrow public profiles and escape username search
+
+  1. Changes
+    - `search_requests` escapes `%`, `_` and `\` in the query before
+      matching requester names, so they match literally instead of acting
+      as wildcards
+
+  2. Security
+    - `public_profiles` runs with the owner's rights and is granted to
+      `anon`, so it listed the id, username and role of every account.
+      It now only lists users who have public content: requesters of
+      requests that were approved (including completed and expired ones)
+      and authors of visible comments, plus the caller's own profile.
+      Archived users are left out; their comments show as "Deleted user"
+*/
+
+CREATE OR REPLACE VIEW public_profiles AS
+  SELECT u.id, u.username, u.role
+  FROM users u
+  WHERE u.deleted_at IS NULL
+  AND (
+    u.id = auth.uid()
+    OR EXISTS (
+      SELECT 1 FROM requests r
+      WHERE r.requester_id = u.id
+      AND r.status IN ('approved', 'completed', 'expired')
+      AND r.deleted_at IS NULL
+    )
+    OR EXISTS (
+      SELECT 1 FROM request_comments c
+      WHERE c.author_id = u.id
+      AND c.hidden_at IS NULL
+    )
+  );
+
+CREATE OR REPLACE FUNCTION search_requests(
+  p_query text DEFAULT NULL,
+  p_statuses text[] DEFAULT NULL,
+  p_sort text DEFAULT 'newest',
+  p_cursor_key text DEFAULT NULL,
+  p_cursor_id uuid DEFAULT NULL,
+  p_limit integer DEFAULT 12,
+  p_category text DEFAULT NULL,
+  p_tags text[] DEFAULT NULL,
+  p_country text DEFAULT NULL
+)
+RETURNS TABLE (
+  request requests,
+  requester jsonb,
+  vote_count bigint,
+  sort_key text,
+  total_count bigint
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  search_query tsquery;
+  search_text text;
+  username_pattern text;
+BEGIN
+  IF p_sort NOT IN ('newest', 'oldest', 'amount_high', 'amount_low', 'progress', 'urgent', 'ending_soon') THEN
+    RAISE EXCEPTION 'Unknown sort key: %', p_sort;
+  END IF;
+
+  search_text := NULLIF(trim(p_query), '');
+  IF search_text IS NOT NULL THEN
+    search_query := websearch_to_tsquery('english', search_text);
+    username_pattern := '%' || replace(replace(replace(search_text, '\', '\\'), '%', '\%'), '_', '\_') || '%';
+  END IF;
+
+  RETURN QUERY
+  WITH matches AS (
+    SELECT
+      r AS request,
+      jsonb_build_object('id', p.id, 'username', p.username) AS requester,
+      -- Every order is expressed as an ascending numeric key so one keyset
+      -- condition works for all of them; requests without a future deadline
+      -- sort after every real timestamp for ending_soon
+      CASE p_sort
+        WHEN 'newest' THEN -EXTRACT(EPOCH FROM r.created_at)
+        WHEN 'oldest' THEN EXTRACT(EPOCH FROM r.created_at)
+        WHEN 'amount_high' THEN -r.amount_needed
+        WHEN 'amount_low' THEN r.amount_needed
+        WHEN 'progress' THEN -(COALESCE(r.amount_raised, 0) / r.amount_needed)
+        WHEN 'urgent' THEN COALESCE(r.amount_raised, 0) / r.amount_needed
+        WHEN 'ending_soon' THEN CASE
+          WHEN r.deadline > now() THEN EXTRACT(EPOCH FROM r.deadline)
+          ELSE 1e12
+        END
+      END AS key
+    FROM requests r
+    LEFT JOIN public_profiles p ON p.id = r.requester_id
+    WHERE (p_statuses IS NULL OR r.status = ANY(p_statuses))
+    AND (p_category IS NULL OR r.category = p_category)
+    AND (p_tags IS NULL OR r.tags @> p_tags)
+    AND (p_country IS NULL OR r.country_code = upper(p_country))
+    AND (
+      search_text IS NULL
+      OR r.search_vector @@ search_query
+      OR p.username ILIKE username_pattern
+      OR lower(search_text) = ANY(r.tags)
+    )
+  ),
+  counted AS (
+    SELECT m.*, COUNT(*) OVER () AS total
+    FROM matches m
+  )
+  SELECT
+    c.request,
+    c.requester,
+    (SELECT COUNT(*) FROM votes v WHERE v.request_id = (c.request).id),
+    c.key::text,
+    c.total
+  FROM counted c
+  WHERE p_cursor_key IS NULL
+  OR (c.key, (c.request).id) > (p_cursor_key::numeric, p_cursor_id)
+  ORDER BY c.key, (c.request).id
+  LIMIT LEAST(GREATEST(p_limit, 1), 50);
+END;
+$$;
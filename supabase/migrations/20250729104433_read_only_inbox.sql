@@ -0,0 +1,33 @@
+/*
+  # Clients can only mark notifications read
+
+  1. Security
+    - "Users can update own notifications" has no column restriction, so a
+      user could rewrite the title, body or link of their notifications, or
+      reset `email_status` to have the dispatcher mail them again
+    - A trigger now rejects changes to anything but `read_at` unless
+      `is_privileged_write()`; the email worker uses the service role and
+      is unaffected
+*/
+
+CREATE OR REPLACE FUNCTION protect_notification_columns()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF is_privileged_write() THEN
+    RETURN NEW;
+  END IF;
+
+  IF (to_jsonb(NEW) - 'read_at') IS DISTINCT FROM (to_jsonb(OLD) - 'read_at') THEN
+    RAISE EXCEPTION 'Notifications can only be marked as read';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_notification_columns_trigger
+  BEFORE UPDATE ON notifications
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_notification_columns();
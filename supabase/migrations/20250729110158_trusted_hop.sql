@@ -0,0 +1,94 @@
+/*
+  # Rate limit support tickets on the proxy-reported address
+
+  1. Changes
+    - `submit_support_ticket` took the client IP from the first
+      X-Forwarded-For entry, which the client itself can set, so every
+      request could claim a new address and dodge the per-IP limit. It now
+      uses the address set by the proxy in front of PostgREST:
+      `cf-connecting-ip`, then `x-real-ip`, then the last X-Forwarded-For
+      hop (the one the proxy appended)
+
+  2. Notes
+    - The honeypot and elapsed-time checks only catch bots driving the
+      form; `p_honeypot` and `p_elapsed_ms` come from the caller, so
+      anything calling the RPC directly passes them. The per-email and
+      per-IP limits are what bound direct calls
+*/
+
+CREATE OR REPLACE FUNCTION submit_support_ticket(
+  p_name text,
+  p_email text,
+  p_subject text,
+  p_message text,
+  p_honeypot text DEFAULT '',
+  p_elapsed_ms integer DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  headers json;
+  client_ip text;
+  client_ip_hash text;
+  ticket_id uuid;
+BEGIN
+  -- Bots fill hidden fields and submit instantly. Report success anyway so
+  -- they have nothing to adapt to. Both values come from the caller, so
+  -- this only stops form-filling bots; the rate limits below bound the rest
+  IF COALESCE(p_honeypot, '') <> '' OR COALESCE(p_elapsed_ms, 0) < 3000 THEN
+    RETURN NULL;
+  END IF;
+
+  p_name := btrim(p_name);
+  p_email := lower(btrim(p_email));
+  p_message := btrim(p_message);
+
+  IF p_name = '' OR p_email !~* '^[^@\s]+@[^@\s]+\.[^@\s]+$' THEN
+    RAISE EXCEPTION 'Please enter your name and a valid email address';
+  END IF;
+
+  IF char_length(p_message) < 10 THEN
+    RAISE EXCEPTION 'Please write a little more so we can help';
+  END IF;
+
+  IF (SELECT count(*) FROM regexp_matches(p_message, 'https?://', 'gi')) > 3 THEN
+    RAISE EXCEPTION 'Messages can contain at most 3 links';
+  END IF;
+
+  -- PostgREST exposes the request headers. Only trust what the proxy sets:
+  -- its own client-address headers, or the hop it appended last to
+  -- X-Forwarded-For (earlier entries come from the client)
+  headers := COALESCE(current_setting('request.headers', true)::json, '{}'::json);
+  client_ip := btrim(COALESCE(
+    NULLIF(headers ->> 'cf-connecting-ip', ''),
+    NULLIF(headers ->> 'x-real-ip', ''),
+    regexp_replace(COALESCE(headers ->> 'x-forwarded-for', ''), '^.*,', '')
+  ));
+  IF client_ip <> '' THEN
+    client_ip_hash := encode(sha256(convert_to(client_ip, 'UTF8')), 'hex');
+  END IF;
+
+  IF (
+    SELECT count(*) FROM support_tickets
+    WHERE lower(email) = p_email
+    AND created_at > now() - interval '1 hour'
+  ) >= 3 OR (
+    client_ip_hash IS NOT NULL AND (
+      SELECT count(*) FROM support_tickets
+      WHERE ip_hash = client_ip_hash
+      AND created_at > now() - interval '1 hour'
+    ) >= 5
+  ) THEN
+    RAISE EXCEPTION 'Too many messages sent recently. Please try again in an hour.';
+  END IF;
+
+  INSERT INTO support_tickets (name, email, subject, message, user_id, ip_hash)
+  VALUES (p_name, p_email, p_subject, p_message, auth.uid(), client_ip_hash)
+  RETURNING id INTO ticket_id;
+
+  RETURN ticket_id;
+END;
+$$;
@@ -0,0 +1,288 @@
+/*
+  # Close the gaps left by archiving
+
+  1. Changes
+    - Every request is created on-chain before its row is inserted, so
+      pending and approved requests are live on the contract. Archiving
+      one only hid it here. `archive_request` now refuses those until they
+      are rejected (cancelled on-chain), and `archive_user` refuses while
+      the user has any; the admin dashboard cancels them first
+    - `archive_user` also replaces the login email in `auth.users`, and
+      skips emails still queued for the account. `restore_user` puts the
+      email back
+    - Notifications for archived users are dropped when queued, which
+      covers review requests to archived verifiers and expiry notices to
+      archived requesters alike
+    - `platform_stats()` leaves archived users and requests out of its
+      user and request counts. Donation totals still include them, since
+      that money moved
+*/
+
+CREATE OR REPLACE FUNCTION archive_user(p_user_id uuid, p_reason text DEFAULT NULL)
+RETURNS users
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target users;
+  archived_at timestamptz := now();
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can delete users';
+  END IF;
+
+  IF p_user_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot delete your own account';
+  END IF;
+
+  SELECT * INTO target FROM users WHERE id = p_user_id FOR UPDATE;
+
+  IF target.id IS NULL THEN
+    RAISE EXCEPTION 'User not found';
+  END IF;
+
+  IF target.deleted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This user has already been deleted';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM requests
+    WHERE requester_id = target.id
+    AND chain_request_id IS NOT NULL
+    AND status IN ('pending', 'approved')
+    AND deleted_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Reject this user''s open requests first so they are cancelled on-chain';
+  END IF;
+
+  INSERT INTO archived_user_details (user_id, username, email, wallet_address, reason, archived_at)
+  VALUES (target.id, target.username, target.email, target.wallet_address, NULLIF(btrim(COALESCE(p_reason, '')), ''), archived_at)
+  ON CONFLICT (user_id) DO UPDATE
+  SET username = EXCLUDED.username,
+      email = EXCLUDED.email,
+      wallet_address = EXCLUDED.wallet_address,
+      reason = EXCLUDED.reason,
+      archived_at = EXCLUDED.archived_at;
+
+  UPDATE users
+  SET username = 'deleted_user_' || left(replace(id::text, '-', ''), 12),
+      email = 'deleted+' || id || '@invalid',
+      wallet_address = NULL,
+      deleted_at = archived_at,
+      deleted_by = auth.uid()
+  WHERE id = target.id
+  RETURNING * INTO target;
+
+  -- Requests that never reached the chain go with their requester; the
+  -- check above means every on-chain one is already cancelled or settled
+  UPDATE requests
+  SET deleted_at = archived_at,
+      deleted_by = auth.uid()
+  WHERE requester_id = target.id
+  AND chain_request_id IS NULL
+  AND status = 'pending'
+  AND deleted_at IS NULL;
+
+  -- Nothing more is mailed to the account
+  UPDATE notifications
+  SET email_status = 'skipped'
+  WHERE user_id = target.id
+  AND email_status = 'pending';
+
+  DELETE FROM wallet_challenges WHERE user_id = target.id;
+
+  UPDATE auth.users
+  SET banned_until = 'infinity',
+      email = 'deleted+' || id || '@invalid'
+  WHERE id = target.id;
+
+  RETURN target;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION restore_user(p_user_id uuid)
+RETURNS users
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target users;
+  details archived_user_details;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can restore users';
+  END IF;
+
+  SELECT * INTO target FROM users WHERE id = p_user_id FOR UPDATE;
+  SELECT * INTO details FROM archived_user_details WHERE user_id = p_user_id;
+
+  IF target.deleted_at IS NULL OR details.user_id IS NULL THEN
+    RAISE EXCEPTION 'This user is not deleted';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM users WHERE (username = details.username OR email = details.email) AND id <> target.id) THEN
+    RAISE EXCEPTION 'Another account now uses this username or email';
+  END IF;
+
+  UPDATE requests
+  SET deleted_at = NULL,
+      deleted_by = NULL
+  WHERE requester_id = target.id
+  AND deleted_at = target.deleted_at;
+
+  UPDATE users
+  SET username = details.username,
+      email = details.email,
+      wallet_address = details.wallet_address,
+      deleted_at = NULL,
+      deleted_by = NULL
+  WHERE id = target.id
+  RETURNING * INTO target;
+
+  DELETE FROM archived_user_details WHERE user_id = target.id;
+
+  UPDATE auth.users
+  SET banned_until = NULL,
+      email = details.email
+  WHERE id = target.id;
+
+  RETURN target;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION archive_request(p_request_id uuid)
+RETURNS requests
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  request requests;
+BEGIN
+  SELECT * INTO request FROM requests WHERE id = p_request_id FOR UPDATE;
+
+  IF request.id IS NULL OR request.deleted_at IS NOT NULL
+    OR NOT (is_admin() OR request.requester_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Request not found';
+  END IF;
+
+  IF NOT is_admin() AND request.status <> 'pending' THEN
+    RAISE EXCEPTION 'Only pending requests can be deleted';
+  END IF;
+
+  -- Pending and approved requests are still live on the contract; only the
+  -- owner can cancel them there, which the indexer mirrors as `rejected`
+  IF request.chain_request_id IS NOT NULL AND request.status IN ('pending', 'approved') THEN
+    RAISE EXCEPTION 'Reject this request first so it is cancelled on-chain';
+  END IF;
+
+  UPDATE requests
+  SET deleted_at = now(),
+      deleted_by = auth.uid()
+  WHERE id = request.id
+  RETURNING * INTO request;
+
+  RETURN request;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION apply_notification_preferences()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  pref notification_preferences;
+  wants_email boolean;
+BEGIN
+  -- Archived accounts get nothing, whichever trigger or job queued it
+  IF EXISTS (SELECT 1 FROM users WHERE id = NEW.user_id AND deleted_at IS NOT NULL) THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO pref
+  FROM notification_preferences
+  WHERE user_id = NEW.user_id AND type = NEW.type;
+
+  NEW.in_app := COALESCE(pref.in_app, true);
+  wants_email := COALESCE(pref.email, NEW.type <> 'vote_cast');
+
+  -- Nothing to deliver, so don't store it at all
+  IF NOT NEW.in_app AND NOT wants_email THEN
+    RETURN NULL;
+  END IF;
+
+  NEW.email_status := CASE WHEN wants_email THEN 'pending' ELSE 'skipped' END;
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION platform_stats()
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH donation_totals AS (
+    SELECT
+      COALESCE(SUM(amount) FILTER (WHERE status = 'completed'), 0) AS total_donated,
+      COUNT(*) FILTER (WHERE status = 'completed') AS donation_count,
+      COUNT(*) FILTER (WHERE status = 'failed') AS failed_donations,
+      COUNT(DISTINCT donor_id) FILTER (
+        WHERE status = 'completed' AND created_at > now() - interval '30 days'
+      ) AS active_donors
+    FROM donations
+  ),
+  request_totals AS (
+    SELECT
+      COUNT(*) AS total_requests,
+      COUNT(*) FILTER (WHERE status <> 'pending') AS reviewed,
+      COUNT(*) FILTER (WHERE status IN ('approved', 'completed')) AS successful
+    FROM requests
+    WHERE deleted_at IS NULL
+  ),
+  user_totals AS (
+    SELECT
+      COUNT(*) AS total_users,
+      COUNT(*) FILTER (WHERE created_at > now() - interval '30 days') AS recent,
+      COUNT(*) FILTER (
+        WHERE created_at <= now() - interval '30 days'
+        AND created_at > now() - interval '60 days'
+      ) AS previous
+    FROM users
+    WHERE deleted_at IS NULL
+  )
+  SELECT jsonb_build_object(
+    'total_donated', d.total_donated,
+    'donation_count', d.donation_count,
+    'average_donation', CASE WHEN d.donation_count > 0 THEN d.total_donated / d.donation_count ELSE 0 END,
+    'failed_donations', d.failed_donations,
+    'verification_rate', CASE
+      WHEN d.donation_count + d.failed_donations > 0
+      THEN round(d.donation_count * 100.0 / (d.donation_count + d.failed_donations), 1)
+      ELSE 0
+    END,
+    'active_donors', d.active_donors,
+    'total_requests', r.total_requests,
+    'requests_by_status', (
+      SELECT jsonb_object_agg(s.status, (SELECT COUNT(*) FROM requests WHERE requests.status = s.status AND requests.deleted_at IS NULL))
+      FROM unnest(ARRAY['pending', 'approved', 'rejected', 'completed', 'expired']) AS s(status)
+    ),
+    'success_rate', CASE WHEN r.reviewed > 0 THEN round(r.successful * 100.0 / r.reviewed, 1) ELSE 0 END,
+    'total_users', u.total_users,
+    'users_by_role', (
+      SELECT jsonb_object_agg(s.role, (SELECT COUNT(*) FROM users WHERE users.role = s.role AND users.deleted_at IS NULL))
+      FROM unnest(ARRAY['donor', 'requester', 'verifier', 'admin']) AS s(role)
+    ),
+    'user_growth_rate', CASE
+      WHEN u.previous > 0 THEN round((u.recent - u.previous) * 100.0 / u.previous, 1)
+      ELSE NULL
+    END,
+    'indexer_synced_at', (SELECT MAX(updated_at) FROM indexer_cursors)
+  )
+  FROM donation_totals d, request_totals r, user_totals u;
+$$;
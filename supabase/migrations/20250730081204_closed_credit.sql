@@ -0,0 +1,14 @@
+/*
+  # Keep apply_request_credit() internal
+
+  1. Security
+    - `apply_request_credit(uuid, numeric)` is SECURITY DEFINER with no
+      caller check and was never revoked, so anyone with the anon key could
+      set any request's `amount_raised` and flip it between `approved` and
+      `completed`. `protect_request_columns` doesn't catch this because
+      `is_privileged_write()` is true inside definer functions
+    - Revoke it from every API role. The donations trigger that uses it
+      runs as its owner and is unaffected
+*/
+
+REVOKE EXECUTE ON FUNCTION apply_request_credit(uuid, numeric) FROM PUBLIC, anon, authenticated;
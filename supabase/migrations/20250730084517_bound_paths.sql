@@ -0,0 +1,26 @@
+/*
+  # Attachment rows must point at their own request's files
+
+  1. Security
+    - "Requesters can attach files to own requests" left `storage_path`
+      unconstrained, so a requester could record a row pointing at another
+      request's object and read that file through their own row. The path
+      must now sit under `<uploader id>/<request id>/`, the folder the
+      upload policy already restricts them to
+*/
+
+DROP POLICY IF EXISTS "Requesters can attach files to own requests" ON request_attachments;
+
+CREATE POLICY "Requesters can attach files to own requests"
+  ON request_attachments
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    uploaded_by = auth.uid()
+    AND storage_path LIKE auth.uid()::text || '/' || request_id::text || '/%'
+    AND EXISTS (
+      SELECT 1 FROM requests
+      WHERE requests.id = request_id
+      AND requests.requester_id = auth.uid()
+    )
+  );
@@ -0,0 +1,150 @@
+/*
+  # Policy tests for roles and other protected columns
+
+  Run against a local Supabase with `npm run test:db` (`supabase test db`).
+  Everything runs in one transaction that is rolled back.
+
+  `supabase test db` connects as postgres, so checks keyed on session_user
+  (such as the wallet verification trigger) treat every statement as trusted.
+  The column guards here key on current_user, which `SET LOCAL ROLE` changes.
+*/
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(21);
+
+INSERT INTO users (id, username, email, role, wallet_address, wallet_verified_at) VALUES
+  ('00000000-0000-0000-0000-00000000a001', 'test_admin', 'admin@test.local', 'admin', '0x000000000000000000000000000000000000a001', now()),
+  ('00000000-0000-0000-0000-00000000a002', 'test_requester', 'requester@test.local', 'requester', '0x000000000000000000000000000000000000a002', now()),
+  ('00000000-0000-0000-0000-00000000a003', 'test_other', 'other@test.local', 'requester', '0x000000000000000000000000000000000000a003', now());
+
+INSERT INTO requests (id, title, description, amount_needed, requester_id) VALUES
+  ('00000000-0000-0000-0000-00000000b001', 'Own request', 'Needs help', 5, '00000000-0000-0000-0000-00000000a002'),
+  ('00000000-0000-0000-0000-00000000b002', 'Other request', 'Needs help', 5, '00000000-0000-0000-0000-00000000a003');
+
+SELECT is_empty(
+  $$ SELECT policyname FROM pg_policies
+     WHERE policyname IN ('Users can update own profile', 'Requesters can update own requests') $$,
+  'Owners have no direct UPDATE policy on users or requests'
+);
+
+-- As a requester
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-00000000a002", "role": "authenticated"}', true);
+
+SELECT lives_ok(
+  $$ UPDATE users SET role = 'admin' WHERE id = auth.uid() $$,
+  'Updating your own role is silently ignored'
+);
+SELECT is(
+  (SELECT role FROM users WHERE id = auth.uid()),
+  'requester',
+  'Users cannot make themselves admin'
+);
+SELECT lives_ok(
+  $$ SELECT update_own_profile('test_renamed') $$,
+  'Users can change their username through update_own_profile'
+);
+SELECT is(
+  (SELECT username FROM users WHERE id = auth.uid()),
+  'test_renamed',
+  'update_own_profile changes the username'
+);
+SELECT throws_ok(
+  $$ SELECT update_own_profile('test_other') $$,
+  'P0001',
+  'This username is already taken. Please choose a different username.',
+  'update_own_profile rejects taken usernames'
+);
+SELECT throws_ok(
+  $$ SELECT update_own_profile('no spaces') $$,
+  'P0001',
+  'Username must be at least 3 characters: letters, numbers and underscores',
+  'update_own_profile validates the username'
+);
+
+SELECT lives_ok(
+  $$ UPDATE requests SET status = 'approved', amount_raised = 5 WHERE id = '00000000-0000-0000-0000-00000000b001' $$,
+  'Updating your own request directly is silently ignored'
+);
+SELECT results_eq(
+  $$ SELECT status, amount_raised FROM requests WHERE id = '00000000-0000-0000-0000-00000000b001' $$,
+  $$ VALUES ('pending'::text, 0::numeric) $$,
+  'Requesters cannot set their own status or amount raised'
+);
+SELECT lives_ok(
+  $$ SELECT update_own_request('00000000-0000-0000-0000-00000000b001', 'Edited title', 'Edited', 'medical', ARRAY['surgery'], 'KE', 'Nairobi', NULL, NULL) $$,
+  'Requesters can edit their request details through update_own_request'
+);
+SELECT results_eq(
+  $$ SELECT title, category, status FROM requests WHERE id = '00000000-0000-0000-0000-00000000b001' $$,
+  $$ VALUES ('Edited title'::text, 'medical'::text, 'pending'::text) $$,
+  'update_own_request changes the details but not the status'
+);
+SELECT throws_ok(
+  $$ SELECT update_own_request('00000000-0000-0000-0000-00000000b002', 'Mine now', 'x', 'other', '{}', NULL, NULL, NULL, NULL) $$,
+  'P0001',
+  'Request not found',
+  'update_own_request only edits your own requests'
+);
+SELECT throws_ok(
+  $$ INSERT INTO requests (title, description, amount_needed, requester_id, status)
+     VALUES ('Pre-approved', 'x', 1, '00000000-0000-0000-0000-00000000a002', 'approved') $$,
+  'P0001',
+  'New requests must start pending with nothing raised',
+  'Requesters cannot create approved requests'
+);
+SELECT throws_ok(
+  $$ INSERT INTO requests (title, description, amount_needed, requester_id, amount_raised)
+     VALUES ('Pre-funded', 'x', 1, '00000000-0000-0000-0000-00000000a002', 1) $$,
+  'P0001',
+  'New requests must start pending with nothing raised',
+  'Requesters cannot create funded requests'
+);
+SELECT lives_ok(
+  $$ INSERT INTO requests (title, description, amount_needed, requester_id)
+     VALUES ('New request', 'x', 1, '00000000-0000-0000-0000-00000000a002') $$,
+  'Requesters can create pending requests'
+);
+
+-- As a new user signing up
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-00000000a004", "role": "authenticated"}', true);
+
+SELECT throws_ok(
+  $$ INSERT INTO users (id, username, email, role) VALUES (auth.uid(), 'test_new', 'new@test.local', 'admin') $$,
+  'P0001',
+  'You cannot sign up as admin',
+  'Users cannot sign up as admin'
+);
+SELECT lives_ok(
+  $$ INSERT INTO users (id, username, email, role) VALUES (auth.uid(), 'test_new', 'new@test.local', 'donor') $$,
+  'Users can sign up as a donor'
+);
+
+-- As an admin
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-00000000a001", "role": "authenticated"}', true);
+
+SELECT lives_ok(
+  $$ UPDATE requests SET status = 'approved' WHERE id = '00000000-0000-0000-0000-00000000b002' $$,
+  'Admins can update request status'
+);
+SELECT is(
+  (SELECT status FROM requests WHERE id = '00000000-0000-0000-0000-00000000b002'),
+  'approved',
+  'Admin status changes are applied'
+);
+SELECT lives_ok(
+  $$ UPDATE users SET role = 'donor' WHERE id = '00000000-0000-0000-0000-00000000a003' $$,
+  'Admins can change roles'
+);
+SELECT is(
+  (SELECT role FROM users WHERE id = '00000000-0000-0000-0000-00000000a003'),
+  'donor',
+  'Admin role changes are applied'
+);
+
+RESET ROLE;
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,137 @@
+/*
+  # Squatted transaction hashes
+
+  A client can record a pending donation or withdrawal under any transaction
+  hash, including one copied from the mempool before the real sender's
+  client records it. The unique hash indexes then keep the real row out, so
+  the indexer re-binds the squatted row to the donor, requester and request
+  from the on-chain event. These tests run the indexer's re-binding updates
+  as the service role and check the credit and visibility that follow.
+
+  Run against a local Supabase with `npm run test:db` (`supabase test db`).
+  Everything runs in one transaction that is rolled back.
+*/
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(10);
+
+INSERT INTO users (id, username, email, role, wallet_address, wallet_verified_at) VALUES
+  ('00000000-0000-0000-0000-00000000c001', 'test_donor', 'donor@test.local', 'donor', '0x000000000000000000000000000000000000c001', now()),
+  ('00000000-0000-0000-0000-00000000c002', 'test_squatter', 'squatter@test.local', 'donor', '0x000000000000000000000000000000000000c002', now()),
+  ('00000000-0000-0000-0000-00000000c003', 'test_requester', 'requester@test.local', 'requester', '0x000000000000000000000000000000000000c003', now()),
+  ('00000000-0000-0000-0000-00000000c004', 'test_other_requester', 'other@test.local', 'requester', '0x000000000000000000000000000000000000c004', now());
+
+INSERT INTO requests (id, title, description, amount_needed, requester_id, status, chain_request_id) VALUES
+  ('00000000-0000-0000-0000-00000000d001', 'Donated to', 'Needs help', 5, '00000000-0000-0000-0000-00000000c003', 'approved', 1),
+  ('00000000-0000-0000-0000-00000000d002', 'Squatted', 'Needs help', 5, '00000000-0000-0000-0000-00000000c004', 'approved', 2);
+
+-- As the squatter, racing the real donor's client
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-00000000c002", "role": "authenticated"}', true);
+
+SELECT lives_ok(
+  $$ INSERT INTO donations (donor_id, request_id, amount, transaction_hash, status)
+     VALUES (auth.uid(), '00000000-0000-0000-0000-00000000d002', 1, '0xfeed01', 'pending') $$,
+  'A donor can record a pending donation under a hash they did not send'
+);
+
+-- As the real donor, whose client records the same transaction
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-00000000c001", "role": "authenticated"}', true);
+
+SELECT throws_ok(
+  $$ INSERT INTO donations (donor_id, request_id, amount, transaction_hash, status)
+     VALUES (auth.uid(), '00000000-0000-0000-0000-00000000d001', 1, '0xFEED01', 'pending') $$,
+  '23505',
+  NULL,
+  'The squatted hash keeps the real donation out'
+);
+
+-- As the indexer, on DonationMade(requestId 1, donor c001)
+RESET ROLE;
+SET LOCAL ROLE service_role;
+
+SELECT lives_ok(
+  $$ UPDATE donations
+     SET donor_id = '00000000-0000-0000-0000-00000000c001',
+         request_id = '00000000-0000-0000-0000-00000000d001',
+         chain_request_id = 1,
+         net_amount = 1,
+         status = 'completed',
+         verified_at = now(),
+         verification_error = NULL
+     WHERE lower(transaction_hash) = '0xfeed01' $$,
+  'The indexer can re-bind a squatted donation to the donor and request from the event'
+);
+
+RESET ROLE;
+
+SELECT results_eq(
+  $$ SELECT id, amount_raised FROM requests
+     WHERE id IN ('00000000-0000-0000-0000-00000000d001', '00000000-0000-0000-0000-00000000d002')
+     ORDER BY id $$,
+  $$ VALUES ('00000000-0000-0000-0000-00000000d001'::uuid, 1::numeric), ('00000000-0000-0000-0000-00000000d002'::uuid, 0::numeric) $$,
+  'The re-bound donation credits the request from the event only'
+);
+
+SET LOCAL ROLE authenticated;
+
+SELECT is(
+  (SELECT count(*) FROM donations WHERE lower(transaction_hash) = '0xfeed01'),
+  1::bigint,
+  'The real donor sees the re-bound donation'
+);
+
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-00000000c002", "role": "authenticated"}', true);
+
+SELECT is(
+  (SELECT count(*) FROM donations WHERE lower(transaction_hash) = '0xfeed01'),
+  0::bigint,
+  'The squatter loses the donation'
+);
+
+-- As the other requester, claiming a withdrawal from request 1
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-00000000c004", "role": "authenticated"}', true);
+
+SELECT lives_ok(
+  $$ INSERT INTO withdrawals (request_id, requester_id, chain_request_id, amount, transaction_hash)
+     VALUES ('00000000-0000-0000-0000-00000000d002', auth.uid(), 2, 1, '0xfeed02') $$,
+  'A requester can record a pending withdrawal under a hash they did not send'
+);
+
+-- As the indexer, on FundsWithdrawn(requestId 1)
+RESET ROLE;
+SET LOCAL ROLE service_role;
+
+SELECT lives_ok(
+  $$ UPDATE withdrawals
+     SET request_id = '00000000-0000-0000-0000-00000000d001',
+         requester_id = '00000000-0000-0000-0000-00000000c003',
+         chain_request_id = 1,
+         status = 'completed',
+         confirmed_at = now()
+     WHERE lower(transaction_hash) = '0xfeed02' $$,
+  'The indexer can re-bind a squatted withdrawal to the request from the event'
+);
+
+SET LOCAL ROLE authenticated;
+
+SELECT is(
+  (SELECT count(*) FROM withdrawals WHERE lower(transaction_hash) = '0xfeed02'),
+  0::bigint,
+  'The squatter loses the withdrawal'
+);
+
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-00000000c003", "role": "authenticated"}', true);
+
+SELECT is(
+  (SELECT count(*) FROM withdrawals WHERE lower(transaction_hash) = '0xfeed02'),
+  1::bigint,
+  'The real requester sees the withdrawal'
+);
+
+RESET ROLE;
+
+SELECT * FROM finish();
+ROLLBACK;
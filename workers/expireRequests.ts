@@ -0,0 +1,54 @@
+/*
+  # Request expiry worker
+
+  Calls `expire_requests()` on a timer for projects without pg_cron. The
+  function moves requests past their deadline without reaching the goal to
+  `expired` and notifies the requester and donors, who can then claim
+  refunds from DonationPlatform.
+
+  Usage:
+    npm run worker:expire-requests             # run forever
+    npm run worker:expire-requests -- --once   # single pass (cron, local testing)
+*/
+import { supabaseAdmin } from './lib/supabaseAdmin';
+import { sleep } from './lib/sleep';
+import { numberEnv } from './lib/env';
+
+const POLL_INTERVAL_MS = numberEnv('EXPIRE_POLL_INTERVAL_MS', 15 * 60 * 1000);
+
+interface ExpiredRequest {
+  request_id: string;
+  title: string;
+  notified: number;
+}
+
+async function runOnce() {
+  const { data, error } = await supabaseAdmin.rpc('expire_requests');
+  if (error) throw error;
+
+  for (const expired of (data || []) as ExpiredRequest[]) {
+    console.log(`Request ${expired.request_id} "${expired.title}" expired, notified ${expired.notified} user(s)`);
+  }
+}
+
+async function main() {
+  const once = process.argv.includes('--once');
+
+  for (;;) {
+    try {
+      await runOnce();
+    } catch (error) {
+      if (once) throw error;
+      // Transient RPC/database errors: retry on the next pass
+      console.error('Request expiry error:', error);
+    }
+
+    if (once) break;
+    await sleep(POLL_INTERVAL_MS);
+  }
+}
+
+main().catch((error) => {
+  console.error('Request expiry worker crashed:', error);
+  process.exit(1);
+});
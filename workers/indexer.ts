@@ -0,0 +1,783 @@
+/*
+  # DonationPlatform event indexer
+
+  Mirrors contract state into Supabase so the Postgres view and the chain
+  can't silently diverge. Every log emitted by the contract is applied to
+  `requests`, `donations`, `votes`, `request_milestones`, `withdrawals`,
+  `chain_verifiers` or the governance tables and recorded in `chain_events`;
+  handlers are idempotent so ranges can be replayed safely.
+
+    - Only blocks at least INDEXER_CONFIRMATIONS deep are indexed
+    - Progress is checkpointed per block range in `indexer_cursors`
+    - If the checkpointed block hash no longer matches the chain, the cursor
+      rewinds INDEXER_REORG_REWIND_BLOCKS, flags the events after it as
+      orphaned, replays, and reverts effects of events that did not survive
+      the reorg before deleting them
+
+  Usage:
+    npm run worker:indexer                              # follow the chain
+    npm run worker:indexer -- --backfill                # catch up, then exit
+    npm run worker:indexer -- --backfill --from-block 0 # re-scan from a block
+
+  Point RPC_URL at a local Anvil/Hardhat node (INDEXER_CONFIRMATIONS=0 for
+  instant-mining dev chains) to run it against a dev deployment.
+*/
+import { ethers } from 'ethers';
+import { supabaseAdmin } from './lib/supabaseAdmin';
+import { provider, contractAddress, donationPlatform } from './lib/chain';
+import { sleep } from './lib/sleep';
+import { numberEnv } from './lib/env';
+
+const CURSOR_NAME = process.env.INDEXER_NAME || 'donation-platform';
+const CONFIRMATIONS = numberEnv('INDEXER_CONFIRMATIONS', 6);
+const START_BLOCK = numberEnv('INDEXER_START_BLOCK', 0);
+const BLOCK_BATCH_SIZE = numberEnv('INDEXER_BLOCK_BATCH_SIZE', 2000);
+const REORG_REWIND_BLOCKS = numberEnv('INDEXER_REORG_REWIND_BLOCKS', 64);
+const POLL_INTERVAL_MS = numberEnv('INDEXER_POLL_INTERVAL_MS', 12000);
+
+const REORG_ERROR = 'Transaction removed by chain reorg';
+
+type UserRole = 'donor' | 'verifier' | 'verifier_pending' | 'requester' | 'admin';
+
+interface StoredEvent {
+  transaction_hash: string;
+  log_index: number;
+  event_name: string;
+  args: Record<string, string | boolean>;
+}
+
+type EventHandler = (event: ethers.LogDescription, log: ethers.Log) => Promise<void>;
+
+const toEth = (wei: bigint) => parseFloat(ethers.formatEther(wei));
+
+function serializeArgs(event: ethers.LogDescription): Record<string, string | boolean> {
+  return Object.fromEntries(
+    event.fragment.inputs.map((input, i) => {
+      const value = event.args[i];
+      return [input.name, typeof value === 'boolean' ? value : value.toString()];
+    })
+  );
+}
+
+async function findUserByWallet(address: string, roles: UserRole[]): Promise<string | null> {
+  const { data, error } = await supabaseAdmin
+    .from('users')
+    .select('id')
+    .ilike('wallet_address', address)
+    .in('role', roles)
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data?.id ?? null;
+}
+
+async function findRequestId(chainRequestId: bigint): Promise<string | null> {
+  const { data, error } = await supabaseAdmin
+    .from('requests')
+    .select('id')
+    .eq('chain_request_id', chainRequestId.toString())
+    .maybeSingle();
+
+  if (error) throw error;
+  return data?.id ?? null;
+}
+
+async function findMilestone(chainRequestId: bigint, index: bigint) {
+  const requestId = await findRequestId(chainRequestId);
+  if (!requestId) return null;
+
+  const { data, error } = await supabaseAdmin
+    .from('request_milestones')
+    .select('id, round, status, proof_hash')
+    .eq('request_id', requestId)
+    .eq('milestone_index', Number(index))
+    .maybeSingle();
+
+  if (error) throw error;
+  return data as { id: string; round: number; status: string; proof_hash: string | null } | null;
+}
+
+async function setMilestoneStatus(event: ethers.LogDescription, status: string, fromStatus: string) {
+  const milestone = await findMilestone(event.args.requestId, event.args.milestoneIndex);
+  if (!milestone) return;
+
+  const { error } = await supabaseAdmin
+    .from('request_milestones')
+    .update({ status, decided_at: new Date().toISOString() })
+    .eq('id', milestone.id)
+    .eq('status', fromStatus);
+
+  if (error) throw error;
+}
+
+const handlers: Record<string, EventHandler> = {
+  async RequestCreated(event, log) {
+    const { requestId, requester, title, amountNeeded } = event.args;
+
+    if (await findRequestId(requestId)) return;
+
+    const requesterId = await findUserByWallet(requester, ['requester']);
+    if (!requesterId) {
+      console.warn(`RequestCreated #${requestId}: no requester with wallet ${requester}, skipping`);
+      return;
+    }
+
+    // The event doesn't carry the description, read it as of that block
+    const onChain = await donationPlatform.getRequest(requestId, { blockTag: log.blockNumber });
+
+    const { error } = await supabaseAdmin
+      .from('requests')
+      .insert({
+        title,
+        description: onChain.description,
+        amount_needed: toEth(amountNeeded),
+        amount_raised: 0,
+        status: 'pending',
+        requester_id: requesterId,
+        chain_request_id: requestId.toString(),
+        deadline: onChain.deadline > 0n ? new Date(Number(onChain.deadline) * 1000).toISOString() : null,
+      });
+
+    // The requester's client may have inserted the same row in the meantime
+    if (error && error.code !== '23505') throw error;
+  },
+
+  async VoteCast(event, log) {
+    const { requestId, verifier, approve } = event.args;
+
+    const dbRequestId = await findRequestId(requestId);
+    const voterId = await findUserByWallet(verifier, ['verifier', 'admin']);
+    if (!dbRequestId || !voterId) {
+      console.warn(`VoteCast #${requestId}: unknown request or verifier ${verifier}, skipping`);
+      return;
+    }
+
+    const onChain = {
+      relay_status: 'confirmed',
+      relay_tx_hash: log.transactionHash,
+      relayed_at: new Date().toISOString(),
+      relay_error: null,
+    };
+
+    const { error } = await supabaseAdmin
+      .from('votes')
+      .upsert(
+        { request_id: dbRequestId, voter_id: voterId, vote_type: approve ? 'approve' : 'reject', ...onChain },
+        { onConflict: 'request_id,voter_id', ignoreDuplicates: true }
+      );
+
+    if (error) throw error;
+
+    // Signed votes were inserted by the verifier before the relayer submitted them
+    const { error: relayError } = await supabaseAdmin
+      .from('votes')
+      .update(onChain)
+      .eq('request_id', dbRequestId)
+      .eq('voter_id', voterId)
+      .neq('relay_status', 'confirmed');
+
+    if (relayError) throw relayError;
+  },
+
+  async SignedVoteSkipped(event, log) {
+    const { requestId, verifier, reason } = event.args;
+
+    const dbRequestId = await findRequestId(requestId);
+    const voterId = await findUserByWallet(verifier, ['verifier', 'admin']);
+    if (!dbRequestId || !voterId) return;
+
+    const { error } = await supabaseAdmin
+      .from('votes')
+      .update({ relay_status: 'failed', relay_error: reason, relay_tx_hash: log.transactionHash })
+      .eq('request_id', dbRequestId)
+      .eq('voter_id', voterId)
+      .in('relay_status', ['pending', 'submitted']);
+
+    if (error) throw error;
+  },
+
+  async RequestApproved(event) {
+    const { error } = await supabaseAdmin
+      .from('requests')
+      .update({ status: 'approved' })
+      .eq('chain_request_id', event.args.requestId.toString())
+      .eq('status', 'pending');
+
+    if (error) throw error;
+  },
+
+  async RequestRejected(event) {
+    const { error } = await supabaseAdmin
+      .from('requests')
+      .update({ status: 'rejected' })
+      .eq('chain_request_id', event.args.requestId.toString())
+      .eq('status', 'pending');
+
+    if (error) throw error;
+  },
+
+  // Admin rejection after approval; donors can now claim refunds
+  async RequestCancelled(event) {
+    const { error } = await supabaseAdmin
+      .from('requests')
+      .update({ status: 'rejected' })
+      .eq('chain_request_id', event.args.requestId.toString())
+      .neq('status', 'rejected');
+
+    if (error) throw error;
+  },
+
+  async RefundClaimed(event, log) {
+    const { requestId, donor, amount } = event.args;
+
+    const dbRequestId = await findRequestId(requestId);
+    const donorId = await findUserByWallet(donor, ['donor', 'verifier', 'verifier_pending', 'requester', 'admin']);
+    if (!dbRequestId || !donorId) {
+      console.warn(`RefundClaimed #${requestId}: unknown request or donor ${donor}, skipping`);
+      return;
+    }
+
+    const { data: donations, error: lookupError } = await supabaseAdmin
+      .from('donations')
+      .select('id, amount, net_amount')
+      .eq('request_id', dbRequestId)
+      .eq('donor_id', donorId)
+      .eq('status', 'completed');
+
+    if (lookupError) throw lookupError;
+
+    // The contract refunds per donor; split it back over their donations
+    const rows = donations || [];
+    const total = rows.reduce((sum, d) => sum + (d.net_amount ?? d.amount), 0);
+    for (const donation of rows) {
+      const share = total > 0 ? ((donation.net_amount ?? donation.amount) / total) * toEth(amount) : 0;
+      const { error } = await supabaseAdmin
+        .from('donations')
+        .update({
+          status: 'refunded',
+          refund_tx_hash: log.transactionHash,
+          refund_amount: share,
+          refunded_at: new Date().toISOString(),
+        })
+        .eq('id', donation.id)
+        .eq('status', 'completed');
+
+      if (error) throw error;
+    }
+  },
+
+  async DonationMade(event, log) {
+    const { requestId, donor, amount } = event.args;
+
+    const dbRequestId = await findRequestId(requestId);
+    if (!dbRequestId) {
+      console.warn(`DonationMade #${requestId}: request not indexed yet, skipping`);
+      return;
+    }
+
+    const { data: existing, error: lookupError } = await supabaseAdmin
+      .from('donations')
+      .select('id, donor_id, request_id, status, verification_error')
+      .ilike('transaction_hash', log.transactionHash)
+      .maybeSingle();
+
+    if (lookupError) throw lookupError;
+
+    const donorId = await findUserByWallet(donor, ['donor', 'verifier', 'verifier_pending', 'requester', 'admin']);
+
+    // A client row can be inserted with any hash, e.g. one copied from the
+    // mempool before the real donor's client records it. The event decides
+    // who gave to what: a row that disagrees is re-bound to the donor and
+    // request from the event, or failed if the donor has no account
+    if (existing && existing.status !== 'refunded'
+      && (existing.request_id !== dbRequestId || existing.donor_id !== donorId)) {
+      console.warn(`DonationMade #${requestId}: ${log.transactionHash} was recorded for another donor or request, re-binding it`);
+
+      const tx = await provider.getTransaction(log.transactionHash);
+      const { error } = await supabaseAdmin
+        .from('donations')
+        .update(donorId
+          ? {
+            donor_id: donorId,
+            request_id: dbRequestId,
+            amount: tx ? toEth(tx.value) : toEth(amount),
+            net_amount: toEth(amount),
+            chain_request_id: requestId.toString(),
+            status: 'completed',
+            verified_at: new Date().toISOString(),
+            verification_error: null,
+          }
+          : { status: 'failed', verification_error: 'Transaction belongs to another donor' })
+        .eq('id', existing.id);
+
+      if (error) throw error;
+      return;
+    }
+
+    if (existing) {
+      // Pending rows are left to the verification worker
+      const restored = existing.status === 'failed' && existing.verification_error === REORG_ERROR;
+      const { error } = await supabaseAdmin
+        .from('donations')
+        .update({
+          chain_request_id: requestId.toString(),
+          net_amount: toEth(amount),
+          ...(restored ? { status: 'completed', verification_error: null } : {}),
+        })
+        .eq('id', existing.id);
+
+      if (error) throw error;
+      return;
+    }
+
+    if (!donorId) {
+      console.warn(`DonationMade #${requestId}: no user with wallet ${donor}, skipping`);
+      return;
+    }
+
+    const tx = await provider.getTransaction(log.transactionHash);
+
+    const { error } = await supabaseAdmin
+      .from('donations')
+      .insert({
+        request_id: dbRequestId,
+        donor_id: donorId,
+        amount: tx ? toEth(tx.value) : toEth(amount),
+        net_amount: toEth(amount),
+        chain_request_id: requestId.toString(),
+        transaction_hash: log.transactionHash,
+        status: 'completed',
+        verified_at: new Date().toISOString(),
+      });
+
+    if (error && error.code !== '23505') throw error;
+  },
+
+  async FundsWithdrawn(event, log) {
+    const { requestId, amount } = event.args;
+
+    const { data: request, error: requestError } = await supabaseAdmin
+      .from('requests')
+      .select('id, requester_id')
+      .eq('chain_request_id', requestId.toString())
+      .maybeSingle();
+
+    if (requestError) throw requestError;
+    if (!request) {
+      console.warn(`FundsWithdrawn #${requestId}: request not indexed yet, skipping`);
+      return;
+    }
+
+    // Bound to the request from the event, whatever a client row claimed
+    const confirmed = {
+      amount: toEth(amount),
+      status: 'completed',
+      request_id: request.id,
+      requester_id: request.requester_id,
+      chain_request_id: requestId.toString(),
+      block_number: log.blockNumber,
+      verification_error: null,
+      confirmed_at: new Date().toISOString(),
+    };
+
+    const { data: existing, error: lookupError } = await supabaseAdmin
+      .from('withdrawals')
+      .select('id')
+      .ilike('transaction_hash', log.transactionHash)
+      .maybeSingle();
+
+    if (lookupError) throw lookupError;
+
+    // Usually recorded as pending by the requester's client already
+    if (existing) {
+      const { error } = await supabaseAdmin
+        .from('withdrawals')
+        .update(confirmed)
+        .eq('id', existing.id);
+
+      if (error) throw error;
+      return;
+    }
+
+    const { error } = await supabaseAdmin
+      .from('withdrawals')
+      .insert({
+        ...confirmed,
+        transaction_hash: log.transactionHash,
+      });
+
+    if (error && error.code !== '23505') throw error;
+  },
+
+  async VerifierAdded(event, log) {
+    await setVerifier(event.args.verifier, true, log.blockNumber);
+  },
+
+  async VerifierRemoved(event, log) {
+    await setVerifier(event.args.verifier, false, log.blockNumber);
+  },
+
+  async MilestoneAdded(event) {
+    const { requestId, milestoneIndex, amount, description } = event.args;
+
+    const dbRequestId = await findRequestId(requestId);
+    if (!dbRequestId) {
+      console.warn(`MilestoneAdded #${requestId}: request not indexed yet, skipping`);
+      return;
+    }
+
+    const { error } = await supabaseAdmin
+      .from('request_milestones')
+      .upsert(
+        { request_id: dbRequestId, milestone_index: Number(milestoneIndex), description, amount: toEth(amount) },
+        { onConflict: 'request_id,milestone_index', ignoreDuplicates: true }
+      );
+
+    if (error) throw error;
+  },
+
+  async MilestoneProofSubmitted(event) {
+    const { requestId, milestoneIndex, proofHash } = event.args;
+
+    const milestone = await findMilestone(requestId, milestoneIndex);
+    if (!milestone) {
+      console.warn(`MilestoneProofSubmitted #${requestId}/${milestoneIndex}: milestone not indexed yet, skipping`);
+      return;
+    }
+
+    // submit_milestone_proof() has usually opened this round already
+    if (milestone.proof_hash === proofHash.toLowerCase() && milestone.status !== 'rejected') return;
+
+    const { error } = await supabaseAdmin
+      .from('request_milestones')
+      .update({
+        proof_hash: proofHash.toLowerCase(),
+        proof_submitted_at: new Date().toISOString(),
+        round: milestone.round + 1,
+        status: 'in_review',
+        decided_at: null,
+      })
+      .eq('id', milestone.id);
+
+    if (error) throw error;
+  },
+
+  async MilestoneVoteCast(event) {
+    const { requestId, milestoneIndex, verifier, approve } = event.args;
+
+    const milestone = await findMilestone(requestId, milestoneIndex);
+    const voterId = await findUserByWallet(verifier, ['verifier', 'admin']);
+    if (!milestone || !voterId) {
+      console.warn(`MilestoneVoteCast #${requestId}/${milestoneIndex}: unknown milestone or verifier ${verifier}, skipping`);
+      return;
+    }
+
+    const { error } = await supabaseAdmin
+      .from('milestone_votes')
+      .upsert(
+        { milestone_id: milestone.id, voter_id: voterId, round: milestone.round, vote_type: approve ? 'approve' : 'reject' },
+        { onConflict: 'milestone_id,voter_id,round', ignoreDuplicates: true }
+      );
+
+    if (error) throw error;
+  },
+
+  async MilestoneApproved(event) {
+    await setMilestoneStatus(event, 'approved', 'in_review');
+  },
+
+  async MilestoneRejected(event) {
+    await setMilestoneStatus(event, 'rejected', 'in_review');
+  },
+
+  async MilestoneReleased(event, log) {
+    const milestone = await findMilestone(event.args.requestId, event.args.milestoneIndex);
+    if (!milestone) return;
+
+    const { error } = await supabaseAdmin
+      .from('request_milestones')
+      .update({
+        status: 'released',
+        released_amount: toEth(event.args.amount),
+        release_tx_hash: log.transactionHash,
+        released_at: new Date().toISOString(),
+      })
+      .eq('id', milestone.id);
+
+    if (error) throw error;
+  },
+
+  // The contract owner and admins in the app share one quorum policy
+  async QuorumPolicyUpdated(event) {
+    const { minimumVotes, approvalThresholdBps, useVerifierWeights } = event.args;
+
+    const { error } = await supabaseAdmin
+      .from('governance_settings')
+      .update({
+        minimum_votes: Number(minimumVotes),
+        approval_threshold_bps: Number(approvalThresholdBps),
+        use_verifier_weights: useVerifierWeights,
+      })
+      .eq('id', true);
+
+    if (error) throw error;
+  },
+
+  async VerifierWeightUpdated(event) {
+    const { verifier, weight } = event.args;
+
+    const verifierId = await findUserByWallet(verifier, ['verifier', 'admin']);
+    if (!verifierId) {
+      console.warn(`VerifierWeightUpdated: no verifier with wallet ${verifier}, skipping`);
+      return;
+    }
+
+    const { error } = await supabaseAdmin
+      .from('verifier_weights')
+      .upsert({ verifier_id: verifierId, weight: Number(weight) });
+
+    if (error) throw error;
+  },
+};
+
+async function setVerifier(address: string, isActive: boolean, blockNumber: number) {
+  const { error } = await supabaseAdmin
+    .from('chain_verifiers')
+    .upsert({ address: ethers.getAddress(address), is_active: isActive, updated_block: blockNumber });
+
+  if (error) throw error;
+}
+
+async function applyLog(log: ethers.Log) {
+  const event = donationPlatform.interface.parseLog(log);
+  if (!event) return;
+
+  await handlers[event.name]?.(event, log);
+
+  const { error } = await supabaseAdmin
+    .from('chain_events')
+    .upsert(
+      {
+        block_number: log.blockNumber,
+        block_hash: log.blockHash,
+        transaction_hash: log.transactionHash,
+        log_index: log.index,
+        event_name: event.name,
+        args: serializeArgs(event),
+        orphaned_at: null,
+      },
+      { onConflict: 'transaction_hash,log_index' }
+    );
+
+  if (error) throw error;
+}
+
+// Undo what we can for events whose blocks were reorged out
+async function revertEvent(stored: StoredEvent) {
+  console.warn(`Reverting ${stored.event_name} from ${stored.transaction_hash} (reorged out)`);
+
+  switch (stored.event_name) {
+    case 'DonationMade': {
+      const { error } = await supabaseAdmin
+        .from('donations')
+        .update({ status: 'failed', verification_error: REORG_ERROR })
+        .ilike('transaction_hash', stored.transaction_hash)
+        .eq('status', 'completed');
+      if (error) throw error;
+      break;
+    }
+    case 'MilestoneReleased': {
+      const { error } = await supabaseAdmin
+        .from('request_milestones')
+        .update({ status: 'approved', released_amount: null, release_tx_hash: null, released_at: null })
+        .ilike('release_tx_hash', stored.transaction_hash);
+      if (error) throw error;
+      break;
+    }
+    case 'RefundClaimed': {
+      const { error } = await supabaseAdmin
+        .from('donations')
+        .update({ status: 'completed', refund_amount: null, refunded_at: null })
+        .ilike('refund_tx_hash', stored.transaction_hash)
+        .eq('status', 'refunded');
+      if (error) throw error;
+      break;
+    }
+    case 'FundsWithdrawn': {
+      const { error } = await supabaseAdmin
+        .from('withdrawals')
+        .update({ status: 'failed', verification_error: REORG_ERROR })
+        .ilike('transaction_hash', stored.transaction_hash)
+        .eq('status', 'completed');
+      if (error) throw error;
+      break;
+    }
+    case 'RequestApproved':
+    case 'RequestRejected': {
+      const { error } = await supabaseAdmin
+        .from('requests')
+        .update({ status: 'pending' })
+        .eq('chain_request_id', String(stored.args.requestId))
+        .eq('status', stored.event_name === 'RequestApproved' ? 'approved' : 'rejected');
+      if (error) throw error;
+      break;
+    }
+    default:
+      console.warn(`No automatic revert for ${stored.event_name}; review manually`);
+  }
+}
+
+async function loadCursor() {
+  const { data, error } = await supabaseAdmin
+    .from('indexer_cursors')
+    .select('last_block, last_block_hash')
+    .eq('name', CURSOR_NAME)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data as { last_block: number; last_block_hash: string | null } | null;
+}
+
+async function saveCursor(blockNumber: number) {
+  const block = await provider.getBlock(blockNumber);
+
+  const { error } = await supabaseAdmin
+    .from('indexer_cursors')
+    .upsert({ name: CURSOR_NAME, last_block: blockNumber, last_block_hash: block?.hash ?? null });
+
+  if (error) throw error;
+}
+
+// Returns the first block to index. On a reorg every event after the rewind
+// point is flagged as orphaned; replaying the range clears the flag on the
+// ones that survived
+async function resolveStart(fromBlockOverride: number | null): Promise<number> {
+  if (fromBlockOverride !== null) {
+    return fromBlockOverride;
+  }
+
+  const cursor = await loadCursor();
+  if (!cursor) {
+    return START_BLOCK;
+  }
+
+  const block = await provider.getBlock(cursor.last_block);
+  if (block && block.hash === cursor.last_block_hash) {
+    return cursor.last_block + 1;
+  }
+
+  const rewindTo = Math.max(START_BLOCK, cursor.last_block - REORG_REWIND_BLOCKS);
+  console.warn(`Reorg detected at block ${cursor.last_block}; rewinding to ${rewindTo}`);
+
+  const { error } = await supabaseAdmin
+    .from('chain_events')
+    .update({ orphaned_at: new Date().toISOString() })
+    .gt('block_number', rewindTo)
+    .is('orphaned_at', null);
+
+  if (error) throw error;
+  return rewindTo + 1;
+}
+
+// Reverts are idempotent, so an event is only deleted once its revert has
+// gone through; a crash in between reverts it again on the next pass
+async function revertOrphaned() {
+  const { data, error } = await supabaseAdmin
+    .from('chain_events')
+    .select('id, transaction_hash, log_index, event_name, args')
+    .not('orphaned_at', 'is', null)
+    .order('id', { ascending: true });
+
+  if (error) throw error;
+
+  const orphans = (data || []) as (StoredEvent & { id: number })[];
+  if (orphans.length === 0) return;
+
+  // A transaction re-mined in another block or position is stored again under
+  // its new log index by the replay; its effects stand, so its old copy is
+  // dropped without reverting them
+  const { data: replayed, error: replayedError } = await supabaseAdmin
+    .from('chain_events')
+    .select('transaction_hash, event_name, args')
+    .in('transaction_hash', [...new Set(orphans.map((orphan) => orphan.transaction_hash))])
+    .is('orphaned_at', null);
+
+  if (replayedError) throw replayedError;
+
+  const eventKey = (event: Pick<StoredEvent, 'transaction_hash' | 'event_name' | 'args'>) =>
+    `${event.transaction_hash.toLowerCase()}:${event.event_name}:${JSON.stringify(event.args)}`;
+  const survived = new Set(((replayed || []) as StoredEvent[]).map(eventKey));
+
+  for (const stored of orphans) {
+    if (!survived.has(eventKey(stored))) {
+      await revertEvent(stored);
+    }
+
+    const { error: deleteError } = await supabaseAdmin
+      .from('chain_events')
+      .delete()
+      .eq('id', stored.id)
+      .not('orphaned_at', 'is', null);
+
+    if (deleteError) throw deleteError;
+  }
+}
+
+// Index everything up to the confirmed head
+async function tick(fromBlockOverride: number | null) {
+  let from = await resolveStart(fromBlockOverride);
+
+  const head = await provider.getBlockNumber();
+  const safeHead = head - CONFIRMATIONS;
+
+  while (from <= safeHead) {
+    const to = Math.min(from + BLOCK_BATCH_SIZE - 1, safeHead);
+
+    const logs = await provider.getLogs({ address: contractAddress, fromBlock: from, toBlock: to });
+    for (const log of logs) {
+      await applyLog(log);
+    }
+
+    await saveCursor(to);
+    console.log(`Indexed blocks ${from}-${to} (${logs.length} events)`);
+    from = to + 1;
+  }
+
+  await revertOrphaned();
+}
+
+function parseFromBlock(): number | null {
+  const index = process.argv.indexOf('--from-block');
+  if (index === -1) return null;
+
+  const value = Number(process.argv[index + 1]);
+  if (!Number.isInteger(value) || value < 0) {
+    throw new Error('--from-block must be a non-negative block number');
+  }
+  return value;
+}
+
+async function main() {
+  const backfill = process.argv.includes('--backfill');
+  let fromBlockOverride = parseFromBlock();
+
+  for (;;) {
+    try {
+      await tick(fromBlockOverride);
+      fromBlockOverride = null;
+      if (backfill) break;
+    } catch (error) {
+      if (backfill) throw error;
+      // Transient RPC/database errors: retry from the last checkpoint
+      console.error('Indexer error:', error);
+    }
+
+    await sleep(POLL_INTERVAL_MS);
+  }
+}
+
+main().catch((error) => {
+  console.error('Indexer crashed:', error);
+  process.exit(1);
+});
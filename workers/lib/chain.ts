@@ -0,0 +1,10 @@
+import { ethers } from 'ethers';
+import { DONATION_PLATFORM_ABI } from '../../src/lib/donationPlatformAbi';
+import { requireEnv } from './env';
+
+// Defaults to a local Anvil/Hardhat node (both listen on 8545)
+export const provider = new ethers.JsonRpcProvider(process.env.RPC_URL || 'http://127.0.0.1:8545');
+
+export const contractAddress = ethers.getAddress(requireEnv('CONTRACT_ADDRESS'));
+
+export const donationPlatform = new ethers.Contract(contractAddress, DONATION_PLATFORM_ABI, provider);
@@ -0,0 +1,9 @@
+import { createClient } from '@supabase/supabase-js';
+import { requireEnv } from './env';
+
+// Service-role client: bypasses RLS, so it must only ever run server-side.
+export const supabaseAdmin = createClient(
+  requireEnv('SUPABASE_URL'),
+  requireEnv('SUPABASE_SERVICE_ROLE_KEY'),
+  { auth: { persistSession: false } }
+);
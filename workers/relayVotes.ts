@@ -0,0 +1,180 @@
+/*
+  # Signed vote relayer
+
+  Verifiers sign EIP-712 votes in the dashboard instead of sending a
+  transaction. This worker collects `pending` signed votes, drops ones that
+  have expired or don't recover to the voter's profile wallet, and submits
+  the rest in batches to `DonationPlatform.voteBySig`, paying the gas from
+  RELAYER_PRIVATE_KEY.
+
+    - Votes move to `submitted` once their batch is mined
+    - The indexer marks them `confirmed` from VoteCast, or `failed` with the
+      contract's reason from SignedVoteSkipped
+    - If the batch transaction can't be sent (e.g. the contract is paused)
+      the votes stay `pending` with `relay_error` set and are retried
+
+  Usage:
+    npm run worker:relay-votes             # run forever
+    npm run worker:relay-votes -- --once   # single pass (cron, local testing)
+*/
+import { ethers } from 'ethers';
+import { supabaseAdmin } from './lib/supabaseAdmin';
+import { provider, contractAddress, donationPlatform } from './lib/chain';
+import { sleep } from './lib/sleep';
+import { numberEnv, requireEnv } from './lib/env';
+import { SignedVote, VOTE_TYPES, voteDomain } from '../src/lib/donationPlatformAbi';
+
+const BATCH_SIZE = numberEnv('RELAYER_BATCH_SIZE', 25);
+const POLL_INTERVAL_MS = numberEnv('RELAYER_POLL_INTERVAL_MS', 30000);
+
+const relayer = new ethers.Wallet(requireEnv('RELAYER_PRIVATE_KEY'), provider);
+const contract = donationPlatform.connect(relayer) as ethers.Contract;
+
+interface PendingVote {
+  id: string;
+  vote_type: 'approve' | 'reject';
+  signature: string;
+  signer_address: string;
+  signature_deadline: string;
+  request: { chain_request_id: number | null } | null;
+  voter: { wallet_address: string | null } | null;
+}
+
+async function markFailed(voteId: string, reason: string) {
+  console.warn(`Vote ${voteId}: ${reason}`);
+
+  const { error } = await supabaseAdmin
+    .from('votes')
+    .update({ relay_status: 'failed', relay_error: reason })
+    .eq('id', voteId);
+
+  if (error) throw error;
+}
+
+async function runOnce(domain: ReturnType<typeof voteDomain>) {
+  const { data, error } = await supabaseAdmin
+    .from('votes')
+    .select(`
+      id, vote_type, signature, signer_address, signature_deadline,
+      request:requests(chain_request_id),
+      voter:users!voter_id(wallet_address)
+    `)
+    .eq('relay_status', 'pending')
+    .order('created_at', { ascending: true })
+    .limit(BATCH_SIZE);
+
+  if (error) throw error;
+
+  const batch: SignedVote[] = [];
+  const batchIds: string[] = [];
+
+  for (const vote of (data || []) as unknown as PendingVote[]) {
+    const chainRequestId = vote.request?.chain_request_id;
+    if (!chainRequestId) {
+      await markFailed(vote.id, 'Request is not registered on-chain');
+      continue;
+    }
+
+    const deadline = BigInt(Math.floor(new Date(vote.signature_deadline).getTime() / 1000));
+    if (deadline * 1000n <= BigInt(Date.now())) {
+      await markFailed(vote.id, 'Signature expired');
+      continue;
+    }
+
+    const signed: SignedVote = {
+      requestId: BigInt(chainRequestId),
+      approve: vote.vote_type === 'approve',
+      verifier: vote.signer_address,
+      deadline,
+      signature: vote.signature,
+    };
+
+    // The vote must be attributable to the voter's own wallet, not just any verifier
+    const wallet = vote.voter?.wallet_address;
+    let recovered: string;
+    try {
+      recovered = ethers.verifyTypedData(
+        domain,
+        VOTE_TYPES,
+        { requestId: signed.requestId, approve: signed.approve, verifier: signed.verifier, deadline },
+        signed.signature
+      );
+    } catch {
+      await markFailed(vote.id, 'Malformed signature');
+      continue;
+    }
+
+    if (
+      recovered.toLowerCase() !== signed.verifier.toLowerCase() ||
+      !wallet ||
+      wallet.toLowerCase() !== recovered.toLowerCase()
+    ) {
+      await markFailed(vote.id, 'Signature does not match the voter wallet');
+      continue;
+    }
+
+    batch.push(signed);
+    batchIds.push(vote.id);
+  }
+
+  if (batch.length === 0) return;
+
+  try {
+    const tx: ethers.ContractTransactionResponse = await contract.voteBySig(batch);
+    console.log(`Relaying ${batch.length} vote(s) in ${tx.hash}`);
+
+    const receipt = await tx.wait();
+    if (!receipt || receipt.status !== 1) {
+      throw new Error(`Batch transaction ${tx.hash} reverted`);
+    }
+
+    const { error: updateError } = await supabaseAdmin
+      .from('votes')
+      .update({
+        relay_status: 'submitted',
+        relay_tx_hash: receipt.hash,
+        relayed_at: new Date().toISOString(),
+        relay_error: null,
+      })
+      .in('id', batchIds)
+      .eq('relay_status', 'pending');
+
+    if (updateError) throw updateError;
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    console.error('Vote batch failed, will retry:', reason);
+
+    const { error: updateError } = await supabaseAdmin
+      .from('votes')
+      .update({ relay_error: reason.slice(0, 500) })
+      .in('id', batchIds);
+
+    if (updateError) throw updateError;
+  }
+}
+
+async function main() {
+  const once = process.argv.includes('--once');
+  const { chainId } = await provider.getNetwork();
+  const domain = voteDomain(chainId, contractAddress);
+
+  console.log(`Relaying signed votes from ${relayer.address}`);
+
+  for (;;) {
+    try {
+      await runOnce(domain);
+    } catch (error) {
+      if (once) throw error;
+      // Transient RPC/database errors: retry on the next pass
+      console.error('Vote relay error:', error);
+    }
+
+    if (once) break;
+    await sleep(POLL_INTERVAL_MS);
+  }
+}
+
+main().catch((error) => {
+  console.error('Vote relayer crashed:', error);
+  process.exit(1);
+});
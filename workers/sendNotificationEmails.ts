@@ -0,0 +1,213 @@
+/*
+  # Notification email dispatcher
+
+  Database triggers queue notifications with `email_status = 'pending'` when
+  the recipient wants them by email, and support staff replies are queued the
+  same way in `support_ticket_messages`. This worker sends both over SMTP and
+  records the outcome on the row.
+
+    - Sent emails move to `sent` with `emailed_at` set
+    - Failed sends are retried on the next pass until EMAIL_MAX_ATTEMPTS,
+      then marked `failed` with the last error
+    - If the `sent` status can't be written after a send, later passes
+      retry the write without sending the email again
+
+  Local testing: run an SMTP catcher such as Mailpit (`docker run -p 1025:1025
+  -p 8025:8025 axllent/mailpit`) and leave SMTP_HOST/SMTP_PORT at their
+  defaults; sent mail shows up at http://localhost:8025.
+
+  Usage:
+    npm run worker:send-emails             # run forever
+    npm run worker:send-emails -- --once   # single pass (cron, local testing)
+*/
+import nodemailer from 'nodemailer';
+import { supabaseAdmin } from './lib/supabaseAdmin';
+import { sleep } from './lib/sleep';
+import { numberEnv } from './lib/env';
+
+const BATCH_SIZE = numberEnv('EMAIL_BATCH_SIZE', 50);
+const MAX_ATTEMPTS = numberEnv('EMAIL_MAX_ATTEMPTS', 5);
+const POLL_INTERVAL_MS = numberEnv('EMAIL_POLL_INTERVAL_MS', 60000);
+const APP_URL = (process.env.APP_URL || 'http://localhost:5173').replace(/\/$/, '');
+const MAIL_FROM = process.env.MAIL_FROM || 'DeCriCo <notifications@decrico.local>';
+
+const transport = nodemailer.createTransport({
+  host: process.env.SMTP_HOST || 'localhost',
+  port: numberEnv('SMTP_PORT', 1025),
+  secure: process.env.SMTP_SECURE === 'true',
+  auth: process.env.SMTP_USER
+    ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS || '' }
+    : undefined,
+});
+
+type EmailTable = 'notifications' | 'support_ticket_messages';
+
+interface PendingEmail {
+  id: string;
+  title: string;
+  body: string;
+  request_id: string | null;
+  email_attempts: number;
+  recipient: { email: string; username: string } | null;
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+interface PendingReply {
+  id: string;
+  body: string;
+  email_attempts: number;
+  ticket: { name: string; email: string; subject: string; message: string } | null;
+}
+
+function renderEmail(notification: PendingEmail) {
+  const link = notification.request_id ? `${APP_URL}/request/${notification.request_id}` : `${APP_URL}/dashboard`;
+  const greeting = `Hi ${notification.recipient?.username || 'there'},`;
+  const footer = 'You can change which emails you receive from the notification settings in the app.';
+
+  return {
+    subject: notification.title,
+    text: [greeting, '', notification.body, '', link, '', footer].join('\n'),
+    html: `
+      <p>${escapeHtml(greeting)}</p>
+      <p>${escapeHtml(notification.body)}</p>
+      <p><a href="${escapeHtml(link)}">View on DeCriCo</a></p>
+      <p style="color:#6b7280;font-size:12px">${escapeHtml(footer)}</p>
+    `,
+  };
+}
+
+function renderReply(reply: PendingReply) {
+  const ticket = reply.ticket!;
+  const quoted = ticket.message.split('\n').map((line) => `> ${line}`).join('\n');
+
+  return {
+    subject: 'Re: your message to DeCriCo support',
+    text: [`Hi ${ticket.name},`, '', reply.body, '', '--', 'You wrote:', quoted].join('\n'),
+    html: `
+      <p>${escapeHtml(`Hi ${ticket.name},`)}</p>
+      <p style="white-space:pre-wrap">${escapeHtml(reply.body)}</p>
+      <hr>
+      <p style="color:#6b7280;font-size:12px">You wrote:</p>
+      <blockquote style="color:#6b7280;white-space:pre-wrap">${escapeHtml(ticket.message)}</blockquote>
+    `,
+  };
+}
+
+// Emails that went out but whose `sent` status couldn't be written yet,
+// keyed by table and row id. Later passes retry the status write instead of
+// sending them again.
+const unrecorded = new Map<string, { table: EmailTable; id: string; attempts: number; emailedAt: string }>();
+
+async function recordSent(table: EmailTable, id: string, attempts: number, emailedAt: string) {
+  const { error } = await supabaseAdmin
+    .from(table)
+    .update({ email_status: 'sent', email_attempts: attempts, emailed_at: emailedAt, email_error: null })
+    .eq('id', id);
+
+  if (error) throw error;
+  unrecorded.delete(`${table}:${id}`);
+}
+
+// Sends one queued email and records the outcome on its row. Send failures
+// are retried on later passes until MAX_ATTEMPTS.
+async function deliver(
+  table: EmailTable,
+  row: { id: string; email_attempts: number },
+  to: string | undefined,
+  message: { subject: string; text: string; html: string }
+) {
+  if (unrecorded.has(`${table}:${row.id}`)) return;
+
+  const attempts = row.email_attempts + 1;
+
+  try {
+    if (!to) {
+      throw new Error('Recipient has no email address');
+    }
+
+    await transport.sendMail({ from: MAIL_FROM, to, ...message });
+  } catch (sendError) {
+    const reason = sendError instanceof Error ? sendError.message : String(sendError);
+    const giveUp = attempts >= MAX_ATTEMPTS;
+    console.error(`${table} ${row.id} attempt ${attempts} failed${giveUp ? ', giving up' : ''}:`, reason);
+
+    const { error } = await supabaseAdmin
+      .from(table)
+      .update({
+        email_status: giveUp ? 'failed' : 'pending',
+        email_attempts: attempts,
+        email_error: reason.slice(0, 500),
+      })
+      .eq('id', row.id);
+
+    if (error) throw error;
+    return;
+  }
+
+  const emailedAt = new Date().toISOString();
+  unrecorded.set(`${table}:${row.id}`, { table, id: row.id, attempts, emailedAt });
+  await recordSent(table, row.id, attempts, emailedAt);
+  console.log(`Emailed ${table} ${row.id} to ${to}`);
+}
+
+async function runOnce() {
+  for (const sent of [...unrecorded.values()]) {
+    await recordSent(sent.table, sent.id, sent.attempts, sent.emailedAt);
+  }
+
+  const { data: notifications, error } = await supabaseAdmin
+    .from('notifications')
+    .select('id, title, body, request_id, email_attempts, recipient:users!user_id(email, username)')
+    .eq('email_status', 'pending')
+    .order('created_at', { ascending: true })
+    .limit(BATCH_SIZE);
+
+  if (error) throw error;
+
+  for (const notification of (notifications || []) as unknown as PendingEmail[]) {
+    await deliver('notifications', notification, notification.recipient?.email, renderEmail(notification));
+  }
+
+  const { data: replies, error: repliesError } = await supabaseAdmin
+    .from('support_ticket_messages')
+    .select('id, body, email_attempts, ticket:support_tickets(name, email, subject, message)')
+    .eq('email_status', 'pending')
+    .order('created_at', { ascending: true })
+    .limit(BATCH_SIZE);
+
+  if (repliesError) throw repliesError;
+
+  for (const reply of (replies || []) as unknown as PendingReply[]) {
+    if (!reply.ticket) continue;
+    await deliver('support_ticket_messages', reply, reply.ticket.email, renderReply(reply));
+  }
+}
+
+async function main() {
+  const once = process.argv.includes('--once');
+
+  await transport.verify();
+  console.log('Sending notification and support emails');
+
+  for (;;) {
+    try {
+      await runOnce();
+    } catch (error) {
+      if (once) throw error;
+      // Transient RPC/database errors: retry on the next pass
+      console.error('Notification email error:', error);
+    }
+
+    if (once) break;
+    await sleep(POLL_INTERVAL_MS);
+  }
+
+  transport.close();
+}
+
+main().catch((error) => {
+  console.error('Notification email worker crashed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,257 @@
+/*
+  # Donation verification worker
+
+  Clients insert donations as `pending` with the hash of their
+  DonationPlatform.donate transaction. This worker fetches the receipt and
+  only marks the row `completed` (which credits `requests.amount_raised`)
+  once the transaction is confirmed and matches what the row claims:
+
+    - it succeeded and was sent to the DonationPlatform contract
+    - it was sent from the donor's `users.wallet_address`
+    - its value equals `donations.amount`
+    - it emitted DonationMade for the request's `chain_request_id`
+
+  Anything else is marked `failed` with a `verification_error`. Donations
+  that are still unmined get `last_checked_at` bumped and go to the back of
+  the queue.
+
+  Pending withdrawals are confirmed by the indexer from FundsWithdrawn. This
+  worker fails the ones that never will be: the transaction reverted, was
+  never mined, or is VERIFY_WITHDRAWAL_CONFIRMATIONS deep without the indexer
+  having confirmed it. If the indexer was only lagging, it still marks the
+  row `completed` when it reaches the event.
+
+  Usage:
+    npm run worker:verify-donations             # poll forever
+    npm run worker:verify-donations -- --once   # single pass (cron, local testing)
+
+  Point RPC_URL at a local Anvil/Hardhat node to run it against a dev chain.
+*/
+import { ethers } from 'ethers';
+import { supabaseAdmin } from './lib/supabaseAdmin';
+import { provider, contractAddress, donationPlatform } from './lib/chain';
+import { sleep } from './lib/sleep';
+import { numberEnv } from './lib/env';
+
+const POLL_INTERVAL_MS = numberEnv('VERIFY_POLL_INTERVAL_MS', 15000);
+const MIN_CONFIRMATIONS = numberEnv('VERIFY_MIN_CONFIRMATIONS', 1);
+const PENDING_TIMEOUT_MS = numberEnv('VERIFY_PENDING_TIMEOUT_MS', 60 * 60 * 1000);
+const WITHDRAWAL_CONFIRMATIONS = numberEnv('VERIFY_WITHDRAWAL_CONFIRMATIONS', 64);
+const BATCH_SIZE = 50;
+
+interface PendingDonation {
+  id: string;
+  amount: number;
+  net_amount: number | null;
+  transaction_hash: string;
+  created_at: string;
+  donor: { wallet_address: string | null } | null;
+  request: { chain_request_id: number | null } | null;
+}
+
+type VerificationResult =
+  | { status: 'completed'; netAmount: number }
+  | { status: 'failed'; reason: string }
+  | { status: 'pending' };
+
+const fail = (reason: string): VerificationResult => ({ status: 'failed', reason });
+
+async function verifyDonation(donation: PendingDonation): Promise<VerificationResult> {
+  const hash = donation.transaction_hash;
+  if (!ethers.isHexString(hash, 32)) {
+    return fail('Malformed transaction hash');
+  }
+
+  const receipt = await provider.getTransactionReceipt(hash);
+  if (!receipt) {
+    const age = Date.now() - new Date(donation.created_at).getTime();
+    return age > PENDING_TIMEOUT_MS ? fail('Transaction not found on chain') : { status: 'pending' };
+  }
+
+  if ((await receipt.confirmations()) < MIN_CONFIRMATIONS) {
+    return { status: 'pending' };
+  }
+
+  if (receipt.status !== 1) {
+    return fail('Transaction reverted');
+  }
+
+  const tx = await provider.getTransaction(hash);
+  if (!tx) {
+    return { status: 'pending' };
+  }
+
+  if (!tx.to || ethers.getAddress(tx.to) !== contractAddress) {
+    return fail('Transaction was not sent to the DonationPlatform contract');
+  }
+
+  const donorWallet = donation.donor?.wallet_address;
+  if (!donorWallet || !ethers.isAddress(donorWallet)) {
+    return fail('Donor has no valid wallet address');
+  }
+  if (ethers.getAddress(tx.from) !== ethers.getAddress(donorWallet)) {
+    return fail('Transaction sender does not match donor wallet');
+  }
+
+  // Both sides come from the same decimal string the donor typed in
+  if (parseFloat(ethers.formatEther(tx.value)) !== donation.amount) {
+    return fail('Transaction value does not match donation amount');
+  }
+
+  const event = receipt.logs
+    .filter((log) => ethers.getAddress(log.address) === contractAddress)
+    .map((log) => donationPlatform.interface.parseLog(log))
+    .find((parsed) => parsed?.name === 'DonationMade');
+
+  if (!event) {
+    return fail('No DonationMade event in transaction');
+  }
+
+  const chainRequestId = donation.request?.chain_request_id;
+  if (chainRequestId == null || event.args.requestId !== BigInt(chainRequestId)) {
+    return fail('Donation was made to a different on-chain request');
+  }
+
+  const netAmount = parseFloat(ethers.formatEther(event.args.amount));
+  if (donation.net_amount != null && donation.net_amount !== netAmount) {
+    return fail('Recorded net amount does not match DonationMade event');
+  }
+
+  return { status: 'completed', netAmount };
+}
+
+interface PendingWithdrawal {
+  id: string;
+  transaction_hash: string;
+  created_at: string;
+}
+
+// Returns why a pending withdrawal can't be confirmed, or null to keep waiting
+async function staleWithdrawalReason(withdrawal: PendingWithdrawal): Promise<string | null> {
+  const hash = withdrawal.transaction_hash;
+  if (!ethers.isHexString(hash, 32)) {
+    return 'Malformed transaction hash';
+  }
+
+  const receipt = await provider.getTransactionReceipt(hash);
+  if (!receipt) {
+    const age = Date.now() - new Date(withdrawal.created_at).getTime();
+    return age > PENDING_TIMEOUT_MS ? 'Transaction not found on chain' : null;
+  }
+
+  if (receipt.status !== 1) {
+    return 'Transaction reverted';
+  }
+
+  if ((await receipt.confirmations()) < WITHDRAWAL_CONFIRMATIONS) {
+    return null;
+  }
+
+  return 'No FundsWithdrawn event was indexed for this transaction';
+}
+
+async function expireWithdrawals() {
+  const { data, error } = await supabaseAdmin
+    .from('withdrawals')
+    .select('id, transaction_hash, created_at')
+    .eq('status', 'pending')
+    .order('created_at', { ascending: true })
+    .limit(BATCH_SIZE);
+
+  if (error) throw error;
+
+  for (const withdrawal of (data || []) as PendingWithdrawal[]) {
+    try {
+      const reason = await staleWithdrawalReason(withdrawal);
+      if (!reason) continue;
+
+      const { error: updateError } = await supabaseAdmin
+        .from('withdrawals')
+        .update({ status: 'failed', verification_error: reason })
+        .eq('id', withdrawal.id)
+        .eq('status', 'pending');
+
+      if (updateError) throw updateError;
+
+      console.log(`Withdrawal ${withdrawal.id} failed: ${reason}`);
+    } catch (error) {
+      // RPC hiccups leave the row pending for the next pass
+      console.error(`Error checking withdrawal ${withdrawal.id}:`, error);
+    }
+  }
+}
+
+async function runOnce() {
+  const { data, error } = await supabaseAdmin
+    .from('donations')
+    .select(`
+      id, amount, net_amount, transaction_hash, created_at,
+      donor:users!donor_id(wallet_address),
+      request:requests(chain_request_id)
+    `)
+    .eq('status', 'pending')
+    .order('last_checked_at', { ascending: true, nullsFirst: true })
+    .order('created_at', { ascending: true })
+    .limit(BATCH_SIZE);
+
+  if (error) throw error;
+
+  for (const donation of (data || []) as unknown as PendingDonation[]) {
+    try {
+      const result = await verifyDonation(donation);
+
+      if (result.status === 'pending') {
+        const { error: checkError } = await supabaseAdmin
+          .from('donations')
+          .update({ last_checked_at: new Date().toISOString() })
+          .eq('id', donation.id)
+          .eq('status', 'pending');
+
+        if (checkError) throw checkError;
+        continue;
+      }
+
+      const updates = result.status === 'completed'
+        ? { status: 'completed', net_amount: result.netAmount, verification_error: null }
+        : { status: 'failed', verification_error: result.reason };
+
+      // Guard on status so a concurrent worker can't credit the same row twice
+      const { error: updateError } = await supabaseAdmin
+        .from('donations')
+        .update({ ...updates, verified_at: new Date().toISOString() })
+        .eq('id', donation.id)
+        .eq('status', 'pending');
+
+      if (updateError) throw updateError;
+
+      console.log(`Donation ${donation.id} ${result.status}${result.status === 'failed' ? `: ${result.reason}` : ''}`);
+    } catch (error) {
+      // RPC hiccups leave the row pending for the next pass
+      console.error(`Error verifying donation ${donation.id}:`, error);
+    }
+  }
+
+  await expireWithdrawals();
+}
+
+async function main() {
+  const once = process.argv.includes('--once');
+
+  for (;;) {
+    try {
+      await runOnce();
+    } catch (error) {
+      if (once) throw error;
+      // Transient RPC/database errors: retry on the next pass
+      console.error('Donation verification error:', error);
+    }
+
+    if (once) break;
+    await sleep(POLL_INTERVAL_MS);
+  }
+}
+
+main().catch((error) => {
+  console.error('Donation verification worker crashed:', error);
+  process.exit(1);
+});
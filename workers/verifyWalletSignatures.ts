@@ -0,0 +1,112 @@
+/*
+  # Wallet ownership (Sign-In With Ethereum) worker
+
+  The app asks create_wallet_challenge() for an EIP-4361 message, has the
+  user sign it with their wallet and submits the signature. This worker
+  recovers the signer and calls complete_wallet_challenge(), which only sets
+  `users.wallet_address` / `wallet_verified_at` when:
+
+    - the message is for one of SIWE_DOMAINS (default: the host of APP_URL)
+    - the claimed address is EIP-55 checksummed
+    - the signature recovers to that address
+
+  Anything else marks the challenge `failed` with the reason. Users are
+  waiting on the result, so the default poll interval is short.
+
+  Usage:
+    npm run worker:verify-wallets             # poll forever
+    npm run worker:verify-wallets -- --once   # single pass (cron, local testing)
+*/
+import { ethers } from 'ethers';
+import { supabaseAdmin } from './lib/supabaseAdmin';
+import { sleep } from './lib/sleep';
+import { numberEnv } from './lib/env';
+
+const POLL_INTERVAL_MS = numberEnv('WALLET_POLL_INTERVAL_MS', 3000);
+const BATCH_SIZE = 50;
+const ALLOWED_DOMAINS = (process.env.SIWE_DOMAINS || new URL(process.env.APP_URL || 'http://localhost:5173').host)
+  .split(',')
+  .map((domain) => domain.trim())
+  .filter(Boolean);
+
+interface SubmittedChallenge {
+  id: string;
+  address: string;
+  message: string;
+  signature: string;
+}
+
+// Returns why the challenge fails, or null when the signature proves ownership
+function checkChallenge(challenge: SubmittedChallenge): string | null {
+  const [header, address] = challenge.message.split('\n');
+  const domain = header.replace(/ wants you to sign in with your Ethereum account:$/, '');
+
+  if (!ALLOWED_DOMAINS.includes(domain)) {
+    return `Signed for unexpected domain ${domain}`;
+  }
+
+  if (address !== challenge.address || !ethers.isAddress(address) || ethers.getAddress(address) !== address) {
+    return 'Address is not EIP-55 checksummed';
+  }
+
+  let signer: string;
+  try {
+    signer = ethers.verifyMessage(challenge.message, challenge.signature);
+  } catch {
+    return 'Signature could not be recovered';
+  }
+
+  return signer === address ? null : `Signed by ${signer}, not ${address}`;
+}
+
+async function runOnce() {
+  const { data, error } = await supabaseAdmin
+    .from('wallet_challenges')
+    .select('id, address, message, signature')
+    .eq('status', 'submitted')
+    .order('issued_at', { ascending: true })
+    .limit(BATCH_SIZE);
+
+  if (error) throw error;
+
+  for (const challenge of (data || []) as SubmittedChallenge[]) {
+    try {
+      const reason = checkChallenge(challenge);
+
+      const { error: completeError } = await supabaseAdmin.rpc('complete_wallet_challenge', {
+        p_challenge_id: challenge.id,
+        p_error: reason,
+      });
+
+      if (completeError) throw completeError;
+
+      console.log(`Wallet challenge ${challenge.id} ${reason ? `failed: ${reason}` : `verified ${challenge.address}`}`);
+    } catch (error) {
+      // Leave the challenge submitted for the next pass
+      console.error(`Error verifying wallet challenge ${challenge.id}:`, error);
+    }
+  }
+}
+
+async function main() {
+  const once = process.argv.includes('--once');
+  console.log(`Verifying wallet signatures for ${ALLOWED_DOMAINS.join(', ')}`);
+
+  for (;;) {
+    try {
+      await runOnce();
+    } catch (error) {
+      if (once) throw error;
+      // Transient RPC/database errors: retry on the next pass
+      console.error('Wallet verification error:', error);
+    }
+
+    if (once) break;
+    await sleep(POLL_INTERVAL_MS);
+  }
+}
+
+main().catch((error) => {
+  console.error('Wallet verification worker crashed:', error);
+  process.exit(1);
+});